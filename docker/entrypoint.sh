@@ -2,7 +2,7 @@
 # Cyrus Container Entrypoint
 #
 # This script prepares the container environment before starting Cyrus:
-# 1. Validates required environment variables
+# 1. Loads mounted secrets and validates required environment variables
 # 2. Creates symlink for host path compatibility
 # 3. Configures git identity and safe directories
 # 4. Sets up SSH keys if mounted
@@ -36,8 +36,18 @@ log_error() {
 }
 
 # -----------------------------------------------------------------------------
-# 1. Validate required environment variables
+# 1. Load mounted secrets and validate required environment variables
 # -----------------------------------------------------------------------------
+# cyrus-docker mounts secrets from an encrypted backend as a file of shell
+# assignments instead of passing them as container environment
+SECRETS_FILE=/run/cyrus/secrets.env
+if [ -f "$SECRETS_FILE" ] && [ -s "$SECRETS_FILE" ]; then
+    set -a
+    . "$SECRETS_FILE"
+    set +a
+    log_info "Loaded secrets from $SECRETS_FILE"
+fi
+
 log_info "Validating environment variables..."
 
 # Check for Claude authentication (one of these must be set)
@@ -219,10 +229,17 @@ cat > "$CYRUS_ENV_FILE" << EOF
 
 EOF
 
+# Secrets injected by cyrus-docker from an encrypted backend stay in the
+# process environment only and are not written to disk
+SECRET_VARS=" ANTHROPIC_API_KEY CLAUDE_CODE_OAUTH_TOKEN LINEAR_CLIENT_SECRET LINEAR_WEBHOOK_SECRET LINEAR_ADMIN_API_KEY NGROK_AUTHTOKEN CLOUDFLARED_TUNNEL_TOKEN GITHUB_TOKEN "
+
 # Helper function to write env var if set
 write_env() {
     local var_name="$1"
     local var_value="${!var_name}"
+    if [ "$CYRUS_SECRETS_INJECTED" = "true" ] && [[ "$SECRET_VARS" == *" $var_name "* ]]; then
+        return
+    fi
     if [ -n "$var_value" ]; then
         echo "${var_name}=${var_value}" >> "$CYRUS_ENV_FILE"
     fi
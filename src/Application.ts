@@ -1,10 +1,61 @@
 import { existsSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
+import inquirer from "inquirer";
+import {
+	BASE_IMAGE,
+	DEFAULT_TUNNEL_PROVIDER,
+	VAULT_PASSPHRASE_ENV,
+} from "./config/constants.js";
+import type {
+	DeploymentProfile,
+	EnvConfig,
+	ToolsFingerprint,
+	TunnelProviderName,
+} from "./config/types.js";
+import { BackupService } from "./services/BackupService.js";
 import { DockerService } from "./services/DockerService.js";
 import { Logger } from "./services/Logger.js";
+import { ProfileService } from "./services/ProfileService.js";
+import {
+	type SecretsProvider,
+	createSecretsProvider,
+} from "./services/SecretsProvider.js";
 import { StateService } from "./services/StateService.js";
+import type { ToolConfigService } from "./services/ToolConfigService.js";
+import {
+	createTunnelProvider,
+	parseTunnelProviderName,
+	resolveTunnelProviderName,
+} from "./services/TunnelProvider.js";
 import { TunnelService } from "./services/TunnelService.js";
+import { expandHomePath } from "./utils/paths.js";
+
+/**
+ * Options for creating the application context
+ */
+export interface ApplicationOptions {
+	/** Deployment profile name (defaults to the default profile) */
+	profile?: string;
+	/** Tunnel provider override (e.g. from --tunnel) */
+	tunnelProvider?: TunnelProviderName;
+	/** Reserved ngrok domain override (e.g. from --domain) */
+	ngrokDomain?: string;
+	/** Log to stderr so stdout carries only machine output (e.g. --json) */
+	logToStderr?: boolean;
+}
+
+/**
+ * Result of the prerequisite checks
+ */
+export interface Prerequisites {
+	docker: boolean;
+	dockerCompose: boolean;
+	/** Docker Compose version, when it could be read */
+	composeVersion?: string;
+	/** Whether the selected tunnel provider is installed */
+	tunnel: boolean;
+}
 
 /**
  * Main application context for cyrus-docker CLI
@@ -13,29 +64,153 @@ import { TunnelService } from "./services/TunnelService.js";
 export class Application {
 	public readonly logger: Logger;
 	public readonly state: StateService;
-	public readonly tunnel: TunnelService;
+	/** Replaced once tunnel credentials are loaded from a secrets backend */
+	public tunnel: TunnelService;
 	public readonly docker: DockerService;
+	public readonly profiles: ProfileService;
+	public readonly profile: DeploymentProfile;
 	public readonly version: string;
 	public readonly dockerDir: string;
+	/** Host port of this profile's container (and tunnel target) */
+	public readonly hostPort: number;
+
+	private readonly tunnelProviderName: TunnelProviderName;
+	private readonly ngrokDomain?: string;
+	private secretsProvider?: SecretsProvider | null;
+	private secrets?: EnvConfig;
 
-	constructor(version: string) {
-		this.logger = new Logger();
+	constructor(version: string, options: ApplicationOptions = {}) {
+		this.logger = new Logger(undefined, { stderr: options.logToStderr });
 		this.version = version;
 
 		// Resolve the bundled docker directory
-		this.dockerDir = this.resolveDockerDir();
+		this.dockerDir = Application.resolveDockerDir();
+
+		// Resolve the deployment profile
+		this.profiles = new ProfileService(this.logger);
+		this.profile = this.profiles.resolve(options.profile);
 
 		// Initialize services
-		this.state = new StateService(this.logger);
-		this.tunnel = new TunnelService(this.logger);
-		this.docker = new DockerService(this.dockerDir, this.logger);
+		this.state = new StateService(this.logger, {
+			configDir: this.profile.configDir,
+			stateFile: this.profile.stateFile,
+		});
+		this.docker = this.getDockerService();
+		this.hostPort = this.docker.getHostPort();
+
+		// A running instance keeps using the provider it was started with
+		const env = this.docker.readEnvFile();
+		if (options.ngrokDomain) {
+			env.NGROK_DOMAIN = options.ngrokDomain;
+		}
+		if (env.TUNNEL_PROVIDER && !parseTunnelProviderName(env.TUNNEL_PROVIDER)) {
+			this.logger.warn(
+				`Unknown TUNNEL_PROVIDER "${env.TUNNEL_PROVIDER}" in .env.docker, using ${DEFAULT_TUNNEL_PROVIDER}`,
+			);
+		}
+		this.ngrokDomain = options.ngrokDomain;
+		this.tunnelProviderName = resolveTunnelProviderName(
+			options.tunnelProvider ?? this.state.getTunnelProvider(),
+			env,
+		);
+		this.tunnel = new TunnelService(
+			this.logger,
+			createTunnelProvider(this.tunnelProviderName, env, this.hostPort),
+		);
+	}
+
+	/**
+	 * Get the secrets backend selected in .env.docker
+	 * Returns null when secrets are kept in .env.docker itself
+	 */
+	getSecretsProvider(): SecretsProvider | null {
+		if (this.secretsProvider === undefined) {
+			this.secretsProvider = createSecretsProvider(
+				this.docker.readEnvFile(),
+				this.logger,
+				{
+					vaultFile: this.profile.vaultFile,
+					getPassphrase: () => this.getVaultPassphrase(),
+				},
+			);
+		}
+		return this.secretsProvider;
+	}
+
+	/**
+	 * Read secrets from the secrets backend (once per run)
+	 * The tunnel is recreated so it picks up tunnel credentials
+	 */
+	async loadSecrets(): Promise<EnvConfig> {
+		const provider = this.getSecretsProvider();
+		if (!provider) {
+			return {};
+		}
+		if (!this.secrets) {
+			this.secrets = await provider.read();
+			const env = { ...this.docker.readEnvFile(), ...this.secrets };
+			if (this.ngrokDomain) {
+				env.NGROK_DOMAIN = this.ngrokDomain;
+			}
+			this.tunnel = new TunnelService(
+				this.logger,
+				createTunnelProvider(this.tunnelProviderName, env, this.hostPort),
+			);
+		}
+		return { ...this.secrets };
+	}
+
+	/**
+	 * Read .env.docker together with the secrets backend's secrets
+	 */
+	async readEnv(): Promise<EnvConfig> {
+		const secrets = await this.loadSecrets();
+		return { ...this.docker.readEnvFile(), ...secrets };
+	}
+
+	/**
+	 * Get the vault passphrase from the environment or a prompt
+	 */
+	private async getVaultPassphrase(): Promise<string> {
+		const passphrase = process.env[VAULT_PASSPHRASE_ENV];
+		if (passphrase) {
+			return passphrase;
+		}
+		if (!process.stdin.isTTY) {
+			throw new Error(
+				`The secrets vault is locked; set ${VAULT_PASSPHRASE_ENV} or run interactively`,
+			);
+		}
+		const answer = await inquirer.prompt<{ passphrase: string }>([
+			{
+				type: "password",
+				name: "passphrase",
+				message: "Vault passphrase:",
+				mask: "*",
+			},
+		]);
+		return answer.passphrase;
+	}
+
+	/**
+	 * Move files left by older versions to where this version expects them
+	 * Run once per invocation, before any application context is created
+	 */
+	static migrateLegacyFiles(logger: Logger = new Logger()): void {
+		const dockerDir = Application.resolveDockerDir();
+		const profile = new ProfileService(logger).resolve();
+
+		// Older versions kept credentials inside the installed package
+		new DockerService(dockerDir, logger, {
+			envFile: profile.envFile,
+		}).migrateEnvFile(join(dockerDir, ".env.docker"));
 	}
 
 	/**
 	 * Resolve the path to the bundled docker directory
 	 * When installed via npm, this will be in the package's docker/ folder
 	 */
-	private resolveDockerDir(): string {
+	private static resolveDockerDir(): string {
 		// Get the directory of the current module
 		const __filename = fileURLToPath(import.meta.url);
 		const __dirname = dirname(__filename);
@@ -51,83 +226,120 @@ export class Application {
 		throw new Error(`Docker directory not found. Expected at: ${dockerDir}`);
 	}
 
+	/**
+	 * Get the state holding the image rollback pointer
+	 * Every profile runs the same image built from the same tools.yml, so a
+	 * rollback is global and kept in the default profile's state
+	 */
+	getImageState(): StateService {
+		if (this.profile.isDefault) {
+			return this.state;
+		}
+		const defaultProfile = this.profiles.resolve();
+		return new StateService(this.logger, {
+			configDir: defaultProfile.configDir,
+			stateFile: defaultProfile.stateFile,
+		});
+	}
+
 	/**
 	 * Get a docker service with a custom docker directory
 	 * Useful when user wants to use a different docker setup
 	 */
 	getDockerService(customDir?: string): DockerService {
-		return customDir ? new DockerService(customDir, this.logger) : this.docker;
+		return new DockerService(customDir ?? this.dockerDir, this.logger, {
+			containerName: this.profile.containerName,
+			projectName: this.profile.projectName,
+			envFile: this.profile.envFile,
+			cyrusHome: this.profile.cyrusHome,
+			getSecrets: () => this.loadSecrets(),
+		});
 	}
 
 	/**
-	 * Check prerequisites for running cyrus-docker
+	 * Get the backup service for this profile's data directory
+	 * BACKUP_DIR in .env.docker moves backups off the default location
 	 */
-	async checkPrerequisites(): Promise<{
-		docker: boolean;
-		dockerCompose: boolean;
-		ngrok: boolean;
-	}> {
-		const docker = await this.docker.checkDocker();
-		const dockerCompose = await this.docker.checkDockerCompose();
-		const ngrok = await this.checkNgrok();
+	getBackupService(): BackupService {
+		const backupDir = this.docker.readEnvFile().BACKUP_DIR;
+		return new BackupService(this.logger, this.docker, {
+			backupsDir: backupDir
+				? expandHomePath(backupDir)
+				: this.profile.backupsDir,
+			cyrusHome: this.profile.cyrusHome,
+			profile: this.profile.name,
+			version: this.version,
+		});
+	}
 
-		return { docker, dockerCompose, ngrok };
+	/**
+	 * Compute the tools image fingerprint
+	 * Uses the current local base image unless a base image ID is given
+	 */
+	async getToolsFingerprint(
+		tools: ToolConfigService,
+		baseImageId?: string,
+	): Promise<ToolsFingerprint | null> {
+		return tools.getFingerprint({
+			baseDockerfile: this.docker.getBaseDockerfileHash(),
+			baseImage:
+				baseImageId ?? (await this.docker.getImageId(BASE_IMAGE)) ?? "",
+			version: this.version,
+		});
 	}
 
 	/**
-	 * Check if ngrok is installed
+	 * Check prerequisites for running cyrus-docker
 	 */
-	private async checkNgrok(): Promise<boolean> {
-		try {
-			const { execa } = await import("execa");
-			await execa("which", ["ngrok"], { stdio: "pipe" });
-			return true;
-		} catch {
-			return false;
-		}
+	async checkPrerequisites(): Promise<Prerequisites> {
+		const docker = await this.docker.checkDocker();
+		const dockerCompose = await this.docker.checkDockerCompose();
+		const composeVersion = dockerCompose
+			? ((await this.docker.getComposeVersion()) ?? undefined)
+			: undefined;
+		const tunnel = await this.tunnel.isInstalled();
+
+		return { docker, dockerCompose, composeVersion, tunnel };
 	}
 
 	/**
 	 * Print prerequisite status
 	 */
-	printPrerequisiteStatus(prereqs: {
-		docker: boolean;
-		dockerCompose: boolean;
-		ngrok: boolean;
-	}): void {
+	printPrerequisiteStatus(prereqs: Prerequisites): void {
 		this.logger.header("Prerequisites");
 		this.logger.status("Docker", prereqs.docker);
 		this.logger.status("Docker Compose", prereqs.dockerCompose);
-		this.logger.status("ngrok", prereqs.ngrok);
+		this.logger.status(
+			`Tunnel (${this.tunnel.getDisplayName()})`,
+			prereqs.tunnel,
+		);
 		this.logger.blank();
 	}
 
 	/**
 	 * Check if all prerequisites are met
 	 */
-	allPrerequisitesMet(prereqs: {
-		docker: boolean;
-		dockerCompose: boolean;
-		ngrok: boolean;
-	}): boolean {
-		return prereqs.docker && prereqs.dockerCompose && prereqs.ngrok;
+	allPrerequisitesMet(prereqs: Prerequisites): boolean {
+		return prereqs.docker && prereqs.dockerCompose && prereqs.tunnel;
 	}
 
 	/**
 	 * Print missing prerequisites instructions
 	 */
-	printMissingPrerequisites(prereqs: {
-		docker: boolean;
-		dockerCompose: boolean;
-		ngrok: boolean;
-	}): void {
+	printMissingPrerequisites(prereqs: Prerequisites): void {
 		if (!prereqs.docker || !prereqs.dockerCompose) {
 			this.logger.error("Docker is not installed or not running");
 			this.logger.raw("  Install from: https://docs.docker.com/get-docker/");
 		}
-		if (!prereqs.ngrok) {
-			this.logger.error("ngrok is not installed");
-			this.logger.raw("  Install from: https://ngrok.com/download");
+		if (!prereqs.tunnel) {
+			this.logger.error(`${this.tunnel.getDisplayName()} is not installed`);
+			const installUrl = this.tunnel.getInstallUrl();
+			if (installUrl) {
+				this.logger.raw(`  Install from: ${installUrl}`);
+			}
+			this.logger.raw(
+				"  Or choose another provider with TUNNEL_PROVIDER in .env.docker or 'start --tunnel'",
+			);
 		}
 	}
 }
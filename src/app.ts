@@ -3,20 +3,71 @@
 import { readFileSync } from "node:fs";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
-import { Command } from "commander";
-import { Application } from "./Application.js";
+import { Command, Option } from "commander";
+import { Application, type ApplicationOptions } from "./Application.js";
 import { AddRepoCommand } from "./commands/AddRepoCommand.js";
 import { AuthCommand } from "./commands/AuthCommand.js";
+import { BackupCreateCommand } from "./commands/BackupCreateCommand.js";
+import { BackupListCommand } from "./commands/BackupListCommand.js";
+import { BackupPruneCommand } from "./commands/BackupPruneCommand.js";
+import { BackupRestoreCommand } from "./commands/BackupRestoreCommand.js";
 import { BuildCommand } from "./commands/BuildCommand.js";
+import { ConfigEditCommand } from "./commands/ConfigEditCommand.js";
+import { ConfigGetCommand } from "./commands/ConfigGetCommand.js";
+import { ConfigListCommand } from "./commands/ConfigListCommand.js";
+import { ConfigSetCommand } from "./commands/ConfigSetCommand.js";
+import { DoctorCommand } from "./commands/DoctorCommand.js";
+import { ExportCommand } from "./commands/ExportCommand.js";
+import { ImagesListCommand } from "./commands/ImagesListCommand.js";
+import { ImagesPruneCommand } from "./commands/ImagesPruneCommand.js";
+import { ImagesRollbackCommand } from "./commands/ImagesRollbackCommand.js";
+import { ImportCommand } from "./commands/ImportCommand.js";
 import { InitCommand } from "./commands/InitCommand.js";
 import { LogsCommand } from "./commands/LogsCommand.js";
 import { RestartCommand } from "./commands/RestartCommand.js";
+import { SecretsInitCommand } from "./commands/SecretsInitCommand.js";
+import { SecretsListCommand } from "./commands/SecretsListCommand.js";
+import { SecretsSetCommand } from "./commands/SecretsSetCommand.js";
 import { ShellCommand } from "./commands/ShellCommand.js";
 import { StartCommand } from "./commands/StartCommand.js";
 import { StatusCommand } from "./commands/StatusCommand.js";
 import { StopCommand } from "./commands/StopCommand.js";
 import { ToolsCommand } from "./commands/ToolsCommand.js";
-import { DEFAULT_LOG_LINES } from "./config/constants.js";
+import { ToolsDetectCommand } from "./commands/ToolsDetectCommand.js";
+import { ToolsDockerfileCommand } from "./commands/ToolsDockerfileCommand.js";
+import { ToolsEditCommand } from "./commands/ToolsEditCommand.js";
+import { ToolsListCommand } from "./commands/ToolsListCommand.js";
+import { ToolsShowCommand } from "./commands/ToolsShowCommand.js";
+import { ToolsValidateCommand } from "./commands/ToolsValidateCommand.js";
+import { WatchCommand } from "./commands/WatchCommand.js";
+import {
+	BACKUP_KEEP,
+	DEFAULT_LOG_LINES,
+	ENV_CONFIG_FIELDS,
+	IMAGE_HISTORY_KEEP,
+	INIT_ENV_PREFIX,
+	PROFILE_ENV_VAR,
+	WATCHDOG_INTERVAL,
+} from "./config/constants.js";
+import type {
+	BackupCreateOptions,
+	BackupRestoreOptions,
+	ConfigChangeOptions,
+	ConfigListOptions,
+	EnvConfig,
+	ExportOptions,
+	ImportOptions,
+	SecretsInitOptions,
+	ToolChanges,
+	ToolsDetectOptions,
+	ToolsOutputOptions,
+} from "./config/types.js";
+import { envKeyToFlag } from "./services/InitAnswersService.js";
+import { Logger } from "./services/Logger.js";
+import {
+	TUNNEL_PROVIDERS,
+	parseTunnelProviderName,
+} from "./services/TunnelProvider.js";
 
 // Get the directory of the current module for reading package.json
 const __filename = fileURLToPath(import.meta.url);
@@ -33,53 +84,161 @@ const program = new Command();
 program
 	.name("cyrus-docker")
 	.description("CLI tool for managing Docker-based Cyrus deployments")
-	.version(packageJson.version);
+	.version(packageJson.version)
+	.option(
+		"-p, --profile <name>",
+		`Deployment profile to operate on (or set ${PROFILE_ENV_VAR})`,
+	);
+
+/**
+ * Create the application context for the selected profile
+ */
+function createApp(options: ApplicationOptions = {}): Application {
+	const { profile } = program.opts<{ profile?: string }>();
+	Application.migrateLegacyFiles(
+		new Logger(undefined, { stderr: options.logToStderr }),
+	);
+	return new Application(packageJson.version, {
+		profile: profile ?? process.env[PROFILE_ENV_VAR],
+		...options,
+	});
+}
 
 // init - Interactive setup wizard
-program
+const initCommand = program
 	.command("init")
 	.description("Interactive setup wizard for credentials and configuration")
-	.action(async () => {
-		const app = new Application(packageJson.version);
-		await new InitCommand(app).execute();
-	});
+	.option(
+		"--non-interactive",
+		`Read answers from flags, ${INIT_ENV_PREFIX}* env vars and --answers instead of prompting`,
+	)
+	.option("--answers <file>", "YAML or JSON answers file")
+	.option(
+		"--presets <list>",
+		"Comma-separated tool presets to write to tools.yml",
+	)
+	.option("--force", "Overwrite an existing .env.docker");
+
+// One flag per .env.docker setting, e.g. --linear-client-id
+const initValueOptions = (
+	Object.entries(ENV_CONFIG_FIELDS) as Array<[keyof EnvConfig, string]>
+).map(([key, description]) => {
+	const option = new Option(`--${envKeyToFlag(key)} <value>`, description);
+	initCommand.addOption(option);
+	return { key, attribute: option.attributeName() };
+});
+
+initCommand.action(async (options: Record<string, string | boolean>) => {
+	const values: EnvConfig = {};
+	for (const { key, attribute } of initValueOptions) {
+		const value = options[attribute];
+		if (typeof value === "string") {
+			values[key] = value;
+		}
+	}
 
-// start - Start ngrok tunnel and Docker container
+	const app = createApp();
+	await new InitCommand(app, {
+		nonInteractive: options.nonInteractive === true,
+		answersFile: options.answers as string | undefined,
+		presets: options.presets as string | undefined,
+		force: options.force === true,
+		values,
+	}).execute();
+});
+
+// start - Start tunnel and Docker container
 program
 	.command("start")
-	.description("Start ngrok tunnel and Docker container")
+	.description("Start tunnel and Docker container")
 	.option("-d, --detach", "Run in detached mode (don't follow logs)")
 	.option("-b, --build", "Force rebuild of the Docker image")
-	.action(async (options: { detach?: boolean; build?: boolean }) => {
-		const app = new Application(packageJson.version);
-		await new StartCommand(app, { detach: options.detach, build: options.build }).execute();
-	});
+	.addOption(
+		new Option(
+			"-t, --tunnel <provider>",
+			"Tunnel provider (overrides TUNNEL_PROVIDER in .env.docker)",
+		).choices([...TUNNEL_PROVIDERS, "none"]),
+	)
+	.option(
+		"--domain <domain>",
+		"Reserved ngrok domain for a stable URL (saved to .env.docker)",
+	)
+	.action(
+		async (options: {
+			detach?: boolean;
+			build?: boolean;
+			tunnel?: string;
+			domain?: string;
+		}) => {
+			const app = createApp({
+				tunnelProvider: parseTunnelProviderName(options.tunnel),
+				ngrokDomain: options.domain,
+			});
+			await new StartCommand(app, {
+				detach: options.detach,
+				build: options.build,
+				domain: options.domain,
+			}).execute();
+		},
+	);
 
-// stop - Stop Docker container and ngrok tunnel
+// stop - Stop Docker container and tunnel
 program
 	.command("stop")
-	.description("Stop Docker container and ngrok tunnel")
+	.description("Stop Docker container and tunnel")
 	.action(async () => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new StopCommand(app).execute();
 	});
 
-// restart - Restart only the Docker container (keeps ngrok tunnel)
+// restart - Restart only the Docker container (keeps tunnel)
 program
 	.command("restart")
-	.description("Restart only the Docker container (keeps ngrok tunnel running)")
+	.description("Restart only the Docker container (keeps tunnel running)")
 	.action(async () => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new RestartCommand(app).execute();
 	});
 
 // status - Show container and tunnel status
 program
 	.command("status")
-	.description("Show container and tunnel status")
+	.description(
+		"Show container and tunnel status (exit code 0 healthy, 1 degraded, 2 down)",
+	)
+	.option("--json", "Print the status as JSON")
+	.action(async (options: { json?: boolean }) => {
+		const app = createApp({ logToStderr: options.json });
+		await new StatusCommand(app, { json: options.json }).execute();
+	});
+
+// doctor - Diagnose setup problems
+program
+	.command("doctor")
+	.description("Run diagnostic checks and suggest fixes")
 	.action(async () => {
-		const app = new Application(packageJson.version);
-		await new StatusCommand(app).execute();
+		const app = createApp();
+		await new DoctorCommand(app).execute();
+	});
+
+// watch - Supervise tunnel and container
+program
+	.command("watch")
+	.description(
+		"Watch the tunnel and container, restarting them and updating CYRUS_BASE_URL when needed",
+	)
+	.option(
+		"-i, --interval <seconds>",
+		`Seconds between checks (default: ${WATCHDOG_INTERVAL})`,
+		String(WATCHDOG_INTERVAL),
+	)
+	.option("--once", "Run a single check and exit (for cron)")
+	.action(async (options: { interval?: string; once?: boolean }) => {
+		const app = createApp();
+		await new WatchCommand(app, {
+			interval: options.interval ? Number(options.interval) : undefined,
+			once: options.once,
+		}).execute();
 	});
 
 // logs - Show container logs
@@ -93,7 +252,7 @@ program
 		String(DEFAULT_LOG_LINES),
 	)
 	.action(async (options: { follow?: boolean; lines?: string }) => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new LogsCommand(app, {
 			follow: options.follow,
 			lines: options.lines ? parseInt(options.lines, 10) : undefined,
@@ -105,7 +264,7 @@ program
 	.command("shell")
 	.description("Open interactive bash shell in the container")
 	.action(async () => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new ShellCommand(app).execute();
 	});
 
@@ -114,7 +273,7 @@ program
 	.command("auth")
 	.description("Run Linear OAuth authentication flow")
 	.action(async () => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new AuthCommand(app).execute();
 	});
 
@@ -125,27 +284,351 @@ program
 		"Add a repository to Cyrus. URL is the git clone address, workspace is the Linear workspace name.",
 	)
 	.action(async (url?: string, workspace?: string) => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new AddRepoCommand(app, url, workspace).execute();
 	});
 
+/**
+ * Add the options naming presets and packages for tools add/remove
+ */
+function withToolChangeOptions(command: Command): Command {
+	return command
+		.option("--preset <names...>", "Tool presets (comma-separated or repeated)")
+		.option("--apt <packages...>", "APT packages (name or name@version)")
+		.option("--npm <packages...>", "Global npm packages")
+		.option("--pip <packages...>", "Python packages")
+		.option("--cargo <crates...>", "Rust crates")
+		.option("--command <commands...>", "Shell commands run during the build");
+}
+
+/**
+ * Collect tools add/remove options into tools.yml changes
+ * Package lists may be comma-separated; commands are kept whole
+ */
+function toToolChanges(options: {
+	preset?: string[];
+	apt?: string[];
+	npm?: string[];
+	pip?: string[];
+	cargo?: string[];
+	command?: string[];
+}): ToolChanges {
+	const split = (values?: string[]) =>
+		values
+			?.flatMap((value) => value.split(","))
+			.map((value) => value.trim())
+			.filter(Boolean);
+
+	return {
+		presets: split(options.preset),
+		apt: split(options.apt),
+		npm: split(options.npm),
+		pip: split(options.pip),
+		cargo: split(options.cargo),
+		commands: options.command,
+	};
+}
+
 // tools - Configure container development tools
-program
+const tools = program
 	.command("tools")
-	.description("Configure development tools in the container")
+	.description(
+		"Configure development tools in the container (interactive without a subcommand)",
+	)
 	.action(async () => {
-		const app = new Application(packageJson.version);
+		const app = createApp();
 		await new ToolsCommand(app).execute();
 	});
 
+tools
+	.command("list")
+	.description("List tool presets, marking those selected in tools.yml")
+	.option("--json", "Print as JSON")
+	.action(async (options: ToolsOutputOptions) => {
+		const app = createApp();
+		await new ToolsListCommand(app, options).execute();
+	});
+
+withToolChangeOptions(
+	tools.command("add").description("Add presets and packages to tools.yml"),
+).action(async (options) => {
+	const app = createApp();
+	await new ToolsEditCommand(app, "add", toToolChanges(options)).execute();
+});
+
+withToolChangeOptions(
+	tools
+		.command("remove")
+		.description("Remove presets and packages from tools.yml"),
+).action(async (options) => {
+	const app = createApp();
+	await new ToolsEditCommand(app, "remove", toToolChanges(options)).execute();
+});
+
+tools
+	.command("show")
+	.description("Show the resolved tools configuration (presets expanded)")
+	.option("--json", "Print as JSON")
+	.action(async (options: ToolsOutputOptions) => {
+		const app = createApp();
+		await new ToolsShowCommand(app, options).execute();
+	});
+
+tools
+	.command("validate")
+	.description("Check tools.yml and custom presets for errors")
+	.action(async () => {
+		const app = createApp();
+		await new ToolsValidateCommand(app).execute();
+	});
+
+tools
+	.command("detect [path-or-git-url]")
+	.description(
+		"Suggest presets and packages from a repository's project files (defaults to the repos Cyrus cloned)",
+	)
+	.option("-y, --yes", "Add the suggestions to tools.yml without asking")
+	.option("--json", "Print the detection as JSON without changing tools.yml")
+	.action(async (target: string | undefined, options: ToolsDetectOptions) => {
+		const app = createApp();
+		await new ToolsDetectCommand(app, target, options).execute();
+	});
+
+tools
+	.command("dockerfile")
+	.description("Print the Dockerfile generated from tools.yml")
+	.action(async () => {
+		const app = createApp();
+		await new ToolsDockerfileCommand(app).execute();
+	});
+
+// config - Read and change .env.docker settings
+const config = program
+	.command("config")
+	.description("Show and change .env.docker settings");
+
+config
+	.command("list")
+	.description("List settings with secrets masked")
+	.option("--json", "Print as JSON")
+	.option("-a, --all", "Include settings that are not set, with descriptions")
+	.option("--reveal", "Show secret values")
+	.action(async (options: ConfigListOptions) => {
+		const app = createApp();
+		await new ConfigListCommand(app, options).execute();
+	});
+
+config
+	.command("get <key>")
+	.description("Print a setting's value (unmasked)")
+	.action(async (key: string) => {
+		const app = createApp();
+		await new ConfigGetCommand(app, key).execute();
+	});
+
+config
+	.command("set <key> <value>")
+	.description("Set a setting (an empty value clears it)")
+	.option("-f, --force", "Skip validation and allow unknown settings")
+	.option("-y, --yes", "Restart the container without asking if needed")
+	.action(async (key: string, value: string, options: ConfigChangeOptions) => {
+		const app = createApp();
+		await new ConfigSetCommand(app, { [key]: value }, options).execute();
+	});
+
+config
+	.command("unset <key>")
+	.description("Remove a setting")
+	.option("-y, --yes", "Restart the container without asking if needed")
+	.action(async (key: string, options: ConfigChangeOptions) => {
+		const app = createApp();
+		await new ConfigSetCommand(app, { [key]: null }, options).execute();
+	});
+
+config
+	.command("edit")
+	.description("Open .env.docker in $EDITOR")
+	.option("-y, --yes", "Restart the container without asking if needed")
+	.action(async (options: ConfigChangeOptions) => {
+		const app = createApp();
+		await new ConfigEditCommand(app, options).execute();
+	});
+
+// secrets - Encrypted secret storage
+const secrets = program
+	.command("secrets")
+	.description("Keep secrets in an encrypted vault instead of .env.docker");
+
+secrets
+	.command("init")
+	.description("Create the vault and move secrets out of .env.docker")
+	.option(
+		"--key-file [path]",
+		"Unlock with a key file instead of a passphrase (created if missing)",
+	)
+	.action(async (options: SecretsInitOptions) => {
+		const app = createApp();
+		await new SecretsInitCommand(app, options).execute();
+	});
+
+secrets
+	.command("list")
+	.description("List stored secrets (names only)")
+	.action(async () => {
+		const app = createApp();
+		await new SecretsListCommand(app).execute();
+	});
+
+secrets
+	.command("set <key> [value]")
+	.description("Store a secret in the vault (prompts for the value if omitted)")
+	.option("-f, --force", "Skip validation and allow non-secret settings")
+	.option("-y, --yes", "Restart the container without asking if needed")
+	.action(
+		async (
+			key: string,
+			value: string | undefined,
+			options: ConfigChangeOptions,
+		) => {
+			const app = createApp();
+			await new SecretsSetCommand(app, key, value, options).execute();
+		},
+	);
+
+secrets
+	.command("unset <key>")
+	.description("Remove a secret from the vault")
+	.option("-y, --yes", "Restart the container without asking if needed")
+	.action(async (key: string, options: ConfigChangeOptions) => {
+		const app = createApp();
+		await new SecretsSetCommand(app, key, null, options).execute();
+	});
+
+// export - Bundle configuration for another host
+program
+	.command("export <bundle>")
+	.description("Pack .env.docker, tools.yml and presets into a .tgz bundle")
+	.option("--data", "Include the Cyrus data directory (~/.cyrus)")
+	.option("--no-secrets", "Leave secrets out of the bundle")
+	.option("--encrypt", "Encrypt secrets with a passphrase")
+	.option("-f, --force", "Overwrite an existing bundle")
+	.action(async (bundle: string, options: ExportOptions) => {
+		const app = createApp();
+		await new ExportCommand(app, bundle, options).execute();
+	});
+
+// import - Restore a bundle from 'export'
+program
+	.command("import <bundle>")
+	.description("Restore a bundle made by 'export' into this profile")
+	.option("--no-data", "Skip the bundled Cyrus data directory")
+	.option("-f, --force", "Replace existing files and ignore the version check")
+	.action(async (bundle: string, options: ImportOptions) => {
+		const app = createApp();
+		await new ImportCommand(app, bundle, options).execute();
+	});
+
+// backup - Data directory backups
+const backup = program
+	.command("backup")
+	.description("Back up, restore and prune the data directory");
+
+backup
+	.command("create")
+	.description("Archive the data directory with a checksum")
+	.option("--no-repos", "Leave out cloned repositories (repos/)")
+	.option("--no-worktrees", "Leave out session worktrees (worktrees/)")
+	.option("--no-pause", "Do not pause a running container while archiving")
+	.action(async (options: BackupCreateOptions) => {
+		const app = createApp();
+		await new BackupCreateCommand(app, options).execute();
+	});
+
+backup
+	.command("list")
+	.description("List backups, newest first")
+	.option("--json", "Print as JSON")
+	.action(async (options: ToolsOutputOptions) => {
+		const app = createApp();
+		await new BackupListCommand(app, options).execute();
+	});
+
+backup
+	.command("restore <name>")
+	.description("Replace the data directory with a backup (or 'latest')")
+	.option("-y, --yes", "Do not ask for confirmation")
+	.action(async (name: string, options: BackupRestoreOptions) => {
+		const app = createApp();
+		await new BackupRestoreCommand(app, name, options).execute();
+	});
+
+backup
+	.command("prune")
+	.description("Remove old backups")
+	.option(
+		"--keep <number>",
+		`Number of newest backups to keep (default: ${BACKUP_KEEP})`,
+		String(BACKUP_KEEP),
+	)
+	.action(async (options: { keep?: string }) => {
+		const app = createApp();
+		await new BackupPruneCommand(app, {
+			keep: options.keep ? Number(options.keep) : undefined,
+		}).execute();
+	});
+
+// images - Tagged build history
+const images = program
+	.command("images")
+	.description("List, roll back and prune tagged image builds");
+
+images
+	.command("list")
+	.description("List tagged builds with their tools hash and versions")
+	.option("--json", "Print as JSON")
+	.action(async (options: ToolsOutputOptions) => {
+		const app = createApp();
+		await new ImagesListCommand(app, options).execute();
+	});
+
+images
+	.command("rollback <tag>")
+	.description("Use an earlier build and restart the container on it")
+	.action(async (tag: string) => {
+		const app = createApp();
+		await new ImagesRollbackCommand(app, tag).execute();
+	});
+
+images
+	.command("prune")
+	.description("Remove old tagged builds (never the one in use)")
+	.option(
+		"--keep <number>",
+		`Number of newest builds to keep (default: ${IMAGE_HISTORY_KEEP})`,
+		String(IMAGE_HISTORY_KEEP),
+	)
+	.action(async (options: { keep?: string }) => {
+		const app = createApp();
+		await new ImagesPruneCommand(app, {
+			keep: options.keep ? Number(options.keep) : undefined,
+		}).execute();
+	});
+
 // build - Build Docker image
 program
 	.command("build")
 	.description("Build the Docker image (for debugging or CI)")
 	.option("-f, --force", "Force rebuild even if image is up-to-date")
-	.action(async (options: { force?: boolean }) => {
-		const app = new Application(packageJson.version);
-		await new BuildCommand(app, { force: options.force }).execute();
+	.option(
+		"--push [repository]",
+		"Push the image to a registry (defaults to the tools.yml image)",
+	)
+	.action(async (options: { force?: boolean; push?: string | boolean }) => {
+		const app = createApp();
+		await new BuildCommand(app, {
+			force: options.force,
+			push: options.push,
+		}).execute();
 	});
 
 /**
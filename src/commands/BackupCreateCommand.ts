@@ -0,0 +1,45 @@
+import type { BackupCreateOptions, BackupInfo } from "../config/types.js";
+import { formatBytes } from "../services/BackupService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Back up the Cyrus data directory
+ */
+export class BackupCreateCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: BackupCreateOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const exclude = [
+			...(this.options.repos === false ? ["repos"] : []),
+			...(this.options.worktrees === false ? ["worktrees"] : []),
+		];
+
+		this.logger.info(`Backing up ${this.app.profile.cyrusHome}...`);
+		let backup: BackupInfo;
+		try {
+			backup = await this.app.getBackupService().create({
+				exclude,
+				pause: this.options.pause !== false,
+			});
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		if (backup.paused) {
+			this.logger.info("The container was paused while archiving");
+		}
+		this.logger.success(
+			`Created ${backup.name} (${formatBytes(backup.size)})`,
+		);
+		if (backup.excluded.length > 0) {
+			this.logger.info(`Left out: ${backup.excluded.join(", ")}`);
+		}
+	}
+}
@@ -0,0 +1,58 @@
+import type { BackupInfo, ToolsOutputOptions } from "../config/types.js";
+import { formatBytes } from "../services/BackupService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * List data backups, newest first
+ */
+export class BackupListCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ToolsOutputOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const backups = this.app.getBackupService();
+		let list: BackupInfo[];
+		try {
+			list = backups.list();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		if (this.options.json) {
+			console.log(JSON.stringify(list, null, 2));
+			return;
+		}
+
+		this.logger.header("Backups");
+		this.logger.keyValue("Directory", backups.getBackupsDir(), 10);
+		this.logger.blank();
+		if (list.length === 0) {
+			this.logger.info(
+				"No backups yet. Create one with 'cyrus-docker backup create'",
+			);
+			return;
+		}
+
+		const width = Math.max(...list.map((backup) => backup.name.length));
+		for (const backup of list) {
+			const details = [
+				new Date(backup.createdAt).toLocaleString(),
+				formatBytes(backup.size).padStart(9),
+				backup.excluded.length > 0
+					? `without ${backup.excluded.join(", ")}`
+					: "complete",
+			];
+			this.logger.raw(`  ${backup.name.padEnd(width)}  ${details.join("  ")}`);
+		}
+		this.logger.blank();
+		this.logger.info(
+			"Restore one with 'cyrus-docker backup restore <name>' (or 'latest')",
+		);
+	}
+}
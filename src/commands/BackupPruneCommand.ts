@@ -0,0 +1,39 @@
+import { BACKUP_KEEP } from "../config/constants.js";
+import type { BackupInfo, BackupPruneOptions } from "../config/types.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Remove old data backups
+ */
+export class BackupPruneCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: BackupPruneOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const keep = this.options.keep ?? BACKUP_KEEP;
+		if (!Number.isInteger(keep) || keep < 0) {
+			this.exitWithError("--keep must be a whole number (0 or more)");
+		}
+
+		let removed: BackupInfo[];
+		try {
+			removed = this.app.getBackupService().prune(keep);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		if (removed.length === 0) {
+			this.logger.info(`Nothing to prune (keeping the ${keep} newest backups)`);
+			return;
+		}
+		for (const backup of removed) {
+			this.logger.success(`Removed ${backup.name}`);
+		}
+	}
+}
@@ -0,0 +1,91 @@
+import inquirer from "inquirer";
+import type {
+	BackupInfo,
+	BackupRestoreOptions,
+} from "../config/types.js";
+import type { BackupRestoreResult } from "../services/BackupService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Replace the Cyrus data directory with a backup
+ */
+export class BackupRestoreCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private name: string,
+		private options: BackupRestoreOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		this.requireNotRunning();
+		if ((await this.app.docker.getStatus()).running) {
+			this.exitWithError(
+				"The container is running. Stop it first with: cyrus-docker stop",
+			);
+		}
+
+		const backups = this.app.getBackupService();
+		const backup = backups.find(this.name);
+		if (!backup) {
+			this.exitWithError(
+				`Backup "${this.name}" not found. See 'cyrus-docker backup list'`,
+			);
+		}
+
+		const cyrusHome = this.app.profile.cyrusHome;
+		if (!this.options.yes) {
+			const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+				{
+					type: "confirm",
+					name: "confirm",
+					message: `Replace ${cyrusHome} with ${backup.name} from ${new Date(backup.createdAt).toLocaleString()}?`,
+					default: false,
+				},
+			]);
+			if (!confirm) {
+				this.logger.info("Restore cancelled");
+				return;
+			}
+		}
+
+		this.logger.info(`Restoring ${backup.name}...`);
+		let result: BackupRestoreResult;
+		try {
+			result = await backups.restore(backup);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		this.logger.success(`Restored ${cyrusHome} from ${backup.name}`);
+		this.printResult(backup, result);
+		this.logger.info("Start Cyrus with: cyrus-docker start");
+	}
+
+	/**
+	 * Explain what happened to the replaced data
+	 */
+	private printResult(backup: BackupInfo, result: BackupRestoreResult): void {
+		if (result.kept.length > 0) {
+			this.logger.info(
+				`Kept the current ${result.kept.join(", ")} (not in the backup)`,
+			);
+		}
+		const missing = backup.excluded.filter(
+			(dir) => !result.kept.includes(dir),
+		);
+		if (missing.length > 0) {
+			this.logger.warn(
+				`The backup has no ${missing.join(", ")}; Cyrus recreates them as needed`,
+			);
+		}
+		if (result.previous) {
+			this.logger.info(
+				`The replaced data is in ${result.previous}; delete it once Cyrus works`,
+			);
+		}
+	}
+}
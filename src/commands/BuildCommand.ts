@@ -1,4 +1,6 @@
+import type { ToolsFingerprint } from "../config/types.js";
 import { ToolConfigService } from "../services/ToolConfigService.js";
+import { REPOSITORY_PATTERN } from "../services/ToolConfigValidator.js";
 import { BaseCommand } from "./ICommand.js";
 
 /**
@@ -7,6 +9,8 @@ import { BaseCommand } from "./ICommand.js";
 export interface BuildOptions {
 	/** Force rebuild even if image is up-to-date */
 	force?: boolean;
+	/** Push the image to this repository (true: the tools.yml image) */
+	push?: string | boolean;
 }
 
 /**
@@ -23,17 +27,74 @@ export class BuildCommand extends BaseCommand {
 	async execute(): Promise<void> {
 		this.logger.header("Building Cyrus Docker Image");
 
+		// Fail on an invalid tools.yml before any Docker work
+		const toolConfigService = new ToolConfigService(this.logger);
+		this.requireValidToolConfig(toolConfigService);
+		const repository = this.getPushRepository(toolConfigService);
+
 		// Check prerequisites
 		await this.requirePrerequisites();
 
-		const toolConfigService = new ToolConfigService(this.logger);
+		const fingerprint = await this.app.getToolsFingerprint(toolConfigService);
+		if (repository && !fingerprint) {
+			this.exitWithError(
+				"Nothing to push: tools.yml configures no tools, and start only pulls images built from a tools configuration",
+			);
+		}
+
+		await this.buildImage(toolConfigService, fingerprint);
+
+		if (repository && fingerprint) {
+			this.logger.blank();
+			try {
+				await this.app.docker.pushImage(repository, fingerprint);
+			} catch (error) {
+				this.exitWithError(
+					`Failed to push image: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Get the repository to push to, from --push or the tools.yml image
+	 */
+	private getPushRepository(
+		toolConfigService: ToolConfigService,
+	): string | undefined {
+		if (!this.options.push) {
+			return undefined;
+		}
+		const repository =
+			typeof this.options.push === "string"
+				? this.options.push
+				: toolConfigService.readConfig()?.image;
+		if (!repository) {
+			this.exitWithError(
+				"--push needs a repository (e.g. --push localhost:5000/cyrus-tools) or an image: setting in tools.yml",
+			);
+		}
+		if (!REPOSITORY_PATTERN.test(repository)) {
+			this.exitWithError(
+				`Invalid repository "${repository}" (use registry/repo without a tag)`,
+			);
+		}
+		return repository;
+	}
+
+	/**
+	 * Build the image if needed, using custom tools if configured
+	 */
+	private async buildImage(
+		toolConfigService: ToolConfigService,
+		fingerprint: ToolsFingerprint | null,
+	): Promise<void> {
 		const toolConfig = toolConfigService.readConfig();
-		const toolsHash = toolConfigService.getConfigHash();
 
 		// Check if rebuild is needed (unless --force flag)
 		if (!this.options.force) {
 			this.logger.info("Checking if image rebuild is needed...");
-			const { needsRebuild, reason } = await this.app.docker.checkImageStatus(toolsHash);
+			const { needsRebuild, reason } = await this.app.docker.checkImageStatus(fingerprint);
 
 			if (!needsRebuild) {
 				this.logger.success(`${reason} - no rebuild needed`);
@@ -51,18 +112,26 @@ export class BuildCommand extends BaseCommand {
 
 		// When --force flag is used, do a full rebuild with no cache
 		const buildOptions = { noCache: this.options.force };
+		// The new build replaces any rolled-back image
+		this.app.getImageState().update({ rollbackTag: undefined });
 
 		// Build with tools if configured
 		if (toolConfig) {
 			const resolvedConfig = toolConfigService.resolveConfig(toolConfig);
 			if (toolConfigService.hasTools(resolvedConfig)) {
-				await this.app.docker.buildWithTools(
+				const built = await this.app.docker.buildWithTools(
 					resolvedConfig,
 					toolConfigService.generateDockerfile.bind(toolConfigService),
-					toolsHash,
-					buildOptions,
+					(baseImageId) =>
+						this.app.getToolsFingerprint(toolConfigService, baseImageId),
+					{
+						...buildOptions,
+						buildArgs: toolConfigService.getBuildArgs(resolvedConfig),
+						contextFiles:
+							toolConfigService.getCustomDockerfileSources(resolvedConfig),
+					},
 				);
-				this.printSuccess(toolsHash);
+				this.printSuccess(built?.hash ?? null);
 				return;
 			}
 		}
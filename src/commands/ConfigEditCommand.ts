@@ -0,0 +1,69 @@
+import type { ConfigChangeOptions, EnvConfig } from "../config/types.js";
+import { EnvConfigService } from "../services/EnvConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Open .env.docker in $EDITOR, check the result and offer to restart
+ * the container when a change needs it
+ */
+export class ConfigEditCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ConfigChangeOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const envConfig = new EnvConfigService(this.logger);
+		const envPath = this.app.docker.getEnvFilePath();
+
+		let before: EnvConfig;
+		try {
+			if (!this.app.docker.hasEnvFile()) {
+				// Start from the commented template
+				this.app.docker.writeEnvFile({});
+			}
+			before = this.app.docker.readEnvFile();
+			await envConfig.openInEditor(envPath);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		let after: EnvConfig;
+		try {
+			after = this.app.docker.readEnvFile();
+		} catch (error) {
+			this.exitWithError(
+				`${error instanceof Error ? error.message : String(error)}. Run 'cyrus-docker config edit' again to fix it`,
+			);
+		}
+
+		const changed = envConfig.getChangedKeys(before, after);
+		if (changed.length === 0) {
+			this.logger.info(`${envPath} unchanged`);
+			return;
+		}
+
+		// The file is saved either way, so problems are only reported
+		const values = after as Record<string, string | undefined>;
+		for (const key of changed) {
+			const value = values[key];
+			const problem =
+				value === undefined || !envConfig.isKnownKey(key)
+					? undefined
+					: envConfig.validate(key, value);
+			if (problem) {
+				this.logger.warn(problem);
+			}
+		}
+		this.logger.success(`Changed ${changed.join(", ")}`);
+
+		await this.offerRestart(
+			envConfig.getRestartKeys(changed),
+			this.options.yes,
+		);
+	}
+}
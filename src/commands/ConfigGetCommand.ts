@@ -0,0 +1,32 @@
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Print one .env.docker setting, unmasked, for use in scripts
+ */
+export class ConfigGetCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private key: string,
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		let env: Record<string, string | undefined>;
+		try {
+			env = this.app.docker.readEnvFile() as Record<string, string | undefined>;
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		const value = env[this.key];
+		if (value === undefined) {
+			this.exitWithError(
+				`${this.key} is not set in ${this.app.docker.getEnvFilePath()}`,
+			);
+		}
+		console.log(value);
+	}
+}
@@ -0,0 +1,84 @@
+import { ENV_CONFIG_FIELDS } from "../config/constants.js";
+import type { ConfigListOptions, EnvConfig } from "../config/types.js";
+import { EnvConfigService } from "../services/EnvConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * List .env.docker settings with secrets masked
+ */
+export class ConfigListCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ConfigListOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const envConfig = new EnvConfigService(this.logger);
+		let env: Record<string, string | undefined>;
+		try {
+			env = this.app.docker.readEnvFile() as Record<string, string | undefined>;
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// Known settings in their documented order, then any others
+		const known = Object.keys(ENV_CONFIG_FIELDS) as Array<keyof EnvConfig>;
+		const keys = [
+			...known.filter((key) => this.options.all || env[key] !== undefined),
+			...Object.keys(env)
+				.filter((key) => !envConfig.isKnownKey(key))
+				.sort(),
+		];
+		const show = (key: string) => {
+			const value = env[key];
+			if (value === undefined || this.options.reveal) {
+				return value;
+			}
+			return envConfig.mask(key, value);
+		};
+
+		if (this.options.json) {
+			console.log(
+				JSON.stringify(
+					Object.fromEntries(keys.map((key) => [key, show(key) ?? null])),
+					null,
+					2,
+				),
+			);
+			return;
+		}
+
+		this.logger.header("Configuration");
+		this.logger.keyValue("File", this.app.docker.getEnvFilePath(), 6);
+		this.logger.blank();
+		if (keys.length === 0) {
+			this.logger.info(
+				"No settings yet. Run 'cyrus-docker init' or 'cyrus-docker config set <key> <value>'",
+			);
+			return;
+		}
+
+		const width = Math.max(...keys.map((key) => key.length)) + 1;
+		for (const key of keys) {
+			const value = show(key);
+			const shown =
+				value === undefined ? "(not set)" : value === "" ? "(empty)" : value;
+			const description = envConfig.isKnownKey(key)
+				? ENV_CONFIG_FIELDS[key]
+				: "not used by cyrus-docker";
+			this.logger.keyValue(
+				key,
+				this.options.all ? `${shown}  - ${description}` : shown,
+				width,
+			);
+		}
+		this.logger.blank();
+		if (!this.options.reveal) {
+			this.logger.info("Secrets are masked. Use --reveal to show them");
+		}
+	}
+}
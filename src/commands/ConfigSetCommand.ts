@@ -0,0 +1,99 @@
+import { SECRET_ENV_KEYS } from "../config/constants.js";
+import type {
+	ConfigChangeOptions,
+	EnvChanges,
+	EnvConfig,
+} from "../config/types.js";
+import { EnvConfigService } from "../services/EnvConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Set or unset .env.docker settings and offer to restart the
+ * container when the change needs it
+ */
+export class ConfigSetCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private changes: Record<string, string | null>,
+		private options: ConfigChangeOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const envConfig = new EnvConfigService(this.logger);
+
+		const invalid = Object.keys(this.changes).find(
+			(key) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key),
+		);
+		if (invalid !== undefined) {
+			this.exitWithError(`Invalid setting name "${invalid}"`);
+		}
+
+		if (!this.options.force) {
+			// Unsetting a setting cyrus-docker doesn't know is always fine
+			const problems = Object.entries(this.changes).flatMap(([key, value]) => {
+				if (value === null) {
+					return [];
+				}
+				if (!envConfig.isKnownKey(key)) {
+					return [
+						`Unknown setting ${key} (see 'cyrus-docker config list --all', or use --force)`,
+					];
+				}
+				const problem = envConfig.validate(key, value);
+				return problem ? [problem] : [];
+			});
+			if (problems.length > 0) {
+				for (const problem of problems) {
+					this.logger.error(problem);
+				}
+				process.exit(1);
+			}
+		}
+
+		let before: EnvConfig;
+		let after: EnvConfig;
+		try {
+			before = this.app.docker.readEnvFile();
+			this.app.docker.writeEnvFile(this.changes as EnvChanges);
+			after = this.app.docker.readEnvFile();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// A new file also gets the template's settings; report only ours
+		const changed = envConfig
+			.getChangedKeys(before, after)
+			.filter((key) => Object.hasOwn(this.changes, key));
+		if (changed.length === 0) {
+			this.logger.info("No settings changed");
+			return;
+		}
+		const values = after as Record<string, string | undefined>;
+		for (const key of changed) {
+			const value = values[key];
+			if (value === undefined) {
+				this.logger.success(`Unset ${key}`);
+			} else {
+				this.logger.success(`Set ${key}=${envConfig.mask(key, value)}`);
+			}
+		}
+		const plaintext = changed.filter(
+			(key) =>
+				values[key] && SECRET_ENV_KEYS.includes(key as keyof EnvConfig),
+		);
+		if (plaintext.length > 0 && after.SECRETS_BACKEND === "vault") {
+			this.logger.warn(
+				`${plaintext.join(", ")} is stored in plaintext; use 'cyrus-docker secrets set' to keep it in the vault`,
+			);
+		}
+
+		await this.offerRestart(
+			envConfig.getRestartKeys(changed),
+			this.options.yes,
+		);
+	}
+}
@@ -0,0 +1,75 @@
+import {
+	type DoctorSecretsInfo,
+	DoctorService,
+} from "../services/DoctorService.js";
+import { ToolConfigService } from "../services/ToolConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Diagnose common setup and runtime problems
+ */
+export class DoctorCommand extends BaseCommand {
+	async execute(): Promise<void> {
+		this.logger.header("Cyrus Docker Doctor");
+
+		if (!this.app.profile.isDefault) {
+			this.logger.keyValue("Profile", this.app.profile.name, 10);
+		}
+		this.logger.blank();
+
+		const prereqs = await this.app.checkPrerequisites();
+		const doctor = new DoctorService(
+			this.logger,
+			this.app.docker,
+			this.app.tunnel,
+			this.app.state,
+			{
+				hostPort: this.app.hostPort,
+				toolsFingerprint: await this.app.getToolsFingerprint(
+					new ToolConfigService(this.logger),
+				),
+				secrets: await this.getSecretsInfo(),
+			},
+		);
+		const checks = await doctor.run(prereqs);
+
+		for (const check of checks) {
+			this.logger.check(check.name, check.level, check.message);
+			if (check.fix && check.level !== "pass") {
+				this.logger.raw(`      Fix: ${check.fix}`);
+			}
+		}
+
+		const failures = checks.filter((check) => check.level === "fail").length;
+		const warnings = checks.filter((check) => check.level === "warn").length;
+
+		this.logger.blank();
+		if (failures > 0) {
+			this.logger.error(`${failures} check(s) failed, ${warnings} warning(s)`);
+			process.exitCode = 1;
+		} else if (warnings > 0) {
+			this.logger.warn(`All checks passed with ${warnings} warning(s)`);
+		} else {
+			this.logger.success("All checks passed");
+		}
+		this.logger.blank();
+	}
+
+	/**
+	 * List the secrets backend's keys, without unlocking a vault
+	 */
+	private async getSecretsInfo(): Promise<DoctorSecretsInfo | undefined> {
+		try {
+			const provider = this.app.getSecretsProvider();
+			return provider
+				? { backend: provider.displayName, keys: await provider.list() }
+				: undefined;
+		} catch (error) {
+			return {
+				backend: "secrets backend",
+				keys: [],
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+}
@@ -0,0 +1,158 @@
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { SECRET_ENV_KEYS } from "../config/constants.js";
+import type { EnvChanges, EnvConfig, ExportOptions } from "../config/types.js";
+import {
+	type BundleExportOptions,
+	BundleService,
+} from "../services/BundleService.js";
+import { ToolConfigService } from "../services/ToolConfigService.js";
+import { VaultSecretsProvider } from "../services/VaultSecretsProvider.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Pack the profile's configuration, tools and optionally its Cyrus data
+ * into a bundle for moving to another host
+ */
+export class ExportCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private bundlePath: string,
+		private options: ExportOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const bundlePath = resolve(this.bundlePath);
+		if (existsSync(bundlePath) && !this.options.force) {
+			this.exitWithError(
+				`${bundlePath} already exists (use --force to overwrite it)`,
+			);
+		}
+		if (this.options.data && this.app.state.isRunning()) {
+			this.logger.warn(
+				"Cyrus is running; stop it first for a consistent copy of its data",
+			);
+		}
+
+		// Secrets leave .env.docker and travel separately (or not at all)
+		const envChanges: EnvChanges = {};
+		const values: EnvConfig = {};
+		let tempDir: string | undefined;
+		let secrets: BundleExportOptions["secrets"];
+		// Failures exit after the temporary vault is removed
+		let failure: unknown;
+		try {
+			const env = this.app.docker.readEnvFile();
+			for (const key of SECRET_ENV_KEYS) {
+				envChanges[key] = null;
+				if (env[key]) {
+					values[key] = env[key];
+				}
+			}
+
+			const provider = this.app.getSecretsProvider();
+			if (provider instanceof VaultSecretsProvider) {
+				// The vault's key file or passphrase stays on this host
+				envChanges.SECRETS_BACKEND = null;
+				envChanges.SECRETS_KEY_FILE = null;
+				if (this.options.secrets !== false) {
+					Object.assign(values, await provider.read());
+				}
+			} else if (provider) {
+				this.logger.info(
+					`Secrets in the ${provider.displayName}'s store are not exported`,
+				);
+			}
+
+			if (this.options.secrets === false) {
+				this.logger.info("Secrets are not included; set them again after import");
+			} else if (this.options.encrypt) {
+				const passphrase = await this.askNewPassphrase("Bundle passphrase:");
+				tempDir = mkdtempSync(join(tmpdir(), "cyrus-docker-export-"));
+				const vaultFile = join(tempDir, "secrets.vault");
+				await new VaultSecretsProvider(this.logger, {
+					path: vaultFile,
+					getPassphrase: async () => passphrase,
+				}).write(values);
+				secrets = { vaultFile };
+			} else {
+				secrets = { values };
+			}
+
+			const manifest = await new BundleService(this.logger).export(
+				bundlePath,
+				{
+					version: this.app.version,
+					profile: this.app.profile,
+					envChanges,
+					secrets,
+					includeData: this.options.data,
+					dockerfileFiles: this.getDockerfileFiles(),
+				},
+			);
+
+			this.logger.success(`Exported to ${bundlePath}`);
+			this.logger.keyValue("Profile", manifest.profile, 10);
+			const config = [
+				".env.docker",
+				...manifest.files,
+				...(manifest.dockerfile ?? []),
+			];
+			this.logger.keyValue("Config", config.join(", "), 10);
+			this.logger.keyValue("Secrets", manifest.secrets, 10);
+			this.logger.keyValue(
+				"Data",
+				manifest.data ? this.app.profile.cyrusHome : "not included",
+				10,
+			);
+		} catch (error) {
+			failure = error;
+		} finally {
+			if (tempDir) {
+				rmSync(tempDir, { recursive: true, force: true });
+			}
+		}
+		if (failure) {
+			this.exitWithError(
+				failure instanceof Error ? failure.message : String(failure),
+			);
+		}
+
+		if (secrets && "values" in secrets) {
+			this.logger.warn(
+				"The bundle holds secrets in plaintext. Keep it safe, or export with --encrypt",
+			);
+		}
+		this.logger.info(
+			`Restore it on the new host with: cyrus-docker import ${this.bundlePath}`,
+		);
+	}
+
+	/**
+	 * Get the custom Dockerfile tools.yml points at and the files it copies
+	 */
+	private getDockerfileFiles(): string[] {
+		const tools = new ToolConfigService(this.logger);
+		try {
+			const resolved = tools.resolveConfig(tools.readConfig() ?? {});
+			if (!resolved.customDockerfile) {
+				return [];
+			}
+			const dir = dirname(resolved.customDockerfile);
+			return [
+				resolved.customDockerfile,
+				...tools
+					.getCustomDockerfileSources(resolved)
+					.map((file) => join(dir, file)),
+			];
+		} catch (error) {
+			this.logger.warn(
+				`The custom Dockerfile is not exported: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return [];
+		}
+	}
+}
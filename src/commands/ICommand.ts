@@ -1,5 +1,9 @@
+import inquirer from "inquirer";
 import type { Application } from "../Application.js";
+import { VAULT_PASSPHRASE_ENV } from "../config/constants.js";
+import type { EnvRestartKeys } from "../services/EnvConfigService.js";
 import type { Logger } from "../services/Logger.js";
+import type { ToolConfigService } from "../services/ToolConfigService.js";
 
 /**
  * Interface for all CLI commands
@@ -44,6 +48,86 @@ export abstract class BaseCommand implements ICommand {
 		}
 	}
 
+	/**
+	 * Validate tools.yml, printing any issues, and exit if it has errors
+	 */
+	protected requireValidToolConfig(tools: ToolConfigService): void {
+		const issues = tools.checkConfig();
+		for (const issue of issues) {
+			if (issue.level === "error") {
+				this.logger.error(tools.formatIssue(issue));
+			} else {
+				this.logger.warn(tools.formatIssue(issue));
+			}
+		}
+
+		const errors = issues.filter((issue) => issue.level === "error");
+		if (errors.length > 0) {
+			this.exitWithError(
+				`${tools.getConfigFilePath()} has ${errors.length} error(s)`,
+			);
+		}
+	}
+
+	/**
+	 * Recreate the container with the current image and .env.docker
+	 * and wait for it to become healthy
+	 */
+	protected async recreateContainer(): Promise<void> {
+		try {
+			await this.app.docker.up();
+		} catch (error) {
+			this.exitWithError(`Failed to restart container: ${error}`);
+		}
+		try {
+			await this.app.docker.waitForHealthy();
+		} catch (error) {
+			this.logger.warn(`Health check issue: ${error}`);
+			this.logger.info("Container may still be starting up...");
+		}
+	}
+
+	/**
+	 * Offer to apply changed .env.docker settings to a running instance
+	 * The container is recreated (after confirming, unless yes);
+	 * tunnel settings need a full stop and start
+	 */
+	protected async offerRestart(
+		restart: EnvRestartKeys,
+		yes = false,
+	): Promise<void> {
+		if (!this.app.state.isRunning()) {
+			return;
+		}
+		if (restart.tunnel.length > 0) {
+			this.logger.info(
+				`Run 'cyrus-docker stop' and 'cyrus-docker start' to apply ${restart.tunnel.join(", ")} to the tunnel`,
+			);
+		}
+		if (restart.container.length === 0) {
+			return;
+		}
+
+		if (!yes) {
+			const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+				{
+					type: "confirm",
+					name: "confirm",
+					message: `Restart the container to apply ${restart.container.join(", ")}?`,
+					default: true,
+				},
+			]);
+			if (!confirm) {
+				this.logger.info("Run 'cyrus-docker restart' to apply the change");
+				return;
+			}
+		}
+
+		this.logger.info("Recreating the container...");
+		await this.recreateContainer();
+		this.logger.success("Container restarted");
+	}
+
 	/**
 	 * Check if Cyrus is running and exit if not
 	 */
@@ -65,4 +149,44 @@ export abstract class BaseCommand implements ICommand {
 			);
 		}
 	}
+
+	/**
+	 * Get a new vault passphrase from the environment or a prompt (asked
+	 * twice to catch typos)
+	 */
+	protected async askNewPassphrase(
+		message = "New vault passphrase:",
+	): Promise<string> {
+		const fromEnv = process.env[VAULT_PASSPHRASE_ENV];
+		if (fromEnv) {
+			return fromEnv;
+		}
+		if (!process.stdin.isTTY) {
+			this.exitWithError(
+				`Set ${VAULT_PASSPHRASE_ENV} to give the passphrase when not running interactively`,
+			);
+		}
+
+		const { passphrase } = await inquirer.prompt<{ passphrase: string }>([
+			{
+				type: "password",
+				name: "passphrase",
+				message,
+				mask: "*",
+				validate: (input: string) =>
+					input.length >= 8 || "Use at least 8 characters",
+			},
+		]);
+		await inquirer.prompt([
+			{
+				type: "password",
+				name: "confirm",
+				message: "Repeat the passphrase:",
+				mask: "*",
+				validate: (input: string) =>
+					input === passphrase || "Passphrases do not match",
+			},
+		]);
+		return passphrase;
+	}
 }
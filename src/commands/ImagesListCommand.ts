@@ -0,0 +1,68 @@
+import type { ImageBuild, ToolsOutputOptions } from "../config/types.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * List tagged image builds, marking the one in use
+ */
+export class ImagesListCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ToolsOutputOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		if (!(await this.app.docker.checkDocker())) {
+			this.exitWithError("Docker is not installed or not running");
+		}
+
+		let builds: ImageBuild[];
+		try {
+			builds = await this.app.docker.listImageBuilds();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		if (this.options.json) {
+			console.log(JSON.stringify(builds, null, 2));
+			return;
+		}
+
+		this.logger.header("Image Builds");
+		this.logger.blank();
+		if (builds.length === 0) {
+			this.logger.info(
+				"No tagged builds yet. Each 'cyrus-docker build' or 'start' rebuild is tagged.",
+			);
+			return;
+		}
+
+		const width = Math.max(...builds.map((build) => build.tag.length));
+		for (const build of builds) {
+			const marker = build.current ? "*" : " ";
+			const details = [
+				new Date(build.created).toLocaleString(),
+				`tools ${build.toolsHash ?? "-"}`,
+				`cyrus ${build.versions.cyrus ?? "?"}`,
+				`claude-code ${build.versions["claude-code"] ?? "?"}`,
+			];
+			this.logger.raw(
+				`  ${marker} ${build.tag.padEnd(width)}  ${details.join("  ")}`,
+			);
+		}
+		this.logger.blank();
+
+		const rollbackTag = this.app.getImageState().get().rollbackTag;
+		if (rollbackTag) {
+			this.logger.warn(
+				`Rolled back to ${rollbackTag}; 'cyrus-docker build' returns to tools.yml`,
+			);
+		}
+		this.logger.info(
+			"* marks the image in use. Roll back with 'cyrus-docker images rollback <tag>'",
+		);
+	}
+}
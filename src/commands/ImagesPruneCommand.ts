@@ -0,0 +1,42 @@
+import { IMAGE_HISTORY_KEEP } from "../config/constants.js";
+import type { ImagesPruneOptions } from "../config/types.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Remove old tagged builds
+ */
+export class ImagesPruneCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ImagesPruneOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const keep = this.options.keep ?? IMAGE_HISTORY_KEEP;
+		if (!Number.isInteger(keep) || keep < 0) {
+			this.exitWithError("--keep must be a whole number (0 or more)");
+		}
+		if (!(await this.app.docker.checkDocker())) {
+			this.exitWithError("Docker is not installed or not running");
+		}
+
+		let removed: string[];
+		try {
+			removed = await this.app.docker.pruneImageBuilds(keep);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		if (removed.length === 0) {
+			this.logger.info(`Nothing to prune (keeping the ${keep} newest builds)`);
+			return;
+		}
+		for (const tag of removed) {
+			this.logger.success(`Removed ${tag}`);
+		}
+	}
+}
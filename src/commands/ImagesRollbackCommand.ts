@@ -0,0 +1,61 @@
+import { IMAGE_NAME } from "../config/constants.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Point the image at an earlier build and restart the container on it
+ */
+export class ImagesRollbackCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private tag: string,
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		this.logger.header("Rolling Back Image");
+
+		if (!(await this.app.docker.checkDocker())) {
+			this.exitWithError("Docker is not installed or not running");
+		}
+
+		// Accept the full image reference too
+		const tag = this.tag.replace(`${IMAGE_NAME}:`, "");
+		try {
+			await this.app.docker.rollbackImage(tag);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// Keep start from rebuilding over the rolled-back image (in every
+		// profile, since they all share it)
+		this.app.getImageState().update({ rollbackTag: tag });
+		const others = this.app.profiles
+			.list()
+			.filter((profile) => profile.name !== this.app.profile.name)
+			.map((profile) => profile.name);
+		if (others.length > 0) {
+			this.logger.warn(
+				`The image is shared by all profiles: ${others.join(", ")} will use ${tag} on their next start`,
+			);
+		}
+
+		const status = await this.app.docker.getStatus();
+		if (!status.running) {
+			this.logger.info("Run 'cyrus-docker start' to use it");
+			return;
+		}
+
+		this.logger.blank();
+		this.logger.info("Recreating the container on the rolled-back image...");
+		await this.recreateContainer();
+
+		this.logger.blank();
+		this.logger.success(`Running ${IMAGE_NAME}:${tag}`);
+		this.logger.info(
+			"'cyrus-docker start' keeps this image; 'cyrus-docker build' rebuilds from tools.yml",
+		);
+	}
+}
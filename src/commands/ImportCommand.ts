@@ -0,0 +1,120 @@
+import { existsSync, readdirSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ImportOptions } from "../config/types.js";
+import {
+	BundleService,
+	type OpenedBundle,
+} from "../services/BundleService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Restore a bundle made by 'cyrus-docker export' into the current profile
+ */
+export class ImportCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private bundlePath: string,
+		private options: ImportOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		this.requireNotRunning();
+
+		const bundles = new BundleService(this.logger);
+		let bundle: OpenedBundle;
+		try {
+			bundle = await bundles.open(resolve(this.bundlePath));
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// Failures exit after the extracted files (and secrets) are removed
+		let failure: unknown;
+		try {
+			await this.importBundle(bundles, bundle);
+		} catch (error) {
+			failure = error;
+		} finally {
+			bundles.close(bundle);
+		}
+		if (failure) {
+			this.exitWithError(
+				failure instanceof Error ? failure.message : String(failure),
+			);
+		}
+	}
+
+	/**
+	 * Check the bundle against this host and install its contents
+	 */
+	private async importBundle(
+		bundles: BundleService,
+		bundle: OpenedBundle,
+	): Promise<void> {
+		const { manifest } = bundle;
+		const profile = this.app.profile;
+
+		const problem = bundles.checkCompatibility(manifest, this.app.version);
+		if (problem && !this.options.force) {
+			throw new Error(`${problem} (or use --force)`);
+		}
+		if (problem) {
+			this.logger.warn(problem);
+		}
+
+		const includeData = !!manifest.data && this.options.data !== false;
+		if (!this.options.force) {
+			const existing = [
+				...(existsSync(profile.envFile) ? [profile.envFile] : []),
+				...(manifest.secrets === "encrypted" && existsSync(profile.vaultFile)
+					? [profile.vaultFile]
+					: []),
+				...bundles.getConfigConflicts(bundle),
+				...(includeData &&
+				existsSync(profile.cyrusHome) &&
+				readdirSync(profile.cyrusHome).length > 0
+					? [profile.cyrusHome]
+					: []),
+			];
+			if (existing.length > 0) {
+				throw new Error(
+					`Import would replace ${existing.join(", ")} (use --force to replace them)`,
+				);
+			}
+		}
+
+		this.logger.info(
+			`Importing profile "${manifest.profile}" exported by cyrus-docker ${manifest.version} on ${manifest.createdAt}`,
+		);
+		if (manifest.secrets === "encrypted") {
+			bundles.installVault(bundle, profile.vaultFile);
+			this.logger.success(`Wrote ${profile.vaultFile}`);
+		}
+		this.app.docker.replaceEnvFile(bundles.getEnv(bundle, profile));
+		for (const path of bundles.installConfigFiles(bundle)) {
+			this.logger.success(`Wrote ${path}`);
+		}
+		if (includeData) {
+			this.logger.info(`Restoring Cyrus data into ${profile.cyrusHome}...`);
+			await bundles.installData(bundle, profile.cyrusHome);
+			this.logger.success(`Restored ${profile.cyrusHome}`);
+		}
+
+		this.logger.blank();
+		this.logger.success("Import complete");
+		if (manifest.secrets === "encrypted") {
+			this.logger.info(
+				"Secrets are in the vault; 'start' asks for the passphrase the bundle was exported with",
+			);
+		} else if (manifest.secrets === "none") {
+			this.logger.info(
+				"The bundle has no secrets. Add them with 'cyrus-docker config set' or 'cyrus-docker init'",
+			);
+		}
+		this.logger.info("Start Cyrus with: cyrus-docker start");
+	}
+}
@@ -1,7 +1,25 @@
 import { randomBytes } from "node:crypto";
+import { existsSync } from "node:fs";
 import inquirer from "inquirer";
-import type { EnvConfig, ToolConfig, ToolPreset } from "../config/types.js";
+import { Application } from "../Application.js";
+import { DEFAULT_PORT } from "../config/constants.js";
+import type {
+	EnvChanges,
+	EnvConfig,
+	InitAnswers,
+	InitOptions,
+	ToolConfig,
+	ToolPreset,
+	TunnelProviderName,
+} from "../config/types.js";
+import { InitAnswersService } from "../services/InitAnswersService.js";
+import { normalizeNgrokDomain } from "../services/NgrokTunnelProvider.js";
+import {
+	type PresetInfo,
+	formatPresetChoice,
+} from "../services/PresetService.js";
 import { ToolConfigService } from "../services/ToolConfigService.js";
+import { expandHomePath } from "../utils/paths.js";
 import { BaseCommand } from "./ICommand.js";
 
 /**
@@ -9,14 +27,31 @@ import { BaseCommand } from "./ICommand.js";
  * Prompts for credentials and creates .env.docker
  */
 export class InitCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: InitOptions = {},
+	) {
+		super(app);
+	}
+
 	async execute(): Promise<void> {
+		if (this.options.nonInteractive) {
+			await this.executeNonInteractive();
+			return;
+		}
+
 		this.logger.header("Cyrus Docker Setup");
 
+		if (!this.app.profile.isDefault) {
+			this.logger.keyValue("Profile", this.app.profile.name, 10);
+			this.logger.blank();
+		}
+
 		// Check prerequisites
 		const prereqs = await this.app.checkPrerequisites();
 		this.app.printPrerequisiteStatus(prereqs);
 
-		if (!this.app.allPrerequisitesMet(prereqs)) {
+		if (!prereqs.docker || !prereqs.dockerCompose) {
 			this.app.printMissingPrerequisites(prereqs);
 			this.logger.blank();
 			this.logger.warn(
@@ -25,7 +60,13 @@ export class InitCommand extends BaseCommand {
 			process.exit(1);
 		}
 
-		this.logger.success("All prerequisites met!");
+		if (prereqs.tunnel) {
+			this.logger.success("All prerequisites met!");
+		} else {
+			// The tunnel provider is chosen below, so a missing binary is not fatal yet
+			this.app.printMissingPrerequisites(prereqs);
+			this.logger.warn("You can choose a different tunnel provider below.");
+		}
 		this.logger.blank();
 
 		// Check if .env.docker already exists
@@ -52,8 +93,10 @@ export class InitCommand extends BaseCommand {
 
 		const answers = await this.promptForCredentials();
 
-		// Write .env.docker
-		this.app.docker.writeEnvFile(answers);
+		// Write .env.docker (an overwritten one starts from the template)
+		this.app.docker.writeEnvFile(this.toEnvChanges(answers), {
+			fromTemplate: true,
+		});
 
 		// Offer to configure container tools
 		await this.promptForTools();
@@ -62,6 +105,87 @@ export class InitCommand extends BaseCommand {
 		this.printNextSteps();
 	}
 
+	/**
+	 * Configure from flags, CYRUS_DOCKER_* env vars and an answers file
+	 * Fails with the list of missing values instead of prompting
+	 */
+	private async executeNonInteractive(): Promise<void> {
+		this.logger.header("Cyrus Docker Setup (non-interactive)");
+
+		const prereqs = await this.app.checkPrerequisites();
+		if (!prereqs.docker || !prereqs.dockerCompose) {
+			this.app.printMissingPrerequisites(prereqs);
+			process.exit(1);
+		}
+
+		if (this.app.docker.hasEnvFile() && !this.options.force) {
+			this.exitWithError(
+				`${this.app.docker.getEnvFilePath()} already exists. Use --force to overwrite it.`,
+			);
+		}
+
+		const answersService = new InitAnswersService(this.logger);
+		let answers: InitAnswers;
+		try {
+			answers = answersService.merge(
+				this.options.answersFile
+					? answersService.readFile(expandHomePath(this.options.answersFile))
+					: { env: {} },
+				answersService.readEnv(process.env),
+				{
+					env: this.options.values ?? {},
+					presets:
+						this.options.presets !== undefined
+							? answersService.parsePresets(this.options.presets)
+							: undefined,
+				},
+			);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// A named profile without a host port gets the next free one
+		const usedPorts = this.getUsedHostPorts();
+		const suggestedPort =
+			!this.app.profile.isDefault && !answers.env.CYRUS_HOST_PORT
+				? this.suggestHostPort(usedPorts)
+				: undefined;
+		if (suggestedPort) {
+			answers.env.CYRUS_HOST_PORT = String(suggestedPort);
+		}
+
+		const problems = answersService.validate(answers.env, usedPorts);
+		if (problems.length > 0) {
+			this.logger.error("Missing or invalid values:");
+			for (const problem of problems) {
+				this.logger.raw(`  - ${problem}`);
+			}
+			process.exit(1);
+		}
+		if (suggestedPort) {
+			this.logger.info(
+				`Using host port ${suggestedPort} for profile ${this.app.profile.name}`,
+			);
+		}
+
+		// --force overwrites the profile: start from the template so nothing
+		// from the previous setup (tokens, tunnel settings) survives
+		const config = answersService.toEnvConfig(answers.env);
+		this.app.docker.writeEnvFile(this.toEnvChanges(config), {
+			fromTemplate: true,
+		});
+
+		if (answers.presets && answers.presets.length > 0) {
+			new ToolConfigService(this.logger).writeConfig({
+				presets: answers.presets,
+			});
+		}
+
+		this.printNextSteps();
+	}
+
 	/**
 	 * Prompt user for all required and optional credentials
 	 */
@@ -115,7 +239,6 @@ export class InitCommand extends BaseCommand {
 			LINEAR_CLIENT_ID: string;
 			LINEAR_CLIENT_SECRET: string;
 			LINEAR_WEBHOOK_SECRET: string;
-			NGROK_AUTHTOKEN: string;
 			GIT_USER_NAME: string;
 			GIT_USER_EMAIL: string;
 			GITHUB_TOKEN: string;
@@ -145,14 +268,6 @@ export class InitCommand extends BaseCommand {
 				default: () => randomBytes(32).toString("hex"),
 			},
 
-			// ngrok (optional)
-			{
-				type: "password",
-				name: "NGROK_AUTHTOKEN",
-				message: "ngrok Authtoken (optional, from dashboard.ngrok.com):",
-				mask: "*",
-			},
-
 			// Git Configuration
 			{
 				type: "input",
@@ -174,14 +289,205 @@ export class InitCommand extends BaseCommand {
 			},
 		]);
 
+		const tunnel = await this.promptForTunnel();
+		const hostPort = await this.promptForHostPort();
+
 		return {
 			...authCredential,
 			...answers,
+			...tunnel,
+			...hostPort,
 			LINEAR_DIRECT_WEBHOOKS: "true",
 			CYRUS_SERVER_PORT: "3456",
 		};
 	}
 
+	/**
+	 * Remove the credential of the authentication method not chosen, so
+	 * it doesn't linger in a reconfigured .env.docker
+	 */
+	private toEnvChanges(config: EnvConfig): EnvChanges {
+		const changes: EnvChanges = { ...config };
+		if (config.ANTHROPIC_API_KEY && !config.CLAUDE_CODE_OAUTH_TOKEN) {
+			changes.CLAUDE_CODE_OAUTH_TOKEN = null;
+		}
+		if (config.CLAUDE_CODE_OAUTH_TOKEN && !config.ANTHROPIC_API_KEY) {
+			changes.ANTHROPIC_API_KEY = null;
+		}
+		return changes;
+	}
+
+	/**
+	 * Prompt for the host port of a named profile
+	 * Profiles run side by side, so each needs a port of its own
+	 */
+	private async promptForHostPort(): Promise<EnvConfig> {
+		if (this.app.profile.isDefault) {
+			return {};
+		}
+
+		const usedPorts = this.getUsedHostPorts();
+		const suggested = this.suggestHostPort(usedPorts);
+
+		const { CYRUS_HOST_PORT } = await inquirer.prompt<{
+			CYRUS_HOST_PORT: string;
+		}>([
+			{
+				type: "input",
+				name: "CYRUS_HOST_PORT",
+				message: `Host port for the "${this.app.profile.name}" profile:`,
+				default: String(suggested),
+				validate: (input: string) => {
+					const port = Number(input);
+					if (!Number.isInteger(port) || port < 1 || port > 65535) {
+						return "Enter a port number between 1 and 65535";
+					}
+					return (
+						!usedPorts.has(port) || "Port is already used by another profile"
+					);
+				},
+			},
+		]);
+		return { CYRUS_HOST_PORT };
+	}
+
+	/**
+	 * Get the host ports used by the other profiles
+	 */
+	private getUsedHostPorts(): Set<number> {
+		return new Set(
+			this.app.profiles
+				.list()
+				.filter((profile) => profile.name !== this.app.profile.name)
+				.map(
+					(profile) =>
+						new Application(this.app.version, { profile: profile.name })
+							.hostPort,
+				),
+		);
+	}
+
+	/**
+	 * Pick the first port after the default one not used by another profile
+	 */
+	private suggestHostPort(usedPorts: Set<number>): number {
+		let port = DEFAULT_PORT + 1;
+		while (usedPorts.has(port)) {
+			port++;
+		}
+		return port;
+	}
+
+	/**
+	 * Prompt for the tunnel provider and its settings
+	 */
+	private async promptForTunnel(): Promise<EnvConfig> {
+		const { provider } = await inquirer.prompt<{
+			provider: TunnelProviderName;
+		}>([
+			{
+				type: "list",
+				name: "provider",
+				message: "How should Linear reach Cyrus?",
+				default: this.app.tunnel.getProviderName(),
+				choices: [
+					{ name: "ngrok tunnel", value: "ngrok" },
+					{ name: "Cloudflare Tunnel (cloudflared)", value: "cloudflared" },
+					{
+						name: "Static URL (host is already behind a reverse proxy)",
+						value: "static",
+					},
+				],
+			},
+		]);
+
+		switch (provider) {
+			case "ngrok": {
+				const ngrok = await inquirer.prompt<{
+					NGROK_AUTHTOKEN: string;
+					NGROK_DOMAIN: string;
+					NGROK_CONFIG: string;
+				}>([
+					{
+						type: "password",
+						name: "NGROK_AUTHTOKEN",
+						message: "ngrok Authtoken (optional, from dashboard.ngrok.com):",
+						mask: "*",
+					},
+					{
+						type: "input",
+						name: "NGROK_DOMAIN",
+						message:
+							"Reserved ngrok domain for a stable URL (optional, e.g. cyrus.ngrok.app):",
+						filter: (input: string) => normalizeNgrokDomain(input),
+						validate: (input: string) =>
+							!input ||
+							/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(normalizeNgrokDomain(input)) ||
+							"Enter a domain name like cyrus.ngrok.app",
+					},
+					{
+						type: "input",
+						name: "NGROK_CONFIG",
+						message: "ngrok config file (optional, e.g. ~/.config/ngrok/cyrus.yml):",
+						validate: (input: string) =>
+							!input ||
+							existsSync(expandHomePath(input.trim())) ||
+							"File not found",
+					},
+				]);
+				return { TUNNEL_PROVIDER: provider, ...ngrok };
+			}
+			case "cloudflared": {
+				const { CLOUDFLARED_TUNNEL_TOKEN } = await inquirer.prompt<{
+					CLOUDFLARED_TUNNEL_TOKEN: string;
+				}>([
+					{
+						type: "password",
+						name: "CLOUDFLARED_TUNNEL_TOKEN",
+						message:
+							"Cloudflare Tunnel token (optional, leave empty for a quick tunnel):",
+						mask: "*",
+					},
+				]);
+				if (!CLOUDFLARED_TUNNEL_TOKEN) {
+					return { TUNNEL_PROVIDER: provider };
+				}
+				const { CYRUS_BASE_URL } = await this.promptForPublicUrl(
+					"Public URL routed to the tunnel (e.g. https://cyrus.example.com):",
+				);
+				return {
+					TUNNEL_PROVIDER: provider,
+					CLOUDFLARED_TUNNEL_TOKEN,
+					CYRUS_BASE_URL,
+				};
+			}
+			case "static": {
+				const { CYRUS_BASE_URL } = await this.promptForPublicUrl(
+					"Public URL of this host (e.g. https://cyrus.example.com):",
+				);
+				return { TUNNEL_PROVIDER: provider, CYRUS_BASE_URL };
+			}
+		}
+	}
+
+	/**
+	 * Prompt for a fixed public base URL
+	 */
+	private async promptForPublicUrl(
+		message: string,
+	): Promise<{ CYRUS_BASE_URL: string }> {
+		return inquirer.prompt<{ CYRUS_BASE_URL: string }>([
+			{
+				type: "input",
+				name: "CYRUS_BASE_URL",
+				message,
+				filter: (input: string) => input.trim().replace(/\/+$/, ""),
+				validate: (input: string) =>
+					/^https?:\/\/\S+$/.test(input.trim()) || "Enter a full http(s) URL",
+			},
+		]);
+	}
+
 	/**
 	 * Prompt user to optionally configure container tools
 	 */
@@ -202,7 +508,14 @@ export class InitCommand extends BaseCommand {
 		}
 
 		const toolConfigService = new ToolConfigService(this.logger);
-		const presets = toolConfigService.getAvailablePresets();
+		let presets: PresetInfo[];
+		try {
+			presets = toolConfigService.getAvailablePresets();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
 
 		// Prompt for presets
 		const { selectedPresets } = await inquirer.prompt<{
@@ -213,7 +526,7 @@ export class InitCommand extends BaseCommand {
 				name: "selectedPresets",
 				message: "Select tool presets to install:",
 				choices: presets.map((p) => ({
-					name: `${p.name} - ${p.description}`,
+					name: formatPresetChoice(p),
 					value: p.value,
 				})),
 			},
@@ -237,8 +550,11 @@ export class InitCommand extends BaseCommand {
 		this.logger.blank();
 		this.logger.info("Next steps:");
 		this.logger.blank();
-		this.logger.raw("  1. Start Cyrus with ngrok tunnel:");
-		this.logger.raw("     $ cyrus-docker start");
+		this.logger.raw("  1. Start Cyrus with its tunnel:");
+		const profileFlag = this.app.profile.isDefault
+			? ""
+			: ` --profile ${this.app.profile.name}`;
+		this.logger.raw(`     $ cyrus-docker${profileFlag} start`);
 		this.logger.blank();
 		this.logger.raw(
 			"  2. Configure Linear OAuth (use URLs shown after start):",
@@ -1,7 +1,7 @@
 import { BaseCommand } from "./ICommand.js";
 
 /**
- * Restart only the Docker container (keeps ngrok tunnel running)
+ * Restart only the Docker container (keeps tunnel running)
  */
 export class RestartCommand extends BaseCommand {
 	async execute(): Promise<void> {
@@ -20,6 +20,15 @@ export class RestartCommand extends BaseCommand {
 			this.logger.warn("Container not running, starting it...");
 		}
 
+		// Unlock secrets before stopping, so a wrong passphrase keeps it up
+		try {
+			await this.app.loadSecrets();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
 		// Step 1: Stop Docker container
 		this.logger.blank();
 		this.logger.info("Step 1: Stopping Docker container...");
@@ -0,0 +1,111 @@
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { SECRET_ENV_KEYS, VAULT_PASSPHRASE_ENV } from "../config/constants.js";
+import type {
+	EnvChanges,
+	EnvConfig,
+	SecretsInitOptions,
+} from "../config/types.js";
+import {
+	VaultSecretsProvider,
+	createVaultKeyFile,
+} from "../services/VaultSecretsProvider.js";
+import { expandHomePath } from "../utils/paths.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Create the encrypted secrets vault and move the secrets out of
+ * .env.docker into it
+ */
+export class SecretsInitCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: SecretsInitOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const vaultFile = this.app.profile.vaultFile;
+		if (existsSync(vaultFile)) {
+			this.exitWithError(
+				`${vaultFile} already exists. Use 'cyrus-docker secrets set' to change secrets`,
+			);
+		}
+
+		let env: EnvConfig;
+		try {
+			env = this.app.docker.readEnvFile();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		const keyFile = this.resolveKeyFile();
+		if (keyFile && !existsSync(keyFile)) {
+			createVaultKeyFile(keyFile);
+			this.logger.success(`Created key file ${keyFile}`);
+			this.logger.info("Back it up: the vault cannot be unlocked without it");
+		}
+		const passphrase = keyFile ? "" : await this.askNewPassphrase();
+
+		const secrets: EnvConfig = {};
+		const changes: EnvChanges = {
+			SECRETS_BACKEND: "vault",
+			SECRETS_KEY_FILE: keyFile ? keyFile : null,
+		};
+		for (const key of SECRET_ENV_KEYS) {
+			if (env[key]) {
+				secrets[key] = env[key];
+				changes[key] = null;
+			}
+		}
+
+		// Save the vault before removing anything from .env.docker
+		try {
+			const vault = new VaultSecretsProvider(this.logger, {
+				path: vaultFile,
+				keyFile,
+				getPassphrase: async () => passphrase,
+			});
+			await vault.write(secrets);
+			this.app.docker.writeEnvFile(changes);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		this.logger.success(`Created ${vaultFile}`);
+		const moved = Object.keys(secrets);
+		if (moved.length > 0) {
+			this.logger.success(
+				`Moved ${moved.join(", ")} out of ${this.app.docker.getEnvFilePath()}`,
+			);
+		}
+		if (!keyFile) {
+			this.logger.info(
+				`Set ${VAULT_PASSPHRASE_ENV} to start without a passphrase prompt`,
+			);
+		}
+		if (this.app.state.isRunning()) {
+			this.logger.info(
+				"Run 'cyrus-docker restart' to remove the secrets from the container's ~/.cyrus/.env",
+			);
+		}
+	}
+
+	/**
+	 * Get the key file path from --key-file, if one is used
+	 */
+	private resolveKeyFile(): string | undefined {
+		const option = this.options.keyFile;
+		if (!option) {
+			return undefined;
+		}
+		return typeof option === "string"
+			? expandHomePath(option)
+			: join(dirname(this.app.profile.vaultFile), "secrets.key");
+	}
+}
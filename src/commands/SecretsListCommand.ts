@@ -0,0 +1,45 @@
+import { SECRET_ENV_KEYS } from "../config/constants.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * List which secrets the secrets backend holds (names only)
+ */
+export class SecretsListCommand extends BaseCommand {
+	async execute(): Promise<void> {
+		let keys: string[];
+		let backend: string;
+		try {
+			const provider = this.app.getSecretsProvider();
+			if (!provider) {
+				this.logger.info(
+					`Secrets are kept in ${this.app.docker.getEnvFilePath()}. Run 'cyrus-docker secrets init' to encrypt them`,
+				);
+				return;
+			}
+			backend = provider.displayName;
+			keys = await provider.list();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		this.logger.header("Secrets");
+		this.logger.keyValue("Backend", backend, 8);
+		this.logger.blank();
+		const width = Math.max(...SECRET_ENV_KEYS.map((key) => key.length)) + 1;
+		for (const key of SECRET_ENV_KEYS) {
+			this.logger.keyValue(
+				key,
+				keys.includes(key) ? "stored" : "(not set)",
+				width,
+			);
+		}
+		for (const key of keys.filter(
+			(key) => !(SECRET_ENV_KEYS as string[]).includes(key),
+		)) {
+			this.logger.keyValue(key, "stored", width);
+		}
+		this.logger.blank();
+	}
+}
@@ -0,0 +1,103 @@
+import inquirer from "inquirer";
+import { SECRET_ENV_KEYS } from "../config/constants.js";
+import type { ConfigChangeOptions, EnvConfig } from "../config/types.js";
+import { EnvConfigService } from "../services/EnvConfigService.js";
+import { VaultSecretsProvider } from "../services/VaultSecretsProvider.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Set or unset a secret in the encrypted vault and offer to restart
+ * the container
+ */
+export class SecretsSetCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private key: string,
+		/** New value, prompted for when undefined; null removes the secret */
+		private value: string | null | undefined,
+		private options: ConfigChangeOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const envConfig = new EnvConfigService(this.logger);
+		const key = this.key;
+
+		let vault: VaultSecretsProvider;
+		try {
+			const provider = this.app.getSecretsProvider();
+			if (!(provider instanceof VaultSecretsProvider)) {
+				throw new Error(
+					provider
+						? "Secrets come from SECRETS_COMMAND; change them in the store it reads"
+						: "No secrets vault. Run 'cyrus-docker secrets init' first",
+				);
+			}
+			vault = provider;
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		const isSecretKey = SECRET_ENV_KEYS.includes(key as keyof EnvConfig);
+		if (!isSecretKey && !this.options.force) {
+			this.exitWithError(
+				`${key} is not a secret setting (use 'cyrus-docker config set', or --force)`,
+			);
+		}
+
+		const value = this.value === undefined ? await this.askValue() : this.value;
+		if (value !== null && !this.options.force) {
+			const problem = envConfig.validate(key, value);
+			if (problem) {
+				this.exitWithError(problem);
+			}
+		}
+
+		try {
+			const secrets = (await vault.read()) as Record<string, string>;
+			if (value === null) {
+				if (!(key in secrets)) {
+					this.logger.info(`${key} is not in the vault`);
+					return;
+				}
+				delete secrets[key];
+			} else {
+				secrets[key] = value;
+			}
+			await vault.write(secrets);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		this.logger.success(
+			value === null
+				? `Removed ${key} from the vault`
+				: `Stored ${key}=${envConfig.mask(key, value)}`,
+		);
+		await this.offerRestart(envConfig.getRestartKeys([key]), this.options.yes);
+	}
+
+	/**
+	 * Prompt for the secret's value without echoing it
+	 */
+	private async askValue(): Promise<string> {
+		if (!process.stdin.isTTY) {
+			this.exitWithError(`Give a value for ${this.key}`);
+		}
+		const { value } = await inquirer.prompt<{ value: string }>([
+			{
+				type: "password",
+				name: "value",
+				message: `${this.key}:`,
+				mask: "*",
+				validate: (input: string) => input.length > 0 || "Value is required",
+			},
+		]);
+		return value;
+	}
+}
@@ -1,12 +1,11 @@
-import { homedir } from "node:os";
-import { join } from "node:path";
-import { DEFAULT_PORT } from "../config/constants.js";
-import type { StartOptions } from "../config/types.js";
+import type { LinearSyncResult, StartOptions } from "../config/types.js";
+import { LinearService } from "../services/LinearService.js";
+import { normalizeNgrokDomain } from "../services/NgrokTunnelProvider.js";
 import { ToolConfigService } from "../services/ToolConfigService.js";
 import { BaseCommand } from "./ICommand.js";
 
 /**
- * Start ngrok tunnel and Docker container
+ * Start tunnel and Docker container
  */
 export class StartCommand extends BaseCommand {
 	constructor(
@@ -19,6 +18,9 @@ export class StartCommand extends BaseCommand {
 	async execute(): Promise<void> {
 		this.logger.header("Starting Cyrus");
 
+		// Fail on an invalid tools.yml before starting the tunnel or Docker
+		this.requireValidToolConfig(new ToolConfigService(this.logger));
+
 		// Check prerequisites
 		await this.requirePrerequisites();
 
@@ -41,15 +43,40 @@ export class StartCommand extends BaseCommand {
 			);
 		}
 
-		// Step 1: Start ngrok tunnel
-		this.logger.blank();
-		this.logger.info("Step 1: Starting ngrok tunnel...");
+		// Persist a reserved domain given on the command line
+		if (this.options.domain) {
+			if (this.app.tunnel.getProviderName() !== "ngrok") {
+				this.logger.warn("--domain only applies to the ngrok tunnel provider");
+			}
+			const domain = normalizeNgrokDomain(this.options.domain);
+			this.app.docker.updateEnvValue("NGROK_DOMAIN", domain);
+			this.logger.success(`Saved NGROK_DOMAIN=${domain}`);
+		}
 
-		const ngrokProcess = await this.app.tunnel.start(DEFAULT_PORT);
-		const ngrokPid = ngrokProcess.pid;
+		// Unlock secrets first: the tunnel may need its credentials
+		try {
+			await this.app.loadSecrets();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// Remember the URL Linear was last configured with
+		const previousUrl =
+			this.app.state.getLastTunnelUrl() ??
+			this.app.docker.readEnvFile().CYRUS_BASE_URL;
 
-		if (!ngrokPid) {
-			this.exitWithError("Failed to get ngrok process PID");
+		// Step 1: Start tunnel
+		const tunnelName = this.app.tunnel.getDisplayName();
+		this.logger.blank();
+		this.logger.info(`Step 1: Starting ${tunnelName} tunnel...`);
+
+		let tunnelPid: number | undefined;
+		try {
+			tunnelPid = await this.app.tunnel.start(this.app.hostPort);
+		} catch (error) {
+			this.exitWithError(`Failed to start tunnel: ${error}`);
 		}
 
 		// Wait for tunnel URL
@@ -57,8 +84,8 @@ export class StartCommand extends BaseCommand {
 		try {
 			tunnelUrl = await this.app.tunnel.waitForUrl();
 		} catch (error) {
-			// Clean up ngrok if we fail to get URL
-			await this.app.tunnel.stop(ngrokPid);
+			// Clean up the tunnel process if we fail to get URL
+			await this.stopTunnel(tunnelPid);
 			this.exitWithError(`Failed to get tunnel URL: ${error}`);
 		}
 
@@ -69,8 +96,7 @@ export class StartCommand extends BaseCommand {
 		this.logger.success(`Set CYRUS_BASE_URL=${tunnelUrl}`);
 
 		// Set host path for container symlink compatibility
-		const cyrusHostPath = process.env.CYRUS_HOME || join(homedir(), ".cyrus");
-		this.app.docker.updateEnvValue("CYRUS_HOST_PATH", cyrusHostPath);
+		this.app.docker.updateEnvValue("CYRUS_HOST_PATH", this.app.profile.cyrusHome);
 
 		// Step 3: Build and start Docker container
 		this.logger.blank();
@@ -80,8 +106,8 @@ export class StartCommand extends BaseCommand {
 			await this.buildDockerImage();
 			await this.app.docker.up();
 		} catch (error) {
-			// Clean up ngrok if Docker fails
-			await this.app.tunnel.stop(ngrokPid);
+			// Clean up the tunnel process if Docker fails
+			await this.stopTunnel(tunnelPid);
 			this.exitWithError(`Failed to start container: ${error}`);
 		}
 
@@ -97,10 +123,18 @@ export class StartCommand extends BaseCommand {
 		}
 
 		// Save state
-		this.app.state.setRunning(ngrokPid, tunnelUrl, this.app.dockerDir);
+		this.app.state.setRunning(
+			tunnelPid,
+			tunnelUrl,
+			this.app.dockerDir,
+			this.app.tunnel.getProviderName(),
+		);
+
+		// Update the Linear OAuth app if automatic sync is enabled
+		const linearSync = await this.syncLinearUrls(tunnelUrl);
 
 		// Print success and Linear configuration URLs
-		this.printSuccess(tunnelUrl);
+		this.printSuccess(tunnelUrl, previousUrl, linearSync);
 
 		// Follow logs unless detached
 		if (!this.options.detach) {
@@ -118,18 +152,84 @@ export class StartCommand extends BaseCommand {
 		}
 	}
 
+	/**
+	 * Stop the tunnel process if the provider started one
+	 */
+	private async stopTunnel(pid: number | undefined): Promise<void> {
+		if (pid) {
+			await this.app.tunnel.stop(pid);
+		}
+	}
+
+	/**
+	 * Push the tunnel URL to the Linear OAuth app (opt-in via LINEAR_SYNC_URLS)
+	 * Skips the API call if the same URL was already synced successfully
+	 */
+	private async syncLinearUrls(
+		tunnelUrl: string,
+	): Promise<LinearSyncResult | undefined> {
+		const linear = LinearService.fromEnv(
+			this.logger,
+			await this.app.readEnv(),
+		);
+		if (!linear) {
+			return undefined;
+		}
+
+		const lastSync = this.app.state.get().linearSync;
+		if (lastSync?.ok && lastSync.url === tunnelUrl) {
+			return lastSync;
+		}
+
+		const result = await linear.syncUrls(tunnelUrl);
+		this.app.state.update({ linearSync: result });
+		if (result.ok) {
+			this.logger.success("Linear OAuth app URLs updated");
+		} else {
+			this.logger.warn(`Failed to update Linear OAuth app: ${result.error}`);
+		}
+		return result;
+	}
+
 	/**
 	 * Print success message with Linear configuration URLs
 	 */
-	private printSuccess(tunnelUrl: string): void {
+	private printSuccess(
+		tunnelUrl: string,
+		previousUrl?: string,
+		linearSync?: LinearSyncResult,
+	): void {
 		this.logger.blank();
 		this.logger.header("Cyrus Started Successfully");
 		this.logger.blank();
 
 		this.logger.keyValue("Tunnel URL", tunnelUrl);
-		this.logger.keyValue("Local Port", String(DEFAULT_PORT));
+		this.logger.keyValue("Local Port", String(this.app.hostPort));
 		this.logger.blank();
 
+		if (previousUrl === tunnelUrl) {
+			this.logger.success(
+				"Tunnel URL is unchanged since last start - no Linear changes needed",
+			);
+			this.logger.keyValue("Callback URL", `${tunnelUrl}/callback`, 14);
+			this.logger.keyValue("Webhook URL", `${tunnelUrl}/webhook`, 14);
+			return;
+		}
+
+		if (previousUrl) {
+			this.logger.warn(`Tunnel URL changed (was ${previousUrl})`);
+		}
+
+		if (linearSync?.ok) {
+			this.logger.success("Linear OAuth app was updated automatically:");
+			this.logger.keyValue("Callback URL", `${tunnelUrl}/callback`, 14);
+			this.logger.keyValue("Webhook URL", `${tunnelUrl}/webhook`, 14);
+			return;
+		}
+
+		if (linearSync) {
+			this.logger.warn(`Automatic Linear update failed: ${linearSync.error}`);
+		}
 		this.logger.info("Configure these URLs in Linear OAuth App:");
 		this.logger.raw(`  linear.app/settings/api/applications`);
 		this.logger.blank();
@@ -138,6 +238,14 @@ export class StartCommand extends BaseCommand {
 		this.logger.blank();
 
 		this.logger.info("Then run: cyrus-docker auth");
+
+		const hasDomain = Boolean(this.app.docker.readEnvFile().NGROK_DOMAIN);
+		if (this.app.tunnel.getProviderName() === "ngrok" && !hasDomain) {
+			this.logger.blank();
+			this.logger.info(
+				"Tip: use a reserved ngrok domain to keep this URL stable: cyrus-docker start --domain <domain>",
+			);
+		}
 	}
 
 	/**
@@ -146,12 +254,21 @@ export class StartCommand extends BaseCommand {
 	private async buildDockerImage(): Promise<void> {
 		const toolConfigService = new ToolConfigService(this.logger);
 		const toolConfig = toolConfigService.readConfig();
-		const toolsHash = toolConfigService.getConfigHash();
+		const fingerprint = await this.app.getToolsFingerprint(toolConfigService);
+
+		// A rolled-back image stays until the next explicit build
+		const rollbackTag = this.app.getImageState().get().rollbackTag;
+		if (rollbackTag && !this.options.build) {
+			this.logger.warn(
+				`Using rolled-back image ${rollbackTag} - skipping build (run 'cyrus-docker build' to rebuild from tools.yml)`,
+			);
+			return;
+		}
 
 		// Check if rebuild is needed (unless --build flag forces it)
 		if (!this.options.build) {
 			this.logger.info("Checking if image rebuild is needed...");
-			const { needsRebuild, reason } = await this.app.docker.checkImageStatus(toolsHash);
+			const { needsRebuild, reason } = await this.app.docker.checkImageStatus(fingerprint);
 
 			if (!needsRebuild) {
 				this.logger.success(`${reason} - skipping build`);
@@ -165,6 +282,15 @@ export class StartCommand extends BaseCommand {
 
 		// When --build flag is used, do a full rebuild with no cache
 		const buildOptions = { noCache: this.options.build };
+		// The new build replaces any rolled-back image
+		this.app.getImageState().update({ rollbackTag: undefined });
+
+		// Use a prebuilt image from the tools.yml registry when one matches
+		if (toolConfig?.image && fingerprint && !this.options.build) {
+			if (await this.app.docker.pullToolsImage(toolConfig.image, fingerprint)) {
+				return;
+			}
+		}
 
 		// Build with tools if configured
 		if (toolConfig) {
@@ -173,8 +299,14 @@ export class StartCommand extends BaseCommand {
 				await this.app.docker.buildWithTools(
 					resolvedConfig,
 					toolConfigService.generateDockerfile.bind(toolConfigService),
-					toolsHash,
-					buildOptions,
+					(baseImageId) =>
+						this.app.getToolsFingerprint(toolConfigService, baseImageId),
+					{
+						...buildOptions,
+						buildArgs: toolConfigService.getBuildArgs(resolvedConfig),
+						contextFiles:
+							toolConfigService.getCustomDockerfileSources(resolvedConfig),
+					},
 				);
 				return;
 			}
@@ -1,3 +1,11 @@
+import { Application } from "../Application.js";
+import { STATUS_EXIT_CODES } from "../config/constants.js";
+import type {
+	CyrusStatus,
+	ProfileStatus,
+	StatusOptions,
+} from "../config/types.js";
+import { StatusService } from "../services/StatusService.js";
 import { ToolConfigService } from "../services/ToolConfigService.js";
 import { BaseCommand } from "./ICommand.js";
 
@@ -5,23 +13,48 @@ import { BaseCommand } from "./ICommand.js";
  * Show Cyrus container and tunnel status
  */
 export class StatusCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: StatusOptions = {},
+	) {
+		super(app);
+	}
+
 	async execute(): Promise<void> {
-		this.logger.header("Cyrus Docker Status");
+		const toolConfigService = new ToolConfigService(this.logger);
+		const statusService = new StatusService(
+			this.logger,
+			this.app.docker,
+			this.app.tunnel,
+			this.app.state,
+			{ profile: this.app.profile.name, localPort: this.app.hostPort },
+		);
+		const status = await statusService.collect(
+			await this.app.getToolsFingerprint(toolConfigService),
+		);
+		status.profiles = await this.collectProfiles();
+
+		if (this.options.json) {
+			console.log(JSON.stringify(status, null, 2));
+		} else {
+			await this.printStatus(status);
+		}
 
-		// Get container status
-		const containerStatus = await this.app.docker.getStatus();
+		// Let output flush before exiting with the health code
+		process.exitCode = STATUS_EXIT_CODES[status.health];
+	}
 
-		// Get tunnel status
-		const tunnelStatus = await this.app.tunnel.getStatus();
+	/**
+	 * Print the status for humans
+	 */
+	private async printStatus(status: CyrusStatus): Promise<void> {
+		const { container: containerStatus, tunnel: tunnelStatus } = status;
 
-		// Get image status
-		const toolConfigService = new ToolConfigService(this.logger);
-		const currentToolsHash = toolConfigService.getConfigHash();
-		const imageStatus = await this.app.docker.checkImageStatus(currentToolsHash);
+		this.logger.header("Cyrus Docker Status");
 
-		// Get state info
-		const stateInfo = this.app.state.get();
-		const startedAt = this.app.state.getStartedAt();
+		if (!this.app.profile.isDefault) {
+			this.logger.keyValue("Profile", status.profile, 10);
+		}
 
 		this.logger.blank();
 
@@ -57,28 +90,33 @@ export class StatusCommand extends BaseCommand {
 		this.logger.blank();
 
 		// Tunnel status
+		const tunnelName = this.app.tunnel.getDisplayName();
 		if (tunnelStatus.isRunning && tunnelStatus.url) {
-			this.logger.status("Tunnel", true, "Active");
+			this.logger.status("Tunnel", true, `Active (${tunnelName})`);
 			this.logger.keyValue("  URL", tunnelStatus.url);
-			this.logger.keyValue("  Local", `localhost:3456`);
+			this.logger.keyValue("  Local", `localhost:${status.localPort}`);
 		} else {
-			this.logger.status("Tunnel", false, "Not running");
+			this.logger.status("Tunnel", false, `Not running (${tunnelName})`);
 		}
 
 		this.logger.blank();
 
 		// Image status
-		const imageExists = await this.app.docker.imageExists();
-		if (imageExists) {
-			this.logger.status("Image", !imageStatus.needsRebuild, imageStatus.reason);
-			if (currentToolsHash) {
-				this.logger.keyValue("  Tools hash", currentToolsHash);
-			}
+		const { image } = status;
+		if (image.exists) {
+			this.logger.status("Image", !image.needsRebuild, image.reason);
 		} else {
 			this.logger.status("Image", false, "Not built");
-			if (currentToolsHash) {
-				this.logger.keyValue("  Tools hash", currentToolsHash);
-			}
+		}
+		if (image.toolsHash) {
+			this.logger.keyValue("  Tools hash", image.toolsHash);
+		}
+		const versions = Object.entries(image.versions ?? {});
+		if (versions.length > 0) {
+			this.logger.keyValue(
+				"  Versions",
+				versions.map(([tool, version]) => `${tool} ${version}`).join(", "),
+			);
 		}
 
 		// If both are running, show Linear configuration
@@ -95,22 +133,130 @@ export class StatusCommand extends BaseCommand {
 			this.logger.keyValue("  Webhook URL", `${tunnelStatus.url}/webhook`, 14);
 		}
 
+		// Linear OAuth app sync status
+		if (status.linearSync) {
+			const sync = status.linearSync;
+			this.logger.blank();
+			this.logger.status(
+				"Linear sync",
+				sync.ok && sync.url === tunnelStatus.url,
+				sync.ok
+					? sync.url === tunnelStatus.url
+						? "OAuth app URLs up to date"
+						: "OAuth app points at an old URL"
+					: `Failed: ${sync.error}`,
+			);
+			this.logger.keyValue(
+				"  Synced",
+				`${new Date(sync.syncedAt).toLocaleString()} (${sync.url})`,
+			);
+		}
+
 		// Show started time
-		if (startedAt && containerStatus.running) {
+		if (status.state.startedAt && containerStatus.running) {
 			this.logger.blank();
 			this.logger.divider();
 			this.logger.blank();
-			this.logger.keyValue("Started", startedAt.toLocaleString(), 10);
+			this.logger.keyValue(
+				"Started",
+				new Date(status.state.startedAt).toLocaleString(),
+				10,
+			);
 		}
 
 		// Show state consistency warning
-		if (stateInfo.isRunning && !containerStatus.running) {
+		if (status.state.isRunning && !containerStatus.running) {
 			this.logger.blank();
 			this.logger.warn(
 				"State file says running but container is not. Run 'cyrus-docker stop' to clean up.",
 			);
 		}
 
+		// Overall health
+		this.logger.blank();
+		this.logger.divider();
+		this.logger.blank();
+		this.logger.status(
+			"Health",
+			status.health === "healthy",
+			status.health.toUpperCase(),
+		);
+		for (const issue of status.issues) {
+			this.logger.raw(`  - ${issue}`);
+		}
+
+		this.printProfiles(status.profiles ?? []);
+
+		this.logger.blank();
+	}
+
+	/**
+	 * Summarize every profile when more than one exists
+	 */
+	private printProfiles(profiles: ProfileStatus[]): void {
+		if (profiles.length < 2) {
+			return;
+		}
+
 		this.logger.blank();
+		this.logger.divider();
+		this.logger.blank();
+		this.logger.info("Profiles:");
+
+		for (const profile of profiles) {
+			const marker = profile.current ? " *" : "";
+			if (profile.error) {
+				this.logger.status(
+					`  ${profile.name}${marker}`,
+					false,
+					`Error: ${profile.error}`,
+				);
+				continue;
+			}
+
+			const url = profile.tunnelUrl ?? "no tunnel";
+			this.logger.status(
+				`  ${profile.name}${marker}`,
+				profile.running,
+				profile.running
+					? `Running on port ${profile.port} (${url})`
+					: `Stopped (port ${profile.port})`,
+			);
+		}
+	}
+
+	/**
+	 * Collect the container and tunnel state of every profile
+	 * A profile that fails to load is reported as errored, not fatal
+	 */
+	private async collectProfiles(): Promise<ProfileStatus[]> {
+		const statuses: ProfileStatus[] = [];
+		for (const profile of this.app.profiles.list()) {
+			const current = profile.name === this.app.profile.name;
+			try {
+				const app = current
+					? this.app
+					: new Application(this.app.version, {
+							profile: profile.name,
+							logToStderr: this.options.json,
+						});
+				const containerStatus = await app.docker.getStatus();
+				statuses.push({
+					name: profile.name,
+					current,
+					running: containerStatus.running,
+					port: app.hostPort,
+					tunnelUrl: app.state.getTunnelUrl(),
+				});
+			} catch (error) {
+				statuses.push({
+					name: profile.name,
+					current,
+					running: false,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+		return statuses;
 	}
 }
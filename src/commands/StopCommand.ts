@@ -1,14 +1,14 @@
 import { BaseCommand } from "./ICommand.js";
 
 /**
- * Stop Docker container and ngrok tunnel
+ * Stop Docker container and tunnel
  */
 export class StopCommand extends BaseCommand {
 	async execute(): Promise<void> {
 		this.logger.header("Stopping Cyrus");
 
 		// Check if state says running
-		const ngrokPid = this.app.state.getNgrokPid();
+		const tunnelPid = this.app.state.getNgrokPid();
 		const wasRunning = this.app.state.isRunning();
 
 		// Step 1: Stop Docker container
@@ -21,18 +21,19 @@ export class StopCommand extends BaseCommand {
 			this.logger.warn(`Failed to stop container: ${error}`);
 		}
 
-		// Step 2: Stop ngrok tunnel
+		// Step 2: Stop tunnel
+		const tunnelName = this.app.tunnel.getDisplayName();
 		this.logger.blank();
-		this.logger.info("Step 2: Stopping ngrok tunnel...");
+		this.logger.info(`Step 2: Stopping ${tunnelName} tunnel...`);
 
-		if (ngrokPid) {
+		if (tunnelPid) {
 			try {
-				await this.app.tunnel.stop(ngrokPid);
+				await this.app.tunnel.stop(tunnelPid);
 			} catch (error) {
-				this.logger.warn(`Failed to stop ngrok: ${error}`);
+				this.logger.warn(`Failed to stop ${tunnelName}: ${error}`);
 			}
 		} else {
-			this.logger.info("No ngrok PID found in state");
+			this.logger.info("No tunnel PID found in state");
 		}
 
 		// Clear state
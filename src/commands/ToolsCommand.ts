@@ -1,5 +1,9 @@
 import inquirer from "inquirer";
 import type { ToolConfig, ToolPreset } from "../config/types.js";
+import {
+	type PresetInfo,
+	formatPresetChoice,
+} from "../services/PresetService.js";
 import { ToolConfigService } from "../services/ToolConfigService.js";
 import { BaseCommand } from "./ICommand.js";
 
@@ -47,7 +51,14 @@ export class ToolsCommand extends BaseCommand {
 		}
 
 		// Get available presets
-		const presets = this.toolConfig.getAvailablePresets();
+		let presets: PresetInfo[];
+		try {
+			presets = this.toolConfig.getAvailablePresets();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
 
 		// Prompt for presets
 		const { selectedPresets } = await inquirer.prompt<{
@@ -58,7 +69,7 @@ export class ToolsCommand extends BaseCommand {
 				name: "selectedPresets",
 				message: "Select tool presets to install:",
 				choices: presets.map((p) => ({
-					name: `${p.name} - ${p.description}`,
+					name: formatPresetChoice(p),
 					value: p.value,
 					checked: existingConfig?.presets?.includes(p.value) ?? false,
 				})),
@@ -0,0 +1,222 @@
+import { existsSync, statSync } from "node:fs";
+import { join, resolve } from "node:path";
+import inquirer from "inquirer";
+import { TOOL_LIST_KEYS } from "../config/constants.js";
+import type {
+	ToolChanges,
+	ToolConfig,
+	ToolsDetectOptions,
+} from "../config/types.js";
+import {
+	type ResolvedToolConfig,
+	ToolConfigService,
+} from "../services/ToolConfigService.js";
+import {
+	type ToolDetection,
+	ToolDetectionService,
+	isGitUrl,
+} from "../services/ToolDetectionService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Suggest presets and packages from a repository's project files
+ * and offer to merge them into tools.yml
+ */
+export class ToolsDetectCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private target?: string,
+		private options: ToolsDetectOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const detector = new ToolDetectionService(this.logger, {
+			reposDir: join(this.app.profile.cyrusHome, "repos"),
+		});
+		const toolConfig = new ToolConfigService(this.logger);
+
+		let detection: ToolDetection;
+		let config: ToolConfig;
+		let resolved: ResolvedToolConfig;
+		try {
+			detection = await this.detect(detector);
+			config = toolConfig.readConfig() ?? {};
+			resolved = toolConfig.resolveConfig(config);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+		const missing = this.getMissing(detection.suggested, config, resolved);
+
+		if (this.options.json) {
+			console.log(JSON.stringify({ ...detection, missing }, null, 2));
+			return;
+		}
+
+		this.logger.header("Detected Tools");
+		this.logger.blank();
+		for (const repo of detection.repos) {
+			const matches = detection.matches.filter((match) => match.repo === repo);
+			this.logger.raw(`  ${repo}`);
+			if (matches.length === 0) {
+				this.logger.raw("    (no known project files)");
+			}
+			for (const match of matches) {
+				this.logger.keyValue(
+					`  ${match.marker}`,
+					this.formatChanges(match.suggests),
+					24,
+				);
+			}
+		}
+		this.logger.blank();
+
+		if (detection.matches.length === 0) {
+			this.logger.info("Nothing to suggest");
+			return;
+		}
+		if (Object.keys(missing).length === 0) {
+			this.logger.success(
+				`${toolConfig.getConfigFilePath()} already includes everything detected`,
+			);
+			return;
+		}
+
+		this.logger.info("Suggested additions to tools.yml:");
+		for (const key of TOOL_LIST_KEYS) {
+			if (missing[key]) {
+				this.logger.keyValue(`  ${key}`, missing[key].join(", "));
+			}
+		}
+		this.logger.blank();
+
+		if (!this.options.yes) {
+			const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+				{
+					type: "confirm",
+					name: "confirm",
+					message: "Add these to tools.yml?",
+					default: true,
+				},
+			]);
+			if (!confirm) {
+				this.logger.info(`${toolConfig.getConfigFilePath()} unchanged`);
+				return;
+			}
+		}
+
+		let applied: ToolChanges;
+		try {
+			applied = toolConfig.addToConfig(missing);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+		for (const key of TOOL_LIST_KEYS) {
+			if (applied[key]) {
+				this.logger.success(`Added ${key}: ${applied[key].join(", ")}`);
+			}
+		}
+		this.logger.info(
+			`Saved ${toolConfig.getConfigFilePath()}. Run 'cyrus-docker build' to apply.`,
+		);
+	}
+
+	/**
+	 * Scan the target (a path or git URL) or, without one, every
+	 * repository Cyrus has cloned
+	 */
+	private async detect(detector: ToolDetectionService): Promise<ToolDetection> {
+		if (!this.target) {
+			const repos = detector.listRepos();
+			if (repos.length === 0) {
+				throw new Error(
+					`No repositories found in ${detector.getReposDir()}. Pass a path or git URL, e.g. cyrus-docker tools detect ./my-repo`,
+				);
+			}
+			return detector.detect(repos);
+		}
+
+		if (isGitUrl(this.target)) {
+			if (!this.options.json) {
+				this.logger.info(`Cloning ${this.target}...`);
+			}
+			const clone = await detector.cloneRepository(this.target);
+			try {
+				return this.relabel(detector.detect([clone]), clone, this.target);
+			} finally {
+				detector.removeClone(clone);
+			}
+		}
+
+		const dir = resolve(this.target);
+		if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+			throw new Error(`Not a directory: ${dir}`);
+		}
+		return detector.detect([dir]);
+	}
+
+	/**
+	 * Report a temporary clone under the URL it was cloned from
+	 */
+	private relabel(
+		detection: ToolDetection,
+		dir: string,
+		label: string,
+	): ToolDetection {
+		return {
+			...detection,
+			repos: detection.repos.map((repo) => (repo === dir ? label : repo)),
+			matches: detection.matches.map((match) =>
+				match.repo === dir ? { ...match, repo: label } : match,
+			),
+		};
+	}
+
+	/**
+	 * Drop suggestions tools.yml already covers, directly or through
+	 * the presets it selects
+	 */
+	private getMissing(
+		suggested: ToolChanges,
+		config: ToolConfig,
+		resolved: ResolvedToolConfig,
+	): ToolChanges {
+		const installed: Record<string, string[]> = {
+			presets: config.presets ?? [],
+			apt: resolved.apt,
+			npm: resolved.npm,
+			pip: resolved.pip,
+		};
+		const missing: ToolChanges = {};
+		for (const key of TOOL_LIST_KEYS) {
+			const names = (installed[key] ?? []).map((spec) =>
+				spec.replace(/(.)@[^@]*$/, "$1"),
+			);
+			const items = (suggested[key] ?? []).filter(
+				(item) => !names.includes(item),
+			);
+			if (items.length > 0) {
+				missing[key] = items;
+			}
+		}
+		return missing;
+	}
+
+	/**
+	 * Format suggestions as "python; pip: poetry"
+	 */
+	private formatChanges(changes: ToolChanges): string {
+		return TOOL_LIST_KEYS.filter((key) => changes[key])
+			.map((key) =>
+				key === "presets"
+					? (changes[key] ?? []).join(", ")
+					: `${key}: ${(changes[key] ?? []).join(", ")}`,
+			)
+			.join("; ");
+	}
+}
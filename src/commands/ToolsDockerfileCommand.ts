@@ -0,0 +1,29 @@
+import { BASE_IMAGE } from "../config/constants.js";
+import { ToolConfigService } from "../services/ToolConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Print the Dockerfile generated from tools.yml
+ * Output is the bare Dockerfile so it can be piped or redirected
+ */
+export class ToolsDockerfileCommand extends BaseCommand {
+	async execute(): Promise<void> {
+		const toolConfig = new ToolConfigService(this.logger);
+		this.requireValidToolConfig(toolConfig);
+		const config = toolConfig.readConfig();
+		if (!config) {
+			this.exitWithError(
+				`No tools configured (${toolConfig.getConfigFilePath()} not found or invalid)`,
+			);
+		}
+
+		try {
+			const resolved = toolConfig.resolveConfig(config);
+			process.stdout.write(toolConfig.generateDockerfile(resolved, BASE_IMAGE));
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	}
+}
@@ -0,0 +1,67 @@
+import { TOOL_LIST_KEYS } from "../config/constants.js";
+import type { ToolChanges } from "../config/types.js";
+import { ToolConfigService } from "../services/ToolConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Add presets and packages to tools.yml, or remove them, without prompts
+ */
+export class ToolsEditCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private action: "add" | "remove",
+		private changes: ToolChanges,
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const requested = TOOL_LIST_KEYS.filter(
+			(key) => (this.changes[key]?.length ?? 0) > 0,
+		);
+		if (requested.length === 0) {
+			this.exitWithError(
+				`Nothing to ${this.action}. Use --preset, --apt, --npm, --pip, --cargo or --command.`,
+			);
+		}
+
+		const toolConfig = new ToolConfigService(this.logger);
+		let applied: ToolChanges;
+		try {
+			applied =
+				this.action === "add"
+					? toolConfig.addToConfig(this.changes)
+					: toolConfig.removeFromConfig(this.changes);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		for (const key of requested) {
+			const items = applied[key] ?? [];
+			const skipped = (this.changes[key] ?? []).filter(
+				(item) => !items.includes(item),
+			);
+			if (items.length > 0) {
+				this.logger.success(
+					`${this.action === "add" ? "Added" : "Removed"} ${key}: ${items.join(", ")}`,
+				);
+			}
+			if (skipped.length > 0) {
+				this.logger.info(
+					`${this.action === "add" ? "Already in" : "Not in"} ${key}: ${skipped.join(", ")}`,
+				);
+			}
+		}
+
+		if (Object.keys(applied).length === 0) {
+			this.logger.info(`${toolConfig.getConfigFilePath()} unchanged`);
+			return;
+		}
+
+		this.logger.info(
+			`Saved ${toolConfig.getConfigFilePath()}. Run 'cyrus-docker build' to apply.`,
+		);
+	}
+}
@@ -0,0 +1,60 @@
+import type { ToolsOutputOptions } from "../config/types.js";
+import {
+	type PresetInfo,
+	formatPresetChoice,
+} from "../services/PresetService.js";
+import { ToolConfigService } from "../services/ToolConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * List available tool presets, marking those selected in tools.yml
+ */
+export class ToolsListCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ToolsOutputOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const toolConfig = new ToolConfigService(this.logger);
+		let presets: PresetInfo[];
+		try {
+			presets = toolConfig.getAvailablePresets();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+		const selected = toolConfig.readConfig()?.presets ?? [];
+
+		if (this.options.json) {
+			console.log(
+				JSON.stringify(
+					presets.map((preset) => ({
+						...preset,
+						selected: selected.includes(preset.value),
+					})),
+					null,
+					2,
+				),
+			);
+			return;
+		}
+
+		this.logger.header("Tool Presets");
+		this.logger.blank();
+		const width = Math.max(...presets.map((preset) => preset.value.length));
+		for (const preset of presets) {
+			const marker = selected.includes(preset.value) ? "[x]" : "[ ]";
+			this.logger.raw(
+				`  ${marker} ${preset.value.padEnd(width)}  ${formatPresetChoice(preset)}`,
+			);
+		}
+		this.logger.blank();
+		this.logger.info(
+			"Add one with 'cyrus-docker tools add --preset <name>'",
+		);
+	}
+}
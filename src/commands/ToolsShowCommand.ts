@@ -0,0 +1,112 @@
+import type { ToolsOutputOptions } from "../config/types.js";
+import {
+	type ResolvedToolConfig,
+	ToolConfigService,
+} from "../services/ToolConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Show the resolved tools configuration (presets expanded)
+ */
+export class ToolsShowCommand extends BaseCommand {
+	constructor(
+		app: import("../Application.js").Application,
+		private options: ToolsOutputOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		const toolConfig = new ToolConfigService(this.logger);
+		const config = toolConfig.readConfig();
+		if (!config) {
+			this.exitWithError(
+				`No tools configured (${toolConfig.getConfigFilePath()} not found or invalid)`,
+			);
+		}
+
+		let resolved: ResolvedToolConfig;
+		try {
+			resolved = toolConfig.resolveConfig(config);
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		// Base image version args and tools.yml build args
+		const buildArgs = {
+			...toolConfig.getBuildArgs(resolved),
+			...resolved.buildArgs,
+		};
+
+		if (this.options.json) {
+			console.log(
+				JSON.stringify(
+					{
+						presets: config.presets ?? [],
+						...resolved,
+						buildArgs,
+					},
+					null,
+					2,
+				),
+			);
+			return;
+		}
+
+		this.logger.header("Resolved Tools Configuration");
+		this.logger.blank();
+		this.logger.keyValue("Config", toolConfig.getConfigFilePath(), 14);
+		this.printList("Presets", config.presets ?? []);
+		this.printList("APT packages", resolved.apt);
+		this.printList("npm packages", resolved.npm);
+		this.printList("pip packages", resolved.pip);
+		this.printList("cargo crates", resolved.cargo);
+		this.printList(
+			"Versions",
+			Object.entries(resolved.versions).map(
+				([tool, version]) => `${tool} ${version}`,
+			),
+		);
+		this.printList(
+			"Build args",
+			Object.entries(buildArgs).map(([name, value]) => `${name}=${value}`),
+		);
+		this.printList(
+			"Secrets",
+			resolved.secrets.map(
+				(secret) => `${secret.id} (${secret.steps.join(", ")})`,
+			),
+		);
+		if (resolved.customDockerfile) {
+			this.logger.keyValue("Dockerfile", resolved.customDockerfile, 14);
+		}
+		if (resolved.cargoMultiStage) {
+			this.logger.keyValue("cargo stage", "enabled", 14);
+		}
+		const groups = [
+			...resolved.presetCommands,
+			{ preset: "tools.yml", commands: resolved.commands },
+		].filter((group) => group.commands.length > 0);
+		if (groups.length > 0) {
+			this.logger.keyValue("Commands", "", 14);
+			for (const { preset, commands } of groups) {
+				this.logger.raw(`    # ${preset}`);
+				for (const command of commands) {
+					this.logger.raw(`    ${command}`);
+				}
+			}
+		}
+		this.logger.blank();
+	}
+
+	/**
+	 * Print a non-empty list as a key-value line
+	 */
+	private printList(label: string, items: string[]): void {
+		if (items.length > 0) {
+			this.logger.keyValue(label, items.join(", "), 14);
+		}
+	}
+}
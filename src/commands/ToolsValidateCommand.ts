@@ -0,0 +1,20 @@
+import { ToolConfigService } from "../services/ToolConfigService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Validate tools.yml and user presets without building
+ */
+export class ToolsValidateCommand extends BaseCommand {
+	async execute(): Promise<void> {
+		const toolConfig = new ToolConfigService(this.logger);
+		if (!toolConfig.hasConfig()) {
+			this.logger.info(
+				`${toolConfig.getConfigFilePath()} not found (no tools configured)`,
+			);
+			return;
+		}
+
+		this.requireValidToolConfig(toolConfig);
+		this.logger.success(`${toolConfig.getConfigFilePath()} is valid`);
+	}
+}
@@ -0,0 +1,128 @@
+import { BACKUP_KEEP, WATCHDOG_INTERVAL } from "../config/constants.js";
+import type { EnvConfig, WatchOptions } from "../config/types.js";
+import { EventLogService } from "../services/EventLogService.js";
+import { LinearService } from "../services/LinearService.js";
+import {
+	type WatchdogBackupSchedule,
+	WatchdogService,
+} from "../services/WatchdogService.js";
+import { BaseCommand } from "./ICommand.js";
+
+/**
+ * Watch the tunnel and container, repairing them when they fail
+ */
+export class WatchCommand extends BaseCommand {
+	private stopping = false;
+
+	constructor(
+		app: import("../Application.js").Application,
+		private options: WatchOptions = {},
+	) {
+		super(app);
+	}
+
+	async execute(): Promise<void> {
+		// Load secrets before the watchdog takes the tunnel, which needs them
+		let env: EnvConfig;
+		try {
+			env = await this.app.readEnv();
+		} catch (error) {
+			this.exitWithError(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+
+		const events = new EventLogService(this.logger, {
+			eventsFile: this.app.profile.eventsFile,
+		});
+		const backup = this.getBackupSchedule(env);
+		const watchdog = new WatchdogService(
+			this.logger,
+			this.app.tunnel,
+			this.app.docker,
+			this.app.state,
+			events,
+			LinearService.fromEnv(this.logger, env),
+			backup,
+		);
+
+		// Single pass, e.g. from cron
+		if (this.options.once) {
+			await watchdog.check(this.app.hostPort);
+			return;
+		}
+
+		this.requireRunning();
+
+		const interval = this.options.interval ?? WATCHDOG_INTERVAL;
+		if (!Number.isFinite(interval) || interval <= 0) {
+			this.exitWithError("Interval must be a positive number of seconds");
+		}
+
+		this.logger.header("Cyrus Watchdog");
+		this.logger.keyValue("Profile", this.app.profile.name);
+		this.logger.keyValue("Tunnel", this.app.tunnel.getDisplayName());
+		this.logger.keyValue("Interval", `${interval}s`);
+		this.logger.keyValue(
+			"Backups",
+			backup
+				? `every ${backup.intervalHours}h, keeping ${backup.keep}`
+				: "off (set BACKUP_INTERVAL)",
+		);
+		this.logger.keyValue("Event log", events.getEventsFile());
+		this.logger.blank();
+		this.logger.info("Watching tunnel and container (Ctrl+C to stop)...");
+
+		events.record("watch_started", `Watchdog started (every ${interval}s)`);
+
+		const stop = () => {
+			this.stopping = true;
+		};
+		process.once("SIGINT", stop);
+		process.once("SIGTERM", stop);
+
+		while (!this.stopping) {
+			try {
+				await watchdog.check(this.app.hostPort);
+			} catch (error) {
+				this.logger.error(`Watchdog check failed: ${error}`);
+			}
+			await this.sleepUnlessStopped(interval * 1000);
+		}
+
+		events.record("watch_stopped", "Watchdog stopped");
+		this.logger.blank();
+		this.logger.info("Watchdog stopped.");
+	}
+
+	/**
+	 * Get the backup schedule from BACKUP_* settings (none without an
+	 * interval)
+	 */
+	private getBackupSchedule(env: EnvConfig): WatchdogBackupSchedule | null {
+		const intervalHours = Number(env.BACKUP_INTERVAL);
+		if (!env.BACKUP_INTERVAL || !(intervalHours > 0)) {
+			return null;
+		}
+		const keep = Number(env.BACKUP_KEEP);
+		return {
+			service: this.app.getBackupService(),
+			intervalHours,
+			keep: env.BACKUP_KEEP && Number.isInteger(keep) ? keep : BACKUP_KEEP,
+			exclude: (env.BACKUP_EXCLUDE ?? "")
+				.split(",")
+				.map((dir) => dir.trim())
+				.filter(Boolean),
+		};
+	}
+
+	/**
+	 * Sleep in short steps so a stop signal is handled promptly
+	 */
+	private async sleepUnlessStopped(ms: number): Promise<void> {
+		const step = 250;
+		for (let waited = 0; waited < ms && !this.stopping; waited += step) {
+			await new Promise((resolve) => setTimeout(resolve, step));
+		}
+	}
+}
@@ -1,6 +1,16 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
-import type { PresetDefinition, ToolPreset } from "./types.js";
+import type {
+	BuiltinToolPreset,
+	DetectionRule,
+	EnvConfig,
+	HealthLevel,
+	PresetDefinition,
+	SecretStep,
+	SecretsBackendName,
+	ToolListKey,
+	TunnelProviderName,
+} from "./types.js";
 
 /** Default port for Cyrus server */
 export const DEFAULT_PORT = 3456;
@@ -8,6 +18,9 @@ export const DEFAULT_PORT = 3456;
 /** ngrok API port for checking tunnel status */
 export const NGROK_API_PORT = 4040;
 
+/** Number of ngrok API ports to scan (each extra agent takes the next port) */
+export const NGROK_API_PORT_SCAN = 10;
+
 /** Default timeout for ngrok tunnel startup (ms) */
 export const NGROK_STARTUP_TIMEOUT = 30_000;
 
@@ -17,6 +30,27 @@ export const NGROK_RETRY_DELAY = 1_000;
 /** Max retries for ngrok tunnel startup */
 export const NGROK_MAX_RETRIES = 30;
 
+/** cloudflared metrics port (serves the quick tunnel hostname) */
+export const CLOUDFLARED_METRICS_PORT = 45678;
+
+/** Default tunnel provider */
+export const DEFAULT_TUNNEL_PROVIDER: TunnelProviderName = "ngrok";
+
+/** Default secrets backend (plaintext .env.docker) */
+export const DEFAULT_SECRETS_BACKEND: SecretsBackendName = "env";
+
+/** Environment variable holding the vault passphrase for unattended use */
+export const VAULT_PASSPHRASE_ENV = "CYRUS_DOCKER_VAULT_PASSPHRASE";
+
+/** Timeout for each run of SECRETS_COMMAND (ms), long enough for a prompt */
+export const SECRETS_COMMAND_TIMEOUT = 60_000;
+
+/** Set in the container when secrets come from a backend (not .env.docker) */
+export const SECRETS_INJECTED_VAR = "CYRUS_SECRETS_INJECTED";
+
+/** Oldest Docker Compose supported (the v2 `docker compose` plugin) */
+export const MIN_COMPOSE_VERSION = "2.0.0";
+
 /** Default timeout for container health check (ms) */
 export const CONTAINER_HEALTH_TIMEOUT = 120_000;
 
@@ -32,9 +66,48 @@ export const SERVICE_NAME = "cyrus";
 /** Docker image name (as defined in docker-compose.yml) */
 export const IMAGE_NAME = "cyrus-ai/cyrus";
 
+/** Base image tag that tool images build FROM */
+export const BASE_IMAGE = `${IMAGE_NAME}:base`;
+
+/** Prefix of the tags recording each build (build-<timestamp>-<hash>) */
+export const BUILD_TAG_PREFIX = "build-";
+
+/** Prefix of the private temp directories tools images are built in */
+export const BUILD_DIR_PREFIX = "cyrus-docker-build-";
+
+/** Number of tagged builds `images prune` keeps by default */
+export const IMAGE_HISTORY_KEEP = 5;
+
+/** Number of data backups `backup prune` and the watchdog keep by default */
+export const BACKUP_KEEP = 7;
+
+/** Large data directories that backups can leave out */
+export const BACKUP_OPTIONAL_DIRS = ["repos", "worktrees"];
+
 /** Docker label for storing tools configuration hash */
 export const TOOLS_HASH_LABEL = "cyrus-docker.tools-hash";
 
+/** Prefix of the image labels holding each tools fingerprint component */
+export const FINGERPRINT_LABEL_PREFIX = "cyrus-docker.fingerprint.";
+
+/** Prefix of the image labels recording installed tool versions */
+export const VERSION_LABEL_PREFIX = "cyrus-docker.version.";
+
+/** Base Dockerfile build args for the versions pinned in tools.yml */
+export const BASE_VERSION_BUILD_ARGS = {
+	cyrusVersion: "CYRUS_VERSION",
+	claudeCodeVersion: "CLAUDE_CODE_VERSION",
+} as const;
+
+/** Files in the docker directory the base image is built from */
+export const BASE_IMAGE_FILES = ["Dockerfile", "entrypoint.sh", "healthcheck.sh"];
+
+/** Export bundle format version (bumped on incompatible layout changes) */
+export const BUNDLE_FORMAT = 1;
+
+/** Files and directories in the config directory that export bundles carry */
+export const BUNDLE_CONFIG_FILES = ["tools.yml", "presets"];
+
 /** State file version */
 export const STATE_VERSION = "1.0";
 
@@ -44,17 +117,154 @@ export const CONFIG_DIR = join(homedir(), ".cyrus-docker");
 /** Path to state file */
 export const STATE_FILE = join(CONFIG_DIR, "state.json");
 
+/** Directory holding named deployment profiles */
+export const PROFILES_DIR = join(CONFIG_DIR, "profiles");
+
+/** Name of the profile used when none is selected */
+export const DEFAULT_PROFILE = "default";
+
+/** Environment variable selecting the deployment profile */
+export const PROFILE_ENV_VAR = "CYRUS_DOCKER_PROFILE";
+
+/** Linear GraphQL API endpoint */
+export const LINEAR_API_URL = "https://api.linear.app/graphql";
+
+/** Timeout for Linear API requests (ms) */
+export const LINEAR_API_TIMEOUT = 15_000;
+
+/** Path to the watchdog event log (JSON lines) */
+export const EVENTS_FILE = join(CONFIG_DIR, "events.log");
+
+/** Default interval between watchdog checks (seconds) */
+export const WATCHDOG_INTERVAL = 30;
+
 /** Default number of log lines to show */
 export const DEFAULT_LOG_LINES = 100;
 
+/** Exit codes of the status command (Nagios-compatible) */
+export const STATUS_EXIT_CODES: Record<HealthLevel, number> = {
+	healthy: 0,
+	degraded: 1,
+	down: 2,
+};
+
+/** Prefix of environment variables read by `init --non-interactive` */
+export const INIT_ENV_PREFIX = "CYRUS_DOCKER_";
+
+/** Every .env.docker setting with a short description (used for init flags) */
+export const ENV_CONFIG_FIELDS: Record<keyof EnvConfig, string> = {
+	ANTHROPIC_API_KEY: "Anthropic API key",
+	CLAUDE_CODE_OAUTH_TOKEN: "Claude Code OAuth token (alternative to API key)",
+	LINEAR_CLIENT_ID: "Linear OAuth client ID",
+	LINEAR_CLIENT_SECRET: "Linear OAuth client secret",
+	LINEAR_WEBHOOK_SECRET: "Linear webhook secret (generated if omitted)",
+	LINEAR_DIRECT_WEBHOOKS: "Enable direct webhooks mode (default: true)",
+	LINEAR_SYNC_URLS: "Update the Linear OAuth app URLs on start (true/false)",
+	LINEAR_ADMIN_API_KEY: "Linear admin API key (for URL sync)",
+	LINEAR_OAUTH_APP_ID: "Linear OAuth app ID (for URL sync)",
+	LINEAR_API_URL: "Linear GraphQL endpoint override",
+	CYRUS_BASE_URL: "Public URL (required for the static tunnel provider)",
+	NGROK_AUTHTOKEN: "ngrok authtoken",
+	NGROK_DOMAIN: "Reserved ngrok domain",
+	NGROK_CONFIG: "ngrok agent config file",
+	TUNNEL_PROVIDER: "Tunnel provider (ngrok, cloudflared or static)",
+	CLOUDFLARED_TUNNEL_TOKEN: "Cloudflare Tunnel token",
+	GIT_USER_NAME: "Git user name",
+	GIT_USER_EMAIL: "Git user email",
+	GITHUB_TOKEN: "GitHub personal access token",
+	CYRUS_SERVER_PORT: "Cyrus server port (default: 3456)",
+	CYRUS_HOST_PORT: "Host port of the container (default: 3456)",
+	CYRUS_HOST_PATH: "Host path of the Cyrus home (set on start)",
+	SECRETS_BACKEND: "Where secrets are kept (env, vault or command)",
+	SECRETS_COMMAND: "Command printing a secret, e.g. pass show cyrus/{key}",
+	SECRETS_KEY_FILE: "Key file unlocking the vault (instead of a passphrase)",
+	BACKUP_DIR: "Directory for data backups",
+	BACKUP_INTERVAL: "Hours between backups taken by the watchdog",
+	BACKUP_KEEP: "Number of backups the watchdog keeps",
+	BACKUP_EXCLUDE: "Data directories scheduled backups leave out, e.g. repos",
+};
+
+/** .env.docker settings holding credentials (masked by config list) */
+export const SECRET_ENV_KEYS: Array<keyof EnvConfig> = [
+	"ANTHROPIC_API_KEY",
+	"CLAUDE_CODE_OAUTH_TOKEN",
+	"LINEAR_CLIENT_SECRET",
+	"LINEAR_WEBHOOK_SECRET",
+	"LINEAR_ADMIN_API_KEY",
+	"NGROK_AUTHTOKEN",
+	"CLOUDFLARED_TUNNEL_TOKEN",
+	"GITHUB_TOKEN",
+];
+
+/** .env.docker settings read by the tunnel (applied by stop and start) */
+export const TUNNEL_ENV_KEYS: Array<keyof EnvConfig> = [
+	"TUNNEL_PROVIDER",
+	"NGROK_AUTHTOKEN",
+	"NGROK_DOMAIN",
+	"NGROK_CONFIG",
+	"CLOUDFLARED_TUNNEL_TOKEN",
+];
+
+/**
+ * .env.docker settings only cyrus-docker itself reads on start;
+ * all others reach the container, which must be recreated to see them
+ */
+export const HOST_ENV_KEYS: Array<keyof EnvConfig> = [
+	"LINEAR_SYNC_URLS",
+	"LINEAR_ADMIN_API_KEY",
+	"LINEAR_OAUTH_APP_ID",
+	"LINEAR_API_URL",
+	"CYRUS_HOST_PATH",
+	"SECRETS_BACKEND",
+	"SECRETS_COMMAND",
+	"SECRETS_KEY_FILE",
+	"BACKUP_DIR",
+	"BACKUP_INTERVAL",
+	"BACKUP_KEEP",
+	"BACKUP_EXCLUDE",
+];
+
 /** ngrok tunnels API endpoint */
 export const NGROK_TUNNELS_API = `http://localhost:${NGROK_API_PORT}/api/tunnels`;
 
 /** Path to tools configuration file */
 export const TOOLS_CONFIG_FILE = join(CONFIG_DIR, "tools.yml");
 
+/** tools.yml list keys, in the order they are shown */
+export const TOOL_LIST_KEYS: ToolListKey[] = [
+	"presets",
+	"apt",
+	"npm",
+	"pip",
+	"cargo",
+	"commands",
+];
+
+/** Directory holding user-defined tool presets (<name>.yml) */
+export const PRESETS_DIR = join(CONFIG_DIR, "presets");
+
+/** Generated build steps a secret can be mounted for, in build order */
+export const SECRET_STEPS: SecretStep[] = [
+	"apt",
+	"presets",
+	"cargo",
+	"pip",
+	"npm",
+	"commands",
+];
+
+/** Where well-known build secrets are mounted; others go to commands at /run/secrets/<id> */
+export const SECRET_DEFAULTS: Record<
+	string,
+	{ steps: SecretStep[]; target: string }
+> = {
+	npmrc: { steps: ["npm"], target: "/root/.npmrc" },
+	pipconf: { steps: ["pip"], target: "/etc/pip.conf" },
+	netrc: { steps: ["cargo", "pip", "commands"], target: "/root/.netrc" },
+};
+
 /** Tool preset definitions */
-export const TOOL_PRESETS: Record<ToolPreset, PresetDefinition> = {
+export const TOOL_PRESETS: Record<BuiltinToolPreset, PresetDefinition> = {
 	python: {
 		name: "Python",
 		description: "Python 3, pip, venv, pytest, black, ruff",
@@ -64,20 +274,26 @@ export const TOOL_PRESETS: Record<ToolPreset, PresetDefinition> = {
 	rust: {
 		name: "Rust",
 		description: "Rust toolchain + cargo",
+		versions: { rust: "1.79.0" },
 		commands: [
-			"curl --proto '=https' --tlsv1.2 -sSf https://sh.rustup.rs | sh -s -- -y",
+			"curl --proto '=https' --tlsv1.2 -sSf https://sh.rustup.rs | sh -s -- -y --default-toolchain {{rust}}",
 		],
 	},
 	go: {
 		name: "Go",
 		description: "Go programming language",
-		apt: ["golang-go"],
+		versions: { go: "1.22.5" },
+		commands: [
+			"curl -fsSL https://go.dev/dl/go{{go}}.linux-amd64.tar.gz | tar -C /usr/local -xz",
+			"ln -s /usr/local/go/bin/go /usr/local/go/bin/gofmt /usr/local/bin/",
+		],
 	},
 	ruby: {
 		name: "Ruby",
 		description: "Ruby + Bundler",
 		apt: ["ruby-full"],
-		commands: ["gem install bundler"],
+		versions: { bundler: "2.5.16" },
+		commands: ["gem install bundler -v {{bundler}}"],
 	},
 	java: {
 		name: "Java",
@@ -87,8 +303,9 @@ export const TOOL_PRESETS: Record<ToolPreset, PresetDefinition> = {
 	aws: {
 		name: "AWS CLI",
 		description: "AWS CLI v2",
+		versions: { awscli: "2.17.13" },
 		commands: [
-			'curl "https://awscli.amazonaws.com/awscli-exe-linux-x86_64.zip" -o "/tmp/awscliv2.zip"',
+			'curl "https://awscli.amazonaws.com/awscli-exe-linux-x86_64-{{awscli}}.zip" -o "/tmp/awscliv2.zip"',
 			"unzip -q /tmp/awscliv2.zip -d /tmp",
 			"/tmp/aws/install",
 			"rm -rf /tmp/awscliv2.zip /tmp/aws",
@@ -98,21 +315,60 @@ export const TOOL_PRESETS: Record<ToolPreset, PresetDefinition> = {
 	k8s: {
 		name: "Kubernetes",
 		description: "kubectl + helm",
+		versions: { kubectl: "1.30.2", helm: "3.15.2" },
 		commands: [
-			"curl -LO https://dl.k8s.io/release/$(curl -L -s https://dl.k8s.io/release/stable.txt)/bin/linux/amd64/kubectl",
+			"curl -LO https://dl.k8s.io/release/v{{kubectl}}/bin/linux/amd64/kubectl",
 			"install -o root -g root -m 0755 kubectl /usr/local/bin/kubectl",
 			"rm kubectl",
-			"curl https://raw.githubusercontent.com/helm/helm/main/scripts/get-helm-3 | bash",
+			"curl -fsSL https://get.helm.sh/helm-v{{helm}}-linux-amd64.tar.gz | tar -xz -C /tmp",
+			"install -m 0755 /tmp/linux-amd64/helm /usr/local/bin/helm",
+			"rm -rf /tmp/linux-amd64",
 		],
 	},
 	terraform: {
 		name: "Terraform",
 		description: "HashiCorp Terraform",
+		versions: { terraform: "1.9.2" },
 		commands: [
 			"curl -fsSL https://apt.releases.hashicorp.com/gpg | gpg --dearmor -o /etc/apt/keyrings/hashicorp-archive-keyring.gpg",
 			'echo "deb [signed-by=/etc/apt/keyrings/hashicorp-archive-keyring.gpg] https://apt.releases.hashicorp.com bookworm main" > /etc/apt/sources.list.d/hashicorp.list',
 			"apt-get update",
-			"apt-get install -y terraform",
+			"apt-get install -y terraform={{terraform}}-1",
 		],
 	},
 };
+
+/** Markers suggesting presets and packages for `tools detect` */
+export const DETECTION_RULES: DetectionRule[] = [
+	{
+		markers: ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"],
+		preset: "python",
+	},
+	{ markers: ["poetry.lock"], pip: ["poetry"] },
+	{ markers: ["Pipfile"], pip: ["pipenv"] },
+	{ markers: ["uv.lock"], pip: ["uv"] },
+	{ markers: [".pre-commit-config.yaml"], pip: ["pre-commit"] },
+	{ markers: ["Cargo.toml"], preset: "rust" },
+	{ markers: ["go.mod"], preset: "go" },
+	{ markers: ["Gemfile"], preset: "ruby" },
+	{ markers: ["pom.xml", "build.gradle", "build.gradle.kts"], preset: "java" },
+	{ markers: ["cdk.json"], preset: "aws", npm: ["aws-cdk"] },
+	{ markers: ["samconfig.toml"], preset: "aws" },
+	{ markers: ["Chart.yaml", "kustomization.yaml"], preset: "k8s" },
+	{ markers: [".terraform", ".terraform.lock.hcl", "*.tf"], preset: "terraform" },
+	{ markers: ["pnpm-lock.yaml"], npm: ["pnpm"] },
+	{ markers: ["bun.lock", "bun.lockb"], npm: ["bun"] },
+];
+
+/** Directories `tools detect` does not descend into */
+export const DETECTION_SKIPPED_DIRS = [
+	"node_modules",
+	"vendor",
+	"target",
+	"dist",
+	"build",
+	"venv",
+];
+
+/** How many directory levels below a repository root `tools detect` scans */
+export const DETECTION_DEPTH = 3;
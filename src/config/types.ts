@@ -6,14 +6,39 @@ export interface DockerCLIState {
 	version: string;
 	/** Whether Cyrus is currently running */
 	isRunning: boolean;
-	/** PID of the ngrok process */
+	/** PID of the tunnel process (kept as ngrokPid for state file compatibility) */
 	ngrokPid?: number;
-	/** Active ngrok tunnel URL */
+	/** Active tunnel URL */
 	tunnelUrl?: string;
+	/** Tunnel URL of the most recent start (kept after stop) */
+	lastTunnelUrl?: string;
+	/** Tunnel provider used for the running instance */
+	tunnelProvider?: TunnelProviderName;
+	/** Result of the last Linear OAuth app URL sync */
+	linearSync?: LinearSyncResult;
 	/** Timestamp when Cyrus was started */
 	startedAt?: string;
 	/** Path to the docker directory being used */
 	dockerDir?: string;
+	/**
+	 * Build tag the image was rolled back to (start skips rebuilds while set)
+	 * Only the default profile's state holds it; it applies to every profile
+	 */
+	rollbackTag?: string;
+}
+
+/**
+ * Outcome of updating the Linear OAuth app's URLs
+ */
+export interface LinearSyncResult {
+	/** Whether the update succeeded */
+	ok: boolean;
+	/** Base URL that was pushed to Linear */
+	url: string;
+	/** ISO timestamp of the attempt */
+	syncedAt: string;
+	/** Error message if the update failed */
+	error?: string;
 }
 
 /**
@@ -32,10 +57,26 @@ export interface EnvConfig {
 	LINEAR_WEBHOOK_SECRET?: string;
 	/** Enable direct webhooks mode */
 	LINEAR_DIRECT_WEBHOOKS?: string;
+	/** Update the Linear OAuth app's URLs automatically ("true" to enable) */
+	LINEAR_SYNC_URLS?: string;
+	/** Linear API key of a workspace admin (used for URL sync) */
+	LINEAR_ADMIN_API_KEY?: string;
+	/** ID of the Linear OAuth application to update (defaults to LINEAR_CLIENT_ID) */
+	LINEAR_OAUTH_APP_ID?: string;
+	/** Linear GraphQL endpoint override (e.g. a local mock server) */
+	LINEAR_API_URL?: string;
 	/** External URL for Linear callbacks (ngrok URL) */
 	CYRUS_BASE_URL?: string;
 	/** ngrok authtoken */
 	NGROK_AUTHTOKEN?: string;
+	/** Reserved ngrok domain for a stable tunnel URL */
+	NGROK_DOMAIN?: string;
+	/** Path to an ngrok agent config file */
+	NGROK_CONFIG?: string;
+	/** Tunnel provider to use (ngrok, cloudflared or static) */
+	TUNNEL_PROVIDER?: string;
+	/** Cloudflare Tunnel token (runs a named tunnel instead of a quick tunnel) */
+	CLOUDFLARED_TUNNEL_TOKEN?: string;
 	/** Git user name */
 	GIT_USER_NAME?: string;
 	/** Git user email */
@@ -44,8 +85,58 @@ export interface EnvConfig {
 	GITHUB_TOKEN?: string;
 	/** Cyrus server port */
 	CYRUS_SERVER_PORT?: string;
+	/** Host port mapped to the container (defaults to 3456) */
+	CYRUS_HOST_PORT?: string;
 	/** Host path to cyrus home directory (for container symlink) */
 	CYRUS_HOST_PATH?: string;
+	/** Where secrets are kept (env, vault or command) */
+	SECRETS_BACKEND?: string;
+	/** Command printing a secret, with {key} for its name (command backend) */
+	SECRETS_COMMAND?: string;
+	/** Key file unlocking the vault instead of a passphrase */
+	SECRETS_KEY_FILE?: string;
+	/** Directory for data backups (defaults to the profile's backups/) */
+	BACKUP_DIR?: string;
+	/** Hours between backups taken by the watchdog (unset disables them) */
+	BACKUP_INTERVAL?: string;
+	/** Number of backups the watchdog keeps */
+	BACKUP_KEEP?: string;
+	/** Comma-separated data directories scheduled backups leave out */
+	BACKUP_EXCLUDE?: string;
+}
+
+/**
+ * Changes to .env.docker: a string sets a value (an empty string
+ * clears it), null removes the key
+ */
+export type EnvChanges = { [K in keyof EnvConfig]?: string | null };
+
+/**
+ * A deployment profile namespacing one Cyrus instance
+ */
+export interface DeploymentProfile {
+	/** Profile name ("default" for the unnamed profile) */
+	name: string;
+	/** Whether this is the default profile */
+	isDefault: boolean;
+	/** Directory for this profile's state and config */
+	configDir: string;
+	/** Path to this profile's state file */
+	stateFile: string;
+	/** Path to this profile's .env.docker */
+	envFile: string;
+	/** Path to this profile's watchdog event log */
+	eventsFile: string;
+	/** Path to this profile's encrypted secrets vault */
+	vaultFile: string;
+	/** Default directory for this profile's data backups */
+	backupsDir: string;
+	/** Docker container name */
+	containerName: string;
+	/** Docker Compose project name (undefined keeps compose's default) */
+	projectName?: string;
+	/** Host directory mounted as the container's CYRUS_HOME */
+	cyrusHome: string;
 }
 
 /**
@@ -67,6 +158,37 @@ export interface ContainerStatus {
 	uptimeSeconds?: number;
 }
 
+/**
+ * Supported tunnel providers
+ */
+export type TunnelProviderName = "ngrok" | "cloudflared" | "static";
+
+/**
+ * Supported secrets backends
+ * env keeps secrets in .env.docker; vault and command keep them out of it
+ */
+export type SecretsBackendName = "env" | "vault" | "command";
+
+/**
+ * Encrypted secrets vault as stored on disk
+ */
+export interface VaultFile {
+	/** File format version */
+	version: 1;
+	/** How the encryption key is derived: scrypt from a passphrase, or a key file */
+	kdf: "scrypt" | "keyfile";
+	/** scrypt salt (base64) */
+	salt: string;
+	/** AES-256-GCM initialization vector (base64) */
+	iv: string;
+	/** AES-256-GCM authentication tag (base64) */
+	tag: string;
+	/** Encrypted JSON object of secrets (base64) */
+	data: string;
+	/** Names of the stored secrets (not secret themselves, listed without unlocking) */
+	keys: string[];
+}
+
 /**
  * Tunnel status
  */
@@ -75,16 +197,375 @@ export interface TunnelStatus {
 	isRunning: boolean;
 	/** Public tunnel URL */
 	url?: string;
-	/** ngrok process PID */
+	/** Tunnel process PID */
 	pid?: number;
+	/** Provider serving the tunnel */
+	provider?: TunnelProviderName;
 }
 
+/**
+ * Inputs that determine the contents of the tools image
+ */
+export interface ToolsFingerprintComponents {
+	/** Hash of the canonicalized resolved tools configuration */
+	config: string;
+	/** Hash of the generated Dockerfile */
+	dockerfile: string;
+	/** Hash of the files the base image is built from */
+	baseDockerfile: string;
+	/** ID of the base image the tools image builds on */
+	baseImage: string;
+	/** cyrus-docker version */
+	version: string;
+}
+
+/**
+ * A component of the tools fingerprint
+ */
+export type ToolsFingerprintComponent = keyof ToolsFingerprintComponents;
+
+/**
+ * Fingerprint of the tools image, stored as image labels
+ */
+export interface ToolsFingerprint {
+	/** Combined hash of all components */
+	hash: string;
+	components: ToolsFingerprintComponents;
+}
+
+/**
+ * Result of comparing the image with the current tools fingerprint
+ */
+export interface ImageCheckResult {
+	/** Whether the image must be rebuilt */
+	needsRebuild: boolean;
+	/** Human-readable explanation */
+	reason: string;
+	/** Fingerprint components that differ from the image */
+	changed?: ToolsFingerprintComponent[];
+}
+
+/**
+ * A tagged image build kept for rollback
+ */
+export interface ImageBuild {
+	/** Build tag (build-<timestamp>-<hash>) */
+	tag: string;
+	/** Short image ID */
+	id: string;
+	/** ISO timestamp the image was created */
+	created: string;
+	/** Tools hash label, if built with tools */
+	toolsHash?: string;
+	/** Versions from the cyrus-docker.version.* labels */
+	versions: Record<string, string>;
+	/** Whether the latest tag points at this build */
+	current: boolean;
+}
+
+/**
+ * Options for the images prune command
+ */
+export interface ImagesPruneOptions {
+	/** Number of most recent builds to keep */
+	keep?: number;
+}
+
+/**
+ * Metadata stored next to a data backup archive (<name>.json)
+ */
+export interface BackupInfo {
+	/** Archive file name (cyrus-<profile>-<timestamp>.tgz) */
+	name: string;
+	/** ISO timestamp the backup was taken */
+	createdAt: string;
+	/** Profile the data belongs to */
+	profile: string;
+	/** cyrus-docker version that took the backup */
+	version: string;
+	/** Top-level data directories left out (e.g. repos, worktrees) */
+	excluded: string[];
+	/** Archive size in bytes */
+	size: number;
+	/** SHA256 of the archive */
+	sha256: string;
+	/** Whether the container was paused while archiving */
+	paused: boolean;
+}
+
+/**
+ * Options for the backup create command
+ */
+export interface BackupCreateOptions {
+	/** Include repos/ (--no-repos sets false) */
+	repos?: boolean;
+	/** Include worktrees/ (--no-worktrees sets false) */
+	worktrees?: boolean;
+	/** Pause a running container while archiving (--no-pause sets false) */
+	pause?: boolean;
+}
+
+/**
+ * Options for the backup restore command
+ */
+export interface BackupRestoreOptions {
+	/** Restore without asking for confirmation */
+	yes?: boolean;
+}
+
+/**
+ * Options for the backup prune command
+ */
+export interface BackupPruneOptions {
+	/** Number of most recent backups to keep */
+	keep?: number;
+}
+
+/**
+ * Options for the config list command
+ */
+export interface ConfigListOptions {
+	/** Print as JSON */
+	json?: boolean;
+	/** Include settings that are not set, with their descriptions */
+	all?: boolean;
+	/** Show secret values instead of masking them */
+	reveal?: boolean;
+}
+
+/**
+ * Options for the config set, unset and edit commands
+ */
+export interface ConfigChangeOptions {
+	/** Skip validation and accept keys cyrus-docker doesn't know */
+	force?: boolean;
+	/** Restart the container without asking when a change needs it */
+	yes?: boolean;
+}
+
+/**
+ * Options for the secrets init command
+ */
+export interface SecretsInitOptions {
+	/** Unlock the vault with a key file (optionally at this path) */
+	keyFile?: string | boolean;
+}
+
+/**
+ * How an export bundle carries secrets
+ */
+export type BundleSecretsFormat = "none" | "plain" | "encrypted";
+
+/**
+ * manifest.json of an export bundle
+ */
+export interface BundleManifest {
+	/** Bundle format version */
+	format: number;
+	/** cyrus-docker version that created the bundle */
+	version: string;
+	/** When the bundle was created (ISO 8601) */
+	createdAt: string;
+	/** Profile the bundle was exported from */
+	profile: string;
+	/** Home directory on the exporting host, for rewriting paths */
+	home: string;
+	/** Config files and directories included (relative to ~/.cyrus-docker) */
+	files: string[];
+	/** Custom Dockerfile and the files it copies (relative to ~/.cyrus-docker) */
+	dockerfile?: string[];
+	/** How secrets are included */
+	secrets: BundleSecretsFormat;
+	/** Name of the included Cyrus data directory, if any */
+	data?: string;
+}
+
+/**
+ * Options for the export command
+ */
+export interface ExportOptions {
+	/** Include the Cyrus data directory */
+	data?: boolean;
+	/** Include secrets (--no-secrets sets false) */
+	secrets?: boolean;
+	/** Encrypt secrets with a passphrase */
+	encrypt?: boolean;
+	/** Overwrite an existing bundle file */
+	force?: boolean;
+}
+
+/**
+ * Options for the import command
+ */
+export interface ImportOptions {
+	/** Restore the Cyrus data directory if included (--no-data sets false) */
+	data?: boolean;
+	/** Overwrite existing configuration and data */
+	force?: boolean;
+}
+
+/**
+ * Docker image status relative to the current tools configuration
+ */
+export interface ImageStatus {
+	/** Whether the image exists locally */
+	exists: boolean;
+	/** Tools hash the image was built with (null if built without tools) */
+	toolsHash: string | null;
+	/** Whether the image must be rebuilt */
+	needsRebuild: boolean;
+	/** Human-readable explanation of the image state */
+	reason: string;
+	/** Fingerprint components that differ from the image */
+	changed?: ToolsFingerprintComponent[];
+	/** Tool versions recorded in the image labels */
+	versions?: Record<string, string>;
+}
+
+/**
+ * Overall deployment health, mapped to the status command's exit code
+ */
+export type HealthLevel = "healthy" | "degraded" | "down";
+
 /**
  * Combined status for the status command
  */
 export interface CyrusStatus {
+	/** Overall health derived from the parts below */
+	health: HealthLevel;
+	/** Problems that made the deployment degraded or down */
+	issues: string[];
+	/** Deployment profile name */
+	profile: string;
+	/** Host port the container is published on */
+	localPort: number;
 	container: ContainerStatus;
 	tunnel: TunnelStatus;
+	image: ImageStatus;
+	state: {
+		/** Whether the state file says Cyrus is running */
+		isRunning: boolean;
+		/** Whether the state file agrees with the container */
+		consistent: boolean;
+		/** Timestamp when Cyrus was started */
+		startedAt?: string;
+	};
+	/** Result of the last Linear OAuth app URL sync */
+	linearSync?: LinearSyncResult;
+	/** Every deployment profile on this host */
+	profiles?: ProfileStatus[];
+}
+
+/**
+ * Summary of one deployment profile for the status command
+ */
+export interface ProfileStatus {
+	name: string;
+	/** Whether this is the profile the command ran for */
+	current: boolean;
+	/** Whether the profile's container is running */
+	running: boolean;
+	/** Host port the container is published on (unknown if it failed to load) */
+	port?: number;
+	/** Tunnel URL from the profile's state */
+	tunnelUrl?: string;
+	/** Why the profile's status could not be collected */
+	error?: string;
+}
+
+/**
+ * Kinds of events recorded by the watchdog
+ */
+export type WatchdogEventType =
+	| "watch_started"
+	| "watch_stopped"
+	| "tunnel_died"
+	| "tunnel_restarted"
+	| "tunnel_restart_failed"
+	| "url_changed"
+	| "container_down"
+	| "container_restarted"
+	| "container_restart_failed"
+	| "linear_synced"
+	| "linear_sync_failed"
+	| "backup_created"
+	| "backup_failed";
+
+/**
+ * Entry in the watchdog event log
+ */
+export interface WatchdogEvent {
+	/** ISO timestamp */
+	timestamp: string;
+	/** Event kind */
+	type: WatchdogEventType;
+	/** Human-readable description */
+	message: string;
+	/** Extra structured data (URLs, PIDs, errors) */
+	details?: Record<string, string | number | undefined>;
+}
+
+/**
+ * Outcome of a single doctor check
+ */
+export type CheckLevel = "pass" | "warn" | "fail";
+
+/**
+ * Result of a single doctor check
+ */
+export interface DoctorCheck {
+	/** Short name of what was checked */
+	name: string;
+	/** Outcome of the check */
+	level: CheckLevel;
+	/** What was found */
+	message: string;
+	/** Concrete fix for a warning or failure */
+	fix?: string;
+}
+
+/**
+ * Options for the init command
+ */
+export interface InitOptions {
+	/** Read answers from flags, env vars and a file instead of prompting */
+	nonInteractive?: boolean;
+	/** Path to a YAML or JSON answers file */
+	answersFile?: string;
+	/** Comma-separated tool presets to write to tools.yml */
+	presets?: string;
+	/** Overwrite an existing .env.docker without asking */
+	force?: boolean;
+	/** Values given as CLI flags */
+	values?: EnvConfig;
+}
+
+/**
+ * Answers for a non-interactive init
+ */
+export interface InitAnswers {
+	/** .env.docker values */
+	env: EnvConfig;
+	/** Tool presets to write to tools.yml */
+	presets?: ToolPreset[];
+}
+
+/**
+ * Options for the status command
+ */
+export interface StatusOptions {
+	/** Print the status as JSON */
+	json?: boolean;
+}
+
+/**
+ * Options for the watch command
+ */
+export interface WatchOptions {
+	/** Seconds between checks */
+	interval?: number;
+	/** Run a single check and exit */
+	once?: boolean;
 }
 
 /**
@@ -105,12 +586,14 @@ export interface StartOptions {
 	detach?: boolean;
 	/** Force rebuild of the Docker image */
 	build?: boolean;
+	/** Reserved ngrok domain to persist to .env.docker */
+	domain?: string;
 }
 
 /**
- * Available tool presets for container customization
+ * Tool presets built into cyrus-docker
  */
-export type ToolPreset =
+export type BuiltinToolPreset =
 	| "python"
 	| "rust"
 	| "go"
@@ -120,6 +603,12 @@ export type ToolPreset =
 	| "k8s"
 	| "terraform";
 
+/**
+ * Tool preset name: a built-in preset or one defined in
+ * ~/.cyrus-docker/presets/<name>.yml
+ */
+export type ToolPreset = string;
+
 /**
  * Tool configuration for customizing container development tools
  */
@@ -138,6 +627,113 @@ export interface ToolConfig {
 	commands?: string[];
 	/** Path to custom Dockerfile (advanced) */
 	customDockerfile?: string;
+	/** Version pins for tools installed by presets (e.g. kubectl: 1.30.2) */
+	versions?: Record<string, string>;
+	/** cyrus-ai version installed in the base image (defaults to latest) */
+	cyrusVersion?: string;
+	/** Claude Code version installed in the base image (defaults to latest) */
+	claudeCodeVersion?: string;
+	/** Build cargo crates in a separate Rust stage, copying only the binaries */
+	cargoMultiStage?: boolean;
+	/** Credentials mounted into build steps without being stored in the image */
+	secrets?: ToolSecret[];
+	/** Build arguments for the tools image (visible in image history) */
+	buildArgs?: Record<string, string>;
+	/** Registry repository to pull prebuilt tools images from (registry/repo) */
+	image?: string;
+}
+
+/**
+ * Generated build steps a secret can be mounted for
+ */
+export type SecretStep = "apt" | "presets" | "cargo" | "pip" | "npm" | "commands";
+
+/**
+ * A build secret passed with docker build --secret
+ */
+export interface ToolSecret {
+	/** Secret id, used in --mount=type=secret,id=<id> */
+	id: string;
+	/** File holding the secret (relative paths are relative to ~/.cyrus-docker) */
+	src?: string;
+	/** Environment variable holding the secret */
+	env?: string;
+	/** Steps the secret is mounted for (defaults depend on the id) */
+	steps?: SecretStep[];
+	/** Path the secret is mounted at (defaults to /run/secrets/<id>) */
+	target?: string;
+}
+
+/**
+ * A problem found while validating tools.yml
+ */
+export interface ToolConfigIssue {
+	/** Errors stop builds; warnings are reported only */
+	level: "error" | "warning";
+	message: string;
+	/** 1-based position in tools.yml, when known */
+	line?: number;
+	column?: number;
+}
+
+/**
+ * tools.yml keys holding lists edited by tools add/remove
+ */
+export type ToolListKey =
+	| "presets"
+	| "apt"
+	| "npm"
+	| "pip"
+	| "cargo"
+	| "commands";
+
+/**
+ * Presets and packages to add to or remove from tools.yml
+ */
+export type ToolChanges = Pick<ToolConfig, ToolListKey>;
+
+/**
+ * Options for the tools list and show commands
+ */
+export interface ToolsOutputOptions {
+	/** Print as JSON */
+	json?: boolean;
+}
+
+/**
+ * Options for the tools detect command
+ */
+export interface ToolsDetectOptions {
+	/** Merge suggestions into tools.yml without asking */
+	yes?: boolean;
+	/** Print the detection as JSON (does not change tools.yml) */
+	json?: boolean;
+}
+
+/**
+ * Files or directories in a repository that suggest tools
+ */
+export interface DetectionRule {
+	/** File or directory names; *.ext matches by extension */
+	markers: string[];
+	/** Preset the repository needs */
+	preset?: BuiltinToolPreset;
+	/** Extra packages the repository needs */
+	apt?: string[];
+	npm?: string[];
+	pip?: string[];
+}
+
+/**
+ * A marker found in a repository and what it suggests
+ */
+export interface DetectionMatch {
+	/** Repository directory */
+	repo: string;
+	/** Marker path relative to the repository */
+	marker: string;
+	/** Suggested presets and packages */
+	suggests: ToolChanges;
 }
 
 /**
@@ -158,4 +754,8 @@ export interface PresetDefinition {
 	cargo?: string[];
 	/** Custom commands to run */
 	commands?: string[];
+	/** Default versions of the tools installed, used for {{tool}} in commands */
+	versions?: Record<string, string>;
+	/** Presets installed before this one */
+	requires?: ToolPreset[];
 }
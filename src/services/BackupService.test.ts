@@ -0,0 +1,207 @@
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { execa } from "execa";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { BackupService } from "./BackupService.js";
+import type { DockerService } from "./DockerService.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+/**
+ * Create a docker mock whose container is running or not
+ */
+function createMockDocker(running: boolean) {
+	return {
+		getStatus: vi.fn(async () => ({ running })),
+		pause: vi.fn(async () => {}),
+		unpause: vi.fn(async () => {}),
+	};
+}
+
+/**
+ * Build a backup service over a data directory in dir
+ */
+function createService(
+	dir: string,
+	docker: ReturnType<typeof createMockDocker>,
+) {
+	const cyrusHome = join(dir, ".cyrus");
+	mkdirSync(cyrusHome, { recursive: true });
+	return new BackupService(
+		createMockLogger(),
+		docker as unknown as DockerService,
+		{
+			backupsDir: join(dir, "backups"),
+			cyrusHome,
+			profile: "default",
+			version: "1.2.1",
+		},
+	);
+}
+
+/**
+ * Make tar "write" the archive it is asked for
+ */
+function mockTarWrites(content: string) {
+	vi.mocked(execa).mockImplementation((async (
+		_command: string,
+		args: string[],
+	) => {
+		writeFileSync(args[1] as string, content);
+		return { stdout: "", stderr: "" };
+	}) as unknown as typeof execa);
+}
+
+describe("BackupService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("archives the data directory and records its checksum", async () => {
+		await withTempDir(async (dir) => {
+			const docker = createMockDocker(false);
+			const service = createService(dir, docker);
+			mockTarWrites("archive");
+
+			const info = await service.create({ exclude: ["repos"], pause: true });
+
+			expect(info.name).toMatch(/^cyrus-default-\d{8}-\d{6}\.tgz$/);
+			expect(info).toMatchObject({
+				excluded: ["repos"],
+				size: 7,
+				sha256:
+					"0eb3e36bfb24dcd9bb1d1bece1531216b59539a8fde17ee80224af0653c92aa3",
+				paused: false,
+			});
+			expect(execa).toHaveBeenCalledWith(
+				"tar",
+				[
+					"-czf",
+					join(dir, "backups", `${info.name}.partial`),
+					"-C",
+					join(dir, ".cyrus"),
+					"--exclude=./repos",
+					".",
+				],
+				{ stdio: "pipe" },
+			);
+			expect(docker.pause).not.toHaveBeenCalled();
+			expect(service.list()).toEqual([info]);
+			expect(await service.verify(info)).toBe(true);
+		});
+	});
+
+	it("pauses a running container and resumes it when tar fails", async () => {
+		await withTempDir(async (dir) => {
+			const docker = createMockDocker(true);
+			const service = createService(dir, docker);
+			vi.mocked(execa).mockRejectedValue(
+				Object.assign(new Error("Command failed"), {
+					stderr: "tar: No space left on device\ntar: Error exit",
+				}),
+			);
+
+			await expect(service.create({ pause: true })).rejects.toThrow(
+				"tar: No space left on device",
+			);
+			expect(docker.pause).toHaveBeenCalled();
+			expect(docker.unpause).toHaveBeenCalled();
+			expect(service.list()).toEqual([]);
+		});
+	});
+
+	it("refuses to restore a damaged archive", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, createMockDocker(false));
+			mockTarWrites("archive");
+			const info = await service.create();
+			writeFileSync(join(dir, "backups", info.name), "truncated");
+			vi.mocked(execa).mockClear();
+
+			await expect(service.restore(info)).rejects.toThrow(
+				"its checksum does not match",
+			);
+			expect(execa).not.toHaveBeenCalled();
+			expect(existsSync(join(dir, ".cyrus"))).toBe(true);
+		});
+	});
+
+	it("prunes and finds only this profile's backups", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, createMockDocker(false));
+			const backupsDir = join(dir, "backups");
+			mkdirSync(backupsDir);
+			const writeBackup = (profile: string, day: string) => {
+				const name = `cyrus-${profile}-202601${day}-000000.tgz`;
+				writeFileSync(join(backupsDir, name), "archive");
+				writeFileSync(
+					join(backupsDir, name.replace(".tgz", ".json")),
+					JSON.stringify({
+						name,
+						profile,
+						createdAt: `2026-01-${day}T00:00:00.000Z`,
+					}),
+				);
+			};
+			for (const day of ["01", "02", "03"]) {
+				writeBackup("default", day);
+			}
+			// Another profile sharing BACKUP_DIR, with the newest backup
+			writeBackup("acme", "04");
+
+			expect(service.isDue(24, new Date("2026-01-03T12:00:00Z"))).toBe(false);
+			expect(service.isDue(24, new Date("2026-01-04T00:00:00Z"))).toBe(true);
+
+			const removed = service.prune(2);
+
+			expect(removed.map((backup) => backup.name)).toEqual([
+				"cyrus-default-20260101-000000.tgz",
+			]);
+			expect(service.find("latest")?.name).toBe(
+				"cyrus-default-20260103-000000.tgz",
+			);
+			expect(
+				existsSync(join(backupsDir, "cyrus-default-20260101-000000.json")),
+			).toBe(false);
+			expect(
+				existsSync(join(backupsDir, "cyrus-acme-20260104-000000.tgz")),
+			).toBe(true);
+			expect(
+				readFileSync(
+					join(backupsDir, "cyrus-default-20260102-000000.tgz"),
+					"utf-8",
+				),
+			).toBe("archive");
+		});
+	});
+
+	it("ignores metadata naming a file outside the backups directory", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, createMockDocker(false));
+			const backupsDir = join(dir, "backups");
+			mkdirSync(backupsDir);
+			writeFileSync(join(dir, "secret.tgz"), "not a backup");
+			writeFileSync(
+				join(backupsDir, "cyrus-default-20260101-000000.json"),
+				JSON.stringify({
+					name: "../secret.tgz",
+					profile: "default",
+					createdAt: "2026-01-01T00:00:00.000Z",
+				}),
+			);
+
+			expect(service.list()).toEqual([]);
+			expect(service.prune(0)).toEqual([]);
+			expect(existsSync(join(dir, "secret.tgz"))).toBe(true);
+		});
+	});
+});
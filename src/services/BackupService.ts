@@ -0,0 +1,328 @@
+import { createHash } from "node:crypto";
+import {
+	chmodSync,
+	createReadStream,
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { execa } from "execa";
+import type { BackupInfo } from "../config/types.js";
+import type { DockerService } from "./DockerService.js";
+import type { Logger } from "./Logger.js";
+
+/**
+ * Options for BackupService
+ */
+export interface BackupServiceOptions {
+	/** Directory holding the backups */
+	backupsDir: string;
+	/** Cyrus data directory being backed up */
+	cyrusHome: string;
+	/** Profile name (part of archive names) */
+	profile: string;
+	/** cyrus-docker version (recorded with each backup) */
+	version: string;
+}
+
+/**
+ * Options for a single backup
+ */
+export interface BackupRunOptions {
+	/** Top-level data directories to leave out */
+	exclude?: string[];
+	/** Pause a running container while archiving */
+	pause?: boolean;
+}
+
+/**
+ * Result of a restore
+ */
+export interface BackupRestoreResult {
+	/** Where the replaced data directory was kept, if there was one */
+	previous?: string;
+	/** Excluded directories carried over from the replaced data */
+	kept: string[];
+}
+
+/**
+ * Compact UTC timestamp for file names (20260118-093000)
+ */
+function fileTimestamp(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/\.\d+Z$/, "")
+		.replace(/[-:]/g, "")
+		.replace("T", "-");
+}
+
+/**
+ * Human-readable size (e.g. 12.3 MB)
+ */
+export function formatBytes(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	let size = bytes;
+	let unit = 0;
+	while (size >= 1024 && unit < units.length - 1) {
+		size /= 1024;
+		unit++;
+	}
+	return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Takes, verifies, restores and prunes timestamped archives of the Cyrus
+ * data directory (OAuth tokens, config.json, repos and session state).
+ * Each <name>.tgz has a <name>.json with its checksum and contents.
+ */
+export class BackupService {
+	constructor(
+		private logger: Logger,
+		private docker: DockerService,
+		private options: BackupServiceOptions,
+	) {}
+
+	/**
+	 * Get the directory holding the backups
+	 */
+	getBackupsDir(): string {
+		return this.options.backupsDir;
+	}
+
+	/**
+	 * List this profile's backups, newest first
+	 * BACKUP_DIR may be shared by several profiles, so other profiles'
+	 * backups (and metadata not naming its own archive) are skipped
+	 */
+	list(): BackupInfo[] {
+		const dir = this.options.backupsDir;
+		if (!existsSync(dir)) {
+			return [];
+		}
+
+		const backups: BackupInfo[] = [];
+		for (const file of readdirSync(dir)) {
+			if (!file.endsWith(".json")) {
+				continue;
+			}
+			try {
+				const info = JSON.parse(
+					readFileSync(join(dir, file), "utf-8"),
+				) as BackupInfo;
+				if (
+					info.profile === this.options.profile &&
+					typeof info.name === "string" &&
+					/^[\w.-]+\.tgz$/.test(info.name) &&
+					file === info.name.replace(/\.tgz$/, ".json") &&
+					existsSync(join(dir, info.name))
+				) {
+					backups.push(info);
+				}
+			} catch (error) {
+				this.logger.debug(`Ignoring ${file}: ${error}`);
+			}
+		}
+		return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	/**
+	 * Find a backup by archive name (with or without .tgz) or "latest"
+	 */
+	find(name: string): BackupInfo | undefined {
+		const backups = this.list();
+		if (name === "latest") {
+			return backups[0];
+		}
+		return backups.find(
+			(backup) => backup.name === name || backup.name === `${name}.tgz`,
+		);
+	}
+
+	/**
+	 * Archive the data directory
+	 * A running container is paused (if asked) so the archive is consistent
+	 */
+	async create(options: BackupRunOptions = {}): Promise<BackupInfo> {
+		const { cyrusHome, backupsDir } = this.options;
+		if (!existsSync(cyrusHome)) {
+			throw new Error(`Cyrus data directory ${cyrusHome} not found`);
+		}
+		const exclude = options.exclude ?? [];
+		for (const dir of exclude) {
+			if (!/^[\w.-]+$/.test(dir) || dir === "." || dir === "..") {
+				throw new Error(
+					`Cannot exclude "${dir}": use a top-level directory name`,
+				);
+			}
+		}
+
+		mkdirSync(backupsDir, { recursive: true, mode: 0o700 });
+		const createdAt = new Date();
+		const timestamp = fileTimestamp(createdAt);
+		const name = `cyrus-${this.options.profile}-${timestamp}.tgz`;
+		const path = join(backupsDir, name);
+		if (existsSync(path)) {
+			throw new Error(`${path} already exists`);
+		}
+
+		const paused = !!options.pause && (await this.docker.getStatus()).running;
+		const partial = `${path}.partial`;
+		try {
+			if (paused) {
+				this.logger.debug("Pausing the container");
+				await this.docker.pause();
+			}
+			await execa(
+				"tar",
+				[
+					"-czf",
+					partial,
+					"-C",
+					cyrusHome,
+					...exclude.map((dir) => `--exclude=./${dir}`),
+					".",
+				],
+				{ stdio: "pipe" },
+			);
+		} catch (error) {
+			rmSync(partial, { force: true });
+			throw new Error(
+				`Failed to archive ${cyrusHome}: ${this.describe(error)}`,
+			);
+		} finally {
+			if (paused) {
+				await this.docker.unpause();
+			}
+		}
+
+		// Backups hold OAuth tokens, so keep them private to the user
+		chmodSync(partial, 0o600);
+		renameSync(partial, path);
+		const info: BackupInfo = {
+			name,
+			createdAt: createdAt.toISOString(),
+			profile: this.options.profile,
+			version: this.options.version,
+			excluded: exclude,
+			size: statSync(path).size,
+			sha256: await this.checksum(path),
+			paused,
+		};
+		writeFileSync(
+			join(backupsDir, name.replace(/\.tgz$/, ".json")),
+			`${JSON.stringify(info, null, 2)}\n`,
+			{ mode: 0o600 },
+		);
+		return info;
+	}
+
+	/**
+	 * Check a backup's archive against its recorded checksum
+	 */
+	async verify(info: BackupInfo): Promise<boolean> {
+		const path = join(this.options.backupsDir, info.name);
+		return existsSync(path) && (await this.checksum(path)) === info.sha256;
+	}
+
+	/**
+	 * Replace the data directory with a backup
+	 * The replaced directory is kept next to it, and directories the
+	 * backup left out (e.g. repos) are carried over from it
+	 */
+	async restore(info: BackupInfo): Promise<BackupRestoreResult> {
+		if (!(await this.verify(info))) {
+			throw new Error(`${info.name} is damaged: its checksum does not match`);
+		}
+
+		// Extract next to the data directory so the swap is a rename
+		const { cyrusHome } = this.options;
+		const parent = dirname(cyrusHome);
+		mkdirSync(parent, { recursive: true });
+		const staging = mkdtempSync(
+			join(parent, `.${basename(cyrusHome)}-restore-`),
+		);
+		try {
+			await execa(
+				"tar",
+				["-xzf", join(this.options.backupsDir, info.name), "-C", staging],
+				{ stdio: "pipe" },
+			);
+		} catch (error) {
+			rmSync(staging, { recursive: true, force: true });
+			throw new Error(
+				`Failed to extract ${info.name}: ${this.describe(error)}`,
+			);
+		}
+
+		const kept: string[] = [];
+		let previous: string | undefined;
+		if (existsSync(cyrusHome)) {
+			for (const dir of info.excluded) {
+				const current = join(cyrusHome, dir);
+				if (existsSync(current) && !existsSync(join(staging, dir))) {
+					renameSync(current, join(staging, dir));
+					kept.push(dir);
+				}
+			}
+			chmodSync(staging, statSync(cyrusHome).mode & 0o7777);
+			previous = `${cyrusHome}.before-restore-${fileTimestamp(new Date())}`;
+			renameSync(cyrusHome, previous);
+		}
+		renameSync(staging, cyrusHome);
+		return { previous, kept };
+	}
+
+	/**
+	 * Delete all but the newest backups
+	 * Returns the removed backups
+	 */
+	prune(keep: number): BackupInfo[] {
+		const removed = this.list().slice(keep);
+		for (const backup of removed) {
+			const path = join(this.options.backupsDir, backup.name);
+			rmSync(path, { force: true });
+			rmSync(path.replace(/\.tgz$/, ".json"), { force: true });
+		}
+		return removed;
+	}
+
+	/**
+	 * Check if the newest backup is older than an interval
+	 */
+	isDue(intervalHours: number, now: Date = new Date()): boolean {
+		const latest = this.list()[0];
+		if (!latest) {
+			return true;
+		}
+		const age = now.getTime() - new Date(latest.createdAt).getTime();
+		return age >= intervalHours * 60 * 60 * 1000;
+	}
+
+	/**
+	 * SHA256 of a file, streamed so large archives stay out of memory
+	 */
+	private async checksum(path: string): Promise<string> {
+		const hash = createHash("sha256");
+		for await (const chunk of createReadStream(path)) {
+			hash.update(chunk as Buffer);
+		}
+		return hash.digest("hex");
+	}
+
+	/**
+	 * Get the useful part of a failed command's error
+	 */
+	private describe(error: unknown): string {
+		if (error instanceof Error && "stderr" in error && error.stderr) {
+			return String(error.stderr).trim().split("\n")[0] ?? error.message;
+		}
+		return error instanceof Error ? error.message : String(error);
+	}
+}
@@ -0,0 +1,287 @@
+import {
+	cpSync,
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { execa } from "execa";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { BundleManifest, DeploymentProfile } from "../config/types.js";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { BundleService } from "./BundleService.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+const MANIFEST: BundleManifest = {
+	format: 1,
+	version: "1.2.0",
+	createdAt: "2026-01-01T00:00:00.000Z",
+	profile: "default",
+	home: "/home/old",
+	files: [],
+	secrets: "plain",
+};
+
+/**
+ * A default profile rooted in a directory
+ */
+function makeProfile(dir: string): DeploymentProfile {
+	return {
+		name: "default",
+		isDefault: true,
+		configDir: join(dir, ".cyrus-docker"),
+		stateFile: join(dir, ".cyrus-docker", "state.json"),
+		envFile: join(dir, ".cyrus-docker", ".env.docker"),
+		eventsFile: join(dir, ".cyrus-docker", "events.log"),
+		vaultFile: join(dir, ".cyrus-docker", "secrets.vault"),
+		backupsDir: join(dir, ".cyrus-docker", "backups"),
+		containerName: "cyrus",
+		cyrusHome: join(dir, ".cyrus"),
+	};
+}
+
+describe("BundleService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("refuses bundles from newer versions or formats", () => {
+		const service = new BundleService(createMockLogger());
+
+		expect(service.checkCompatibility(MANIFEST, "1.2.1")).toBeUndefined();
+		expect(service.checkCompatibility(MANIFEST, "1.10.0")).toBeUndefined();
+		expect(service.checkCompatibility(MANIFEST, "1.1.9")).toContain(
+			"created by cyrus-docker 1.2.0, newer than 1.1.9",
+		);
+		expect(
+			service.checkCompatibility({ ...MANIFEST, format: 2 }, "1.2.1"),
+		).toContain("uses format 2");
+	});
+
+	it("exports the env without secrets, config files and a manifest", async () => {
+		await withTempDir(async (dir) => {
+			const profile = makeProfile(dir);
+			mkdirSync(join(profile.configDir, "presets"), { recursive: true });
+			writeFileSync(
+				profile.envFile,
+				"# Claude\nANTHROPIC_API_KEY=sk-ant-secret\nGIT_USER_NAME=Cyrus\n",
+			);
+			writeFileSync(join(profile.configDir, "tools.yml"), "presets: [node]\n");
+			writeFileSync(join(profile.configDir, "presets", "sdk.yml"), "apt: [jq]\n");
+
+			const staged: Record<string, string> = {};
+			vi.mocked(execa).mockImplementationOnce(((
+				_file: string,
+				args: string[],
+			) => {
+				const staging = args[3] as string;
+				for (const entry of ["env.docker", "secrets.env", "manifest.json"]) {
+					staged[entry] = readFileSync(join(staging, entry), "utf-8");
+				}
+				staged.preset = readFileSync(
+					join(staging, "presets", "sdk.yml"),
+					"utf-8",
+				);
+				writeFileSync(args[1] as string, "");
+				return Promise.resolve({});
+			}) as never);
+
+			const bundlePath = join(dir, "bundle.tgz");
+			const manifest = await new BundleService(createMockLogger(), {
+				configDir: profile.configDir,
+				home: dir,
+			}).export(bundlePath, {
+				version: "1.2.1",
+				profile,
+				envChanges: { ANTHROPIC_API_KEY: null },
+				secrets: { values: { ANTHROPIC_API_KEY: "sk-ant-secret" } },
+			});
+
+			expect(manifest).toMatchObject({
+				version: "1.2.1",
+				home: dir,
+				files: ["tools.yml", "presets"],
+				secrets: "plain",
+			});
+			expect(manifest.data).toBeUndefined();
+			expect(vi.mocked(execa).mock.calls[0]?.[1]).toEqual([
+				"-czf",
+				bundlePath,
+				"-C",
+				expect.any(String),
+				"--",
+				"manifest.json",
+				"env.docker",
+				"secrets.env",
+				"tools.yml",
+				"presets",
+			]);
+			expect(staged["env.docker"]).toBe("# Claude\nGIT_USER_NAME=Cyrus\n");
+			expect(staged["secrets.env"]).toBe("ANTHROPIC_API_KEY=sk-ant-secret\n");
+			expect(staged.preset).toBe("apt: [jq]\n");
+			expect(JSON.parse(staged["manifest.json"] ?? "")).toEqual(manifest);
+			expect(existsSync(vi.mocked(execa).mock.calls[0]?.[1]?.[3] as string)).toBe(
+				false,
+			);
+		});
+	});
+
+	it("carries the custom Dockerfile and the files it copies", async () => {
+		await withTempDir(async (dir) => {
+			const profile = makeProfile(join(dir, "old"));
+			const configDir = profile.configDir;
+			mkdirSync(join(configDir, "certs"), { recursive: true });
+			writeFileSync(profile.envFile, "GIT_USER_NAME=Cyrus\n");
+			writeFileSync(
+				join(configDir, "ca.Dockerfile"),
+				"COPY certs /tmp/\n",
+			);
+			writeFileSync(join(configDir, "certs", "corp-ca.crt"), "cert");
+			writeFileSync(join(dir, "outside.crt"), "outside");
+
+			let staging = "";
+			vi.mocked(execa).mockImplementationOnce(((
+				_file: string,
+				args: string[],
+			) => {
+				staging = mkdtempSync(join(dir, "bundle-"));
+				cpSync(args[3] as string, staging, { recursive: true });
+				writeFileSync(args[1] as string, "");
+				return Promise.resolve({});
+			}) as never);
+			const exporter = new BundleService(createMockLogger(), {
+				configDir,
+				home: dir,
+			});
+			const manifest = await exporter.export(join(dir, "bundle.tgz"), {
+				version: "1.2.1",
+				profile,
+				envChanges: {},
+				dockerfileFiles: [
+					join(configDir, "ca.Dockerfile"),
+					join(configDir, "certs"),
+					join(dir, "outside.crt"),
+					join(configDir, ".env.docker"),
+				],
+			});
+
+			expect(manifest.files).toEqual([]);
+			expect(manifest.dockerfile).toEqual(["ca.Dockerfile", "certs"]);
+
+			const newConfigDir = join(dir, "new", ".cyrus-docker");
+			const importer = new BundleService(createMockLogger(), {
+				configDir: newConfigDir,
+				home: dir,
+			});
+			const bundle = {
+				path: join(dir, "bundle.tgz"),
+				dir: staging,
+				manifest,
+			};
+			expect(importer.getConfigConflicts(bundle)).toEqual([]);
+			expect(importer.installConfigFiles(bundle)).toEqual([
+				join(newConfigDir, "ca.Dockerfile"),
+				join(newConfigDir, "certs"),
+			]);
+			expect(
+				readFileSync(join(newConfigDir, "certs", "corp-ca.crt"), "utf-8"),
+			).toBe("cert");
+			writeFileSync(join(newConfigDir, "certs", "corp-ca.crt"), "changed");
+			expect(importer.getConfigConflicts(bundle)).toEqual([
+				join(newConfigDir, "certs", "corp-ca.crt"),
+			]);
+		});
+	});
+
+	it("rewrites host paths and merges secrets on import", async () => {
+		await withTempDir(async (dir) => {
+			const profile = makeProfile(join(dir, "home"));
+			writeFileSync(
+				join(dir, "env.docker"),
+				[
+					"CYRUS_HOST_PATH=/home/old/.cyrus",
+					"NGROK_CONFIG=/home/old/ngrok.yml",
+					"CYRUS_BASE_URL=https://cyrus.example.com",
+					"",
+				].join("\n"),
+			);
+			writeFileSync(join(dir, "secrets.env"), "GITHUB_TOKEN=ghp_secret\n");
+
+			const service = new BundleService(createMockLogger(), {
+				home: join(dir, "home"),
+			});
+			const env = service.getEnv(
+				{ path: join(dir, "bundle.tgz"), dir, manifest: MANIFEST },
+				profile,
+			);
+
+			expect(env).toBe(
+				[
+					`CYRUS_HOST_PATH=${profile.cyrusHome}`,
+					`NGROK_CONFIG=${join(dir, "home")}/ngrok.yml`,
+					"CYRUS_BASE_URL=https://cyrus.example.com",
+					"GITHUB_TOKEN=ghp_secret",
+					"",
+				].join("\n"),
+			);
+		});
+	});
+
+	it("refuses manifests naming entries an export never writes", async () => {
+		await withTempDir(async (dir) => {
+			const bundlePath = join(dir, "bundle.tgz");
+			writeFileSync(bundlePath, "");
+			const service = new BundleService(createMockLogger(), {
+				configDir: join(dir, ".cyrus-docker"),
+				home: dir,
+			});
+			const openWith = (manifest: object) => {
+				vi.mocked(execa).mockImplementationOnce(((
+					_file: string,
+					args: string[],
+				) => {
+					writeFileSync(
+						join(args[3] as string, "manifest.json"),
+						JSON.stringify({ ...MANIFEST, ...manifest }),
+					);
+					return Promise.resolve({});
+				}) as never);
+				return service.open(bundlePath);
+			};
+
+			await expect(
+				openWith({ files: ["--checkpoint-action=exec=touch pwned"] }),
+			).rejects.toThrow(
+				'unexpected file "--checkpoint-action=exec=touch pwned"',
+			);
+			await expect(openWith({ files: ["../../.bashrc"] })).rejects.toThrow(
+				'unexpected file "../../.bashrc"',
+			);
+			await expect(openWith({ data: "../.ssh" })).rejects.toThrow(
+				"data must be a directory name",
+			);
+			await expect(
+				openWith({ dockerfile: ["ca.Dockerfile", "../.bashrc"] }),
+			).rejects.toThrow('unexpected custom Dockerfile file "../.bashrc"');
+			await expect(
+				openWith({ dockerfile: ["secrets.vault"] }),
+			).rejects.toThrow('unexpected custom Dockerfile file "secrets.vault"');
+			// Only the manifest was ever extracted
+			expect(execa).toHaveBeenCalledTimes(5);
+			expect(vi.mocked(execa).mock.calls[0]?.[1]).toEqual([
+				"-xzf",
+				bundlePath,
+				"-C",
+				expect.any(String),
+				"--",
+				"manifest.json",
+			]);
+		});
+	});
+});
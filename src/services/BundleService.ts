@@ -0,0 +1,523 @@
+import {
+	chmodSync,
+	copyFileSync,
+	cpSync,
+	existsSync,
+	lstatSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { basename, dirname, join, relative } from "node:path";
+import { execa } from "execa";
+import {
+	BUNDLE_CONFIG_FILES,
+	BUNDLE_FORMAT,
+	CONFIG_DIR,
+} from "../config/constants.js";
+import type {
+	BundleManifest,
+	DeploymentProfile,
+	EnvChanges,
+	EnvConfig,
+} from "../config/types.js";
+import {
+	formatDotenvLine,
+	parseDotenv,
+	updateDotenv,
+} from "../utils/dotenv.js";
+import { compareVersions } from "../utils/version.js";
+import type { Logger } from "./Logger.js";
+
+/** Bundle entry holding .env.docker (without secrets) */
+const ENV_ENTRY = "env.docker";
+/** Bundle entry holding plaintext secrets */
+const SECRETS_ENTRY = "secrets.env";
+/** Bundle entry holding passphrase-encrypted secrets */
+const VAULT_ENTRY = "secrets.vault";
+/** Bundle entry holding the manifest */
+const MANIFEST_ENTRY = "manifest.json";
+/** Bundle entry holding the custom Dockerfile and the files it copies */
+const DOCKERFILE_ENTRY = "dockerfile";
+
+/** Generated Dockerfile that older versions bundled; skipped on import */
+const LEGACY_FILES = ["Dockerfile.custom"];
+
+/**
+ * Names in the config directory that a bundled custom Dockerfile's files
+ * must not replace
+ */
+const RESERVED_CONFIG_NAMES = [
+	".env.docker",
+	"state.json",
+	"events.log",
+	"profiles",
+	"backups",
+	"secrets.vault",
+	...BUNDLE_CONFIG_FILES,
+];
+
+/**
+ * Options for BundleService
+ */
+export interface BundleServiceOptions {
+	/** Directory holding tools.yml and presets (defaults to ~/.cyrus-docker) */
+	configDir?: string;
+	/** Home directory of this host (defaults to the user's) */
+	home?: string;
+}
+
+/**
+ * What to put in an export bundle
+ */
+export interface BundleExportOptions {
+	/** cyrus-docker version creating the bundle */
+	version: string;
+	/** Profile being exported */
+	profile: DeploymentProfile;
+	/** Changes to the exported .env.docker (e.g. dropping secrets) */
+	envChanges: EnvChanges;
+	/** Secrets as values, or a vault file encrypting them */
+	secrets?: { values: EnvConfig } | { vaultFile: string };
+	/** Include the profile's Cyrus data directory */
+	includeData?: boolean;
+	/** Custom Dockerfile and the files it copies (paths in the config directory) */
+	dockerfileFiles?: string[];
+}
+
+/**
+ * An export bundle extracted for import (without its data directory)
+ */
+export interface OpenedBundle {
+	/** Path to the bundle file */
+	path: string;
+	/** Temporary directory holding the extracted entries */
+	dir: string;
+	manifest: BundleManifest;
+}
+
+/**
+ * Packs a profile's configuration (and optionally its Cyrus data) into a
+ * .tgz bundle with a manifest, and unpacks it on another host
+ */
+export class BundleService {
+	private readonly configDir: string;
+	private readonly home: string;
+
+	constructor(
+		private logger: Logger,
+		options: BundleServiceOptions = {},
+	) {
+		this.configDir = options.configDir ?? CONFIG_DIR;
+		this.home = options.home ?? homedir();
+	}
+
+	/**
+	 * Write an export bundle
+	 */
+	async export(
+		bundlePath: string,
+		options: BundleExportOptions,
+	): Promise<BundleManifest> {
+		const { profile } = options;
+		if (!existsSync(profile.envFile)) {
+			throw new Error(
+				`${profile.envFile} not found. Run 'cyrus-docker init' first`,
+			);
+		}
+		if (options.includeData && !existsSync(profile.cyrusHome)) {
+			throw new Error(`Cyrus data directory ${profile.cyrusHome} not found`);
+		}
+
+		const staging = mkdtempSync(join(tmpdir(), "cyrus-docker-export-"));
+		try {
+			chmodSync(staging, 0o700);
+			const env = updateDotenv(
+				readFileSync(profile.envFile, "utf-8"),
+				options.envChanges,
+			);
+			writeFileSync(join(staging, ENV_ENTRY), env, { mode: 0o600 });
+
+			const entries = [ENV_ENTRY];
+			const secrets = options.secrets;
+			if (secrets && "values" in secrets) {
+				const lines = Object.entries(secrets.values)
+					.filter((entry): entry is [string, string] => !!entry[1])
+					.map(([key, value]) => formatDotenvLine(key, value));
+				writeFileSync(join(staging, SECRETS_ENTRY), `${lines.join("\n")}\n`, {
+					mode: 0o600,
+				});
+				entries.push(SECRETS_ENTRY);
+			} else if (secrets) {
+				copyFileSync(secrets.vaultFile, join(staging, VAULT_ENTRY));
+				entries.push(VAULT_ENTRY);
+			}
+
+			const files = BUNDLE_CONFIG_FILES.filter((file) =>
+				existsSync(join(this.configDir, file)),
+			);
+			for (const file of files) {
+				cpSync(join(this.configDir, file), join(staging, file), {
+					recursive: true,
+				});
+			}
+
+			const dockerfile = this.stageDockerfileFiles(
+				options.dockerfileFiles ?? [],
+				join(staging, DOCKERFILE_ENTRY),
+			);
+			if (dockerfile.length > 0) {
+				entries.push(DOCKERFILE_ENTRY);
+			}
+
+			const manifest: BundleManifest = {
+				format: BUNDLE_FORMAT,
+				version: options.version,
+				createdAt: new Date().toISOString(),
+				profile: profile.name,
+				home: this.home,
+				files,
+				secrets: !secrets
+					? "none"
+					: "values" in secrets
+						? "plain"
+						: "encrypted",
+				data: options.includeData ? basename(profile.cyrusHome) : undefined,
+				dockerfile: dockerfile.length > 0 ? dockerfile : undefined,
+			};
+			writeFileSync(
+				join(staging, MANIFEST_ENTRY),
+				`${JSON.stringify(manifest, null, 2)}\n`,
+			);
+
+			// The data directory is added in place rather than copied first.
+			// Names after -- are never taken for options, but -C must come
+			// before it, so only the data directory (named after the local
+			// data directory) follows the second -C
+			const members = [MANIFEST_ENTRY, ...entries, ...files];
+			const memberArgs = manifest.data
+				? [...members, "-C", dirname(profile.cyrusHome), "--", manifest.data]
+				: ["--", ...members];
+			mkdirSync(dirname(bundlePath), { recursive: true });
+			await execa("tar", ["-czf", bundlePath, "-C", staging, ...memberArgs], {
+				stdio: "pipe",
+			});
+			chmodSync(bundlePath, 0o600);
+			return manifest;
+		} finally {
+			rmSync(staging, { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Extract a bundle's manifest and configuration for import
+	 * The caller must close() the result
+	 */
+	async open(bundlePath: string): Promise<OpenedBundle> {
+		if (!existsSync(bundlePath)) {
+			throw new Error(`${bundlePath} not found`);
+		}
+
+		const dir = mkdtempSync(join(tmpdir(), "cyrus-docker-import-"));
+		try {
+			chmodSync(dir, 0o700);
+			await this.extract(bundlePath, dir, [MANIFEST_ENTRY]);
+			let manifest: BundleManifest;
+			try {
+				manifest = JSON.parse(
+					readFileSync(join(dir, MANIFEST_ENTRY), "utf-8"),
+				) as BundleManifest;
+			} catch (error) {
+				throw new Error(`Invalid ${MANIFEST_ENTRY}: ${error}`);
+			}
+			if (
+				typeof manifest.format !== "number" ||
+				!Array.isArray(manifest.files)
+			) {
+				throw new Error(`${bundlePath} is not a cyrus-docker export bundle`);
+			}
+
+			if (manifest.format <= BUNDLE_FORMAT) {
+				manifest.files = manifest.files.filter(
+					(file) => !LEGACY_FILES.includes(file),
+				);
+				this.validateManifest(bundlePath, manifest);
+				const entries = [ENV_ENTRY, ...manifest.files];
+				if (manifest.secrets === "plain") {
+					entries.push(SECRETS_ENTRY);
+				} else if (manifest.secrets === "encrypted") {
+					entries.push(VAULT_ENTRY);
+				}
+				if (manifest.dockerfile?.length) {
+					entries.push(DOCKERFILE_ENTRY);
+				}
+				await this.extract(bundlePath, dir, entries);
+				for (const entry of entries) {
+					this.listFiles(join(dir, entry), entry);
+				}
+			}
+			return { path: bundlePath, dir, manifest };
+		} catch (error) {
+			rmSync(dir, { recursive: true, force: true });
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove an opened bundle's temporary files
+	 */
+	close(bundle: OpenedBundle): void {
+		rmSync(bundle.dir, { recursive: true, force: true });
+	}
+
+	/**
+	 * Check that this version can import a bundle
+	 * Returns the problem, or undefined if the bundle is compatible
+	 */
+	checkCompatibility(
+		manifest: BundleManifest,
+		version: string,
+	): string | undefined {
+		if (manifest.format > BUNDLE_FORMAT) {
+			return `The bundle uses format ${manifest.format}, which cyrus-docker ${version} cannot read. Upgrade cyrus-docker`;
+		}
+		if (compareVersions(manifest.version, version) > 0) {
+			return `The bundle was created by cyrus-docker ${manifest.version}, newer than ${version}. Upgrade cyrus-docker`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Get the bundle's .env.docker for a profile on this host
+	 * Plaintext secrets are merged back in (encrypted ones select the
+	 * vault backend), paths under the exporting host's home directory
+	 * move to this one's, and CYRUS_HOST_PATH points at the profile's
+	 * data directory
+	 */
+	getEnv(bundle: OpenedBundle, profile: DeploymentProfile): string {
+		const content = readFileSync(join(bundle.dir, ENV_ENTRY), "utf-8");
+		const values = parseDotenv(content);
+		const changes: Record<string, string | null> = {};
+
+		const oldHome = bundle.manifest.home;
+		if (oldHome && oldHome !== this.home) {
+			for (const [key, value] of Object.entries(values)) {
+				if (value === oldHome || value.startsWith(`${oldHome}/`)) {
+					changes[key] = this.home + value.slice(oldHome.length);
+				}
+			}
+		}
+		if ("CYRUS_HOST_PATH" in values) {
+			changes.CYRUS_HOST_PATH = profile.cyrusHome;
+		}
+
+		if (bundle.manifest.secrets === "encrypted") {
+			// The bundled vault becomes this profile's vault
+			changes.SECRETS_BACKEND = "vault";
+			changes.SECRETS_KEY_FILE = null;
+		} else if (bundle.manifest.secrets === "plain") {
+			Object.assign(
+				changes,
+				parseDotenv(readFileSync(join(bundle.dir, SECRETS_ENTRY), "utf-8")),
+			);
+		}
+		return updateDotenv(content, changes);
+	}
+
+	/**
+	 * Install the bundle's encrypted secrets as a profile's vault
+	 */
+	installVault(bundle: OpenedBundle, vaultFile: string): void {
+		if (bundle.manifest.secrets !== "encrypted") {
+			throw new Error(`${bundle.path} has no encrypted secrets`);
+		}
+		mkdirSync(dirname(vaultFile), { recursive: true });
+		copyFileSync(join(bundle.dir, VAULT_ENTRY), vaultFile);
+		chmodSync(vaultFile, 0o600);
+	}
+
+	/**
+	 * List bundled config files that would replace different local ones
+	 */
+	getConfigConflicts(bundle: OpenedBundle): string[] {
+		const files = this.getConfigEntries(bundle).flatMap(({ root, file }) =>
+			this.listFiles(join(root, file), file).map((path) => ({ root, path })),
+		);
+		return files
+			.filter(({ root, path }) => {
+				const local = join(this.configDir, path);
+				const bundled = readFileSync(join(root, path));
+				return existsSync(local) && !readFileSync(local).equals(bundled);
+			})
+			.map(({ path }) => join(this.configDir, path));
+	}
+
+	/**
+	 * Copy the bundled tools.yml, custom Dockerfile and presets into place
+	 */
+	installConfigFiles(bundle: OpenedBundle): string[] {
+		const entries = this.getConfigEntries(bundle);
+		for (const { root, file } of entries) {
+			const target = join(this.configDir, file);
+			mkdirSync(dirname(target), { recursive: true });
+			cpSync(join(root, file), target, { recursive: true });
+		}
+		return entries.map(({ file }) => join(this.configDir, file));
+	}
+
+	/**
+	 * Get the bundled config entries: the directory holding each and its
+	 * path there, which is also its path in the config directory
+	 */
+	private getConfigEntries(
+		bundle: OpenedBundle,
+	): { root: string; file: string }[] {
+		return [
+			...bundle.manifest.files.map((file) => ({ root: bundle.dir, file })),
+			...(bundle.manifest.dockerfile ?? []).map((file) => ({
+				root: join(bundle.dir, DOCKERFILE_ENTRY),
+				file,
+			})),
+		];
+	}
+
+	/**
+	 * Copy the custom Dockerfile and the files it copies into a staging
+	 * directory, keeping their paths in the config directory
+	 * Files that are outside it, or would replace cyrus-docker's own files
+	 * on import, are left out with a warning
+	 * Returns the staged paths
+	 */
+	private stageDockerfileFiles(paths: string[], target: string): string[] {
+		const staged: string[] = [];
+		for (const path of paths) {
+			const file = relative(this.configDir, path);
+			if (!this.isDockerfileFile(file)) {
+				this.logger.warn(
+					`${path} is not exported: the custom Dockerfile and its files must be in ${this.configDir} (copy it to the new host yourself)`,
+				);
+				continue;
+			}
+			cpSync(path, join(target, file), { recursive: true, dereference: true });
+			staged.push(file);
+		}
+		return staged;
+	}
+
+	/**
+	 * Check a custom Dockerfile file's path relative to the config directory
+	 * It must stay inside and not be one of cyrus-docker's own files
+	 */
+	private isDockerfileFile(file: string): boolean {
+		const segments = file.split("/");
+		return (
+			/^[\w.-]+(?:\/[\w.-]+)*$/.test(file) &&
+			!segments.some((segment) => segment === "." || segment === "..") &&
+			!RESERVED_CONFIG_NAMES.includes(segments[0] ?? "")
+		);
+	}
+
+	/**
+	 * Extract the bundled Cyrus data directory into a directory
+	 */
+	async installData(bundle: OpenedBundle, target: string): Promise<void> {
+		const data = bundle.manifest.data;
+		if (!data) {
+			throw new Error(`${bundle.path} has no Cyrus data directory`);
+		}
+		mkdirSync(target, { recursive: true });
+		await execa(
+			"tar",
+			["-xzf", bundle.path, "-C", target, "--strip-components=1", "--", data],
+			{ stdio: "pipe" },
+		);
+		this.logger.debug(`Extracted ${data} into ${target}`);
+	}
+
+	/**
+	 * Extract entries of a bundle into a directory
+	 */
+	private async extract(
+		bundlePath: string,
+		dir: string,
+		entries: string[],
+	): Promise<void> {
+		try {
+			await execa("tar", ["-xzf", bundlePath, "-C", dir, "--", ...entries], {
+				stdio: "pipe",
+			});
+		} catch (error) {
+			const message =
+				error instanceof Error && "stderr" in error
+					? String(error.stderr).trim().split("\n")[0]
+					: String(error);
+			throw new Error(`Failed to read ${bundlePath}: ${message}`);
+		}
+	}
+
+	/**
+	 * Check that a manifest only names entries an export writes
+	 * Its names become tar arguments and local paths, so anything else
+	 * could run tar options or write outside the config directory
+	 */
+	private validateManifest(bundlePath: string, manifest: BundleManifest): void {
+		const invalid = (reason: string) =>
+			new Error(`${bundlePath} has an invalid ${MANIFEST_ENTRY}: ${reason}`);
+		for (const file of manifest.files) {
+			if (!BUNDLE_CONFIG_FILES.includes(file)) {
+				throw invalid(`unexpected file "${file}"`);
+			}
+		}
+		if (new Set(manifest.files).size !== manifest.files.length) {
+			throw invalid("files are listed twice");
+		}
+		const { dockerfile } = manifest;
+		if (dockerfile !== undefined) {
+			if (!Array.isArray(dockerfile)) {
+				throw invalid("dockerfile must be a list");
+			}
+			for (const file of dockerfile) {
+				if (typeof file !== "string" || !this.isDockerfileFile(file)) {
+					throw invalid(`unexpected custom Dockerfile file "${file}"`);
+				}
+			}
+			if (new Set(dockerfile).size !== dockerfile.length) {
+				throw invalid("custom Dockerfile files are listed twice");
+			}
+		}
+		const { data } = manifest;
+		if (
+			data !== undefined &&
+			(typeof data !== "string" ||
+				!/^[\w.-]+$/.test(data) ||
+				data === "." ||
+				data === "..")
+		) {
+			throw invalid(`data must be a directory name (got "${data}")`);
+		}
+		if (!["none", "plain", "encrypted"].includes(manifest.secrets)) {
+			throw invalid(`unknown secrets "${manifest.secrets}"`);
+		}
+	}
+
+	/**
+	 * List the files under a path, relative to the bundle root
+	 * Links are refused so nothing is copied from outside the bundle
+	 */
+	private listFiles(path: string, relative: string): string[] {
+		const stats = lstatSync(path);
+		if (stats.isSymbolicLink()) {
+			throw new Error(`${relative} in the bundle is a link`);
+		}
+		if (!stats.isDirectory()) {
+			return [relative];
+		}
+		return readdirSync(path).flatMap((name) =>
+			this.listFiles(join(path, name), join(relative, name)),
+		);
+	}
+}
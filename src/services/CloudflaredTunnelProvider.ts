@@ -0,0 +1,118 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { execa } from "execa";
+import { CLOUDFLARED_METRICS_PORT } from "../config/constants.js";
+import type { TunnelProvider } from "./TunnelProvider.js";
+
+/**
+ * Options for the cloudflared provider
+ */
+export interface CloudflaredTunnelOptions {
+	/** Token of a named tunnel (omit to use a quick tunnel) */
+	token?: string;
+	/** Public URL routed to the named tunnel (required with a token) */
+	hostnameUrl?: string;
+	/** Port for cloudflared's metrics server */
+	metricsPort?: number;
+}
+
+/**
+ * Response from cloudflared's /quicktunnel metrics endpoint
+ */
+interface QuickTunnelResponse {
+	hostname: string;
+}
+
+/**
+ * Tunnel provider backed by Cloudflare Tunnel (cloudflared)
+ *
+ * Without a token this runs a quick tunnel on a random trycloudflare.com
+ * hostname. With a token it runs the named tunnel, whose public hostname
+ * is configured in Cloudflare and must be given as CYRUS_BASE_URL.
+ */
+export class CloudflaredTunnelProvider implements TunnelProvider {
+	readonly name = "cloudflared" as const;
+	readonly displayName = "cloudflared";
+	readonly installUrl =
+		"https://developers.cloudflare.com/cloudflare-one/connections/connect-networks/downloads/";
+
+	private readonly metricsUrl: string;
+
+	constructor(private options: CloudflaredTunnelOptions = {}) {
+		const metricsPort = options.metricsPort ?? CLOUDFLARED_METRICS_PORT;
+		this.metricsUrl = `http://localhost:${metricsPort}`;
+	}
+
+	/**
+	 * Build the cloudflared command line arguments
+	 * A named tunnel's token is passed in TUNNEL_TOKEN, not here, so it
+	 * doesn't show up in the process list
+	 */
+	getArgs(port: number): string[] {
+		const metricsAddr = this.metricsUrl.replace("http://", "");
+		const args = ["tunnel", "--no-autoupdate", "--metrics", metricsAddr];
+		if (this.options.token) {
+			args.push("run");
+		} else {
+			args.push("--url", `http://localhost:${port}`);
+		}
+		return args;
+	}
+
+	/**
+	 * Check if cloudflared is installed
+	 */
+	async isInstalled(): Promise<boolean> {
+		try {
+			await execa("which", ["cloudflared"], { stdio: "pipe" });
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Start cloudflared as a detached process
+	 */
+	async start(port: number): Promise<ChildProcess> {
+		if (this.options.token && !this.options.hostnameUrl) {
+			throw new Error(
+				"CYRUS_BASE_URL must be set to the tunnel's public hostname when using CLOUDFLARED_TUNNEL_TOKEN",
+			);
+		}
+
+		const env = this.options.token
+			? { ...process.env, TUNNEL_TOKEN: this.options.token }
+			: process.env;
+		const subprocess = spawn("cloudflared", this.getArgs(port), {
+			detached: true,
+			stdio: "ignore",
+			env,
+		});
+		subprocess.unref();
+
+		return subprocess;
+	}
+
+	/**
+	 * Get the public URL from cloudflared's metrics server
+	 */
+	async getUrl(): Promise<string | null> {
+		try {
+			// Named tunnel: the hostname is fixed, so only check readiness
+			if (this.options.token) {
+				const response = await fetch(`${this.metricsUrl}/ready`);
+				return response.ok ? (this.options.hostnameUrl ?? null) : null;
+			}
+
+			const response = await fetch(`${this.metricsUrl}/quicktunnel`);
+			if (!response.ok) {
+				return null;
+			}
+
+			const data = (await response.json()) as QuickTunnelResponse;
+			return data.hostname ? `https://${data.hostname}` : null;
+		} catch {
+			return null;
+		}
+	}
+}
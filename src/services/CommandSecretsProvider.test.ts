@@ -0,0 +1,55 @@
+import { execa } from "execa";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLogger } from "../test-utils.js";
+import { CommandSecretsProvider } from "./CommandSecretsProvider.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+describe("CommandSecretsProvider", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("runs the command per secret and keeps the first output line", async () => {
+		vi.mocked(execa).mockImplementation(((command: string) =>
+			command === "pass show cyrus/GITHUB_TOKEN"
+				? Promise.resolve({ stdout: "ghp_secret\nlogin: cyrus" })
+				: Promise.reject(new Error("not in the password store"))) as never);
+
+		const provider = new CommandSecretsProvider(
+			createMockLogger(),
+			"pass show cyrus/{key}",
+		);
+
+		expect(await provider.read()).toEqual({ GITHUB_TOKEN: "ghp_secret" });
+		expect(await provider.list()).toEqual(["GITHUB_TOKEN"]);
+		expect(execa).toHaveBeenCalledWith(
+			"pass show cyrus/ANTHROPIC_API_KEY",
+			expect.objectContaining({ shell: true }),
+		);
+	});
+
+	it("fails instead of waiting forever on a hung command", async () => {
+		vi.mocked(execa).mockRejectedValue(
+			Object.assign(new Error("Command timed out"), { timedOut: true }),
+		);
+
+		const provider = new CommandSecretsProvider(
+			createMockLogger(),
+			"pass show cyrus/{key}",
+			5_000,
+		);
+
+		await expect(provider.read()).rejects.toThrow(
+			"pass show cyrus/ANTHROPIC_API_KEY did not finish within 5s",
+		);
+		expect(execa).toHaveBeenCalledTimes(1);
+		expect(execa).toHaveBeenCalledWith(
+			"pass show cyrus/ANTHROPIC_API_KEY",
+			expect.objectContaining({ timeout: 5_000 }),
+		);
+	});
+});
@@ -0,0 +1,71 @@
+import { execa } from "execa";
+import {
+	SECRETS_COMMAND_TIMEOUT,
+	SECRET_ENV_KEYS,
+} from "../config/constants.js";
+import type { EnvConfig } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+import type { SecretsProvider } from "./SecretsProvider.js";
+
+/**
+ * Secrets printed by an external command such as pass or a password
+ * manager CLI. The command runs once per secret, with {key} replaced
+ * by its name; the first line of its output is the value, and a
+ * failing command means the secret is not stored. A command that hangs
+ * (e.g. on a prompt nobody answers) fails the read
+ */
+export class CommandSecretsProvider implements SecretsProvider {
+	readonly name = "command" as const;
+	readonly displayName = "secrets command";
+
+	/** Secrets, once read */
+	private secrets?: EnvConfig;
+
+	constructor(
+		private logger: Logger,
+		private command: string,
+		private timeout: number = SECRETS_COMMAND_TIMEOUT,
+	) {}
+
+	/**
+	 * List the names of the secrets the command knows
+	 */
+	async list(): Promise<string[]> {
+		return Object.keys(await this.read());
+	}
+
+	/**
+	 * Run the command for each secret setting
+	 */
+	async read(): Promise<EnvConfig> {
+		if (this.secrets) {
+			return { ...this.secrets };
+		}
+
+		const secrets: EnvConfig = {};
+		for (const key of SECRET_ENV_KEYS) {
+			const command = this.command.replaceAll("{key}", key);
+			try {
+				const { stdout } = await execa(command, {
+					shell: true,
+					stdio: ["inherit", "pipe", "pipe"],
+					timeout: this.timeout,
+				});
+				const value = stdout.split("\n")[0]?.trim();
+				if (value) {
+					secrets[key] = value;
+				}
+			} catch (error) {
+				if (error instanceof Error && "timedOut" in error && error.timedOut) {
+					throw new Error(
+						`${command} did not finish within ${this.timeout / 1000}s`,
+					);
+				}
+				this.logger.debug(`${command} failed, treating ${key} as not stored`);
+			}
+		}
+
+		this.secrets = secrets;
+		return { ...secrets };
+	}
+}
@@ -1,14 +1,58 @@
-import { existsSync, readFileSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	statSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	FINGERPRINT_LABEL_PREFIX,
+	TOOLS_HASH_LABEL,
+} from "../config/constants.js";
+import type { ToolsFingerprint } from "../config/types.js";
 import { createMockLogger, withTempDir } from "../test-utils.js";
-import { DockerService } from "./DockerService.js";
+import { DockerService, getRegistryTag } from "./DockerService.js";
+import type { ResolvedToolConfig } from "./ToolConfigService.js";
 
 // Mock execa
 vi.mock("execa", () => ({
 	execa: vi.fn(),
 }));
 
+const FINGERPRINT: ToolsFingerprint = {
+	hash: "newhash456",
+	components: {
+		config: "config1",
+		dockerfile: "dockerfile1",
+		baseDockerfile: "base1",
+		baseImage: "sha256:image1",
+		version: "2.0.0",
+	},
+};
+
+/**
+ * Image labels for a fingerprint; a stale tag marks config and
+ * Dockerfile as built from an older tools configuration
+ */
+function fingerprintLabels(
+	fingerprint: ToolsFingerprint,
+	stale?: string,
+): Record<string, string> {
+	const components = stale
+		? { ...fingerprint.components, config: stale, dockerfile: stale }
+		: fingerprint.components;
+	const labels: Record<string, string> = {
+		[TOOLS_HASH_LABEL]: stale ?? fingerprint.hash,
+	};
+	for (const [key, value] of Object.entries(components)) {
+		labels[`${FINGERPRINT_LABEL_PREFIX}${key}`] = value;
+	}
+	return labels;
+}
+
 describe("DockerService", () => {
 	let service: DockerService;
 	let dockerDir: string;
@@ -121,6 +165,61 @@ describe("DockerService", () => {
 		});
 	});
 
+	describe("buildWithTools", () => {
+		it("builds from a private context holding only the copied files", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const configDir = join(dir, "config");
+				mkdirSync(join(configDir, "certs"), { recursive: true });
+				writeFileSync(
+					join(configDir, "ca.Dockerfile"),
+					"COPY certs /tmp/\n",
+				);
+				writeFileSync(join(configDir, "certs", "corp-ca.crt"), "cert");
+				writeFileSync(
+					join(configDir, ".env.docker"),
+					"LINEAR_CLIENT_SECRET=x",
+				);
+
+				const { execa } = await import("execa");
+				let context: string[] = [];
+				let dockerfile = "";
+				vi.mocked(execa).mockImplementation((async (
+					_command: string,
+					args: string[],
+				) => {
+					if (args[0] === "build") {
+						context = readdirSync(args[args.length - 1] as string);
+						dockerfile = readFileSync(args[2] as string, "utf-8");
+					}
+					return { stdout: "" };
+				}) as never);
+
+				await service.buildWithTools(
+					{
+						secrets: [],
+						buildArgs: {},
+						versions: {},
+						customDockerfile: join(configDir, "ca.Dockerfile"),
+					} as unknown as ResolvedToolConfig,
+					() => "FROM cyrus-ai/cyrus:base\nCOPY certs /tmp/\n",
+					undefined,
+					{ contextFiles: ["certs"] },
+				);
+
+				const buildArgs = vi
+					.mocked(execa)
+					.mock.calls.map((call) => call[1] as string[])
+					.find((args) => args[0] === "build");
+				expect(context).toEqual(["certs"]);
+				expect(dockerfile).toContain("COPY certs /tmp/");
+				expect(buildArgs?.[2]).not.toContain(configDir);
+				expect(existsSync(dirname(buildArgs?.[2] as string))).toBe(false);
+				expect(existsSync(join(configDir, "ca.Dockerfile"))).toBe(true);
+			});
+		});
+	});
+
 	describe("up", () => {
 		it("executes docker compose up -d", async () => {
 			await withTempDir(async (dir) => {
@@ -139,6 +238,88 @@ describe("DockerService", () => {
 				);
 			});
 		});
+
+		it("mounts secrets through a private file removed on down", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger(), {
+					containerName: `cyrus-test-${process.pid}`,
+					getSecrets: async () => ({
+						GITHUB_TOKEN: "ghp_secret",
+						LINEAR_CLIENT_SECRET: "it's $HOME",
+					}),
+				});
+
+				const { execa } = await import("execa");
+				let args: string[] = [];
+				let secretsFile = "";
+				vi.mocked(execa).mockImplementationOnce(((
+					_file: string,
+					commandArgs: string[],
+					options: { env: Record<string, string> },
+				) => {
+					args = commandArgs;
+					secretsFile = options.env.CYRUS_SECRETS_FILE ?? "";
+					return Promise.resolve({});
+				}) as never);
+
+				await service.up();
+
+				expect(args).toEqual(["compose", "up", "-d", "--force-recreate"]);
+				expect(readFileSync(secretsFile, "utf-8")).toBe(
+					"GITHUB_TOKEN='ghp_secret'\nLINEAR_CLIENT_SECRET='it'\\''s $HOME'\nCYRUS_SECRETS_INJECTED=true\n",
+				);
+				expect(statSync(secretsFile).mode & 0o777).toBe(0o600);
+				expect(statSync(dirname(secretsFile)).mode & 0o777).toBe(0o700);
+
+				vi.mocked(execa).mockResolvedValueOnce({} as never);
+				await service.down();
+
+				expect(existsSync(secretsFile)).toBe(false);
+			});
+		});
+	});
+
+	describe("profiles", () => {
+		it("runs compose in the profile's project with its settings", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger(), {
+					containerName: "cyrus-work",
+					projectName: "cyrus-work",
+					envFile: join(dir, "work", ".env.docker"),
+					cyrusHome: "/home/me/.cyrus-work",
+				});
+				service.writeEnvFile({ CYRUS_HOST_PORT: "3457" });
+
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockResolvedValueOnce({} as never);
+
+				await service.up();
+
+				expect(execa).toHaveBeenCalledWith(
+					"docker",
+					["compose", "-p", "cyrus-work", "up", "-d"],
+					expect.objectContaining({
+						cwd: dir,
+						env: expect.objectContaining({
+							CYRUS_CONTAINER_NAME: "cyrus-work",
+							CYRUS_HOST_PORT: "3457",
+							CYRUS_ENV_FILE: join(dir, "work", ".env.docker"),
+							CYRUS_HOME: "/home/me/.cyrus-work",
+						}),
+					}),
+				);
+				expect(service.getHostPort()).toBe(3457);
+			});
+		});
+
+		it("uses the default port without CYRUS_HOST_PORT", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+
+				expect(service.getHostPort()).toBe(3456);
+				expect(service.getContainerName()).toBe("cyrus");
+			});
+		});
 	});
 
 	describe("down", () => {
@@ -333,6 +514,90 @@ KEY=value
 				const content = readFileSync(join(dir, ".env.docker"), "utf-8");
 				expect(content).toContain("ANTHROPIC_API_KEY=sk-ant-123");
 				expect(content).toContain("LINEAR_CLIENT_ID=abc123");
+				expect(statSync(join(dir, ".env.docker")).mode & 0o777).toBe(0o600);
+			});
+		});
+
+		it("keeps comments and unknown keys of an existing file", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				writeFileSync(join(dir, ".env.docker.example"), "# Example\nA=\n");
+				writeFileSync(
+					join(dir, ".env.docker"),
+					"# My notes\nGITHUB_TOKEN=ghp_1\nMY_EXTRA='x y'\n",
+				);
+
+				service.writeEnvFile({ GITHUB_TOKEN: "", GIT_USER_NAME: "Jane Doe" });
+
+				expect(readFileSync(join(dir, ".env.docker"), "utf-8")).toBe(
+					"# My notes\nGITHUB_TOKEN=\nMY_EXTRA='x y'\nGIT_USER_NAME='Jane Doe'\n",
+				);
+			});
+		});
+
+		it("starts an overwritten file from the template", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				writeFileSync(
+					join(dir, ".env.docker.example"),
+					"# Example\nGIT_USER_NAME=\n",
+				);
+				writeFileSync(
+					join(dir, ".env.docker"),
+					"TUNNEL_PROVIDER=cloudflared\nCLOUDFLARED_TUNNEL_TOKEN=old\n",
+				);
+
+				service.writeEnvFile(
+					{ GIT_USER_NAME: "Cyrus" },
+					{ fromTemplate: true },
+				);
+
+				expect(readFileSync(join(dir, ".env.docker"), "utf-8")).toBe(
+					"# Example\nGIT_USER_NAME=Cyrus\n",
+				);
+			});
+		});
+	});
+
+	describe("migrateEnvFile", () => {
+		it("moves a legacy file to the configured path", async () => {
+			await withTempDir(async (dir) => {
+				const envFile = join(dir, "config", ".env.docker");
+				const legacyFile = join(dir, ".env.docker");
+				service = new DockerService(dir, createMockLogger(), { envFile });
+				writeFileSync(legacyFile, "ANTHROPIC_API_KEY=sk-ant-123\n");
+
+				expect(service.migrateEnvFile(legacyFile)).toBe(true);
+
+				expect(existsSync(legacyFile)).toBe(false);
+				expect(service.readEnvFile().ANTHROPIC_API_KEY).toBe("sk-ant-123");
+				expect(statSync(envFile).mode & 0o777).toBe(0o600);
+			});
+		});
+
+		it("keeps an existing file at the configured path", async () => {
+			await withTempDir(async (dir) => {
+				const envFile = join(dir, "config.env");
+				const legacyFile = join(dir, ".env.docker");
+				service = new DockerService(dir, createMockLogger(), { envFile });
+				writeFileSync(envFile, "KEY=new\n");
+				writeFileSync(legacyFile, "KEY=old\n");
+
+				expect(service.migrateEnvFile(legacyFile)).toBe(false);
+
+				expect(service.readEnvFile().KEY).toBe("new");
+				expect(existsSync(legacyFile)).toBe(true);
+			});
+		});
+
+		it("does nothing without a legacy file", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger(), {
+					envFile: join(dir, "config.env"),
+				});
+
+				expect(service.migrateEnvFile(join(dir, ".env.docker"))).toBe(false);
+				expect(service.hasEnvFile()).toBe(false);
 			});
 		});
 	});
@@ -373,6 +638,19 @@ KEY=value
 				expect(content).toContain("NEW_KEY=newvalue");
 			});
 		});
+
+		it("unsets a value", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				writeFileSync(join(dir, ".env.docker"), "KEY1=value1\nKEY2=value2\n");
+
+				service.unsetEnvValue("KEY1" as never);
+
+				expect(readFileSync(join(dir, ".env.docker"), "utf-8")).toBe(
+					"KEY2=value2\n",
+				);
+			});
+		});
 	});
 
 	describe("hasEnvFile", () => {
@@ -456,7 +734,7 @@ KEY=value
 				const { execa } = await import("execa");
 				// imageExists check
 				vi.mocked(execa).mockResolvedValueOnce({} as never);
-				// getImageToolsHash check
+				// getImageLabels check
 				vi.mocked(execa).mockResolvedValueOnce({ stdout: "" } as never);
 
 				const result = await service.checkImageStatus(null);
@@ -474,15 +752,375 @@ KEY=value
 				const { execa } = await import("execa");
 				// imageExists check
 				vi.mocked(execa).mockResolvedValueOnce({} as never);
-				// getImageToolsHash check - returns different hash
+				// getImageLabels check - returns labels from an older build
 				vi.mocked(execa).mockResolvedValueOnce({
-					stdout: "oldhash123",
+					stdout: JSON.stringify(fingerprintLabels(FINGERPRINT, "old")),
 				} as never);
 
-				const result = await service.checkImageStatus("newhash456");
+				const result = await service.checkImageStatus(FINGERPRINT);
 
 				expect(result.needsRebuild).toBe(true);
 				expect(result.reason).toContain("changed");
+				expect(result.changed).toEqual(["config", "dockerfile"]);
+			});
+		});
+
+		it("reports which fingerprint component changed", async () => {
+			await withTempDir(async (dir) => {
+				dockerDir = dir;
+				service = new DockerService(dir, createMockLogger());
+
+				const built = {
+					hash: "oldhash",
+					components: { ...FINGERPRINT.components, version: "1.0.0" },
+				};
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockResolvedValueOnce({} as never);
+				vi.mocked(execa).mockResolvedValueOnce({
+					stdout: JSON.stringify(fingerprintLabels(built)),
+				} as never);
+
+				const result = await service.checkImageStatus(FINGERPRINT);
+
+				expect(result.changed).toEqual(["version"]);
+				expect(result.reason).toBe(
+					"cyrus-docker version changed (1.0.0 -> 2.0.0)",
+				);
+			});
+		});
+
+		it("returns needsRebuild false when the fingerprint matches", async () => {
+			await withTempDir(async (dir) => {
+				dockerDir = dir;
+				service = new DockerService(dir, createMockLogger());
+
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockResolvedValueOnce({} as never);
+				vi.mocked(execa).mockResolvedValueOnce({
+					stdout: JSON.stringify(fingerprintLabels(FINGERPRINT)),
+				} as never);
+
+				const result = await service.checkImageStatus(FINGERPRINT);
+
+				expect(result.needsRebuild).toBe(false);
+				expect(result.reason).toBe("Image up to date");
+			});
+		});
+
+		it("keeps a pulled image while there is no local base image", async () => {
+			await withTempDir(async (dir) => {
+				dockerDir = dir;
+				service = new DockerService(dir, createMockLogger());
+
+				const local = {
+					hash: "localhash",
+					components: { ...FINGERPRINT.components, baseImage: "" },
+				};
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockResolvedValueOnce({} as never);
+				vi.mocked(execa).mockResolvedValueOnce({
+					stdout: JSON.stringify(fingerprintLabels(FINGERPRINT)),
+				} as never);
+
+				const result = await service.checkImageStatus(local);
+
+				expect(result.needsRebuild).toBe(false);
+				expect(result.reason).toBe("Image up to date (prebuilt)");
+			});
+		});
+
+		it("keeps a pulled image built on another base image", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+
+				const built = {
+					hash: "cihash",
+					components: { ...FINGERPRINT.components, baseImage: "sha256:ci" },
+				};
+				const tags = [
+					"cyrus-ai/cyrus:latest",
+					`localhost:5000/cyrus-tools:${getRegistryTag(FINGERPRINT)}`,
+				];
+				const { execa } = await import("execa");
+				vi.mocked(execa)
+					.mockResolvedValueOnce({} as never)
+					.mockResolvedValueOnce({
+						stdout: JSON.stringify(fingerprintLabels(built)),
+					} as never)
+					.mockResolvedValueOnce({ stdout: JSON.stringify(tags) } as never);
+
+				const result = await service.checkImageStatus(FINGERPRINT);
+
+				expect(result.needsRebuild).toBe(false);
+				expect(result.reason).toBe("Image up to date (prebuilt)");
+			});
+		});
+
+		it("rebuilds a local image whose base image changed", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+
+				const built = {
+					hash: "oldhash",
+					components: { ...FINGERPRINT.components, baseImage: "sha256:old" },
+				};
+				const { execa } = await import("execa");
+				vi.mocked(execa)
+					.mockResolvedValueOnce({} as never)
+					.mockResolvedValueOnce({
+						stdout: JSON.stringify(fingerprintLabels(built)),
+					} as never)
+					.mockResolvedValueOnce({
+						stdout: JSON.stringify(["cyrus-ai/cyrus:latest"]),
+					} as never);
+
+				const result = await service.checkImageStatus(FINGERPRINT);
+
+				expect(result.needsRebuild).toBe(true);
+				expect(result.reason).toBe("Base image changed");
+			});
+		});
+	});
+
+	describe("registry", () => {
+		const REPOSITORY = "localhost:5000/cyrus-tools";
+
+		it("derives the registry tag from everything but the base image", () => {
+			const elsewhere = {
+				hash: "otherhash",
+				components: { ...FINGERPRINT.components, baseImage: "sha256:image2" },
+			};
+
+			expect(getRegistryTag(FINGERPRINT)).toMatch(/^tools-[0-9a-f]+$/);
+			expect(getRegistryTag(elsewhere)).toBe(getRegistryTag(FINGERPRINT));
+			expect(
+				getRegistryTag({
+					...FINGERPRINT,
+					components: { ...FINGERPRINT.components, config: "config2" },
+				}),
+			).not.toBe(getRegistryTag(FINGERPRINT));
+		});
+
+		it("pushes the image under its registry tag and latest", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockResolvedValue({} as never);
+
+				const refs = await service.pushImage(REPOSITORY, FINGERPRINT);
+
+				const tag = getRegistryTag(FINGERPRINT);
+				expect(refs).toEqual([`${REPOSITORY}:${tag}`, `${REPOSITORY}:latest`]);
+				expect(execa).toHaveBeenCalledWith(
+					"docker",
+					["tag", "cyrus-ai/cyrus:latest", `${REPOSITORY}:${tag}`],
+					{ stdio: "pipe" },
+				);
+				expect(execa).toHaveBeenLastCalledWith(
+					"docker",
+					["push", `${REPOSITORY}:latest`],
+					{ stdio: "inherit" },
+				);
+			});
+		});
+
+		it("falls back to a local build when there is no prebuilt image", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockRejectedValueOnce(new Error("manifest unknown"));
+
+				expect(await service.pullToolsImage(REPOSITORY, FINGERPRINT)).toBe(
+					false,
+				);
+				expect(execa).toHaveBeenCalledTimes(1);
+			});
+		});
+
+		it("ignores a pulled image built from another configuration", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const { execa } = await import("execa");
+				vi.mocked(execa)
+					.mockResolvedValueOnce({} as never)
+					.mockResolvedValueOnce({
+						stdout: JSON.stringify(fingerprintLabels(FINGERPRINT, "old")),
+					} as never);
+
+				expect(await service.pullToolsImage(REPOSITORY, FINGERPRINT)).toBe(
+					false,
+				);
+				expect(execa).toHaveBeenCalledTimes(2);
+			});
+		});
+
+		it("uses a matching pulled image built on another base image", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const built = {
+					...FINGERPRINT,
+					components: { ...FINGERPRINT.components, baseImage: "sha256:ci" },
+				};
+				const { execa } = await import("execa");
+				vi.mocked(execa)
+					.mockResolvedValueOnce({} as never)
+					.mockResolvedValueOnce({
+						stdout: JSON.stringify(fingerprintLabels(built)),
+					} as never)
+					.mockResolvedValueOnce({ stdout: "sha256:old" } as never)
+					.mockResolvedValue({ stdout: "sha256:1234" } as never);
+
+				expect(await service.pullToolsImage(REPOSITORY, FINGERPRINT)).toBe(
+					true,
+				);
+				expect(execa).toHaveBeenCalledWith(
+					"docker",
+					[
+						"tag",
+						`${REPOSITORY}:${getRegistryTag(FINGERPRINT)}`,
+						"cyrus-ai/cyrus:latest",
+					],
+					{ stdio: "pipe" },
+				);
+				expect(execa).toHaveBeenLastCalledWith(
+					"docker",
+					["tag", "cyrus-ai/cyrus:latest", expect.stringMatching(/:build-/)],
+					{ stdio: "pipe" },
+				);
+			});
+		});
+
+		it("does not record pulling the image already in use as a build", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const { execa } = await import("execa");
+				vi.mocked(execa)
+					.mockResolvedValueOnce({} as never)
+					.mockResolvedValueOnce({
+						stdout: JSON.stringify(fingerprintLabels(FINGERPRINT)),
+					} as never)
+					.mockResolvedValue({ stdout: "sha256:1234" } as never);
+
+				expect(await service.pullToolsImage(REPOSITORY, FINGERPRINT)).toBe(
+					true,
+				);
+				const tagged = vi
+					.mocked(execa)
+					.mock.calls.filter((call) => (call[1] as string[])[0] === "tag");
+				expect(tagged).toHaveLength(1);
+			});
+		});
+	});
+
+	describe("image builds", () => {
+		/**
+		 * docker image inspect output for a tagged build
+		 */
+		function inspectResult(tag: string, id: string, toolsHash?: string) {
+			return {
+				Id: `sha256:${id}`,
+				Created: "2026-10-18T10:00:00Z",
+				RepoTags: [`cyrus-ai/cyrus:${tag}`],
+				Config: {
+					Labels: {
+						...(toolsHash ? { [TOOLS_HASH_LABEL]: toolsHash } : {}),
+						"cyrus-docker.version.cyrus": "0.2.10",
+					},
+				},
+			};
+		}
+
+		const BUILDS = [
+			inspectResult("build-20261016-100000-aaa", "a".repeat(64)),
+			inspectResult("build-20261018-100000-ccc", "c".repeat(64), "ccc"),
+			inspectResult("build-20261017-100000-bbb", "b".repeat(64)),
+		];
+
+		/**
+		 * Mock docker image ls/inspect for BUILDS with latest at an image ID
+		 */
+		async function mockBuilds(latestId: string) {
+			const { execa } = await import("execa");
+			vi.mocked(execa)
+				.mockResolvedValueOnce({
+					stdout: `latest\nbase\n${BUILDS.map((b) => b.RepoTags[0]?.split(":")[1]).join("\n")}`,
+				} as never)
+				.mockResolvedValueOnce({ stdout: JSON.stringify(BUILDS) } as never)
+				.mockResolvedValueOnce({ stdout: `sha256:${latestId}` } as never);
+			return execa;
+		}
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("tags the latest image with the build time and tools hash", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				vi.useFakeTimers({ now: new Date("2026-10-18T11:55:07.123Z") });
+				const { execa } = await import("execa");
+				vi.mocked(execa)
+					.mockResolvedValueOnce({ stdout: "sha256:1234" } as never)
+					.mockResolvedValueOnce({} as never);
+
+				const tag = await service.tagBuild("newhash456");
+
+				expect(tag).toBe("build-20261018-115507-newhash456");
+				expect(execa).toHaveBeenLastCalledWith(
+					"docker",
+					["tag", "cyrus-ai/cyrus:latest", `cyrus-ai/cyrus:${tag}`],
+					{ stdio: "pipe" },
+				);
+			});
+		});
+
+		it("lists builds newest first, marking the current one", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				await mockBuilds("b".repeat(64));
+
+				const builds = await service.listImageBuilds();
+
+				expect(builds.map((build) => [build.tag, build.current])).toEqual([
+					["build-20261018-100000-ccc", false],
+					["build-20261017-100000-bbb", true],
+					["build-20261016-100000-aaa", false],
+				]);
+				expect(builds[0]).toMatchObject({
+					id: "cccccccccccc",
+					toolsHash: "ccc",
+					versions: { cyrus: "0.2.10" },
+				});
+			});
+		});
+
+		it("prunes old builds but keeps the one in use", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const execa = await mockBuilds("a".repeat(64));
+				vi.mocked(execa).mockResolvedValueOnce({} as never);
+
+				const removed = await service.pruneImageBuilds(1);
+
+				expect(removed).toEqual(["build-20261017-100000-bbb"]);
+				expect(execa).toHaveBeenLastCalledWith(
+					"docker",
+					["image", "rm", "cyrus-ai/cyrus:build-20261017-100000-bbb"],
+					{ stdio: "pipe" },
+				);
+			});
+		});
+
+		it("refuses to roll back to an unknown tag", async () => {
+			await withTempDir(async (dir) => {
+				service = new DockerService(dir, createMockLogger());
+				const { execa } = await import("execa");
+				vi.mocked(execa).mockRejectedValueOnce(new Error("No such image"));
+
+				await expect(service.rollbackImage("build-missing")).rejects.toThrow(
+					"Image cyrus-ai/cyrus:build-missing not found",
+				);
+				expect(execa).toHaveBeenCalledTimes(1);
 			});
 		});
 	});
@@ -1,20 +1,47 @@
-import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import {
+	chmodSync,
+	copyFileSync,
+	cpSync,
+	existsSync,
+	lstatSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	unlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
 import { type Options as ExecaOptions, execa } from "execa";
 import {
-	CONFIG_DIR,
+	BASE_IMAGE,
+	BASE_IMAGE_FILES,
+	BUILD_DIR_PREFIX,
+	BUILD_TAG_PREFIX,
 	CONTAINER_HEALTH_RETRY_DELAY,
 	CONTAINER_HEALTH_TIMEOUT,
 	CONTAINER_NAME,
+	DEFAULT_PORT,
+	FINGERPRINT_LABEL_PREFIX,
 	IMAGE_NAME,
+	SECRETS_INJECTED_VAR,
 	TOOLS_HASH_LABEL,
+	VERSION_LABEL_PREFIX,
 } from "../config/constants.js";
 import type {
 	ContainerHealth,
 	ContainerStatus,
+	EnvChanges,
 	EnvConfig,
+	ImageBuild,
+	ImageCheckResult,
 	LogsOptions,
+	ToolsFingerprint,
+	ToolsFingerprintComponent,
 } from "../config/types.js";
+import { parseDotenv, updateDotenv } from "../utils/dotenv.js";
+import { canonicalJson, shortHash } from "../utils/hash.js";
 import type { Logger } from "./Logger.js";
 import type { ResolvedToolConfig } from "./ToolConfigService.js";
 
@@ -33,14 +60,89 @@ interface DockerInspectResult {
 	Id: string;
 }
 
+/**
+ * Docker image inspect result (fields used for build history)
+ */
+interface DockerImageInspectResult {
+	Id: string;
+	Created: string;
+	RepoTags?: string[];
+	Config?: {
+		Labels?: Record<string, string> | null;
+	};
+}
+
+/**
+ * Registry tag of a tools image: its fingerprint without the local base
+ * image ID, so every machine with the same tools.yml looks up the same tag
+ */
+export function getRegistryTag(fingerprint: ToolsFingerprint): string {
+	const { baseImage: _baseImage, ...portable } = fingerprint.components;
+	return `tools-${shortHash(canonicalJson(portable))}`;
+}
+
+/**
+ * Describe a changed tools fingerprint component
+ */
+function describeFingerprintChange(
+	key: ToolsFingerprintComponent,
+	previous: string | undefined,
+	current: string,
+): string {
+	switch (key) {
+		case "config":
+			return "Tools configuration changed";
+		case "dockerfile":
+			return "Generated Dockerfile changed";
+		case "baseDockerfile":
+			return "Base Dockerfile changed";
+		case "baseImage":
+			return "Base image changed";
+		case "version":
+			return previous
+				? `cyrus-docker version changed (${previous} -> ${current})`
+				: "Image built by an older cyrus-docker";
+	}
+}
+
+/**
+ * Quote a value for a POSIX shell (single quotes, taken literally)
+ */
+function shellQuote(value: string): string {
+	return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Options for DockerService (set per deployment profile)
+ */
+export interface DockerServiceOptions {
+	/** Container name (defaults to "cyrus") */
+	containerName?: string;
+	/** Docker Compose project name (defaults to compose's own) */
+	projectName?: string;
+	/** Path to .env.docker (defaults to <dockerDir>/.env.docker) */
+	envFile?: string;
+	/** Host directory mounted as the container's CYRUS_HOME */
+	cyrusHome?: string;
+	/** Secrets to inject at 'up' (from an encrypted secrets backend) */
+	getSecrets?: () => Promise<EnvConfig>;
+}
+
 /**
  * Manages Docker containers and docker-compose operations
  */
 export class DockerService {
+	private readonly containerName: string;
+	private readonly envFile: string;
+
 	constructor(
 		private dockerDir: string,
 		private logger: Logger,
-	) {}
+		private options: DockerServiceOptions = {},
+	) {
+		this.containerName = options.containerName ?? CONTAINER_NAME;
+		this.envFile = options.envFile ?? this.getPath(".env.docker");
+	}
 
 	/**
 	 * Get the path to a file in the docker directory
@@ -49,6 +151,31 @@ export class DockerService {
 		return join(this.dockerDir, file);
 	}
 
+	/**
+	 * Build docker compose arguments, selecting the profile's project
+	 */
+	private composeArgs(...args: string[]): string[] {
+		const projectArgs = this.options.projectName
+			? ["-p", this.options.projectName]
+			: [];
+		return ["compose", ...projectArgs, ...args];
+	}
+
+	/**
+	 * Variables interpolated into docker-compose.yml
+	 */
+	private getComposeEnv(): Record<string, string> {
+		const env: Record<string, string> = {
+			CYRUS_CONTAINER_NAME: this.containerName,
+			CYRUS_HOST_PORT: String(this.getHostPort()),
+			CYRUS_ENV_FILE: this.envFile,
+		};
+		if (this.options.cyrusHome) {
+			env.CYRUS_HOME = this.options.cyrusHome;
+		}
+		return env;
+	}
+
 	/**
 	 * Get common execa options for docker commands
 	 */
@@ -56,6 +183,7 @@ export class DockerService {
 		return {
 			cwd: this.dockerDir,
 			stdio: "inherit",
+			env: this.getComposeEnv(),
 		};
 	}
 
@@ -83,17 +211,34 @@ export class DockerService {
 		}
 	}
 
+	/**
+	 * Get the Docker Compose version (e.g. 2.29.1), or null if unavailable
+	 */
+	async getComposeVersion(): Promise<string | null> {
+		try {
+			const { stdout } = await execa(
+				"docker",
+				["compose", "version", "--short"],
+				{ stdio: "pipe" },
+			);
+			return stdout.trim().replace(/^v/, "") || null;
+		} catch {
+			return null;
+		}
+	}
+
 	/**
 	 * Build the Docker image
 	 */
 	async build(options: { noCache?: boolean } = {}): Promise<void> {
 		this.logger.info("Building Docker image...");
-		const args = ["compose", "build"];
+		const args = this.composeArgs("build");
 		if (options.noCache) {
 			args.push("--no-cache");
 		}
 		await execa("docker", args, this.getExecaOptions());
 		this.logger.success("Docker image built");
+		await this.tagBuild();
 	}
 
 	/**
@@ -102,17 +247,25 @@ export class DockerService {
 	async buildWithTools(
 		toolConfig: ResolvedToolConfig,
 		generateDockerfile: (config: ResolvedToolConfig, baseImage: string) => string,
-		toolsHash?: string | null,
-		options: { noCache?: boolean } = {},
-	): Promise<void> {
+		getFingerprint?: (baseImageId: string) => Promise<ToolsFingerprint | null>,
+		options: {
+			noCache?: boolean;
+			buildArgs?: Record<string, string>;
+			/** Files next to the custom Dockerfile it copies (relative to it) */
+			contextFiles?: string[];
+		} = {},
+	): Promise<ToolsFingerprint | null> {
 		this.logger.info("Building custom Docker image with tools...");
 
-		// Build base image first
+		// Build base image first, with pinned Cyrus/Claude Code versions
 		this.logger.info("Building base image...");
-		const baseArgs = ["compose", "build"];
+		const baseArgs = this.composeArgs("build");
 		if (options.noCache) {
 			baseArgs.push("--no-cache");
 		}
+		for (const [name, value] of Object.entries(options.buildArgs ?? {})) {
+			baseArgs.push("--build-arg", `${name}=${value}`);
+		}
 		await execa(
 			"docker",
 			baseArgs,
@@ -120,7 +273,7 @@ export class DockerService {
 		);
 
 		// Get the base image name from docker-compose
-		const baseImageName = `${IMAGE_NAME}:base`;
+		const baseImageName = BASE_IMAGE;
 
 		// Tag the built image as base
 		await execa("docker", ["tag", `${IMAGE_NAME}:latest`, baseImageName], {
@@ -128,45 +281,79 @@ export class DockerService {
 			stdio: "pipe",
 		});
 
-		// Generate custom Dockerfile in config directory (writable even when package is npm installed)
-		const customDockerfile = generateDockerfile(toolConfig, baseImageName);
-		const customDockerfilePath = join(CONFIG_DIR, "Dockerfile.custom");
-		if (!existsSync(CONFIG_DIR)) {
-			mkdirSync(CONFIG_DIR, { recursive: true });
-		}
-		writeFileSync(customDockerfilePath, customDockerfile, "utf-8");
-		this.logger.debug(`Generated ${customDockerfilePath}`);
-
-		// Build custom image using the generated Dockerfile
-		// Add label with tools hash for staleness detection
-		const buildArgs = [
-			"build",
-			"-f", customDockerfilePath,
-			"-t", `${IMAGE_NAME}:latest`,
-		];
-		if (options.noCache) {
-			buildArgs.push("--no-cache");
-		}
-		if (toolsHash) {
-			buildArgs.push("--label", `${TOOLS_HASH_LABEL}=${toolsHash}`);
-		}
-		buildArgs.push(".");
+		// Fingerprint against the base image just built
+		const baseImageId = (await this.getImageId(baseImageName)) ?? "";
+		const fingerprint = getFingerprint
+			? await getFingerprint(baseImageId)
+			: null;
 
-		this.logger.info("Building custom image with tools...");
-		await execa("docker", buildArgs, this.getExecaOptions());
+		// Build in a private directory: the generated Dockerfile next to a
+		// context holding only the files a custom Dockerfile copies, so
+		// nothing else in the config directory is sent to Docker
+		const buildDir = mkdtempSync(join(tmpdir(), BUILD_DIR_PREFIX));
+		try {
+			const dockerfilePath = join(buildDir, "Dockerfile");
+			const contextDir = join(buildDir, "context");
+			writeFileSync(
+				dockerfilePath,
+				generateDockerfile(toolConfig, baseImageName),
+				"utf-8",
+			);
+			this.logger.debug(`Generated ${dockerfilePath}`);
+			mkdirSync(contextDir);
+			if (toolConfig.customDockerfile) {
+				const sourceDir = dirname(toolConfig.customDockerfile);
+				for (const file of options.contextFiles ?? []) {
+					cpSync(join(sourceDir, file), join(contextDir, file), {
+						recursive: true,
+						dereference: true,
+					});
+				}
+			}
 
-		this.logger.success("Custom Docker image built with tools");
-	}
+			// Build custom image using the generated Dockerfile
+			// Add fingerprint labels for staleness detection
+			const buildArgs = [
+				"build",
+				"-f", dockerfilePath,
+				"-t", `${IMAGE_NAME}:latest`,
+			];
+			if (options.noCache) {
+				buildArgs.push("--no-cache");
+			}
+			if (fingerprint) {
+				buildArgs.push("--label", `${TOOLS_HASH_LABEL}=${fingerprint.hash}`);
+				for (const [key, value] of Object.entries(fingerprint.components)) {
+					buildArgs.push("--label", `${FINGERPRINT_LABEL_PREFIX}${key}=${value}`);
+				}
+			}
+			for (const [name, value] of Object.entries(toolConfig.buildArgs)) {
+				buildArgs.push("--build-arg", `${name}=${value}`);
+			}
+			// Secrets are mounted into RUN steps, never written to a layer
+			for (const secret of toolConfig.secrets) {
+				const source = secret.src ? `src=${secret.src}` : `env=${secret.env}`;
+				buildArgs.push("--secret", `id=${secret.id},${source}`);
+			}
+			// Record preset tool versions (Cyrus/Claude Code are labeled by the base image)
+			for (const [tool, version] of Object.entries(toolConfig.versions)) {
+				buildArgs.push("--label", `${VERSION_LABEL_PREFIX}${tool}=${version}`);
+			}
+			buildArgs.push(contextDir);
 
-	/**
-	 * Clean up custom Dockerfile if it exists
-	 */
-	cleanupCustomDockerfile(): void {
-		const customDockerfilePath = join(CONFIG_DIR, "Dockerfile.custom");
-		if (existsSync(customDockerfilePath)) {
-			unlinkSync(customDockerfilePath);
-			this.logger.debug("Cleaned up Dockerfile.custom");
+			// The generated Dockerfile uses BuildKit cache mounts
+			this.logger.info("Building custom image with tools...");
+			await execa("docker", buildArgs, {
+				...this.getExecaOptions(),
+				env: { ...this.getComposeEnv(), DOCKER_BUILDKIT: "1" },
+			});
+		} finally {
+			rmSync(buildDir, { recursive: true, force: true });
 		}
+
+		this.logger.success("Custom Docker image built with tools");
+		await this.tagBuild(fingerprint?.hash);
+		return fingerprint;
 	}
 
 	/**
@@ -184,42 +371,321 @@ export class DockerService {
 	}
 
 	/**
-	 * Get the tools hash label from the current image
-	 * Returns null if image doesn't exist or has no tools hash label
+	 * Get the ID of a local image, or null if it doesn't exist
+	 */
+	async getImageId(image: string): Promise<string | null> {
+		try {
+			const result = await execa(
+				"docker",
+				["image", "inspect", image, "--format", "{{.Id}}"],
+				{ stdio: "pipe" },
+			);
+			return result.stdout.trim() || null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Get the labels of an image (the current image by default)
+	 * Returns an empty object if the image doesn't exist or has no labels
 	 */
-	async getImageToolsHash(): Promise<string | null> {
+	async getImageLabels(
+		image = `${IMAGE_NAME}:latest`,
+	): Promise<Record<string, string>> {
 		try {
 			const result = await execa(
 				"docker",
-				["image", "inspect", `${IMAGE_NAME}:latest`, "--format", `{{index .Config.Labels "${TOOLS_HASH_LABEL}"}}`],
+				[
+					"image",
+					"inspect",
+					image,
+					"--format",
+					"{{json .Config.Labels}}",
+				],
 				{ stdio: "pipe" },
 			);
-			const hash = result.stdout.trim();
-			return hash || null;
+			const output = result.stdout.trim();
+			return output ? (JSON.parse(output) ?? {}) : {};
 		} catch {
+			return {};
+		}
+	}
+
+	/**
+	 * Get the tool versions recorded in the current image's labels
+	 */
+	async getImageVersions(): Promise<Record<string, string>> {
+		return this.getVersionLabels(await this.getImageLabels());
+	}
+
+	/**
+	 * Get the tool versions from cyrus-docker.version.* labels
+	 */
+	private getVersionLabels(
+		labels: Record<string, string>,
+	): Record<string, string> {
+		const versions: Record<string, string> = {};
+		for (const [label, value] of Object.entries(labels)) {
+			if (label.startsWith(VERSION_LABEL_PREFIX)) {
+				versions[label.slice(VERSION_LABEL_PREFIX.length)] = value;
+			}
+		}
+		return versions;
+	}
+
+	/**
+	 * Tag the image just built as build-<timestamp>-<hash> so it can be
+	 * rolled back to. Failures only warn since the build itself succeeded
+	 */
+	async tagBuild(toolsHash?: string): Promise<string | null> {
+		const id = await this.getImageId(`${IMAGE_NAME}:latest`);
+		if (!id) {
+			this.logger.warn("Could not find the built image to tag");
 			return null;
 		}
+
+		// 2026-10-18T11:55:00.123Z -> 20261018-115500
+		const timestamp = new Date()
+			.toISOString()
+			.replace(/[-:]/g, "")
+			.replace("T", "-")
+			.slice(0, 15);
+		const hash = toolsHash ?? id.replace(/^sha256:/, "").slice(0, 12);
+		const tag = `${BUILD_TAG_PREFIX}${timestamp}-${hash}`;
+		try {
+			await execa(
+				"docker",
+				["tag", `${IMAGE_NAME}:latest`, `${IMAGE_NAME}:${tag}`],
+				{ stdio: "pipe" },
+			);
+		} catch (error) {
+			this.logger.warn(`Could not tag build as ${tag}: ${error}`);
+			return null;
+		}
+		this.logger.info(`Tagged build ${IMAGE_NAME}:${tag}`);
+		return tag;
+	}
+
+	/**
+	 * List tagged builds, newest first
+	 */
+	async listImageBuilds(): Promise<ImageBuild[]> {
+		let tags: string[];
+		try {
+			const result = await execa(
+				"docker",
+				["image", "ls", IMAGE_NAME, "--format", "{{.Tag}}"],
+				{ stdio: "pipe" },
+			);
+			tags = result.stdout
+				.split("\n")
+				.map((tag) => tag.trim())
+				.filter((tag) => tag.startsWith(BUILD_TAG_PREFIX));
+		} catch {
+			return [];
+		}
+		if (tags.length === 0) {
+			return [];
+		}
+
+		const result = await execa(
+			"docker",
+			["image", "inspect", ...tags.map((tag) => `${IMAGE_NAME}:${tag}`)],
+			{ stdio: "pipe" },
+		);
+		const images = JSON.parse(result.stdout) as DockerImageInspectResult[];
+		const latestId = await this.getImageId(`${IMAGE_NAME}:latest`);
+
+		const builds: ImageBuild[] = [];
+		for (const tag of tags) {
+			const image = images.find((candidate) =>
+				candidate.RepoTags?.includes(`${IMAGE_NAME}:${tag}`),
+			);
+			if (!image) {
+				continue;
+			}
+			const labels = image.Config?.Labels ?? {};
+			builds.push({
+				tag,
+				id: image.Id.replace(/^sha256:/, "").slice(0, 12),
+				created: image.Created,
+				toolsHash: labels[TOOLS_HASH_LABEL],
+				versions: this.getVersionLabels(labels),
+				current: image.Id === latestId,
+			});
+		}
+		// Tags start with the build timestamp
+		return builds.sort((a, b) => b.tag.localeCompare(a.tag));
+	}
+
+	/**
+	 * Point the latest tag at an earlier build
+	 */
+	async rollbackImage(tag: string): Promise<void> {
+		const image = `${IMAGE_NAME}:${tag}`;
+		if (!(await this.getImageId(image))) {
+			throw new Error(
+				`Image ${image} not found (see 'cyrus-docker images list')`,
+			);
+		}
+		await execa("docker", ["tag", image, `${IMAGE_NAME}:latest`], {
+			stdio: "pipe",
+		});
+		this.logger.success(`${IMAGE_NAME}:latest now points at ${tag}`);
 	}
 
 	/**
-	 * Check if the image needs to be rebuilt based on tools configuration
-	 * Returns: { needsRebuild: boolean, reason: string }
+	 * Remove all but the newest tagged builds, never the current one
+	 * Returns the tags removed
 	 */
-	async checkImageStatus(currentToolsHash: string | null): Promise<{
-		needsRebuild: boolean;
-		reason: string;
-	}> {
+	async pruneImageBuilds(keep: number): Promise<string[]> {
+		const stale = (await this.listImageBuilds())
+			.slice(keep)
+			.filter((build) => !build.current);
+
+		const removed: string[] = [];
+		for (const build of stale) {
+			try {
+				await execa("docker", ["image", "rm", `${IMAGE_NAME}:${build.tag}`], {
+					stdio: "pipe",
+				});
+				removed.push(build.tag);
+			} catch (error) {
+				// e.g. a stopped container still uses the image
+				this.logger.warn(`Could not remove ${build.tag}: ${error}`);
+			}
+		}
+		return removed;
+	}
+
+	/**
+	 * Push the current image to a registry, tagged with its registry tag
+	 * and latest. Returns the references pushed
+	 */
+	async pushImage(
+		repository: string,
+		fingerprint: ToolsFingerprint,
+	): Promise<string[]> {
+		const refs = [
+			`${repository}:${getRegistryTag(fingerprint)}`,
+			`${repository}:latest`,
+		];
+		for (const ref of refs) {
+			await execa("docker", ["tag", `${IMAGE_NAME}:latest`, ref], {
+				stdio: "pipe",
+			});
+			this.logger.info(`Pushing ${ref}...`);
+			await execa("docker", ["push", ref], { stdio: "inherit" });
+		}
+		this.logger.success(`Pushed ${refs.join(", ")}`);
+		return refs;
+	}
+
+	/**
+	 * Pull the prebuilt tools image matching a fingerprint and use it
+	 * Returns false (so the caller builds locally) if there is none or it
+	 * was built from a different configuration
+	 */
+	async pullToolsImage(
+		repository: string,
+		fingerprint: ToolsFingerprint,
+	): Promise<boolean> {
+		const ref = `${repository}:${getRegistryTag(fingerprint)}`;
+		this.logger.info(`Pulling prebuilt image ${ref}...`);
+		try {
+			await execa("docker", ["pull", ref], { stdio: "inherit" });
+		} catch {
+			this.logger.info(`No prebuilt image ${ref} - building locally`);
+			return false;
+		}
+
+		const labels = await this.getImageLabels(ref);
+		const mismatched = (
+			Object.keys(fingerprint.components) as ToolsFingerprintComponent[]
+		).filter(
+			(key) =>
+				key !== "baseImage" &&
+				labels[`${FINGERPRINT_LABEL_PREFIX}${key}`] !==
+					fingerprint.components[key],
+		);
+		if (mismatched.length > 0) {
+			this.logger.warn(
+				`${ref} does not match tools.yml (${mismatched.join(", ")} differ) - building locally`,
+			);
+			return false;
+		}
+
+		const previousId = await this.getImageId(`${IMAGE_NAME}:latest`);
+		const pulledId = await this.getImageId(ref);
+		await execa("docker", ["tag", ref, `${IMAGE_NAME}:latest`], {
+			stdio: "pipe",
+		});
+		this.logger.success(`Using prebuilt image ${ref}`);
+		// The image already in use is not a new build to record
+		if (!previousId || previousId !== pulledId) {
+			await this.tagBuild(labels[TOOLS_HASH_LABEL]);
+		}
+		return true;
+	}
+
+	/**
+	 * Check if the current image carries the registry tag of a fingerprint,
+	 * i.e. it was pulled from (or pushed to) a registry
+	 */
+	private async hasRegistryTag(
+		fingerprint: ToolsFingerprint,
+	): Promise<boolean> {
+		try {
+			const { stdout } = await execa(
+				"docker",
+				[
+					"image",
+					"inspect",
+					`${IMAGE_NAME}:latest`,
+					"--format",
+					"{{json .RepoTags}}",
+				],
+				{ stdio: "pipe" },
+			);
+			const suffix = `:${getRegistryTag(fingerprint)}`;
+			const tags = (JSON.parse(stdout) as string[] | null) ?? [];
+			return tags.some((tag) => tag.endsWith(suffix));
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Hash the files the base image is built from
+	 */
+	getBaseDockerfileHash(): string {
+		return shortHash(
+			...BASE_IMAGE_FILES.map((file) => {
+				const path = this.getPath(file);
+				return existsSync(path) ? readFileSync(path) : "";
+			}),
+		);
+	}
+
+	/**
+	 * Check if the image needs to be rebuilt based on the tools fingerprint
+	 * Reports which fingerprint components changed since the image was built
+	 */
+	async checkImageStatus(
+		fingerprint: ToolsFingerprint | null,
+	): Promise<ImageCheckResult> {
 		// Check if image exists
 		const exists = await this.imageExists();
 		if (!exists) {
 			return { needsRebuild: true, reason: "Image does not exist" };
 		}
 
-		// Get current image's tools hash
-		const imageHash = await this.getImageToolsHash();
+		const labels = await this.getImageLabels();
+		const imageHash = labels[TOOLS_HASH_LABEL];
 
 		// If no tools config, we're using the base image
-		if (!currentToolsHash) {
+		if (!fingerprint) {
 			// Image exists and no tools config - might have been built with tools before
 			if (imageHash) {
 				return { needsRebuild: true, reason: "Tools configuration removed" };
@@ -232,28 +698,139 @@ export class DockerService {
 			return { needsRebuild: true, reason: "Image missing tools hash label" };
 		}
 
-		if (imageHash !== currentToolsHash) {
-			return { needsRebuild: true, reason: "Tools configuration changed" };
+		if (imageHash === fingerprint.hash) {
+			return { needsRebuild: false, reason: "Image up to date" };
+		}
+
+		const changed = (
+			Object.keys(fingerprint.components) as ToolsFingerprintComponent[]
+		).filter(
+			(key) =>
+				labels[`${FINGERPRINT_LABEL_PREFIX}${key}`] !==
+				fingerprint.components[key],
+		);
+		// A pulled image was built on another machine's base image, so only
+		// the portable components (everything but baseImage) are compared
+		if (
+			changed.length === 1 &&
+			changed[0] === "baseImage" &&
+			(fingerprint.components.baseImage === "" ||
+				(await this.hasRegistryTag(fingerprint)))
+		) {
+			return { needsRebuild: false, reason: "Image up to date (prebuilt)" };
 		}
 
-		return { needsRebuild: false, reason: "Image up to date" };
+		const reasons = changed.map((key) =>
+			describeFingerprintChange(
+				key,
+				labels[`${FINGERPRINT_LABEL_PREFIX}${key}`],
+				fingerprint.components[key],
+			),
+		);
+
+		return {
+			needsRebuild: true,
+			reason:
+				reasons.length > 0
+					? reasons.join(", ")
+					: "Tools configuration changed",
+			changed,
+		};
 	}
 
 	/**
 	 * Start containers with docker-compose
+	 * Secrets from a backend are mounted into the container as a file the
+	 * entrypoint reads, so they stay out of the container's config
 	 */
 	async up(): Promise<void> {
+		const secrets = await this.options.getSecrets?.();
+		const secretsFile =
+			secrets && Object.keys(secrets).length > 0
+				? this.writeSecretsFile(secrets)
+				: undefined;
+		if (!secretsFile) {
+			this.removeSecretsFile();
+		}
+
 		this.logger.info("Starting Docker containers...");
-		await execa("docker", ["compose", "up", "-d"], this.getExecaOptions());
+		try {
+			const options = this.getExecaOptions();
+			// Compose can't see changed secrets, so always start afresh
+			const args = secretsFile
+				? this.composeArgs("up", "-d", "--force-recreate")
+				: this.composeArgs("up", "-d");
+			await execa("docker", args, {
+				...options,
+				env: secretsFile
+					? { ...options.env, CYRUS_SECRETS_FILE: secretsFile }
+					: options.env,
+			});
+		} catch (error) {
+			this.removeSecretsFile();
+			throw error;
+		}
 		this.logger.success("Docker containers started");
 	}
 
+	/**
+	 * Get the private directory holding the secrets file mounted into this
+	 * profile's container
+	 * Uses tmpfs ($XDG_RUNTIME_DIR or /dev/shm) when available so the
+	 * plaintext never reaches disk
+	 */
+	private getSecretsDir(): string {
+		const parent =
+			[process.env.XDG_RUNTIME_DIR, "/dev/shm"].find(
+				(dir): dir is string => !!dir && existsSync(dir),
+			) ?? tmpdir();
+		return join(parent, `cyrus-docker-${this.containerName}`);
+	}
+
+	/**
+	 * Write secrets to the file mounted into the container, in shell syntax
+	 * for the entrypoint to source. It stays until the container is stopped
+	 * Returns the file path
+	 */
+	private writeSecretsFile(secrets: EnvConfig): string {
+		const dir = this.getSecretsDir();
+		mkdirSync(dir, { recursive: true, mode: 0o700 });
+		// /dev/shm is shared, so refuse a directory someone else planted
+		const stats = lstatSync(dir);
+		if (
+			!stats.isDirectory() ||
+			(process.getuid && stats.uid !== process.getuid())
+		) {
+			throw new Error(`${dir} is not a private directory; remove it and retry`);
+		}
+		chmodSync(dir, 0o700);
+
+		const lines = Object.entries(secrets)
+			.filter((entry): entry is [string, string] => !!entry[1])
+			.map(([key, value]) => `${key}=${shellQuote(value)}`);
+		lines.push(`${SECRETS_INJECTED_VAR}=true`);
+
+		// Rewrite in place: a running container's mount follows the file
+		const file = join(dir, "secrets.env");
+		writeFileSync(file, `${lines.join("\n")}\n`, { mode: 0o600 });
+		chmodSync(file, 0o600);
+		return file;
+	}
+
+	/**
+	 * Remove the secrets file mounted into the container
+	 */
+	private removeSecretsFile(): void {
+		rmSync(this.getSecretsDir(), { recursive: true, force: true });
+	}
+
 	/**
 	 * Stop containers with docker-compose
 	 */
 	async down(): Promise<void> {
 		this.logger.info("Stopping Docker containers...");
-		await execa("docker", ["compose", "down"], this.getExecaOptions());
+		await execa("docker", this.composeArgs("down"), this.getExecaOptions());
+		this.removeSecretsFile();
 		this.logger.success("Docker containers stopped");
 	}
 
@@ -261,7 +838,7 @@ export class DockerService {
 	 * Stream container logs
 	 */
 	async logs(options: LogsOptions = {}): Promise<void> {
-		const args = ["compose", "logs"];
+		const args = this.composeArgs("logs");
 
 		if (options.follow) {
 			args.push("-f");
@@ -287,7 +864,7 @@ export class DockerService {
 			args.push("-it");
 		}
 
-		args.push(CONTAINER_NAME, ...command);
+		args.push(this.containerName, ...command);
 
 		await execa("docker", args, {
 			cwd: this.dockerDir,
@@ -295,6 +872,20 @@ export class DockerService {
 		});
 	}
 
+	/**
+	 * Freeze the container's processes (e.g. for a consistent backup)
+	 */
+	async pause(): Promise<void> {
+		await execa("docker", ["pause", this.containerName], { stdio: "pipe" });
+	}
+
+	/**
+	 * Resume a paused container
+	 */
+	async unpause(): Promise<void> {
+		await execa("docker", ["unpause", this.containerName], { stdio: "pipe" });
+	}
+
 	/**
 	 * Open an interactive shell in the container
 	 */
@@ -307,7 +898,7 @@ export class DockerService {
 	 */
 	async getStatus(): Promise<ContainerStatus> {
 		try {
-			const result = await execa("docker", ["inspect", CONTAINER_NAME], {
+			const result = await execa("docker", ["inspect", this.containerName], {
 				stdio: "pipe",
 			});
 
@@ -393,72 +984,136 @@ export class DockerService {
 	 * Check if .env.docker file exists
 	 */
 	hasEnvFile(): boolean {
-		return existsSync(this.getPath(".env.docker"));
+		return existsSync(this.envFile);
 	}
 
 	/**
 	 * Read the current .env.docker file
 	 */
 	readEnvFile(): EnvConfig {
-		const envPath = this.getPath(".env.docker");
+		const envPath = this.envFile;
 		if (!existsSync(envPath)) {
 			return {};
 		}
 
-		const content = readFileSync(envPath, "utf-8");
-		const config: EnvConfig = {};
+		try {
+			return parseDotenv(readFileSync(envPath, "utf-8")) as EnvConfig;
+		} catch (error) {
+			throw new Error(
+				`Invalid ${envPath}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
 
-		for (const line of content.split("\n")) {
-			const trimmed = line.trim();
-			if (!trimmed || trimmed.startsWith("#")) {
-				continue;
-			}
+	/**
+	 * Apply changes to the .env.docker file, keeping its comments and
+	 * other keys. A new file starts from .env.docker.example, as does an
+	 * overwritten one (fromTemplate), so none of its old values survive
+	 * A string sets a value (an empty string clears it), null removes it
+	 */
+	writeEnvFile(
+		changes: EnvChanges,
+		options: { fromTemplate?: boolean } = {},
+	): void {
+		const envPath = this.envFile;
+		const envDir = dirname(envPath);
+		if (!existsSync(envDir)) {
+			mkdirSync(envDir, { recursive: true });
+		}
 
-			const [key, ...valueParts] = trimmed.split("=");
-			if (key) {
-				config[key as keyof EnvConfig] = valueParts.join("=");
-			}
+		const examplePath = this.getPath(".env.docker.example");
+		const basePath =
+			existsSync(envPath) && !options.fromTemplate ? envPath : examplePath;
+		const base = existsSync(basePath) ? readFileSync(basePath, "utf-8") : "";
+		let content: string;
+		try {
+			content = updateDotenv(base, changes);
+		} catch (error) {
+			throw new Error(
+				`Invalid ${basePath}: ${error instanceof Error ? error.message : String(error)}`,
+			);
 		}
 
-		return config;
+		this.replaceEnvFile(content);
 	}
 
 	/**
-	 * Write the .env.docker file
+	 * Replace .env.docker with new content (e.g. from an import bundle)
 	 */
-	writeEnvFile(config: EnvConfig): void {
-		const envPath = this.getPath(".env.docker");
+	replaceEnvFile(content: string): void {
+		const envPath = this.envFile;
+		mkdirSync(dirname(envPath), { recursive: true });
 
-		// Read the example file to preserve comments and structure
-		const examplePath = this.getPath(".env.docker.example");
-		let content = existsSync(examplePath)
-			? readFileSync(examplePath, "utf-8")
-			: "";
-
-		// Replace values in content
-		for (const [key, value] of Object.entries(config)) {
-			if (value) {
-				// Replace existing line or add at the end
-				const regex = new RegExp(`^${key}=.*$`, "m");
-				if (regex.test(content)) {
-					content = content.replace(regex, `${key}=${value}`);
-				} else {
-					content += `\n${key}=${value}`;
-				}
-			}
+		// The file holds credentials, so keep it private to the user
+		writeFileSync(envPath, content, { encoding: "utf-8", mode: 0o600 });
+		chmodSync(envPath, 0o600);
+		this.logger.success(`Wrote ${envPath}`);
+	}
+
+	/**
+	 * Move an .env.docker from a legacy location to the configured path
+	 * Does nothing if the legacy file is missing or the new file already exists
+	 * Returns true if the file was migrated
+	 */
+	migrateEnvFile(legacyPath: string): boolean {
+		if (legacyPath === this.envFile || !existsSync(legacyPath)) {
+			return false;
+		}
+		if (existsSync(this.envFile)) {
+			this.logger.debug(
+				`Ignoring legacy ${legacyPath}, ${this.envFile} already exists`,
+			);
+			return false;
 		}
 
-		writeFileSync(envPath, content, "utf-8");
-		this.logger.success(`Wrote ${envPath}`);
+		mkdirSync(dirname(this.envFile), { recursive: true });
+		copyFileSync(legacyPath, this.envFile);
+		chmodSync(this.envFile, 0o600);
+
+		try {
+			unlinkSync(legacyPath);
+		} catch (error) {
+			this.logger.warn(`Could not remove legacy ${legacyPath}: ${error}`);
+		}
+
+		this.logger.info(`Moved ${legacyPath} to ${this.envFile}`);
+		return true;
 	}
 
 	/**
 	 * Update a single value in .env.docker
 	 */
 	updateEnvValue(key: keyof EnvConfig, value: string): void {
-		const config = this.readEnvFile();
-		config[key] = value;
-		this.writeEnvFile(config);
+		this.writeEnvFile({ [key]: value });
+	}
+
+	/**
+	 * Remove a value from .env.docker
+	 */
+	unsetEnvValue(key: keyof EnvConfig): void {
+		this.writeEnvFile({ [key]: null });
+	}
+
+	/**
+	 * Get the path to .env.docker
+	 */
+	getEnvFilePath(): string {
+		return this.envFile;
+	}
+
+	/**
+	 * Get the container name
+	 */
+	getContainerName(): string {
+		return this.containerName;
+	}
+
+	/**
+	 * Get the host port mapped to the container (CYRUS_HOST_PORT, default 3456)
+	 */
+	getHostPort(): number {
+		const port = Number.parseInt(this.readEnvFile().CYRUS_HOST_PORT ?? "", 10);
+		return Number.isInteger(port) && port > 0 ? port : DEFAULT_PORT;
 	}
 
 	/**
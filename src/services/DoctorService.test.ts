@@ -0,0 +1,248 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { type AddressInfo, type Server, createServer } from "node:net";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { EnvConfig } from "../config/types.js";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { DockerService } from "./DockerService.js";
+import { DoctorService } from "./DoctorService.js";
+import { StateService } from "./StateService.js";
+import type { TunnelService } from "./TunnelService.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+/**
+ * Build a doctor over a real env file and state in dir
+ */
+function createDoctor(dir: string, hostPort = 3456) {
+	const logger = createMockLogger();
+	const docker = new DockerService(dir, logger, {
+		envFile: join(dir, ".env.docker"),
+	});
+	const tunnel = {
+		getDisplayName: vi.fn(() => "ngrok"),
+		getInstallUrl: vi.fn(() => "https://ngrok.com/download"),
+		isProcessRunning: vi.fn(() => true),
+		getUrl: vi.fn(async () => null),
+	};
+	const state = new StateService(logger, {
+		configDir: dir,
+		stateFile: join(dir, "state.json"),
+	});
+	const doctor = new DoctorService(
+		logger,
+		docker,
+		tunnel as unknown as TunnelService,
+		state,
+		{ hostPort, sshDir: join(dir, "ssh") },
+	);
+	return { doctor, docker, tunnel, state };
+}
+
+const COMPLETE_ENV: EnvConfig = {
+	ANTHROPIC_API_KEY: "sk-ant-123",
+	LINEAR_CLIENT_ID: "client",
+	LINEAR_CLIENT_SECRET: "secret",
+	LINEAR_WEBHOOK_SECRET: "webhook",
+	GIT_USER_NAME: "Cyrus",
+	GIT_USER_EMAIL: "cyrus@example.com",
+};
+
+describe("DoctorService", () => {
+	let server: Server | undefined;
+
+	afterEach(async () => {
+		if (server) {
+			await new Promise((resolve) => server?.close(resolve));
+			server = undefined;
+		}
+	});
+
+	describe("checkPrerequisites", () => {
+		it("fails missing prerequisites with install hints", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor } = createDoctor(dir);
+
+				const checks = doctor.checkPrerequisites({
+					docker: true,
+					dockerCompose: true,
+					tunnel: false,
+				});
+
+				expect(checks.map((c) => c.level)).toEqual([
+					"pass",
+					"pass",
+					"fail",
+				]);
+				expect(checks[2]?.fix).toContain("https://ngrok.com/download");
+			});
+		});
+
+		it("fails a Docker Compose older than the minimum", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor } = createDoctor(dir);
+
+				const [, compose] = doctor.checkPrerequisites({
+					docker: true,
+					dockerCompose: true,
+					composeVersion: "1.29.2",
+					tunnel: true,
+				});
+
+				expect(compose).toMatchObject({
+					level: "fail",
+					message: "docker compose 1.29.2 is too old",
+				});
+			});
+		});
+	});
+
+	describe("checkEnv", () => {
+		it("fails without an env file", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor } = createDoctor(dir);
+
+				const [check] = doctor.checkEnv({});
+
+				expect(check?.level).toBe("fail");
+				expect(check?.fix).toBe("Run 'cyrus-docker init'");
+			});
+		});
+
+		it("lists missing required keys", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor, docker } = createDoctor(dir);
+				const env = {
+					LINEAR_CLIENT_ID: "client",
+					TUNNEL_PROVIDER: "static",
+				};
+				docker.writeEnvFile(env);
+
+				const [check] = doctor.checkEnv(env);
+
+				expect(check?.level).toBe("fail");
+				expect(check?.message).toContain(
+					"ANTHROPIC_API_KEY or CLAUDE_CODE_OAUTH_TOKEN",
+				);
+				expect(check?.message).toContain("LINEAR_CLIENT_SECRET");
+				expect(check?.message).toContain("CYRUS_BASE_URL");
+			});
+		});
+
+		it("passes a complete configuration", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor, docker } = createDoctor(dir);
+				docker.writeEnvFile(COMPLETE_ENV);
+
+				const checks = doctor.checkEnv(COMPLETE_ENV);
+
+				expect(checks).toHaveLength(1);
+				expect(checks[0]?.level).toBe("pass");
+			});
+		});
+	});
+
+	describe("checkTunnelPid", () => {
+		it("fails when the recorded tunnel process is gone", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor, tunnel, state } = createDoctor(dir);
+				tunnel.isProcessRunning.mockReturnValue(false);
+				state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+				const check = doctor.checkTunnelPid();
+
+				expect(check.level).toBe("fail");
+				expect(check.message).toContain("1111");
+			});
+		});
+	});
+
+	describe("checkState", () => {
+		it("fails when state says running but the container is not", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor, state } = createDoctor(dir);
+				state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+				expect(doctor.checkState(false).level).toBe("fail");
+				expect(doctor.checkState(true).level).toBe("pass");
+			});
+		});
+	});
+
+	describe("checkPort", () => {
+		it("fails when another process holds the port", async () => {
+			await withTempDir(async (dir) => {
+				server = createServer();
+				await new Promise<void>((resolve) => server?.listen(0, resolve));
+				const { port } = server.address() as AddressInfo;
+				const { doctor } = createDoctor(dir, port);
+
+				const check = await doctor.checkPort(false);
+
+				expect(check.level).toBe("fail");
+				expect(check.fix).toContain("CYRUS_HOST_PORT");
+			});
+		});
+	});
+
+	describe("checkSsh", () => {
+		it("warns when there are no private keys", async () => {
+			await withTempDir(async (dir) => {
+				mkdirSync(join(dir, "ssh"));
+				writeFileSync(join(dir, "ssh", "id_ed25519.pub"), "ssh-ed25519 AAA");
+				const { doctor } = createDoctor(dir);
+
+				expect(doctor.checkSsh().level).toBe("warn");
+			});
+		});
+
+		it("passes with a key and github.com in known_hosts", async () => {
+			await withTempDir(async (dir) => {
+				mkdirSync(join(dir, "ssh"));
+				writeFileSync(join(dir, "ssh", "id_ed25519"), "key");
+				writeFileSync(
+					join(dir, "ssh", "known_hosts"),
+					"github.com ssh-ed25519",
+				);
+				const { doctor } = createDoctor(dir);
+
+				const check = doctor.checkSsh();
+
+				expect(check.level).toBe("pass");
+				expect(check.message).toBe("id_ed25519");
+			});
+		});
+	});
+
+	describe("checkBaseUrl", () => {
+		it("fails when CYRUS_BASE_URL differs from the tunnel URL", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor } = createDoctor(dir);
+
+				const check = doctor.checkBaseUrl(
+					{ CYRUS_BASE_URL: "https://old.ngrok.io" },
+					"https://new.ngrok.io",
+				);
+
+				expect(check.level).toBe("fail");
+				expect(check.message).toContain("https://new.ngrok.io");
+			});
+		});
+
+		it("passes when CYRUS_BASE_URL matches the tunnel URL", async () => {
+			await withTempDir(async (dir) => {
+				const { doctor } = createDoctor(dir);
+
+				const check = doctor.checkBaseUrl(
+					{ CYRUS_BASE_URL: "https://a.ngrok.io" },
+					"https://a.ngrok.io",
+				);
+
+				expect(check.level).toBe("pass");
+			});
+		});
+	});
+});
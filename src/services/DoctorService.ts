@@ -0,0 +1,462 @@
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { createServer } from "node:net";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { Prerequisites } from "../Application.js";
+import { DEFAULT_PORT, MIN_COMPOSE_VERSION } from "../config/constants.js";
+import type {
+	DoctorCheck,
+	EnvConfig,
+	ToolsFingerprint,
+} from "../config/types.js";
+import { compareVersions } from "../utils/version.js";
+import type { DockerService } from "./DockerService.js";
+import type { Logger } from "./Logger.js";
+import type { StateService } from "./StateService.js";
+import type { TunnelService } from "./TunnelService.js";
+
+/**
+ * Options for DoctorService
+ */
+export interface DoctorServiceOptions {
+	/** Host port the container is published on */
+	hostPort?: number;
+	/** SSH directory mounted into the container (defaults to ~/.ssh) */
+	sshDir?: string;
+	/** Fingerprint of the current tools configuration, if any */
+	toolsFingerprint?: ToolsFingerprint | null;
+	/** Secrets backend in use, when secrets are kept outside .env.docker */
+	secrets?: DoctorSecretsInfo;
+}
+
+/**
+ * What the doctor knows about the secrets backend
+ */
+export interface DoctorSecretsInfo {
+	/** Backend display name */
+	backend: string;
+	/** Names of the stored secrets (count as set in .env.docker) */
+	keys: string[];
+	/** Why the backend could not be read */
+	error?: string;
+}
+
+/**
+ * Required .env.docker keys (besides the Claude credential)
+ */
+const REQUIRED_ENV_KEYS: Array<keyof EnvConfig> = [
+	"LINEAR_CLIENT_ID",
+	"LINEAR_CLIENT_SECRET",
+];
+
+/**
+ * Recommended .env.docker keys with the reason they are useful
+ */
+const RECOMMENDED_ENV_KEYS: Array<[keyof EnvConfig, string]> = [
+	["LINEAR_WEBHOOK_SECRET", "webhook signature verification"],
+	["GIT_USER_NAME", "commit author name"],
+	["GIT_USER_EMAIL", "commit author email"],
+];
+
+/**
+ * Runs diagnostic checks across prerequisites, .env.docker, state,
+ * container, image, SSH keys and the tunnel, suggesting a fix for
+ * every problem found
+ */
+export class DoctorService {
+	private readonly hostPort: number;
+	private readonly sshDir: string;
+
+	constructor(
+		private logger: Logger,
+		private docker: DockerService,
+		private tunnel: TunnelService,
+		private state: StateService,
+		private options: DoctorServiceOptions = {},
+	) {
+		this.hostPort = options.hostPort ?? DEFAULT_PORT;
+		this.sshDir = options.sshDir ?? join(homedir(), ".ssh");
+	}
+
+	/**
+	 * Run all checks
+	 */
+	async run(prereqs: Prerequisites): Promise<DoctorCheck[]> {
+		const env = this.docker.readEnvFile() as Record<string, string | undefined>;
+		for (const key of this.options.secrets?.keys ?? []) {
+			env[key] ||= "(stored)";
+		}
+		const containerStatus = await this.docker.getStatus();
+		const tunnelUrl = await this.tunnel.getUrl();
+
+		const checks = [
+			...this.checkPrerequisites(prereqs),
+			...this.checkEnv(env),
+			...this.checkSecrets(),
+			this.checkTunnelPid(),
+			this.checkState(containerStatus.running),
+			await this.checkPort(containerStatus.running),
+			await this.checkImage(),
+			this.checkSsh(),
+			this.checkBaseUrl(env, tunnelUrl),
+		];
+
+		this.logger.debug(`Ran ${checks.length} doctor checks`);
+		return checks;
+	}
+
+	/**
+	 * Check that Docker, Docker Compose and the tunnel binary are installed
+	 */
+	checkPrerequisites(prereqs: Prerequisites): DoctorCheck[] {
+		const tunnelName = this.tunnel.getDisplayName();
+		const installUrl = this.tunnel.getInstallUrl();
+
+		return [
+			prereqs.docker
+				? { name: "Docker", level: "pass", message: "Docker is running" }
+				: {
+						name: "Docker",
+						level: "fail",
+						message: "Docker is not installed or not running",
+						fix: "Install Docker from https://docs.docker.com/get-docker/ and start it",
+					},
+			this.checkCompose(prereqs),
+			prereqs.tunnel
+				? {
+						name: "Tunnel",
+						level: "pass",
+						message: `${tunnelName} is installed`,
+					}
+				: {
+						name: "Tunnel",
+						level: "fail",
+						message: `${tunnelName} is not installed`,
+						fix: installUrl
+							? `Install it from ${installUrl}, or set TUNNEL_PROVIDER in .env.docker`
+							: "Set TUNNEL_PROVIDER in .env.docker",
+					},
+		];
+	}
+
+	/**
+	 * Check that Docker Compose is installed and recent enough
+	 */
+	checkCompose(prereqs: Prerequisites): DoctorCheck {
+		const version = prereqs.composeVersion;
+		if (!prereqs.dockerCompose) {
+			return {
+				name: "Docker Compose",
+				level: "fail",
+				message: "docker compose is not available",
+				fix: "Install the Docker Compose plugin (docker compose version)",
+			};
+		}
+		if (version && compareVersions(version, MIN_COMPOSE_VERSION) < 0) {
+			return {
+				name: "Docker Compose",
+				level: "fail",
+				message: `docker compose ${version} is too old`,
+				fix: `Update Docker Compose to ${MIN_COMPOSE_VERSION} or newer`,
+			};
+		}
+		return {
+			name: "Docker Compose",
+			level: "pass",
+			message: version
+				? `docker compose ${version} is available`
+				: "docker compose is available",
+		};
+	}
+
+	/**
+	 * Check that .env.docker exists and has the required credentials
+	 */
+	checkEnv(env: EnvConfig): DoctorCheck[] {
+		const envFile = this.docker.getEnvFilePath();
+		if (!this.docker.hasEnvFile()) {
+			return [
+				{
+					name: "Configuration",
+					level: "fail",
+					message: `${envFile} does not exist`,
+					fix: "Run 'cyrus-docker init'",
+				},
+			];
+		}
+
+		const missing: string[] = [];
+		if (!env.ANTHROPIC_API_KEY && !env.CLAUDE_CODE_OAUTH_TOKEN) {
+			missing.push("ANTHROPIC_API_KEY or CLAUDE_CODE_OAUTH_TOKEN");
+		}
+		for (const key of REQUIRED_ENV_KEYS) {
+			if (!env[key]) {
+				missing.push(key);
+			}
+		}
+		if (env.TUNNEL_PROVIDER === "static" && !env.CYRUS_BASE_URL) {
+			missing.push("CYRUS_BASE_URL (required by the static provider)");
+		}
+
+		const checks: DoctorCheck[] = [
+			missing.length === 0
+				? {
+						name: "Configuration",
+						level: "pass",
+						message: "Required credentials are set",
+					}
+				: {
+						name: "Configuration",
+						level: "fail",
+						message: `Missing ${missing.join(", ")}`,
+						fix: `Run 'cyrus-docker init' or add them to ${envFile}`,
+					},
+		];
+
+		const recommended = RECOMMENDED_ENV_KEYS.filter(([key]) => !env[key]);
+		if (recommended.length > 0) {
+			checks.push({
+				name: "Optional settings",
+				level: "warn",
+				message: `Not set: ${recommended
+					.map(([key, reason]) => `${key} (${reason})`)
+					.join(", ")}`,
+				fix: `Add them to ${envFile}`,
+			});
+		}
+
+		return checks;
+	}
+
+	/**
+	 * Check that the secrets backend can be read
+	 */
+	checkSecrets(): DoctorCheck[] {
+		const secrets = this.options.secrets;
+		if (!secrets) {
+			return [];
+		}
+		if (secrets.error) {
+			return [
+				{
+					name: "Secrets",
+					level: "fail",
+					message: secrets.error,
+					fix: "Fix SECRETS_BACKEND in .env.docker or run 'cyrus-docker secrets init'",
+				},
+			];
+		}
+		return [
+			{
+				name: "Secrets",
+				level: "pass",
+				message: `${secrets.keys.length} secret(s) in ${secrets.backend}`,
+			},
+		];
+	}
+
+	/**
+	 * Check that the recorded tunnel process is still alive
+	 */
+	checkTunnelPid(): DoctorCheck {
+		const pid = this.state.getNgrokPid();
+		if (!pid) {
+			return {
+				name: "Tunnel process",
+				level: "pass",
+				message: "No tunnel process recorded",
+			};
+		}
+
+		if (this.tunnel.isProcessRunning(pid)) {
+			return {
+				name: "Tunnel process",
+				level: "pass",
+				message: `PID ${pid} is running`,
+			};
+		}
+
+		return {
+			name: "Tunnel process",
+			level: "fail",
+			message: `Recorded PID ${pid} is not running`,
+			fix: "Run 'cyrus-docker watch --once' to restart the tunnel, or stop and start again",
+		};
+	}
+
+	/**
+	 * Check that the state file agrees with the container
+	 */
+	checkState(containerRunning: boolean): DoctorCheck {
+		const stateRunning = this.state.isRunning();
+
+		if (stateRunning && !containerRunning) {
+			return {
+				name: "State",
+				level: "fail",
+				message: "State file says running but the container is not",
+				fix: "Run 'cyrus-docker stop' to clean up, then 'cyrus-docker start'",
+			};
+		}
+
+		if (!stateRunning && containerRunning) {
+			return {
+				name: "State",
+				level: "warn",
+				message: "Container is running but the state file says stopped",
+				fix: "Run 'cyrus-docker stop' and 'cyrus-docker start' so the tunnel is managed",
+			};
+		}
+
+		return {
+			name: "State",
+			level: "pass",
+			message: stateRunning ? "Running" : "Stopped",
+		};
+	}
+
+	/**
+	 * Check that the host port is free for the container
+	 */
+	async checkPort(containerRunning: boolean): Promise<DoctorCheck> {
+		if (containerRunning) {
+			return {
+				name: "Port",
+				level: "pass",
+				message: `Port ${this.hostPort} is served by the container`,
+			};
+		}
+
+		if (await this.isPortInUse(this.hostPort)) {
+			return {
+				name: "Port",
+				level: "fail",
+				message: `Port ${this.hostPort} is in use by another process`,
+				fix: `Stop the process using it (lsof -i :${this.hostPort}) or set CYRUS_HOST_PORT in .env.docker`,
+			};
+		}
+
+		return {
+			name: "Port",
+			level: "pass",
+			message: `Port ${this.hostPort} is free`,
+		};
+	}
+
+	/**
+	 * Check that the image exists and matches the tools configuration
+	 */
+	async checkImage(): Promise<DoctorCheck> {
+		if (!(await this.docker.imageExists())) {
+			return {
+				name: "Image",
+				level: "warn",
+				message: "Image is not built",
+				fix: "Run 'cyrus-docker build' (or it is built on the next start)",
+			};
+		}
+
+		const status = await this.docker.checkImageStatus(
+			this.options.toolsFingerprint ?? null,
+		);
+		if (status.needsRebuild) {
+			return {
+				name: "Image",
+				level: "warn",
+				message: status.reason,
+				fix: "Run 'cyrus-docker build' or 'cyrus-docker start --build'",
+			};
+		}
+
+		return { name: "Image", level: "pass", message: status.reason };
+	}
+
+	/**
+	 * Check the SSH directory mounted into the container for git
+	 */
+	checkSsh(): DoctorCheck {
+		if (!existsSync(this.sshDir)) {
+			return {
+				name: "SSH keys",
+				level: "warn",
+				message: `${this.sshDir} does not exist`,
+				fix: "Create a key with 'ssh-keygen -t ed25519' to clone private repos over SSH",
+			};
+		}
+
+		const files = readdirSync(this.sshDir);
+		const keys = files.filter(
+			(file) => file.startsWith("id_") && !file.endsWith(".pub"),
+		);
+		if (keys.length === 0) {
+			return {
+				name: "SSH keys",
+				level: "warn",
+				message: `No private keys (id_*) in ${this.sshDir}`,
+				fix: "Create a key with 'ssh-keygen -t ed25519' and add it to GitHub",
+			};
+		}
+
+		const knownHostsFile = join(this.sshDir, "known_hosts");
+		const knownHosts = existsSync(knownHostsFile)
+			? readFileSync(knownHostsFile, "utf-8")
+			: "";
+		if (!knownHosts.includes("github.com")) {
+			return {
+				name: "SSH keys",
+				level: "warn",
+				message: `${keys.join(", ")} found, but github.com is not in known_hosts`,
+				fix: "Run 'ssh-keyscan github.com >> ~/.ssh/known_hosts'",
+			};
+		}
+
+		return { name: "SSH keys", level: "pass", message: keys.join(", ") };
+	}
+
+	/**
+	 * Check that CYRUS_BASE_URL matches the live tunnel URL
+	 */
+	checkBaseUrl(env: EnvConfig, tunnelUrl: string | null): DoctorCheck {
+		if (!tunnelUrl) {
+			return {
+				name: "Base URL",
+				level: this.state.isRunning() ? "fail" : "pass",
+				message: this.state.isRunning()
+					? "Tunnel is not serving a URL"
+					: "Not running, nothing to compare",
+				fix: this.state.isRunning()
+					? "Run 'cyrus-docker watch --once' or stop and start again"
+					: undefined,
+			};
+		}
+
+		if (env.CYRUS_BASE_URL !== tunnelUrl) {
+			return {
+				name: "Base URL",
+				level: "fail",
+				message: `CYRUS_BASE_URL is ${env.CYRUS_BASE_URL ?? "not set"} but the tunnel serves ${tunnelUrl}`,
+				fix: "Run 'cyrus-docker stop' and 'cyrus-docker start' to update it",
+			};
+		}
+
+		return {
+			name: "Base URL",
+			level: "pass",
+			message: `CYRUS_BASE_URL matches ${tunnelUrl}`,
+		};
+	}
+
+	/**
+	 * Check whether something is listening on a local port
+	 */
+	private isPortInUse(port: number): Promise<boolean> {
+		return new Promise((resolve) => {
+			const server = createServer();
+			server.once("error", () => resolve(true));
+			server.once("listening", () => {
+				server.close(() => resolve(false));
+			});
+			server.listen(port);
+		});
+	}
+}
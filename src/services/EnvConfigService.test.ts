@@ -0,0 +1,102 @@
+import { execa } from "execa";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLogger } from "../test-utils.js";
+import { EnvConfigService } from "./EnvConfigService.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+describe("EnvConfigService", () => {
+	let service: EnvConfigService;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		service = new EnvConfigService(createMockLogger());
+	});
+
+	it("validates values by setting", () => {
+		expect(
+			service.validate("GIT_USER_EMAIL", "jane@example.com"),
+		).toBeUndefined();
+		expect(service.validate("GIT_USER_EMAIL", "jane")).toBe(
+			'GIT_USER_EMAIL must be an email address (got "jane")',
+		);
+		expect(
+			service.validate("LINEAR_CLIENT_ID", "0123456789abcdef0123456789abcdef"),
+		).toBeUndefined();
+		expect(service.validate("LINEAR_CLIENT_ID", "lin_oauth_123")).toContain(
+			"32-character hex client ID",
+		);
+		expect(service.validate("CYRUS_HOST_PORT", "70000")).toBe(
+			'CYRUS_HOST_PORT must be a port number (got "70000")',
+		);
+		expect(service.validate("TUNNEL_PROVIDER", "none")).toBeUndefined();
+		expect(service.validate("SECRETS_BACKEND", "keychain")).toBe(
+			'SECRETS_BACKEND must be env, vault, command (got "keychain")',
+		);
+		expect(service.validate("BACKUP_INTERVAL", "daily")).toContain(
+			"positive number of hours",
+		);
+		expect(service.validate("BACKUP_EXCLUDE", "repos, logs")).toBe(
+			'BACKUP_EXCLUDE can only list repos, worktrees (got "logs")',
+		);
+		expect(service.validate("LINEAR_SYNC_URLS", "yes")).toContain(
+			"must be true or false",
+		);
+		expect(service.validate("ANTHROPIC_API_KEY", "secret")).toBe(
+			'ANTHROPIC_API_KEY must start with "sk-ant-"',
+		);
+		// An empty value clears a setting
+		expect(service.validate("GIT_USER_EMAIL", "")).toBeUndefined();
+	});
+
+	it("masks only secrets", () => {
+		expect(service.mask("GITHUB_TOKEN", "ghp_abcdefghijklmnop1234")).toBe(
+			"********1234",
+		);
+		expect(service.mask("NGROK_AUTHTOKEN", "short")).toBe("********");
+		expect(service.mask("GIT_USER_NAME", "Jane Doe")).toBe("Jane Doe");
+		expect(service.mask("GITHUB_TOKEN", "")).toBe("");
+	});
+
+	it("sorts changed settings by what has to restart", () => {
+		const changed = service.getChangedKeys(
+			{
+				GIT_USER_NAME: "Jane",
+				NGROK_DOMAIN: "a.ngrok.app",
+				LINEAR_SYNC_URLS: "true",
+			},
+			{
+				GIT_USER_NAME: "Jane",
+				NGROK_DOMAIN: "b.ngrok.app",
+				GITHUB_TOKEN: "ghp_1",
+				MY_EXTRA: "x",
+			} as never,
+		);
+
+		expect(changed).toEqual([
+			"GITHUB_TOKEN",
+			"LINEAR_SYNC_URLS",
+			"MY_EXTRA",
+			"NGROK_DOMAIN",
+		]);
+		expect(service.getRestartKeys(changed)).toEqual({
+			container: ["GITHUB_TOKEN", "MY_EXTRA"],
+			tunnel: ["NGROK_DOMAIN"],
+		});
+	});
+
+	it("opens the editor with its arguments", async () => {
+		vi.mocked(execa).mockResolvedValueOnce({} as never);
+
+		await service.openInEditor("/tmp/.env.docker", { EDITOR: "code --wait" });
+
+		expect(execa).toHaveBeenCalledWith(
+			"code",
+			["--wait", "/tmp/.env.docker"],
+			{ stdio: "inherit" },
+		);
+	});
+});
@@ -0,0 +1,171 @@
+import { execa } from "execa";
+import {
+	BACKUP_OPTIONAL_DIRS,
+	ENV_CONFIG_FIELDS,
+	HOST_ENV_KEYS,
+	SECRET_ENV_KEYS,
+	TUNNEL_ENV_KEYS,
+} from "../config/constants.js";
+import type { EnvConfig } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+import {
+	SECRETS_BACKENDS,
+	parseSecretsBackendName,
+} from "./SecretsProvider.js";
+import { parseTunnelProviderName } from "./TunnelProvider.js";
+
+/**
+ * Settings whose change takes effect only after a restart
+ */
+export interface EnvRestartKeys {
+	/** Settings the container reads (applied by recreating it) */
+	container: string[];
+	/** Settings the tunnel reads (applied by stop and start) */
+	tunnel: string[];
+}
+
+/**
+ * Checks, masks and classifies .env.docker settings for the config command
+ */
+export class EnvConfigService {
+	constructor(private logger: Logger) {}
+
+	/**
+	 * Check if a key is an .env.docker setting cyrus-docker knows
+	 */
+	isKnownKey(key: string): key is keyof EnvConfig {
+		return Object.hasOwn(ENV_CONFIG_FIELDS, key);
+	}
+
+	/**
+	 * Check a value for a setting
+	 * Returns the problem, or undefined if the value is fine
+	 * An empty value is always accepted (it clears the setting)
+	 */
+	validate(key: string, value: string): string | undefined {
+		if (!value) {
+			return undefined;
+		}
+
+		switch (key) {
+			case "GIT_USER_EMAIL":
+				return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+					? undefined
+					: `${key} must be an email address (got "${value}")`;
+			case "LINEAR_CLIENT_ID":
+				return /^[0-9a-f]{32}$/.test(value)
+					? undefined
+					: `${key} must be the 32-character hex client ID from linear.app/settings/api/applications`;
+			case "ANTHROPIC_API_KEY":
+				return value.startsWith("sk-ant-")
+					? undefined
+					: `${key} must start with "sk-ant-"`;
+			case "CYRUS_BASE_URL":
+			case "LINEAR_API_URL":
+				return /^https?:\/\/\S+$/.test(value)
+					? undefined
+					: `${key} must be a full http(s) URL (got "${value}")`;
+			case "CYRUS_SERVER_PORT":
+			case "CYRUS_HOST_PORT": {
+				const port = Number(value);
+				return Number.isInteger(port) && port >= 1 && port <= 65535
+					? undefined
+					: `${key} must be a port number (got "${value}")`;
+			}
+			case "BACKUP_INTERVAL":
+				return Number(value) > 0
+					? undefined
+					: `${key} must be a positive number of hours (got "${value}")`;
+			case "BACKUP_KEEP": {
+				const keep = Number(value);
+				return Number.isInteger(keep) && keep >= 1
+					? undefined
+					: `${key} must be a whole number (1 or more) (got "${value}")`;
+			}
+			case "BACKUP_EXCLUDE": {
+				const unknown = value
+					.split(",")
+					.map((dir) => dir.trim())
+					.filter((dir) => dir && !BACKUP_OPTIONAL_DIRS.includes(dir));
+				return unknown.length === 0
+					? undefined
+					: `${key} can only list ${BACKUP_OPTIONAL_DIRS.join(", ")} (got "${unknown.join(", ")}")`;
+			}
+			case "TUNNEL_PROVIDER":
+				return parseTunnelProviderName(value)
+					? undefined
+					: `${key} must be ngrok, cloudflared or static (got "${value}")`;
+			case "SECRETS_BACKEND":
+				return parseSecretsBackendName(value)
+					? undefined
+					: `${key} must be ${SECRETS_BACKENDS.join(", ")} (got "${value}")`;
+			case "LINEAR_DIRECT_WEBHOOKS":
+			case "LINEAR_SYNC_URLS":
+				return value === "true" || value === "false"
+					? undefined
+					: `${key} must be true or false (got "${value}")`;
+			case "NGROK_DOMAIN":
+				return /^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$/i.test(value)
+					? undefined
+					: `${key} must be a domain name such as cyrus.ngrok.app (got "${value}")`;
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Mask the value of a secret setting, keeping its last four
+	 * characters when it is long enough to stay unguessable
+	 */
+	mask(key: string, value: string): string {
+		if (!value || !SECRET_ENV_KEYS.includes(key as keyof EnvConfig)) {
+			return value;
+		}
+		return value.length >= 16 ? `********${value.slice(-4)}` : "********";
+	}
+
+	/**
+	 * List the settings that differ between two configurations
+	 */
+	getChangedKeys(before: EnvConfig, after: EnvConfig): string[] {
+		const previous = before as Record<string, string | undefined>;
+		const current = after as Record<string, string | undefined>;
+		const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+		return [...keys].filter((key) => previous[key] !== current[key]).sort();
+	}
+
+	/**
+	 * Split changed settings by what has to restart to apply them
+	 * Settings cyrus-docker doesn't know still reach the container
+	 */
+	getRestartKeys(keys: string[]): EnvRestartKeys {
+		const isIn = (list: Array<keyof EnvConfig>, key: string) =>
+			list.includes(key as keyof EnvConfig);
+		return {
+			container: keys.filter(
+				(key) => !isIn(HOST_ENV_KEYS, key) && !isIn(TUNNEL_ENV_KEYS, key),
+			),
+			tunnel: keys.filter((key) => isIn(TUNNEL_ENV_KEYS, key)),
+		};
+	}
+
+	/**
+	 * Open a file in $VISUAL or $EDITOR (vi if neither is set)
+	 * The editor setting may include arguments, e.g. "code --wait"
+	 */
+	async openInEditor(
+		path: string,
+		env: NodeJS.ProcessEnv = process.env,
+	): Promise<void> {
+		const editor = env.VISUAL || env.EDITOR || "vi";
+		const [command = "vi", ...args] = editor.trim().split(/\s+/);
+		this.logger.debug(`Opening ${path} with ${editor}`);
+		try {
+			await execa(command, [...args, path], { stdio: "inherit" });
+		} catch (error) {
+			throw new Error(
+				`Editor "${editor}" failed: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
@@ -0,0 +1,93 @@
+import {
+	appendFileSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { EVENTS_FILE } from "../config/constants.js";
+import type { WatchdogEvent, WatchdogEventType } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+
+/**
+ * Options for EventLogService
+ */
+export interface EventLogServiceOptions {
+	/** Path to the event log (defaults to ~/.cyrus-docker/events.log) */
+	eventsFile?: string;
+}
+
+/**
+ * Append-only log of watchdog events
+ * Events are stored as JSON lines in ~/.cyrus-docker/events.log
+ */
+export class EventLogService {
+	private readonly eventsFile: string;
+
+	constructor(
+		private logger: Logger,
+		options: EventLogServiceOptions = {},
+	) {
+		this.eventsFile = options.eventsFile ?? EVENTS_FILE;
+	}
+
+	/**
+	 * Append an event to the log
+	 */
+	record(
+		type: WatchdogEventType,
+		message: string,
+		details?: WatchdogEvent["details"],
+	): WatchdogEvent {
+		const event: WatchdogEvent = {
+			timestamp: new Date().toISOString(),
+			type,
+			message,
+			...(details ? { details } : {}),
+		};
+
+		try {
+			const dir = dirname(this.eventsFile);
+			if (!existsSync(dir)) {
+				mkdirSync(dir, { recursive: true });
+			}
+			appendFileSync(this.eventsFile, `${JSON.stringify(event)}\n`, "utf-8");
+		} catch (error) {
+			this.logger.error(`Failed to write event log: ${error}`);
+		}
+
+		return event;
+	}
+
+	/**
+	 * Read the most recent events (oldest first)
+	 * Lines that are not valid JSON are skipped
+	 */
+	readRecent(limit = 20): WatchdogEvent[] {
+		if (!existsSync(this.eventsFile)) {
+			return [];
+		}
+
+		const events: WatchdogEvent[] = [];
+		const lines = readFileSync(this.eventsFile, "utf-8").split("\n");
+		for (const line of lines) {
+			if (!line.trim()) {
+				continue;
+			}
+			try {
+				events.push(JSON.parse(line) as WatchdogEvent);
+			} catch {
+				this.logger.debug(`Skipping invalid event log line: ${line}`);
+			}
+		}
+
+		return events.slice(-limit);
+	}
+
+	/**
+	 * Get the event log path
+	 */
+	getEventsFile(): string {
+		return this.eventsFile;
+	}
+}
@@ -0,0 +1,180 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { InitAnswersService, envKeyToFlag } from "./InitAnswersService.js";
+
+describe("InitAnswersService", () => {
+	const service = new InitAnswersService(createMockLogger());
+
+	it("maps env keys to flags", () => {
+		expect(envKeyToFlag("LINEAR_CLIENT_ID")).toBe("linear-client-id");
+	});
+
+	describe("readFile", () => {
+		it("reads YAML answers with presets", async () => {
+			await withTempDir(async (dir) => {
+				const file = join(dir, "answers.yml");
+				writeFileSync(
+					file,
+					"ANTHROPIC_API_KEY: sk-ant-123\nCYRUS_HOST_PORT: 3457\npresets: [python, go]\n",
+				);
+
+				expect(service.readFile(file)).toEqual({
+					env: { ANTHROPIC_API_KEY: "sk-ant-123", CYRUS_HOST_PORT: "3457" },
+					presets: ["python", "go"],
+				});
+			});
+		});
+
+		it("reads JSON answers", async () => {
+			await withTempDir(async (dir) => {
+				const file = join(dir, "answers.json");
+				writeFileSync(file, JSON.stringify({ LINEAR_CLIENT_ID: "client" }));
+
+				expect(service.readFile(file).env).toEqual({
+					LINEAR_CLIENT_ID: "client",
+				});
+			});
+		});
+
+		it("rejects unknown keys", async () => {
+			await withTempDir(async (dir) => {
+				const file = join(dir, "answers.yml");
+				writeFileSync(file, "LINEAR_CLIENT: typo\n");
+
+				expect(() => service.readFile(file)).toThrow(
+					"Unknown keys in answers file",
+				);
+			});
+		});
+	});
+
+	describe("readEnv", () => {
+		it("reads CYRUS_DOCKER_ prefixed variables", () => {
+			const answers = service.readEnv({
+				CYRUS_DOCKER_LINEAR_CLIENT_SECRET: "secret",
+				CYRUS_DOCKER_PRESETS: "rust, aws",
+				LINEAR_CLIENT_ID: "ignored",
+			});
+
+			expect(answers).toEqual({
+				env: { LINEAR_CLIENT_SECRET: "secret" },
+				presets: ["rust", "aws"],
+			});
+		});
+	});
+
+	it("lets later sources override earlier ones", () => {
+		const merged = service.merge(
+			{ env: { LINEAR_CLIENT_ID: "file", GIT_USER_NAME: "File" } },
+			{ env: { LINEAR_CLIENT_ID: "env" }, presets: ["go"] },
+			{ env: { LINEAR_CLIENT_ID: "flag" } },
+		);
+
+		expect(merged).toEqual({
+			env: { LINEAR_CLIENT_ID: "flag", GIT_USER_NAME: "File" },
+			presets: ["go"],
+		});
+	});
+
+	it("rejects unknown presets", () => {
+		expect(() => service.parsePresets("python,cobol")).toThrow(
+			"Unknown tool presets: cobol",
+		);
+	});
+
+	describe("validate", () => {
+		it("lists every missing required value", () => {
+			const problems = service.validate({});
+
+			expect(problems).toHaveLength(3);
+			expect(problems[0]).toContain(
+				"ANTHROPIC_API_KEY or CLAUDE_CODE_OAUTH_TOKEN",
+			);
+			expect(problems[1]).toContain("--linear-client-id");
+			expect(problems[2]).toContain("CYRUS_DOCKER_LINEAR_CLIENT_SECRET");
+		});
+
+		it("requires CYRUS_BASE_URL for the static provider", () => {
+			const problems = service.validate({
+				CLAUDE_CODE_OAUTH_TOKEN: "token",
+				LINEAR_CLIENT_ID: "client",
+				LINEAR_CLIENT_SECRET: "secret",
+				TUNNEL_PROVIDER: "none",
+			});
+
+			expect(problems).toEqual([
+				expect.stringContaining("CYRUS_BASE_URL is required"),
+			]);
+		});
+
+		it("rejects invalid ports", () => {
+			const problems = service.validate({
+				ANTHROPIC_API_KEY: "key",
+				LINEAR_CLIENT_ID: "client",
+				LINEAR_CLIENT_SECRET: "secret",
+				CYRUS_HOST_PORT: "abc",
+			});
+
+			expect(problems).toEqual([
+				'CYRUS_HOST_PORT must be a port number (got "abc")',
+			]);
+		});
+
+		it("rejects a host port used by another profile", () => {
+			const problems = service.validate(
+				{
+					ANTHROPIC_API_KEY: "key",
+					LINEAR_CLIENT_ID: "client",
+					LINEAR_CLIENT_SECRET: "secret",
+					CYRUS_HOST_PORT: "3457",
+				},
+				new Set([3457]),
+			);
+
+			expect(problems).toEqual([
+				"CYRUS_HOST_PORT 3457 is already used by another profile",
+			]);
+		});
+
+		it("rejects the default host port when another profile uses it", () => {
+			const problems = service.validate(
+				{
+					ANTHROPIC_API_KEY: "key",
+					LINEAR_CLIENT_ID: "client",
+					LINEAR_CLIENT_SECRET: "secret",
+				},
+				new Set([3456]),
+			);
+
+			expect(problems).toEqual([
+				expect.stringContaining(
+					"The default host port 3456 is already used by another profile",
+				),
+			]);
+		});
+	});
+
+	describe("toEnvConfig", () => {
+		it("fills in defaults and generates a webhook secret", () => {
+			const config = service.toEnvConfig({
+				ANTHROPIC_API_KEY: "key",
+				TUNNEL_PROVIDER: "None",
+				CYRUS_BASE_URL: "https://cyrus.example.com/",
+			});
+
+			expect(config.LINEAR_DIRECT_WEBHOOKS).toBe("true");
+			expect(config.CYRUS_SERVER_PORT).toBe("3456");
+			expect(config.TUNNEL_PROVIDER).toBe("static");
+			expect(config.CYRUS_BASE_URL).toBe("https://cyrus.example.com");
+			expect(config.LINEAR_WEBHOOK_SECRET).toMatch(/^[0-9a-f]{64}$/);
+		});
+
+		it("keeps a given webhook secret", () => {
+			const config = service.toEnvConfig({ LINEAR_WEBHOOK_SECRET: "mine" });
+
+			expect(config.LINEAR_WEBHOOK_SECRET).toBe("mine");
+		});
+	});
+});
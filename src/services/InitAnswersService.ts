@@ -0,0 +1,222 @@
+import { randomBytes } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { parse } from "yaml";
+import {
+	DEFAULT_PORT,
+	ENV_CONFIG_FIELDS,
+	INIT_ENV_PREFIX,
+} from "../config/constants.js";
+import type { EnvConfig, InitAnswers, ToolPreset } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+import { PresetService } from "./PresetService.js";
+import { parseTunnelProviderName } from "./TunnelProvider.js";
+
+/** All .env.docker keys accepted by init */
+const ENV_KEYS = Object.keys(ENV_CONFIG_FIELDS) as Array<keyof EnvConfig>;
+
+/**
+ * Convert an .env.docker key to its init flag (ANTHROPIC_API_KEY -> anthropic-api-key)
+ */
+export function envKeyToFlag(key: keyof EnvConfig): string {
+	return key.toLowerCase().replace(/_/g, "-");
+}
+
+/**
+ * Collects init answers from CLI flags, CYRUS_DOCKER_* environment
+ * variables and a YAML/JSON answers file, and validates them so hosts
+ * can be provisioned without prompts
+ */
+export class InitAnswersService {
+	constructor(
+		private logger: Logger,
+		private presets: PresetService = new PresetService(logger),
+	) {}
+
+	/**
+	 * Read answers from a YAML or JSON file
+	 * Keys are .env.docker names plus an optional "presets" list
+	 */
+	readFile(path: string): InitAnswers {
+		if (!existsSync(path)) {
+			throw new Error(`Answers file not found: ${path}`);
+		}
+
+		let data: unknown;
+		try {
+			data = parse(readFileSync(path, "utf-8"));
+		} catch (error) {
+			throw new Error(`Failed to parse answers file ${path}: ${error}`);
+		}
+		if (data === null || data === undefined) {
+			return { env: {} };
+		}
+		if (typeof data !== "object" || Array.isArray(data)) {
+			throw new Error(`Answers file ${path} must contain a mapping`);
+		}
+
+		const answers: InitAnswers = { env: {} };
+		const unknown: string[] = [];
+		for (const [key, value] of Object.entries(data)) {
+			if (key === "presets") {
+				answers.presets = this.parsePresets(value);
+			} else if (ENV_KEYS.includes(key as keyof EnvConfig)) {
+				if (value !== null && value !== undefined) {
+					answers.env[key as keyof EnvConfig] = String(value);
+				}
+			} else {
+				unknown.push(key);
+			}
+		}
+
+		if (unknown.length > 0) {
+			throw new Error(
+				`Unknown keys in answers file ${path}: ${unknown.join(", ")}`,
+			);
+		}
+
+		this.logger.debug(`Loaded init answers from ${path}`);
+		return answers;
+	}
+
+	/**
+	 * Read answers from CYRUS_DOCKER_<KEY> environment variables
+	 */
+	readEnv(env: NodeJS.ProcessEnv): InitAnswers {
+		const answers: InitAnswers = { env: {} };
+
+		for (const key of ENV_KEYS) {
+			const value = env[`${INIT_ENV_PREFIX}${key}`];
+			if (value) {
+				answers.env[key] = value;
+			}
+		}
+
+		const presets = env[`${INIT_ENV_PREFIX}PRESETS`];
+		if (presets) {
+			answers.presets = this.parsePresets(presets);
+		}
+
+		return answers;
+	}
+
+	/**
+	 * Merge answer sources; later sources take precedence
+	 */
+	merge(...sources: InitAnswers[]): InitAnswers {
+		const merged: InitAnswers = { env: {} };
+
+		for (const source of sources) {
+			for (const [key, value] of Object.entries(source.env)) {
+				if (value) {
+					merged.env[key as keyof EnvConfig] = value;
+				}
+			}
+			if (source.presets) {
+				merged.presets = source.presets;
+			}
+		}
+
+		return merged;
+	}
+
+	/**
+	 * Parse a preset list given as an array or a comma-separated string
+	 */
+	parsePresets(value: unknown): ToolPreset[] {
+		const names = Array.isArray(value)
+			? value.map(String)
+			: String(value ?? "").split(",");
+		const presets = names.map((name) => name.trim()).filter(Boolean);
+
+		const unknown = presets.filter((name) => !this.presets.has(name));
+		if (unknown.length > 0) {
+			throw new Error(
+				`Unknown tool presets: ${unknown.join(", ")} (available: ${Object.keys(this.presets.load()).join(", ")})`,
+			);
+		}
+
+		return presets;
+	}
+
+	/**
+	 * List problems with the answers (missing required or invalid values)
+	 * usedHostPorts are the host ports of the other profiles
+	 * Returns an empty list when the answers are complete
+	 */
+	validate(
+		env: EnvConfig,
+		usedHostPorts: ReadonlySet<number> = new Set(),
+	): string[] {
+		const problems: string[] = [];
+		const hint = (key: keyof EnvConfig) =>
+			`--${envKeyToFlag(key)} or ${INIT_ENV_PREFIX}${key}`;
+
+		if (!env.ANTHROPIC_API_KEY && !env.CLAUDE_CODE_OAUTH_TOKEN) {
+			problems.push(
+				`ANTHROPIC_API_KEY or CLAUDE_CODE_OAUTH_TOKEN (${hint("ANTHROPIC_API_KEY")})`,
+			);
+		}
+		for (const key of ["LINEAR_CLIENT_ID", "LINEAR_CLIENT_SECRET"] as const) {
+			if (!env[key]) {
+				problems.push(`${key} (${hint(key)})`);
+			}
+		}
+
+		if (env.TUNNEL_PROVIDER) {
+			const provider = parseTunnelProviderName(env.TUNNEL_PROVIDER);
+			if (!provider) {
+				problems.push(
+					`TUNNEL_PROVIDER must be ngrok, cloudflared or static (got "${env.TUNNEL_PROVIDER}")`,
+				);
+			} else if (provider === "static" && !env.CYRUS_BASE_URL) {
+				problems.push(
+					`CYRUS_BASE_URL is required for the static provider (${hint("CYRUS_BASE_URL")})`,
+				);
+			}
+		}
+
+		if (env.CYRUS_BASE_URL && !/^https?:\/\/\S+$/.test(env.CYRUS_BASE_URL)) {
+			problems.push(
+				`CYRUS_BASE_URL must be a full http(s) URL (got "${env.CYRUS_BASE_URL}")`,
+			);
+		}
+
+		for (const key of ["CYRUS_SERVER_PORT", "CYRUS_HOST_PORT"] as const) {
+			const value = env[key];
+			const port = Number(value);
+			if (value && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+				problems.push(`${key} must be a port number (got "${value}")`);
+			}
+		}
+		// Without CYRUS_HOST_PORT the container is published on the default port
+		const hostPort = Number(env.CYRUS_HOST_PORT || DEFAULT_PORT);
+		if (usedHostPorts.has(hostPort)) {
+			problems.push(
+				env.CYRUS_HOST_PORT
+					? `CYRUS_HOST_PORT ${hostPort} is already used by another profile`
+					: `The default host port ${hostPort} is already used by another profile; set CYRUS_HOST_PORT (${hint("CYRUS_HOST_PORT")})`,
+			);
+		}
+
+		return problems;
+	}
+
+	/**
+	 * Build the .env.docker values, filling in defaults and a webhook secret
+	 */
+	toEnvConfig(env: EnvConfig): EnvConfig {
+		const provider = parseTunnelProviderName(env.TUNNEL_PROVIDER);
+
+		return {
+			LINEAR_DIRECT_WEBHOOKS: "true",
+			CYRUS_SERVER_PORT: String(DEFAULT_PORT),
+			...env,
+			...(provider ? { TUNNEL_PROVIDER: provider } : {}),
+			...(env.CYRUS_BASE_URL
+				? { CYRUS_BASE_URL: env.CYRUS_BASE_URL.replace(/\/+$/, "") }
+				: {}),
+			LINEAR_WEBHOOK_SECRET:
+				env.LINEAR_WEBHOOK_SECRET || randomBytes(32).toString("hex"),
+		};
+	}
+}
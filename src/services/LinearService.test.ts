@@ -0,0 +1,220 @@
+import { type IncomingMessage, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockLogger } from "../test-utils.js";
+import { LinearService } from "./LinearService.js";
+
+/**
+ * Captured request to the mock GraphQL server
+ */
+interface CapturedRequest {
+	headers: IncomingMessage["headers"];
+	body: {
+		query: string;
+		variables: { id: string; input: Record<string, unknown> };
+	};
+}
+
+/**
+ * Start a local GraphQL server replying with a fixed status and body
+ */
+async function startMockServer(
+	status: number,
+	reply: unknown,
+	requests: CapturedRequest[],
+): Promise<{ server: Server; endpoint: string }> {
+	const server = createServer((req, res) => {
+		let data = "";
+		req.on("data", (chunk) => {
+			data += chunk;
+		});
+		req.on("end", () => {
+			requests.push({ headers: req.headers, body: JSON.parse(data) });
+			res.writeHead(status, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(reply));
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return { server, endpoint: `http://127.0.0.1:${port}/graphql` };
+}
+
+describe("LinearService", () => {
+	let server: Server | undefined;
+
+	afterEach(async () => {
+		if (server) {
+			await new Promise((resolve) => server?.close(resolve));
+			server = undefined;
+		}
+	});
+
+	describe("fromEnv", () => {
+		it("returns null unless sync is enabled", () => {
+			expect(
+				LinearService.fromEnv(createMockLogger(), {
+					LINEAR_ADMIN_API_KEY: "key",
+					LINEAR_CLIENT_ID: "client",
+				}),
+			).toBeNull();
+		});
+
+		it("returns null without an admin API key", () => {
+			expect(
+				LinearService.fromEnv(createMockLogger(), {
+					LINEAR_SYNC_URLS: "true",
+					LINEAR_CLIENT_ID: "client",
+				}),
+			).toBeNull();
+		});
+
+		it("uses the configured endpoint", () => {
+			const service = LinearService.fromEnv(createMockLogger(), {
+				LINEAR_SYNC_URLS: "true",
+				LINEAR_ADMIN_API_KEY: "key",
+				LINEAR_CLIENT_ID: "client",
+				LINEAR_API_URL: "http://localhost:4000/graphql",
+			});
+
+			expect(service?.getEndpoint()).toBe("http://localhost:4000/graphql");
+		});
+	});
+
+	describe("syncUrls", () => {
+		it("sends callback and webhook URLs to the OAuth app", async () => {
+			const requests: CapturedRequest[] = [];
+			const mock = await startMockServer(
+				200,
+				{ data: { oauthClientUpdate: { success: true } } },
+				requests,
+			);
+			server = mock.server;
+
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "lin_api_test",
+				appId: "app-123",
+				endpoint: mock.endpoint,
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+
+			expect(result.ok).toBe(true);
+			expect(result.url).toBe("https://abc.ngrok.io");
+			expect(requests).toHaveLength(1);
+			expect(requests[0]?.headers.authorization).toBe("lin_api_test");
+			expect(requests[0]?.body.variables).toEqual({
+				id: "app-123",
+				input: {
+					redirectUris: ["https://abc.ngrok.io/callback"],
+					webhookUrl: "https://abc.ngrok.io/webhook",
+				},
+			});
+		});
+
+		it("reports GraphQL errors", async () => {
+			const mock = await startMockServer(
+				200,
+				{ errors: [{ message: "Forbidden: admin required" }] },
+				[],
+			);
+			server = mock.server;
+
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "key",
+				appId: "app",
+				endpoint: mock.endpoint,
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+
+			expect(result.ok).toBe(false);
+			expect(result.error).toBe("Forbidden: admin required");
+		});
+
+		it("reports GraphQL errors next to a null mutation result", async () => {
+			const mock = await startMockServer(
+				200,
+				{
+					data: { oauthClientUpdate: null },
+					errors: [{ message: "Entity not found: OauthClient" }],
+				},
+				[],
+			);
+			server = mock.server;
+
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "key",
+				appId: "app",
+				endpoint: mock.endpoint,
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+
+			expect(result.ok).toBe(false);
+			expect(result.error).toBe("Entity not found: OauthClient");
+		});
+
+		it("reports GraphQL errors sent with an HTTP error status", async () => {
+			const mock = await startMockServer(
+				400,
+				{ errors: [{ message: "Variable \"$id\" got invalid value" }] },
+				[],
+			);
+			server = mock.server;
+
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "key",
+				appId: "app",
+				endpoint: mock.endpoint,
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+
+			expect(result.ok).toBe(false);
+			expect(result.error).toBe('Variable "$id" got invalid value');
+		});
+
+		it("reports HTTP errors", async () => {
+			const mock = await startMockServer(401, {}, []);
+			server = mock.server;
+
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "key",
+				appId: "app",
+				endpoint: mock.endpoint,
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+
+			expect(result.ok).toBe(false);
+			expect(result.error).toContain("401");
+		});
+
+		it("reports unreachable endpoints without throwing", async () => {
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "key",
+				appId: "app",
+				endpoint: "http://127.0.0.1:1/graphql",
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+
+			expect(result.ok).toBe(false);
+			expect(result.error).toContain("Failed to reach Linear API");
+		});
+
+		it("gives up on an endpoint that never answers", async () => {
+			server = createServer(() => {});
+			await new Promise<void>((resolve) =>
+				server?.listen(0, "127.0.0.1", resolve),
+			);
+			const { port } = server.address() as AddressInfo;
+			const service = new LinearService(createMockLogger(), {
+				apiKey: "key",
+				appId: "app",
+				endpoint: `http://127.0.0.1:${port}/graphql`,
+				timeout: 100,
+			});
+			const result = await service.syncUrls("https://abc.ngrok.io");
+			server.closeAllConnections();
+
+			expect(result.ok).toBe(false);
+			expect(result.error).toBe("Linear API did not respond in time");
+		});
+	});
+});
@@ -0,0 +1,160 @@
+import { LINEAR_API_TIMEOUT, LINEAR_API_URL } from "../config/constants.js";
+import type { EnvConfig, LinearSyncResult } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+
+/**
+ * Options for LinearService
+ */
+export interface LinearServiceOptions {
+	/** API key of a Linear workspace admin */
+	apiKey: string;
+	/** ID of the OAuth application to update */
+	appId: string;
+	/** GraphQL endpoint (defaults to Linear's public API) */
+	endpoint?: string;
+	/** Request timeout in ms (defaults to LINEAR_API_TIMEOUT) */
+	timeout?: number;
+}
+
+/**
+ * GraphQL response envelope
+ */
+interface GraphQLResponse<T> {
+	data?: T;
+	errors?: Array<{ message: string }>;
+}
+
+/**
+ * Data returned by the OAuth client update mutation
+ */
+interface OAuthClientUpdateData {
+	/** Null when the mutation failed and errors are reported instead */
+	oauthClientUpdate: {
+		success: boolean;
+	} | null;
+}
+
+const OAUTH_CLIENT_UPDATE_MUTATION = `
+mutation CyrusDockerUpdateOAuthClient($id: String!, $input: OAuthClientUpdateInput!) {
+	oauthClientUpdate(id: $id, input: $input) {
+		success
+	}
+}
+`;
+
+/**
+ * Keeps the Linear OAuth application's callback and webhook URLs
+ * in sync with the tunnel URL through Linear's GraphQL API
+ */
+export class LinearService {
+	private readonly endpoint: string;
+
+	constructor(
+		private logger: Logger,
+		private options: LinearServiceOptions,
+	) {
+		this.endpoint = options.endpoint ?? LINEAR_API_URL;
+	}
+
+	/**
+	 * Create a service from .env.docker values
+	 * Returns null unless LINEAR_SYNC_URLS is enabled and an admin API key is set
+	 */
+	static fromEnv(logger: Logger, env: EnvConfig): LinearService | null {
+		if (env.LINEAR_SYNC_URLS !== "true") {
+			return null;
+		}
+
+		const appId = env.LINEAR_OAUTH_APP_ID || env.LINEAR_CLIENT_ID;
+		if (!env.LINEAR_ADMIN_API_KEY || !appId) {
+			logger.warn(
+				"LINEAR_SYNC_URLS is enabled but LINEAR_ADMIN_API_KEY or LINEAR_CLIENT_ID is missing",
+			);
+			return null;
+		}
+
+		return new LinearService(logger, {
+			apiKey: env.LINEAR_ADMIN_API_KEY,
+			appId,
+			endpoint: env.LINEAR_API_URL || undefined,
+		});
+	}
+
+	/**
+	 * Point the OAuth app's callback and webhook URLs at the given base URL
+	 * Never throws; failures are reported in the result
+	 */
+	async syncUrls(baseUrl: string): Promise<LinearSyncResult> {
+		const result: LinearSyncResult = {
+			ok: false,
+			url: baseUrl,
+			syncedAt: new Date().toISOString(),
+		};
+
+		this.logger.info("Updating Linear OAuth app URLs...");
+
+		try {
+			const response = await fetch(this.endpoint, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: this.options.apiKey,
+				},
+				body: JSON.stringify({
+					query: OAUTH_CLIENT_UPDATE_MUTATION,
+					variables: {
+						id: this.options.appId,
+						input: {
+							redirectUris: [`${baseUrl}/callback`],
+							webhookUrl: `${baseUrl}/webhook`,
+						},
+					},
+				}),
+				signal: AbortSignal.timeout(
+					this.options.timeout ?? LINEAR_API_TIMEOUT,
+				),
+			});
+
+			// GraphQL errors can come with a 4xx status and explain it better
+			const body = (await response.json().catch(() => null)) as
+				| GraphQLResponse<OAuthClientUpdateData>
+				| null;
+			if (body?.errors && body.errors.length > 0) {
+				result.error = body.errors.map((e) => e.message).join("; ");
+				return result;
+			}
+
+			if (!response.ok) {
+				result.error = `Linear API returned HTTP ${response.status}`;
+				return result;
+			}
+
+			if (!body) {
+				result.error = "Linear API returned an invalid response";
+				return result;
+			}
+
+			if (!body.data?.oauthClientUpdate?.success) {
+				result.error = "Linear API reported the update as unsuccessful";
+				return result;
+			}
+
+			result.ok = true;
+			return result;
+		} catch (error) {
+			if (error instanceof Error && error.name === "TimeoutError") {
+				result.error = "Linear API did not respond in time";
+				return result;
+			}
+			result.error = `Failed to reach Linear API: ${error}`;
+			return result;
+		}
+	}
+
+	/**
+	 * Get the GraphQL endpoint in use
+	 */
+	getEndpoint(): string {
+		return this.endpoint;
+	}
+}
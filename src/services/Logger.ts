@@ -1,3 +1,5 @@
+import type { CheckLevel } from "../config/types.js";
+
 /**
  * ANSI color codes for terminal output
  */
@@ -14,28 +16,49 @@ const colors = {
 	dim: "\x1b[2m",
 } as const;
 
+/**
+ * Options for Logger
+ */
+export interface LoggerOptions {
+	/** Write everything to stderr, keeping stdout for machine output */
+	stderr?: boolean;
+}
+
 /**
  * Simple colored console logger for cyrus-docker CLI
  */
 export class Logger {
 	private prefix: string;
+	private stderr: boolean;
 
-	constructor(prefix = "cyrus-docker") {
+	constructor(prefix = "cyrus-docker", options: LoggerOptions = {}) {
 		this.prefix = prefix;
+		this.stderr = options.stderr ?? false;
+	}
+
+	/**
+	 * Print a line to stdout (or stderr when asked to)
+	 */
+	private print(message = ""): void {
+		if (this.stderr) {
+			console.error(message);
+		} else {
+			console.log(message);
+		}
 	}
 
 	/**
 	 * Info message (blue)
 	 */
 	info(message: string): void {
-		console.log(`${colors.blue}[${this.prefix}]${colors.reset} ${message}`);
+		this.print(`${colors.blue}[${this.prefix}]${colors.reset} ${message}`);
 	}
 
 	/**
 	 * Success message (green with checkmark)
 	 */
 	success(message: string): void {
-		console.log(
+		this.print(
 			`${colors.green}[${this.prefix}]${colors.reset} ${colors.green}✓${colors.reset} ${message}`,
 		);
 	}
@@ -63,7 +86,7 @@ export class Logger {
 	 */
 	debug(message: string): void {
 		if (process.env.DEBUG) {
-			console.log(
+			this.print(
 				`${colors.gray}[${this.prefix}] [debug]${colors.reset} ${message}`,
 			);
 		}
@@ -73,21 +96,21 @@ export class Logger {
 	 * Raw output without prefix
 	 */
 	raw(message: string): void {
-		console.log(message);
+		this.print(message);
 	}
 
 	/**
 	 * Print a blank line
 	 */
 	blank(): void {
-		console.log();
+		this.print();
 	}
 
 	/**
 	 * Print a divider line
 	 */
 	divider(length = 50): void {
-		console.log(`${colors.dim}${"─".repeat(length)}${colors.reset}`);
+		this.print(`${colors.dim}${"─".repeat(length)}${colors.reset}`);
 	}
 
 	/**
@@ -120,11 +143,27 @@ export class Logger {
 		this.raw(`  ${indicator} ${label}${detailText}`);
 	}
 
+	/**
+	 * Print a pass/warn/fail check indicator
+	 */
+	check(label: string, level: CheckLevel, details?: string): void {
+		const indicator =
+			level === "pass"
+				? `${colors.green}✓${colors.reset}`
+				: level === "warn"
+					? `${colors.yellow}⚠${colors.reset}`
+					: `${colors.red}✗${colors.reset}`;
+		const detailText = details
+			? ` ${colors.dim}(${details})${colors.reset}`
+			: "";
+		this.raw(`  ${indicator} ${label}${detailText}`);
+	}
+
 	/**
 	 * Print a spinner-style waiting message
 	 */
 	waiting(message: string): void {
-		process.stdout.write(
+		this.getStream().write(
 			`${colors.blue}[${this.prefix}]${colors.reset} ${colors.cyan}◌${colors.reset} ${message}...`,
 		);
 	}
@@ -133,7 +172,14 @@ export class Logger {
 	 * Clear the current line (for use after waiting)
 	 */
 	clearLine(): void {
-		process.stdout.write("\r\x1b[K");
+		this.getStream().write("\r\x1b[K");
+	}
+
+	/**
+	 * Get the stream that output goes to
+	 */
+	private getStream(): NodeJS.WriteStream {
+		return this.stderr ? process.stderr : process.stdout;
 	}
 }
 
@@ -0,0 +1,181 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { execa } from "execa";
+import {
+	NGROK_API_PORT,
+	NGROK_API_PORT_SCAN,
+	NGROK_TUNNELS_API,
+} from "../config/constants.js";
+import { expandHomePath } from "../utils/paths.js";
+import type { TunnelProvider } from "./TunnelProvider.js";
+
+/**
+ * Response from ngrok's local API
+ */
+interface NgrokTunnelsResponse {
+	tunnels: Array<{
+		name: string;
+		uri: string;
+		public_url: string;
+		proto: string;
+		config: {
+			addr: string;
+			inspect: boolean;
+		};
+	}>;
+}
+
+/**
+ * Options for the ngrok provider
+ */
+export interface NgrokTunnelOptions {
+	/** Reserved domain for a stable URL (e.g. cyrus.ngrok.app) */
+	domain?: string;
+	/** Path to an ngrok agent config file */
+	configFile?: string;
+	/** Authtoken passed to the agent via NGROK_AUTHTOKEN */
+	authtoken?: string;
+	/**
+	 * Local port the tunnel forwards to. When set, the agent APIs on
+	 * consecutive ports are scanned for the tunnel serving this port, so
+	 * several agents (one per profile) can run side by side.
+	 */
+	port?: number;
+}
+
+type NgrokTunnel = NgrokTunnelsResponse["tunnels"][number];
+
+/**
+ * Extract the port from a tunnel's forwarding address
+ * (e.g. "http://localhost:3456", "localhost:3456" or "3456")
+ */
+function getAddrPort(addr: string): number | undefined {
+	const match = /(?:^|:)(\d+)\/?$/.exec(addr);
+	return match?.[1] ? Number(match[1]) : undefined;
+}
+
+/**
+ * Strip scheme and trailing slashes from a domain given as a URL
+ */
+export function normalizeNgrokDomain(domain: string): string {
+	return domain
+		.trim()
+		.replace(/^https?:\/\//, "")
+		.replace(/\/+$/, "");
+}
+
+/**
+ * Tunnel provider backed by the ngrok agent
+ */
+export class NgrokTunnelProvider implements TunnelProvider {
+	readonly name = "ngrok" as const;
+	readonly displayName = "ngrok";
+	readonly installUrl = "https://ngrok.com/download";
+
+	constructor(private options: NgrokTunnelOptions = {}) {}
+
+	/**
+	 * Build the ngrok command line arguments
+	 */
+	getArgs(port: number): string[] {
+		const args = ["http", String(port)];
+		if (this.options.domain) {
+			args.push(`--url=${normalizeNgrokDomain(this.options.domain)}`);
+		}
+		if (this.options.configFile) {
+			args.push(`--config=${expandHomePath(this.options.configFile)}`);
+		}
+		return args;
+	}
+
+	/**
+	 * Check if ngrok is installed
+	 */
+	async isInstalled(): Promise<boolean> {
+		try {
+			await execa("which", ["ngrok"], { stdio: "pipe" });
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Start ngrok as a detached process
+	 */
+	async start(port: number): Promise<ChildProcess> {
+		// Use native spawn for detached process (execa's Promise behavior can cause issues)
+		const env = this.options.authtoken
+			? { ...process.env, NGROK_AUTHTOKEN: this.options.authtoken }
+			: process.env;
+		const subprocess = spawn("ngrok", this.getArgs(port), {
+			detached: true,
+			stdio: "ignore",
+			env,
+		});
+
+		// Unref to allow parent process to exit independently
+		subprocess.unref();
+
+		return subprocess;
+	}
+
+	/**
+	 * Get the current tunnel URL from ngrok's local API
+	 */
+	async getUrl(): Promise<string | null> {
+		const port = this.options.port;
+		if (port === undefined) {
+			const tunnels = await this.fetchTunnels(NGROK_TUNNELS_API);
+			return tunnels ? this.pickUrl(tunnels) : null;
+		}
+
+		for (let i = 0; i < NGROK_API_PORT_SCAN; i++) {
+			const api = `http://localhost:${NGROK_API_PORT + i}/api/tunnels`;
+			const tunnels = await this.fetchTunnels(api);
+			if (!tunnels) {
+				// No agent on this port, so none on the following ones either
+				break;
+			}
+
+			const url = this.pickUrl(
+				tunnels.filter((t) => getAddrPort(t.config.addr) === port),
+			);
+			if (url) {
+				return url;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Fetch the tunnel list from an agent API, or null if unreachable
+	 */
+	private async fetchTunnels(api: string): Promise<NgrokTunnel[] | null> {
+		try {
+			const response = await fetch(api);
+			if (!response.ok) {
+				return null;
+			}
+
+			const data = (await response.json()) as NgrokTunnelsResponse;
+			return data.tunnels;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Pick the public URL, preferring HTTPS tunnels
+	 */
+	private pickUrl(tunnels: NgrokTunnel[]): string | null {
+		// Find HTTPS tunnel
+		const httpsTunnel = tunnels.find((t) => t.proto === "https");
+		if (httpsTunnel) {
+			return httpsTunnel.public_url;
+		}
+
+		// Fall back to any tunnel
+		return tunnels[0]?.public_url ?? null;
+	}
+}
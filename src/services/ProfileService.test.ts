@@ -0,0 +1,69 @@
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { ProfileService } from "./ProfileService.js";
+
+/**
+ * Create a profile service rooted in dir
+ */
+function createService(dir: string): ProfileService {
+	return new ProfileService(createMockLogger(), {
+		configDir: dir,
+		profilesDir: join(dir, "profiles"),
+	});
+}
+
+describe("ProfileService", () => {
+	it("resolves the default profile to the global locations", async () => {
+		await withTempDir(async (dir) => {
+			const profile = createService(dir).resolve();
+
+			expect(profile.name).toBe("default");
+			expect(profile.isDefault).toBe(true);
+			expect(profile.stateFile).toBe(join(dir, "state.json"));
+			expect(profile.envFile).toBe(join(dir, ".env.docker"));
+			expect(profile.containerName).toBe("cyrus");
+			expect(profile.projectName).toBeUndefined();
+		});
+	});
+
+	it("namespaces a named profile", async () => {
+		await withTempDir(async (dir) => {
+			const profile = createService(dir).resolve("work");
+			const profileDir = join(dir, "profiles", "work");
+
+			expect(profile.isDefault).toBe(false);
+			expect(profile.configDir).toBe(profileDir);
+			expect(profile.stateFile).toBe(join(profileDir, "state.json"));
+			expect(profile.envFile).toBe(join(profileDir, ".env.docker"));
+			expect(profile.eventsFile).toBe(join(profileDir, "events.log"));
+			expect(profile.containerName).toBe("cyrus-work");
+			expect(profile.projectName).toBe("cyrus-work");
+			expect(profile.cyrusHome).toMatch(/\.cyrus-work$/);
+		});
+	});
+
+	it("rejects invalid profile names", async () => {
+		await withTempDir(async (dir) => {
+			const service = createService(dir);
+
+			expect(() => service.resolve("../etc")).toThrow("Invalid profile name");
+			expect(() => service.resolve("Work")).toThrow("Invalid profile name");
+		});
+	});
+
+	it("lists the default profile first, then named profiles by name", async () => {
+		await withTempDir(async (dir) => {
+			mkdirSync(join(dir, "profiles", "zeta"), { recursive: true });
+			mkdirSync(join(dir, "profiles", "acme"), { recursive: true });
+			mkdirSync(join(dir, "profiles", "Not Valid"), { recursive: true });
+
+			const names = createService(dir)
+				.list()
+				.map((profile) => profile.name);
+
+			expect(names).toEqual(["default", "acme", "zeta"]);
+		});
+	});
+});
@@ -0,0 +1,116 @@
+import { existsSync, readdirSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+	CONFIG_DIR,
+	CONTAINER_NAME,
+	DEFAULT_PROFILE,
+	PROFILES_DIR,
+} from "../config/constants.js";
+import type { DeploymentProfile } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+
+/**
+ * Options for ProfileService
+ */
+export interface ProfileServiceOptions {
+	/** Directory for config files (defaults to ~/.cyrus-docker) */
+	configDir?: string;
+	/** Directory holding named profiles (defaults to ~/.cyrus-docker/profiles) */
+	profilesDir?: string;
+}
+
+/** Allowed profile names: used in container, project and directory names */
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/**
+ * Resolves deployment profiles, which let several Cyrus instances
+ * (e.g. one per Linear workspace) run side by side on one machine.
+ *
+ * The default profile keeps the original global locations. Named profiles
+ * live in ~/.cyrus-docker/profiles/<name>/ and get their own container,
+ * compose project, state file, env file and Cyrus home directory.
+ */
+export class ProfileService {
+	private readonly configDir: string;
+	private readonly profilesDir: string;
+
+	constructor(
+		private logger: Logger,
+		options: ProfileServiceOptions = {},
+	) {
+		this.configDir = options.configDir ?? CONFIG_DIR;
+		this.profilesDir = options.profilesDir ?? PROFILES_DIR;
+	}
+
+	/**
+	 * Check if a profile name is valid
+	 */
+	isValidName(name: string): boolean {
+		return PROFILE_NAME_PATTERN.test(name);
+	}
+
+	/**
+	 * Resolve a profile by name (undefined or "default" for the default profile)
+	 */
+	resolve(name?: string): DeploymentProfile {
+		if (!name || name === DEFAULT_PROFILE) {
+			return {
+				name: DEFAULT_PROFILE,
+				isDefault: true,
+				configDir: this.configDir,
+				stateFile: join(this.configDir, "state.json"),
+				envFile: join(this.configDir, ".env.docker"),
+				eventsFile: join(this.configDir, "events.log"),
+				vaultFile: join(this.configDir, "secrets.vault"),
+				backupsDir: join(this.configDir, "backups"),
+				containerName: CONTAINER_NAME,
+				cyrusHome: process.env.CYRUS_HOME || join(homedir(), ".cyrus"),
+			};
+		}
+
+		if (!this.isValidName(name)) {
+			throw new Error(
+				`Invalid profile name "${name}". Use lowercase letters, digits, '-' and '_' (max 32 characters).`,
+			);
+		}
+
+		const profileDir = join(this.profilesDir, name);
+		return {
+			name,
+			isDefault: false,
+			configDir: profileDir,
+			stateFile: join(profileDir, "state.json"),
+			envFile: join(profileDir, ".env.docker"),
+			eventsFile: join(profileDir, "events.log"),
+			vaultFile: join(profileDir, "secrets.vault"),
+			backupsDir: join(profileDir, "backups"),
+			containerName: `${CONTAINER_NAME}-${name}`,
+			projectName: `cyrus-${name}`,
+			cyrusHome: join(homedir(), `.cyrus-${name}`),
+		};
+	}
+
+	/**
+	 * List all known profiles (the default profile first)
+	 */
+	list(): DeploymentProfile[] {
+		const profiles = [this.resolve()];
+
+		if (!existsSync(this.profilesDir)) {
+			return profiles;
+		}
+
+		const names = readdirSync(this.profilesDir, { withFileTypes: true })
+			.filter((entry) => entry.isDirectory() && this.isValidName(entry.name))
+			.map((entry) => entry.name)
+			.sort();
+
+		for (const name of names) {
+			profiles.push(this.resolve(name));
+		}
+
+		this.logger.debug(`Found ${profiles.length} profile(s)`);
+		return profiles;
+	}
+}
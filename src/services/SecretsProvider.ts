@@ -0,0 +1,93 @@
+import { DEFAULT_SECRETS_BACKEND } from "../config/constants.js";
+import type { EnvConfig, SecretsBackendName } from "../config/types.js";
+import { expandHomePath } from "../utils/paths.js";
+import { CommandSecretsProvider } from "./CommandSecretsProvider.js";
+import type { Logger } from "./Logger.js";
+import { VaultSecretsProvider } from "./VaultSecretsProvider.js";
+
+/**
+ * A place secrets are kept instead of plaintext .env.docker
+ */
+export interface SecretsProvider {
+	/** Backend identifier used in SECRETS_BACKEND */
+	readonly name: SecretsBackendName;
+	/** Human-readable name for log output */
+	readonly displayName: string;
+
+	/**
+	 * List the names of the stored secrets
+	 */
+	list(): Promise<string[]>;
+
+	/**
+	 * Read the stored secrets
+	 */
+	read(): Promise<EnvConfig>;
+}
+
+/** All supported secrets backend names */
+export const SECRETS_BACKENDS: readonly SecretsBackendName[] = [
+	"env",
+	"vault",
+	"command",
+];
+
+/**
+ * Options for creating a secrets provider
+ */
+export interface SecretsProviderOptions {
+	/** Path to the profile's vault file */
+	vaultFile: string;
+	/** Ask for the vault passphrase (when no key file is configured) */
+	getPassphrase: () => Promise<string>;
+}
+
+/**
+ * Normalize a backend name from .env.docker
+ */
+export function parseSecretsBackendName(
+	value: string | undefined,
+): SecretsBackendName | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const normalized = value.trim().toLowerCase();
+	return SECRETS_BACKENDS.find((name) => name === normalized);
+}
+
+/**
+ * Create the secrets provider selected in .env.docker
+ * Returns null for the env backend, which keeps secrets in .env.docker
+ */
+export function createSecretsProvider(
+	env: EnvConfig,
+	logger: Logger,
+	options: SecretsProviderOptions,
+): SecretsProvider | null {
+	const name = parseSecretsBackendName(env.SECRETS_BACKEND);
+	if (env.SECRETS_BACKEND && !name) {
+		throw new Error(
+			`Unknown SECRETS_BACKEND "${env.SECRETS_BACKEND}" in .env.docker (use ${SECRETS_BACKENDS.join(", ")})`,
+		);
+	}
+
+	switch (name ?? DEFAULT_SECRETS_BACKEND) {
+		case "env":
+			return null;
+		case "vault":
+			return new VaultSecretsProvider(logger, {
+				path: options.vaultFile,
+				keyFile: env.SECRETS_KEY_FILE
+					? expandHomePath(env.SECRETS_KEY_FILE)
+					: undefined,
+				getPassphrase: options.getPassphrase,
+			});
+		case "command":
+			if (!env.SECRETS_COMMAND) {
+				throw new Error(
+					"SECRETS_COMMAND must be set for the command secrets backend (e.g. pass show cyrus/{key})",
+				);
+			}
+			return new CommandSecretsProvider(logger, env.SECRETS_COMMAND);
+	}
+}
@@ -150,6 +150,21 @@ describe("StateService", () => {
 				expect(service.getStartedAt()).toBeUndefined();
 			});
 		});
+
+		it("keeps the last tunnel URL for the next start", async () => {
+			await withTempDir(async (dir) => {
+				const stateFile = join(dir, "state.json");
+				const service = new StateService(createMockLogger(), {
+					configDir: dir,
+					stateFile,
+				});
+
+				service.setRunning(9999, "https://test.ngrok.io", "/docker/dir");
+				service.setStopped();
+
+				expect(service.getLastTunnelUrl()).toBe("https://test.ngrok.io");
+			});
+		});
 	});
 
 	describe("get", () => {
@@ -4,7 +4,7 @@ import {
 	STATE_FILE,
 	STATE_VERSION,
 } from "../config/constants.js";
-import type { DockerCLIState } from "../config/types.js";
+import type { DockerCLIState, TunnelProviderName } from "../config/types.js";
 import type { Logger } from "./Logger.js";
 
 /**
@@ -53,6 +53,14 @@ export class StateService {
 		return this.getDefaultState();
 	}
 
+	/**
+	 * Re-read state from disk, picking up changes made by other processes
+	 * (e.g. a stop while the watchdog runs)
+	 */
+	reload(): void {
+		this.state = this.load();
+	}
+
 	/**
 	 * Get default/empty state
 	 */
@@ -102,11 +110,18 @@ export class StateService {
 	/**
 	 * Mark Cyrus as running
 	 */
-	setRunning(ngrokPid: number, tunnelUrl: string, dockerDir: string): void {
+	setRunning(
+		ngrokPid: number | undefined,
+		tunnelUrl: string,
+		dockerDir: string,
+		tunnelProvider?: TunnelProviderName,
+	): void {
 		this.update({
 			isRunning: true,
 			ngrokPid,
 			tunnelUrl,
+			lastTunnelUrl: tunnelUrl,
+			tunnelProvider,
 			startedAt: new Date().toISOString(),
 			dockerDir,
 		});
@@ -120,6 +135,7 @@ export class StateService {
 			isRunning: false,
 			ngrokPid: undefined,
 			tunnelUrl: undefined,
+			tunnelProvider: undefined,
 			startedAt: undefined,
 			dockerDir: undefined,
 		});
@@ -133,7 +149,7 @@ export class StateService {
 	}
 
 	/**
-	 * Get the ngrok PID if running
+	 * Get the tunnel process PID if running
 	 */
 	getNgrokPid(): number | undefined {
 		return this.state.ngrokPid;
@@ -146,6 +162,20 @@ export class StateService {
 		return this.state.tunnelUrl;
 	}
 
+	/**
+	 * Get the tunnel URL of the most recent start, even if since stopped
+	 */
+	getLastTunnelUrl(): string | undefined {
+		return this.state.lastTunnelUrl;
+	}
+
+	/**
+	 * Get the tunnel provider of the running instance
+	 */
+	getTunnelProvider(): TunnelProviderName | undefined {
+		return this.state.tunnelProvider;
+	}
+
 	/**
 	 * Get the docker directory being used
 	 */
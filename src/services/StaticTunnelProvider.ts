@@ -0,0 +1,39 @@
+import type { TunnelProvider } from "./TunnelProvider.js";
+
+/**
+ * Provider for hosts that are already reachable from the internet
+ * (e.g. behind a reverse proxy). Runs no process and reports the
+ * configured CYRUS_BASE_URL as the public URL.
+ */
+export class StaticTunnelProvider implements TunnelProvider {
+	readonly name = "static" as const;
+	readonly displayName = "static URL";
+
+	constructor(private url?: string) {}
+
+	/**
+	 * Nothing to install
+	 */
+	async isInstalled(): Promise<boolean> {
+		return true;
+	}
+
+	/**
+	 * Validate the configured URL; no process is started
+	 */
+	async start(): Promise<null> {
+		if (!this.url) {
+			throw new Error(
+				"CYRUS_BASE_URL must be set in .env.docker when using the static tunnel provider",
+			);
+		}
+		return null;
+	}
+
+	/**
+	 * Return the configured public URL
+	 */
+	async getUrl(): Promise<string | null> {
+		return this.url ?? null;
+	}
+}
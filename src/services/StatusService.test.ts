@@ -0,0 +1,168 @@
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { TOOLS_HASH_LABEL } from "../config/constants.js";
+import type {
+	ContainerStatus,
+	ToolsFingerprint,
+	TunnelStatus,
+} from "../config/types.js";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import type { DockerService } from "./DockerService.js";
+import { StateService } from "./StateService.js";
+import { StatusService } from "./StatusService.js";
+import type { TunnelService } from "./TunnelService.js";
+
+/**
+ * Build a status service over mocked docker/tunnel and real state in dir
+ */
+function createStatusService(
+	dir: string,
+	container: ContainerStatus,
+	tunnel: TunnelStatus,
+	image = {
+		exists: true,
+		needsRebuild: false,
+		reason: "Image up to date",
+		toolsHash: "hash123",
+	},
+) {
+	const logger = createMockLogger();
+	const docker = {
+		getStatus: vi.fn(async () => container),
+		imageExists: vi.fn(async () => image.exists),
+		checkImageStatus: vi.fn(async () => ({
+			needsRebuild: image.needsRebuild,
+			reason: image.reason,
+		})),
+		getImageLabels: vi.fn(async () => ({
+			[TOOLS_HASH_LABEL]: image.toolsHash,
+		})),
+		getImageVersions: vi.fn(async () => ({ cyrus: "0.2.1" })),
+	};
+	const tunnelService = {
+		getStatus: vi.fn(async () => ({ ...tunnel })),
+		isProcessRunning: vi.fn(() => true),
+	};
+	const state = new StateService(logger, {
+		configDir: dir,
+		stateFile: join(dir, "state.json"),
+	});
+	const service = new StatusService(
+		logger,
+		docker as unknown as DockerService,
+		tunnelService as unknown as TunnelService,
+		state,
+		{ profile: "work", localPort: 3457 },
+	);
+	return { service, state, tunnelService };
+}
+
+const RUNNING: ContainerStatus = {
+	running: true,
+	health: "healthy",
+	containerId: "abc123",
+	uptimeSeconds: 60,
+};
+const TUNNEL: TunnelStatus = {
+	isRunning: true,
+	url: "https://a.ngrok.io",
+	provider: "ngrok",
+};
+
+const FINGERPRINT: ToolsFingerprint = {
+	hash: "hash123",
+	components: {
+		config: "c",
+		dockerfile: "d",
+		baseDockerfile: "b",
+		baseImage: "i",
+		version: "1.0.0",
+	},
+};
+
+describe("StatusService", () => {
+	it("reports a fully running deployment as healthy", async () => {
+		await withTempDir(async (dir) => {
+			const { service, state } = createStatusService(dir, RUNNING, TUNNEL);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker", "ngrok");
+
+			const status = await service.collect(FINGERPRINT);
+
+			expect(status.health).toBe("healthy");
+			expect(status.issues).toEqual([]);
+			expect(status.profile).toBe("work");
+			expect(status.localPort).toBe(3457);
+			expect(status.tunnel.pid).toBe(1111);
+			expect(status.image).toEqual({
+				exists: true,
+				toolsHash: "hash123",
+				needsRebuild: false,
+				reason: "Image up to date",
+				versions: { cyrus: "0.2.1" },
+			});
+			expect(status.state.consistent).toBe(true);
+		});
+	});
+
+	it("reports a stopped container as down", async () => {
+		await withTempDir(async (dir) => {
+			const { service, state } = createStatusService(
+				dir,
+				{ running: false, health: "none" },
+				{ isRunning: false },
+			);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const status = await service.collect(null);
+
+			expect(status.health).toBe("down");
+			expect(status.state.consistent).toBe(false);
+			expect(status.issues).toContain(
+				"State file says running but container is not",
+			);
+		});
+	});
+
+	it("reports a dead tunnel and stale image as degraded", async () => {
+		await withTempDir(async (dir) => {
+			const { service, state, tunnelService } = createStatusService(
+				dir,
+				RUNNING,
+				TUNNEL,
+				{
+					exists: true,
+					needsRebuild: true,
+					reason: "Tools configuration changed",
+					toolsHash: "old456",
+				},
+			);
+			tunnelService.isProcessRunning.mockReturnValue(false);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const status = await service.collect(FINGERPRINT);
+
+			expect(status.image.toolsHash).toBe("old456");
+			expect(status.health).toBe("degraded");
+			expect(status.issues).toEqual([
+				"Tunnel process 1111 is gone",
+				"Image needs rebuild: Tools configuration changed",
+			]);
+		});
+	});
+
+	it("reports an unhealthy container as degraded", async () => {
+		await withTempDir(async (dir) => {
+			const { service, state } = createStatusService(
+				dir,
+				{ ...RUNNING, health: "unhealthy" },
+				TUNNEL,
+			);
+			state.setRunning(undefined, "https://a.ngrok.io", "/docker");
+
+			const status = await service.collect(null);
+
+			expect(status.health).toBe("degraded");
+			expect(status.issues).toEqual(["Container health is unhealthy"]);
+		});
+	});
+});
@@ -0,0 +1,133 @@
+import {
+	DEFAULT_PORT,
+	DEFAULT_PROFILE,
+	TOOLS_HASH_LABEL,
+} from "../config/constants.js";
+import type {
+	CyrusStatus,
+	HealthLevel,
+	ToolsFingerprint,
+} from "../config/types.js";
+import type { DockerService } from "./DockerService.js";
+import type { Logger } from "./Logger.js";
+import type { StateService } from "./StateService.js";
+import type { TunnelService } from "./TunnelService.js";
+
+/**
+ * Options for StatusService
+ */
+export interface StatusServiceOptions {
+	/** Deployment profile name (defaults to the default profile) */
+	profile?: string;
+	/** Host port the container is published on */
+	localPort?: number;
+}
+
+/**
+ * Collects container, tunnel, image and state information into a single
+ * CyrusStatus and grades it as healthy, degraded or down
+ */
+export class StatusService {
+	constructor(
+		private logger: Logger,
+		private docker: DockerService,
+		private tunnel: TunnelService,
+		private state: StateService,
+		private options: StatusServiceOptions = {},
+	) {}
+
+	/**
+	 * Collect the current status
+	 * fingerprint is that of the current tools configuration, if any
+	 */
+	async collect(fingerprint: ToolsFingerprint | null): Promise<CyrusStatus> {
+		const container = await this.docker.getStatus();
+		const tunnel = await this.tunnel.getStatus();
+		const pid = this.state.getNgrokPid();
+		if (pid) {
+			tunnel.pid = pid;
+		}
+
+		const exists = await this.docker.imageExists();
+		const imageStatus = exists
+			? await this.docker.checkImageStatus(fingerprint)
+			: { needsRebuild: true, reason: "Not built" };
+		// Report the hash the image was built with, not the expected one
+		const labels = exists ? await this.docker.getImageLabels() : {};
+
+		const stateInfo = this.state.get();
+		const status: CyrusStatus = {
+			health: "healthy",
+			issues: [],
+			profile: this.options.profile ?? DEFAULT_PROFILE,
+			localPort: this.options.localPort ?? DEFAULT_PORT,
+			container,
+			tunnel,
+			image: {
+				exists,
+				toolsHash: labels[TOOLS_HASH_LABEL] ?? null,
+				...imageStatus,
+				versions: exists ? await this.docker.getImageVersions() : {},
+			},
+			state: {
+				isRunning: stateInfo.isRunning,
+				consistent: stateInfo.isRunning === container.running,
+				startedAt: stateInfo.startedAt,
+			},
+			linearSync: stateInfo.linearSync,
+		};
+
+		const { health, issues } = this.evaluate(status);
+		status.health = health;
+		status.issues = issues;
+
+		this.logger.debug(`Status: ${health} (${issues.length} issue(s))`);
+		return status;
+	}
+
+	/**
+	 * Grade a status: down when the container is not running,
+	 * degraded when anything else needs attention
+	 */
+	evaluate(status: CyrusStatus): { health: HealthLevel; issues: string[] } {
+		const issues: string[] = [];
+
+		if (!status.container.running) {
+			issues.push("Container is not running");
+			if (status.state.isRunning) {
+				issues.push("State file says running but container is not");
+			}
+			return { health: "down", issues };
+		}
+
+		if (status.container.health !== "healthy") {
+			issues.push(`Container health is ${status.container.health}`);
+		}
+		if (!status.tunnel.isRunning || !status.tunnel.url) {
+			issues.push("Tunnel is not running");
+		} else if (
+			status.tunnel.pid &&
+			!this.tunnel.isProcessRunning(status.tunnel.pid)
+		) {
+			issues.push(`Tunnel process ${status.tunnel.pid} is gone`);
+		}
+		if (status.image.needsRebuild) {
+			issues.push(`Image needs rebuild: ${status.image.reason}`);
+		}
+		if (!status.state.consistent) {
+			issues.push("Container is running but the state file says stopped");
+		}
+		if (status.linearSync) {
+			if (!status.linearSync.ok) {
+				issues.push(`Linear sync failed: ${status.linearSync.error}`);
+			} else if (
+				status.tunnel.url &&
+				status.linearSync.url !== status.tunnel.url
+			) {
+				issues.push("Linear OAuth app points at an old URL");
+			}
+		}
+
+		return { health: issues.length > 0 ? "degraded" : "healthy", issues };
+	}
+}
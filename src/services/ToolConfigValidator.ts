@@ -0,0 +1,496 @@
+import {
+	LineCounter,
+	type Node,
+	type Pair,
+	isMap,
+	isScalar,
+	isSeq,
+	parseDocument,
+} from "yaml";
+import { SECRET_STEPS } from "../config/constants.js";
+import type {
+	SecretStep,
+	ToolConfig,
+	ToolConfigIssue,
+	ToolSecret,
+} from "../config/types.js";
+import type { PresetService } from "./PresetService.js";
+
+/**
+ * Kinds of value a tools.yml key holds
+ */
+type ValueKind =
+	| "presets"
+	| "packages"
+	| "commands"
+	| "path"
+	| "versions"
+	| "version"
+	| "boolean"
+	| "secrets"
+	| "buildArgs"
+	| "repository";
+
+/**
+ * Expected shape of each tools.yml key
+ */
+const SCHEMA: Record<keyof ToolConfig, ValueKind> = {
+	presets: "presets",
+	apt: "packages",
+	npm: "packages",
+	pip: "packages",
+	cargo: "packages",
+	commands: "commands",
+	customDockerfile: "path",
+	versions: "versions",
+	cyrusVersion: "version",
+	claudeCodeVersion: "version",
+	cargoMultiStage: "boolean",
+	secrets: "secrets",
+	buildArgs: "buildArgs",
+	image: "repository",
+};
+
+/**
+ * Keys of a secrets entry
+ */
+const SECRET_KEYS: Array<keyof ToolSecret> = [
+	"id",
+	"src",
+	"env",
+	"steps",
+	"target",
+];
+
+/**
+ * Package names (optionally name@version), npm scopes and pip extras
+ * Anything else, e.g. spaces, ;, &, |, $ or quotes, would be
+ * interpreted by the shell running the generated RUN instruction
+ */
+export const PACKAGE_PATTERN = /^[A-Za-z0-9@][A-Za-z0-9@._+~:=/[\],-]*$/;
+
+/**
+ * Versions and dist-tags, which are substituted into build commands
+ */
+export const VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._+~-]*$/;
+
+/**
+ * Secret ids, which are written into --mount=type=secret options
+ */
+const SECRET_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Secret targets: absolute paths without whitespace, commas or quotes,
+ * which would break out of the --mount=type=secret options
+ */
+const SECRET_TARGET_PATTERN = /^\/[^\s,"']*$/;
+
+/**
+ * Image repositories without a tag, e.g. localhost:5000/cyrus-tools
+ */
+export const REPOSITORY_PATTERN =
+	/^[a-z0-9][a-z0-9._-]*(:[0-9]+)?(\/[a-z0-9][a-z0-9._-]*)+$/;
+
+/**
+ * Build arg and environment variable names
+ */
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Build arg names that look like credentials, which belong in secrets
+ */
+const CREDENTIAL_PATTERN = /TOKEN|PASSWORD|SECRET|_KEY$|AUTH/i;
+
+/**
+ * Validates tools.yml against its schema, reporting each problem with
+ * its line and column so it can be fixed before any Docker work starts
+ */
+export class ToolConfigValidator {
+	private lineCounter = new LineCounter();
+	private issues: ToolConfigIssue[] = [];
+
+	constructor(private presets: PresetService) {}
+
+	/**
+	 * Validate tools.yml content
+	 */
+	validate(content: string): ToolConfigIssue[] {
+		this.lineCounter = new LineCounter();
+		this.issues = [];
+
+		const doc = parseDocument(content, { lineCounter: this.lineCounter });
+		for (const error of doc.errors) {
+			const [position] = error.linePos ?? [];
+			this.issues.push({
+				level: "error",
+				// Drop the position and code excerpt yaml appends to the message
+				message: (error.message.split("\n")[0] ?? "").replace(
+					/ at line \d+, column \d+:?$/,
+					"",
+				),
+				line: position?.line,
+				column: position?.col,
+			});
+		}
+		if (this.issues.length > 0) {
+			return this.issues;
+		}
+
+		const root = doc.contents;
+		if (root === null || (isScalar(root) && root.value === null)) {
+			return this.issues;
+		}
+		if (!isMap(root)) {
+			this.report(root, "tools.yml must be a mapping of settings");
+			return this.issues;
+		}
+
+		const known = this.loadPresetNames();
+		const selected: string[] = [];
+		let pins: Pair[] = [];
+
+		for (const pair of root.items) {
+			const key = isScalar(pair.key) ? String(pair.key.value) : "";
+			const value = pair.value as Node | null;
+			const kind = SCHEMA[key as keyof ToolConfig];
+			if (!kind) {
+				this.report(
+					pair.key as Node,
+					`Unknown key "${key}" (expected ${Object.keys(SCHEMA).join(", ")})`,
+				);
+				continue;
+			}
+
+			switch (kind) {
+				case "presets":
+					for (const [node, name] of this.getStrings(key, pair)) {
+						if (known && !known.includes(name)) {
+							this.report(
+								node,
+								`Unknown preset "${name}" (available: ${known.join(", ")})`,
+							);
+						}
+						selected.push(name);
+					}
+					break;
+				case "packages":
+					for (const [node, name] of this.getStrings(key, pair)) {
+						if (!PACKAGE_PATTERN.test(name)) {
+							this.report(
+								node,
+								`Invalid ${key} package "${name}": only letters, digits and @ . _ + ~ : = / - [ ] , are allowed (use name@version to pin)`,
+							);
+						}
+					}
+					break;
+				case "commands":
+					for (const [node, command] of this.getStrings(key, pair)) {
+						if (!command.trim()) {
+							this.report(node, "Commands must not be empty");
+						}
+					}
+					break;
+				case "path":
+					if (!isScalar(value) || typeof value.value !== "string") {
+						this.report(value ?? pair.key, `"${key}" must be a file path`);
+					}
+					break;
+				case "version":
+					this.checkVersion(key, value ?? pair.key);
+					break;
+				case "secrets":
+					this.checkSecrets(key, pair);
+					break;
+				case "buildArgs":
+					this.checkBuildArgs(key, value ?? (pair.key as Node));
+					break;
+				case "repository":
+					if (
+						!isScalar(value) ||
+						!REPOSITORY_PATTERN.test(String(value.value ?? ""))
+					) {
+						this.report(
+							value ?? pair.key,
+							`"${key}" must be an image repository without a tag (e.g. ghcr.io/acme/cyrus-tools)`,
+						);
+					}
+					break;
+				case "boolean":
+					if (!isScalar(value) || typeof value.value !== "boolean") {
+						this.report(value ?? pair.key, `"${key}" must be true or false`);
+					}
+					break;
+				case "versions":
+					if (!isMap(value)) {
+						this.report(
+							value ?? pair.key,
+							`"${key}" must map tool names to versions (e.g. kubectl: 1.30.2)`,
+						);
+						break;
+					}
+					pins = value.items;
+					for (const pin of pins) {
+						const tool = isScalar(pin.key) ? String(pin.key.value) : "";
+						this.checkVersion(tool, (pin.value as Node | null) ?? pin.key);
+					}
+					break;
+			}
+		}
+
+		if (known) {
+			this.checkPins(
+				pins,
+				selected.filter((name) => known.includes(name)),
+			);
+		}
+
+		// Report in file order
+		return this.issues.sort(
+			(a, b) =>
+				(a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0),
+		);
+	}
+
+	/**
+	 * Load the available preset names, reporting invalid user presets
+	 */
+	private loadPresetNames(): string[] | null {
+		try {
+			return Object.keys(this.presets.load());
+		} catch (error) {
+			this.issues.push({
+				level: "error",
+				message: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	}
+
+	/**
+	 * Get the string items of a list value, reporting non-lists and
+	 * non-string items
+	 */
+	private getStrings(key: string, pair: Pair): Array<[Node, string]> {
+		const value = pair.value as Node | null;
+		if (!isSeq(value)) {
+			const example =
+				isScalar(value) && value.value !== null
+					? `${key}: [${String(value.value)}]`
+					: `${key}: [item]`;
+			this.report(
+				value ?? (pair.key as Node),
+				`"${key}" must be a list (e.g. ${example})`,
+			);
+			return [];
+		}
+
+		const strings: Array<[Node, string]> = [];
+		for (const item of value.items) {
+			if (
+				isScalar(item) &&
+				(typeof item.value === "string" || typeof item.value === "number")
+			) {
+				strings.push([item, item.source ?? String(item.value)]);
+			} else {
+				this.report(item as Node, `Items of "${key}" must be strings`);
+			}
+		}
+		return strings;
+	}
+
+	/**
+	 * Check that a value is a plain version or dist-tag
+	 */
+	private checkVersion(name: string, node: unknown): void {
+		const version =
+			isScalar(node) && node.value !== null
+				? (node.source ?? String(node.value))
+				: "";
+		if (!VERSION_PATTERN.test(version)) {
+			this.report(
+				node,
+				`Invalid version for ${name}: "${version}" (use e.g. 1.30.2 or latest)`,
+			);
+		}
+	}
+
+	/**
+	 * Check each secret declares a valid id and exactly one source
+	 */
+	private checkSecrets(key: string, pair: Pair): void {
+		const value = pair.value as Node | null;
+		if (!isSeq(value)) {
+			this.report(
+				value ?? pair.key,
+				`"${key}" must be a list (e.g. ${key}: [{id: npmrc, src: ~/.npmrc}])`,
+			);
+			return;
+		}
+
+		const ids = new Set<string>();
+		for (const item of value.items) {
+			if (!isMap(item)) {
+				this.report(
+					item,
+					`Items of "${key}" must be mappings (e.g. {id: npmrc, src: ~/.npmrc})`,
+				);
+				continue;
+			}
+
+			const fields = new Map<string, Pair>();
+			for (const field of item.items) {
+				const name = isScalar(field.key) ? String(field.key.value) : "";
+				if (!SECRET_KEYS.includes(name as keyof ToolSecret)) {
+					this.report(
+						field.key,
+						`Unknown secret key "${name}" (expected ${SECRET_KEYS.join(", ")})`,
+					);
+				}
+				fields.set(name, field);
+			}
+
+			const id = this.getString(fields.get("id"));
+			if (id === null || !SECRET_ID_PATTERN.test(id)) {
+				this.report(
+					fields.get("id")?.value ?? item,
+					"Secret id is required and may contain only letters, digits and . _ -",
+				);
+			} else if (ids.has(id)) {
+				this.report(fields.get("id")?.value, `Duplicate secret id "${id}"`);
+			} else {
+				ids.add(id);
+			}
+
+			const sources = (["src", "env"] as const).filter((name) =>
+				fields.has(name),
+			);
+			if (sources.length !== 1) {
+				this.report(
+					item,
+					`Secret "${id ?? ""}" needs exactly one of src (a file) or env (an environment variable)`,
+				);
+			}
+			const src = fields.get("src");
+			if (src && !this.getString(src)) {
+				this.report(src.value ?? src.key, "Secret src must be a file path");
+			}
+			const env = fields.get("env");
+			if (env && !VARIABLE_PATTERN.test(this.getString(env) ?? "")) {
+				this.report(
+					env.value ?? env.key,
+					"Secret env must be an environment variable name",
+				);
+			}
+			const target = fields.get("target");
+			if (
+				target &&
+				!SECRET_TARGET_PATTERN.test(this.getString(target) ?? "")
+			) {
+				this.report(
+					target.value ?? target.key,
+					"Secret target must be an absolute path without spaces, commas or quotes",
+				);
+			}
+			const steps = fields.get("steps");
+			if (steps) {
+				for (const [node, step] of this.getStrings("steps", steps)) {
+					if (!SECRET_STEPS.includes(step as SecretStep)) {
+						this.report(
+							node,
+							`Unknown step "${step}" (expected ${SECRET_STEPS.join(", ")})`,
+						);
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Check build args map valid names to scalar values, warning about
+	 * names that look like credentials
+	 */
+	private checkBuildArgs(key: string, node: Node): void {
+		if (!isMap(node)) {
+			this.report(
+				node,
+				`"${key}" must map names to values (e.g. NPM_REGISTRY: https://npm.example.com)`,
+			);
+			return;
+		}
+
+		for (const arg of node.items) {
+			const name = isScalar(arg.key) ? String(arg.key.value) : "";
+			if (!VARIABLE_PATTERN.test(name)) {
+				this.report(arg.key, `Invalid build arg name "${name}"`);
+				continue;
+			}
+			const value = arg.value as Node | null;
+			if (
+				!isScalar(value) ||
+				value.value === null ||
+				typeof value.value === "object"
+			) {
+				this.report(
+					value ?? arg.key,
+					`Build arg ${name} must be a single value`,
+				);
+			} else if (CREDENTIAL_PATTERN.test(name)) {
+				this.report(
+					arg.key,
+					`Build arg ${name} looks like a credential; build args are visible in the image history, so use secrets instead`,
+					"warning",
+				);
+			}
+		}
+	}
+
+	/**
+	 * Get the string value of a mapping entry, or null
+	 */
+	private getString(pair: Pair | undefined): string | null {
+		const value = pair?.value;
+		return isScalar(value) && typeof value.value === "string"
+			? value.value
+			: null;
+	}
+
+	/**
+	 * Warn about version pins no selected preset uses
+	 */
+	private checkPins(pins: Pair[], selected: string[]): void {
+		const tools = new Set(
+			this.presets
+				.expand(selected)
+				.flatMap((definition) => Object.keys(definition.versions ?? {})),
+		);
+		for (const pin of pins) {
+			const tool = isScalar(pin.key) ? String(pin.key.value) : "";
+			if (!tools.has(tool)) {
+				this.report(
+					pin.key,
+					`Version pin for "${tool}" is not used by any selected preset`,
+					"warning",
+				);
+			}
+		}
+	}
+
+	/**
+	 * Record an issue at a node's position
+	 */
+	private report(
+		node: unknown,
+		message: string,
+		level: ToolConfigIssue["level"] = "error",
+	): void {
+		const offset = (node as Node | null)?.range?.[0];
+		const position =
+			offset !== undefined ? this.lineCounter.linePos(offset) : undefined;
+		this.issues.push({
+			level,
+			message,
+			line: position?.line,
+			column: position?.col,
+		});
+	}
+}
@@ -0,0 +1,116 @@
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { execa } from "execa";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import { ToolDetectionService, isGitUrl } from "./ToolDetectionService.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+/**
+ * Create empty files (and their directories) below dir
+ */
+function touch(dir: string, ...paths: string[]): void {
+	for (const path of paths) {
+		mkdirSync(dirname(join(dir, path)), { recursive: true });
+		writeFileSync(join(dir, path), "");
+	}
+}
+
+describe("ToolDetectionService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("suggests presets and packages from project files", async () => {
+		await withTempDir(async (dir) => {
+			touch(dir, "pyproject.toml", "poetry.lock", "infra/main.tf", "infra/vars.tf");
+			const service = new ToolDetectionService(createMockLogger());
+
+			const detection = service.detect([dir]);
+
+			expect(detection.matches.map((match) => match.marker)).toEqual([
+				"pyproject.toml",
+				"poetry.lock",
+				join("infra", "main.tf"),
+			]);
+			expect(detection.suggested).toEqual({
+				presets: ["python", "terraform"],
+				pip: ["poetry"],
+			});
+		});
+	});
+
+	it("skips dependency directories and stops at the scan depth", async () => {
+		await withTempDir(async (dir) => {
+			touch(
+				dir,
+				"node_modules/pkg/Cargo.toml",
+				".git/go.mod",
+				"a/b/c/d/Gemfile",
+				"services/api/go.mod",
+			);
+			const service = new ToolDetectionService(createMockLogger());
+
+			const detection = service.detect([dir]);
+
+			expect(detection.suggested).toEqual({ presets: ["go"] });
+		});
+	});
+
+	it("detects directory markers such as .terraform", async () => {
+		await withTempDir(async (dir) => {
+			mkdirSync(join(dir, ".terraform"));
+			const service = new ToolDetectionService(createMockLogger());
+
+			expect(service.detect([dir]).suggested).toEqual({
+				presets: ["terraform"],
+			});
+		});
+	});
+
+	it("lists the repositories Cyrus cloned", async () => {
+		await withTempDir(async (dir) => {
+			mkdirSync(join(dir, "web"));
+			mkdirSync(join(dir, "api"));
+			mkdirSync(join(dir, ".cache"));
+			writeFileSync(join(dir, "notes.txt"), "");
+			const service = new ToolDetectionService(createMockLogger(), {
+				reposDir: dir,
+			});
+
+			expect(service.listRepos()).toEqual([join(dir, "api"), join(dir, "web")]);
+			expect(
+				new ToolDetectionService(createMockLogger(), {
+					reposDir: join(dir, "missing"),
+				}).listRepos(),
+			).toEqual([]);
+		});
+	});
+
+	it("removes the temporary clone when cloning fails", async () => {
+		vi.mocked(execa).mockRejectedValueOnce(
+			Object.assign(new Error("failed"), { stderr: "repository not found\n" }),
+		);
+		const service = new ToolDetectionService(createMockLogger());
+
+		await expect(
+			service.cloneRepository("https://github.com/acme/missing.git"),
+		).rejects.toThrow(
+			"Failed to clone https://github.com/acme/missing.git: repository not found",
+		);
+		const dir = vi.mocked(execa).mock.calls[0]?.[1]?.[5] as string;
+		expect(existsSync(dir)).toBe(false);
+	});
+
+	it("tells git URLs from local paths", () => {
+		expect(isGitUrl("https://github.com/acme/api.git")).toBe(true);
+		expect(isGitUrl("git@github.com:acme/api.git")).toBe(true);
+		expect(isGitUrl("ssh://git@example.com/api")).toBe(true);
+		expect(isGitUrl("./api")).toBe(false);
+		expect(isGitUrl("/home/me/src/api")).toBe(false);
+	});
+});
@@ -0,0 +1,196 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { homedir, tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { execa } from "execa";
+import {
+	DETECTION_DEPTH,
+	DETECTION_RULES,
+	DETECTION_SKIPPED_DIRS,
+	TOOL_LIST_KEYS,
+} from "../config/constants.js";
+import type {
+	DetectionMatch,
+	DetectionRule,
+	ToolChanges,
+} from "../config/types.js";
+import type { Logger } from "./Logger.js";
+
+/**
+ * Options for ToolDetectionService
+ */
+export interface ToolDetectionServiceOptions {
+	/** Directory holding the repositories Cyrus cloned (defaults to ~/.cyrus/repos) */
+	reposDir?: string;
+}
+
+/**
+ * Result of scanning repositories for tool markers
+ */
+export interface ToolDetection {
+	/** Repositories scanned */
+	repos: string[];
+	/** Markers found, at most one per rule and repository, in rule order */
+	matches: DetectionMatch[];
+	/** Presets and packages suggested by all matches */
+	suggested: ToolChanges;
+}
+
+/**
+ * Check if a detect target is a git URL rather than a local path
+ */
+export function isGitUrl(target: string): boolean {
+	return /^(https?|ssh|git):\/\//.test(target) || /^[\w.-]+@[\w.-]+:/.test(target);
+}
+
+/**
+ * Scans repository checkouts for project files (pyproject.toml,
+ * Cargo.toml, go.mod, ...) and suggests the presets and packages
+ * their development needs
+ */
+export class ToolDetectionService {
+	private readonly reposDir: string;
+
+	constructor(
+		private logger: Logger,
+		options: ToolDetectionServiceOptions = {},
+	) {
+		this.reposDir = options.reposDir ?? join(homedir(), ".cyrus", "repos");
+	}
+
+	/**
+	 * Get the directory holding the repositories Cyrus cloned
+	 */
+	getReposDir(): string {
+		return this.reposDir;
+	}
+
+	/**
+	 * List the repositories Cyrus cloned
+	 */
+	listRepos(): string[] {
+		if (!existsSync(this.reposDir)) {
+			return [];
+		}
+		return readdirSync(this.reposDir, { withFileTypes: true })
+			.filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+			.map((entry) => join(this.reposDir, entry.name))
+			.sort();
+	}
+
+	/**
+	 * Shallow-clone a repository into a temporary directory
+	 * The caller removes it with removeClone()
+	 */
+	async cloneRepository(url: string): Promise<string> {
+		const dir = mkdtempSync(join(tmpdir(), "cyrus-docker-detect-"));
+		this.logger.debug(`Cloning ${url} into ${dir}`);
+		try {
+			await execa("git", ["clone", "--depth", "1", "--quiet", url, dir], {
+				stdio: "pipe",
+			});
+		} catch (error) {
+			this.removeClone(dir);
+			const stderr = (error as { stderr?: string }).stderr?.trim();
+			throw new Error(`Failed to clone ${url}${stderr ? `: ${stderr}` : ""}`);
+		}
+		return dir;
+	}
+
+	/**
+	 * Remove a temporary clone
+	 */
+	removeClone(dir: string): void {
+		rmSync(dir, { recursive: true, force: true });
+	}
+
+	/**
+	 * Scan repositories for markers
+	 */
+	detect(repos: string[]): ToolDetection {
+		const matches: DetectionMatch[] = [];
+		for (const repo of repos) {
+			const found = new Map<DetectionRule, string>();
+			this.scan(repo, repo, 0, found);
+			for (const rule of DETECTION_RULES) {
+				const marker = found.get(rule);
+				if (marker !== undefined) {
+					matches.push({ repo, marker, suggests: this.getSuggestions(rule) });
+				}
+			}
+		}
+
+		const suggested: ToolChanges = {};
+		for (const key of TOOL_LIST_KEYS) {
+			const items = matches.flatMap((match) => match.suggests[key] ?? []);
+			if (items.length > 0) {
+				suggested[key] = [...new Set(items)].sort();
+			}
+		}
+		return { repos, matches, suggested };
+	}
+
+	/**
+	 * Record the first marker of each rule found in a directory tree,
+	 * checking a directory's own entries before descending
+	 */
+	private scan(
+		repo: string,
+		dir: string,
+		depth: number,
+		found: Map<DetectionRule, string>,
+	): void {
+		let entries;
+		try {
+			entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) =>
+				a.name.localeCompare(b.name),
+			);
+		} catch {
+			this.logger.debug(`Cannot read ${dir}, skipping`);
+			return;
+		}
+
+		for (const entry of entries) {
+			for (const rule of DETECTION_RULES) {
+				if (!found.has(rule) && this.matchesRule(rule, entry.name)) {
+					found.set(rule, relative(repo, join(dir, entry.name)));
+				}
+			}
+		}
+
+		if (depth >= DETECTION_DEPTH) {
+			return;
+		}
+		for (const entry of entries) {
+			if (
+				entry.isDirectory() &&
+				!entry.name.startsWith(".") &&
+				!DETECTION_SKIPPED_DIRS.includes(entry.name)
+			) {
+				this.scan(repo, join(dir, entry.name), depth + 1, found);
+			}
+		}
+	}
+
+	/**
+	 * Check a file or directory name against a rule's markers
+	 */
+	private matchesRule(rule: DetectionRule, name: string): boolean {
+		return rule.markers.some((marker) =>
+			marker.startsWith("*.")
+				? name.endsWith(marker.slice(1))
+				: name === marker,
+		);
+	}
+
+	/**
+	 * Get the presets and packages a rule suggests
+	 */
+	private getSuggestions(rule: DetectionRule): ToolChanges {
+		const suggests: ToolChanges = {};
+		if (rule.preset) suggests.presets = [rule.preset];
+		if (rule.apt) suggests.apt = rule.apt;
+		if (rule.npm) suggests.npm = rule.npm;
+		if (rule.pip) suggests.pip = rule.pip;
+		return suggests;
+	}
+}
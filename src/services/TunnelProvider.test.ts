@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CloudflaredTunnelProvider } from "./CloudflaredTunnelProvider.js";
+import { NgrokTunnelProvider } from "./NgrokTunnelProvider.js";
+import { StaticTunnelProvider } from "./StaticTunnelProvider.js";
+import {
+	createTunnelProvider,
+	getCloudflaredMetricsPort,
+	parseTunnelProviderName,
+	resolveTunnelProviderName,
+} from "./TunnelProvider.js";
+
+// Mock execa
+vi.mock("execa", () => ({
+	execa: vi.fn(),
+}));
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal("fetch", mockFetch);
+
+describe("TunnelProvider", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("parseTunnelProviderName", () => {
+		it("accepts known provider names case-insensitively", () => {
+			expect(parseTunnelProviderName("ngrok")).toBe("ngrok");
+			expect(parseTunnelProviderName("Cloudflared")).toBe("cloudflared");
+			expect(parseTunnelProviderName(" static ")).toBe("static");
+		});
+
+		it("treats none as an alias for static", () => {
+			expect(parseTunnelProviderName("none")).toBe("static");
+		});
+
+		it("returns undefined for unknown or empty values", () => {
+			expect(parseTunnelProviderName("localtunnel")).toBeUndefined();
+			expect(parseTunnelProviderName("")).toBeUndefined();
+			expect(parseTunnelProviderName(undefined)).toBeUndefined();
+		});
+	});
+
+	describe("resolveTunnelProviderName", () => {
+		it("prefers the explicit provider over .env.docker", () => {
+			expect(
+				resolveTunnelProviderName("static", { TUNNEL_PROVIDER: "cloudflared" }),
+			).toBe("static");
+		});
+
+		it("uses TUNNEL_PROVIDER from .env.docker", () => {
+			expect(
+				resolveTunnelProviderName(undefined, { TUNNEL_PROVIDER: "cloudflared" }),
+			).toBe("cloudflared");
+		});
+
+		it("falls back to ngrok", () => {
+			expect(resolveTunnelProviderName(undefined, {})).toBe("ngrok");
+			expect(
+				resolveTunnelProviderName(undefined, { TUNNEL_PROVIDER: "bogus" }),
+			).toBe("ngrok");
+		});
+	});
+
+	describe("createTunnelProvider", () => {
+		it("creates a static provider from CYRUS_BASE_URL", async () => {
+			const provider = createTunnelProvider("static", {
+				CYRUS_BASE_URL: "https://cyrus.example.com",
+			});
+
+			expect(provider.name).toBe("static");
+			expect(await provider.getUrl()).toBe("https://cyrus.example.com");
+		});
+	});
+
+	describe("NgrokTunnelProvider", () => {
+		it("runs a plain http tunnel by default", () => {
+			const provider = new NgrokTunnelProvider();
+
+			expect(provider.getArgs(3456)).toEqual(["http", "3456"]);
+		});
+
+		it("passes a reserved domain without scheme", () => {
+			const provider = new NgrokTunnelProvider({
+				domain: "https://cyrus.ngrok.app/",
+			});
+
+			expect(provider.getArgs(3456)).toEqual([
+				"http",
+				"3456",
+				"--url=cyrus.ngrok.app",
+			]);
+		});
+
+		it("passes the config file", () => {
+			const provider = new NgrokTunnelProvider({
+				configFile: "/etc/ngrok/cyrus.yml",
+			});
+
+			expect(provider.getArgs(3456)).toContain("--config=/etc/ngrok/cyrus.yml");
+		});
+
+		it("is created from NGROK_DOMAIN in .env.docker", () => {
+			const provider = createTunnelProvider("ngrok", {
+				NGROK_DOMAIN: "cyrus.ngrok.app",
+			}) as NgrokTunnelProvider;
+
+			expect(provider.getArgs(3456)).toContain("--url=cyrus.ngrok.app");
+		});
+
+		it("finds the tunnel for its port among several agents", async () => {
+			const tunnelsFor = (port: number, url: string) => ({
+				ok: true,
+				json: async () => ({
+					tunnels: [
+						{
+							public_url: url,
+							proto: "https",
+							config: { addr: `http://localhost:${port}` },
+						},
+					],
+				}),
+			});
+			mockFetch
+				.mockResolvedValueOnce(tunnelsFor(3456, "https://default.ngrok.io"))
+				.mockResolvedValueOnce(tunnelsFor(3457, "https://work.ngrok.io"));
+
+			const provider = new NgrokTunnelProvider({ port: 3457 });
+
+			expect(await provider.getUrl()).toBe("https://work.ngrok.io");
+			expect(mockFetch).toHaveBeenLastCalledWith(
+				"http://localhost:4041/api/tunnels",
+			);
+		});
+
+		it("stops scanning at the first unreachable agent", async () => {
+			mockFetch.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+			const provider = new NgrokTunnelProvider({ port: 3457 });
+
+			expect(await provider.getUrl()).toBeNull();
+			expect(mockFetch).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("StaticTunnelProvider", () => {
+		it("starts no process", async () => {
+			const provider = new StaticTunnelProvider("https://cyrus.example.com");
+
+			expect(await provider.isInstalled()).toBe(true);
+			expect(await provider.start()).toBeNull();
+		});
+
+		it("throws on start when no URL is configured", async () => {
+			const provider = new StaticTunnelProvider();
+
+			await expect(provider.start()).rejects.toThrow("CYRUS_BASE_URL");
+		});
+	});
+
+	describe("CloudflaredTunnelProvider", () => {
+		it("reads the quick tunnel hostname from the metrics server", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ hostname: "abc-def.trycloudflare.com" }),
+			});
+
+			const provider = new CloudflaredTunnelProvider({ metricsPort: 45678 });
+			const url = await provider.getUrl();
+
+			expect(url).toBe("https://abc-def.trycloudflare.com");
+			expect(mockFetch).toHaveBeenCalledWith(
+				"http://localhost:45678/quicktunnel",
+			);
+		});
+
+		it("returns null while the quick tunnel has no hostname", async () => {
+			mockFetch.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ hostname: "" }),
+			});
+
+			const provider = new CloudflaredTunnelProvider();
+
+			expect(await provider.getUrl()).toBeNull();
+		});
+
+		it("returns the configured hostname for a ready named tunnel", async () => {
+			mockFetch.mockResolvedValueOnce({ ok: true });
+
+			const provider = new CloudflaredTunnelProvider({
+				token: "token",
+				hostnameUrl: "https://cyrus.example.com",
+				metricsPort: 45678,
+			});
+
+			expect(await provider.getUrl()).toBe("https://cyrus.example.com");
+			expect(mockFetch).toHaveBeenCalledWith("http://localhost:45678/ready");
+		});
+
+		it("returns null when cloudflared is not running", async () => {
+			mockFetch.mockRejectedValueOnce(new Error("Connection refused"));
+
+			const provider = new CloudflaredTunnelProvider();
+
+			expect(await provider.getUrl()).toBeNull();
+		});
+
+		it("keeps a named tunnel's token off the command line", () => {
+			const provider = new CloudflaredTunnelProvider({
+				token: "secret-token",
+				hostnameUrl: "https://cyrus.example.com",
+				metricsPort: 45678,
+			});
+
+			expect(provider.getArgs(3456)).toEqual([
+				"tunnel",
+				"--no-autoupdate",
+				"--metrics",
+				"localhost:45678",
+				"run",
+			]);
+		});
+
+		it("offsets the metrics port per host port within range", () => {
+			expect(getCloudflaredMetricsPort(3456)).toBe(45678);
+			expect(getCloudflaredMetricsPort(3457)).toBe(45679);
+			for (const port of [1, 80, 3455, 65535]) {
+				const metricsPort = getCloudflaredMetricsPort(port);
+				expect(metricsPort).toBeGreaterThanOrEqual(45678);
+				expect(metricsPort).toBeLessThanOrEqual(65535);
+			}
+			expect(getCloudflaredMetricsPort(3455)).not.toBe(
+				getCloudflaredMetricsPort(3457),
+			);
+		});
+
+		it("requires a public URL when running a named tunnel", async () => {
+			const provider = new CloudflaredTunnelProvider({ token: "token" });
+
+			await expect(provider.start(3456)).rejects.toThrow("CYRUS_BASE_URL");
+		});
+	});
+});
@@ -0,0 +1,118 @@
+import type { ChildProcess } from "node:child_process";
+import {
+	CLOUDFLARED_METRICS_PORT,
+	DEFAULT_PORT,
+	DEFAULT_TUNNEL_PROVIDER,
+} from "../config/constants.js";
+import type { EnvConfig, TunnelProviderName } from "../config/types.js";
+import { CloudflaredTunnelProvider } from "./CloudflaredTunnelProvider.js";
+import { NgrokTunnelProvider } from "./NgrokTunnelProvider.js";
+import { StaticTunnelProvider } from "./StaticTunnelProvider.js";
+
+/**
+ * A way of exposing the local Cyrus port to Linear
+ */
+export interface TunnelProvider {
+	/** Provider identifier used in config and on the command line */
+	readonly name: TunnelProviderName;
+	/** Human-readable name for log output */
+	readonly displayName: string;
+	/** Where to get the provider's binary (if it needs one) */
+	readonly installUrl?: string;
+
+	/**
+	 * Check if the provider's binary is available
+	 */
+	isInstalled(): Promise<boolean>;
+
+	/**
+	 * Launch the tunnel for the given port
+	 * Returns the spawned process, or null if the provider runs no process
+	 */
+	start(port: number): Promise<ChildProcess | null>;
+
+	/**
+	 * Get the current public URL, or null if the tunnel is not ready
+	 */
+	getUrl(): Promise<string | null>;
+}
+
+/** All supported tunnel provider names */
+export const TUNNEL_PROVIDERS: readonly TunnelProviderName[] = [
+	"ngrok",
+	"cloudflared",
+	"static",
+];
+
+/**
+ * Normalize a provider name from config or the command line
+ * Accepts "none" as an alias for the static provider
+ */
+export function parseTunnelProviderName(
+	value: string | undefined,
+): TunnelProviderName | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "none") {
+		return "static";
+	}
+
+	return TUNNEL_PROVIDERS.find((name) => name === normalized);
+}
+
+/**
+ * Pick the tunnel provider name from an explicit choice or .env.docker
+ * Unknown configured values fall back to the default provider
+ */
+export function resolveTunnelProviderName(
+	explicit: TunnelProviderName | undefined,
+	env: EnvConfig,
+): TunnelProviderName {
+	if (explicit) {
+		return explicit;
+	}
+
+	return parseTunnelProviderName(env.TUNNEL_PROVIDER) ?? DEFAULT_TUNNEL_PROVIDER;
+}
+
+/**
+ * Get the cloudflared metrics port for a host port
+ * Offset like the host port so profiles don't collide, wrapping around
+ * so it stays between CLOUDFLARED_METRICS_PORT and 65535
+ */
+export function getCloudflaredMetricsPort(port: number): number {
+	const range = 65536 - CLOUDFLARED_METRICS_PORT;
+	const offset = (((port - DEFAULT_PORT) % range) + range) % range;
+	return CLOUDFLARED_METRICS_PORT + offset;
+}
+
+/**
+ * Create a tunnel provider configured from .env.docker values
+ * The port is the host port the tunnel forwards to (one per profile)
+ */
+export function createTunnelProvider(
+	name: TunnelProviderName,
+	env: EnvConfig,
+	port: number = DEFAULT_PORT,
+): TunnelProvider {
+	switch (name) {
+		case "ngrok":
+			return new NgrokTunnelProvider({
+				domain: env.NGROK_DOMAIN || undefined,
+				configFile: env.NGROK_CONFIG || undefined,
+				authtoken: env.NGROK_AUTHTOKEN || undefined,
+				port,
+			});
+		case "cloudflared":
+			return new CloudflaredTunnelProvider({
+				token: env.CLOUDFLARED_TUNNEL_TOKEN || undefined,
+				hostnameUrl: env.CYRUS_BASE_URL || undefined,
+				metricsPort: getCloudflaredMetricsPort(port),
+			});
+		case "static":
+			return new StaticTunnelProvider(env.CYRUS_BASE_URL || undefined);
+	}
+}
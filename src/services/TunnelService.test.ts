@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { createMockLogger } from "../test-utils.js";
+import { StaticTunnelProvider } from "./StaticTunnelProvider.js";
 import { TunnelService } from "./TunnelService.js";
 
 // Mock execa
@@ -33,6 +34,15 @@ describe("TunnelService", () => {
 				"ngrok is not installed",
 			);
 		});
+
+		it("returns no PID for providers without a process", async () => {
+			const staticService = new TunnelService(
+				createMockLogger(),
+				new StaticTunnelProvider("https://cyrus.example.com"),
+			);
+
+			await expect(staticService.start(3456)).resolves.toBeUndefined();
+		});
 	});
 
 	describe("waitForUrl", () => {
@@ -284,6 +294,7 @@ describe("TunnelService", () => {
 
 			expect(status.isRunning).toBe(true);
 			expect(status.url).toBe("https://test.ngrok.io");
+			expect(status.provider).toBe("ngrok");
 		});
 
 		it("returns not running when no tunnel exists", async () => {
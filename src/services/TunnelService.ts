@@ -1,73 +1,89 @@
-import { type ChildProcess, spawn } from "node:child_process";
-import { execa } from "execa";
 import {
 	DEFAULT_PORT,
 	NGROK_MAX_RETRIES,
 	NGROK_RETRY_DELAY,
-	NGROK_TUNNELS_API,
 } from "../config/constants.js";
-import type { TunnelStatus } from "../config/types.js";
+import type { TunnelProviderName, TunnelStatus } from "../config/types.js";
 import type { Logger } from "./Logger.js";
+import { NgrokTunnelProvider } from "./NgrokTunnelProvider.js";
+import type { TunnelProvider } from "./TunnelProvider.js";
 
 /**
- * Response from ngrok's local API
- */
-interface NgrokTunnelsResponse {
-	tunnels: Array<{
-		name: string;
-		uri: string;
-		public_url: string;
-		proto: string;
-		config: {
-			addr: string;
-			inspect: boolean;
-		};
-	}>;
-}
-
-/**
- * Manages ngrok tunnel for exposing Cyrus to the internet
+ * Manages the tunnel for exposing Cyrus to the internet
+ * Delegates provider-specific work to a TunnelProvider (ngrok by default)
  */
 export class TunnelService {
-	constructor(private logger: Logger) {}
+	constructor(
+		private logger: Logger,
+		private provider: TunnelProvider = new NgrokTunnelProvider(),
+	) {}
 
 	/**
-	 * Start ngrok tunnel on the specified port
+	 * Get the name of the active tunnel provider
 	 */
-	async start(port: number = DEFAULT_PORT): Promise<ChildProcess> {
-		this.logger.info(`Starting ngrok tunnel on port ${port}...`);
+	getProviderName(): TunnelProviderName {
+		return this.provider.name;
+	}
 
-		// Check if ngrok is installed
-		try {
-			await execa("which", ["ngrok"]);
-		} catch {
+	/**
+	 * Get the human-readable name of the active tunnel provider
+	 */
+	getDisplayName(): string {
+		return this.provider.displayName;
+	}
+
+	/**
+	 * Get the install URL of the active tunnel provider
+	 */
+	getInstallUrl(): string | undefined {
+		return this.provider.installUrl;
+	}
+
+	/**
+	 * Check if the active provider's binary is installed
+	 */
+	async isInstalled(): Promise<boolean> {
+		return this.provider.isInstalled();
+	}
+
+	/**
+	 * Start the tunnel on the specified port
+	 * Returns the PID of the tunnel process, or undefined if the provider runs none
+	 */
+	async start(port: number = DEFAULT_PORT): Promise<number | undefined> {
+		const name = this.provider.displayName;
+		this.logger.info(`Starting ${name} tunnel on port ${port}...`);
+
+		if (!(await this.provider.isInstalled())) {
 			throw new Error(
-				"ngrok is not installed. Install it from https://ngrok.com/download",
+				`${name} is not installed. Install it from ${this.provider.installUrl}`,
 			);
 		}
 
-		// Use native spawn for detached process (execa's Promise behavior can cause issues)
-		const subprocess = spawn("ngrok", ["http", String(port)], {
-			detached: true,
-			stdio: "ignore",
-		});
+		const subprocess = await this.provider.start(port);
+		if (!subprocess) {
+			this.logger.success(`Using ${name} (no tunnel process needed)`);
+			return undefined;
+		}
 
-		// Unref to allow parent process to exit independently
-		subprocess.unref();
+		if (!subprocess.pid) {
+			throw new Error(`Failed to get ${name} process PID`);
+		}
 
-		this.logger.success(`ngrok process started with PID ${subprocess.pid}`);
+		this.logger.success(`${name} process started with PID ${subprocess.pid}`);
 
-		return subprocess;
+		return subprocess.pid;
 	}
 
 	/**
-	 * Wait for ngrok to be ready and return the public URL
+	 * Wait for the tunnel to be ready and return the public URL
 	 */
 	async waitForUrl(
 		maxRetries: number = NGROK_MAX_RETRIES,
 		delay: number = NGROK_RETRY_DELAY,
 	): Promise<string> {
-		this.logger.info("Waiting for ngrok tunnel to be ready...");
+		const name = this.provider.displayName;
+		this.logger.info(`Waiting for ${name} tunnel to be ready...`);
 
 		for (let i = 0; i < maxRetries; i++) {
 			const url = await this.getUrl();
@@ -80,51 +96,30 @@ export class TunnelService {
 		}
 
 		throw new Error(
-			`Timeout waiting for ngrok tunnel after ${maxRetries * delay}ms`,
+			`Timeout waiting for ${name} tunnel after ${maxRetries * delay}ms`,
 		);
 	}
 
 	/**
-	 * Get the current tunnel URL from ngrok's local API
+	 * Get the current public tunnel URL
 	 */
 	async getUrl(): Promise<string | null> {
-		try {
-			const response = await fetch(NGROK_TUNNELS_API);
-			if (!response.ok) {
-				return null;
-			}
-
-			const data = (await response.json()) as NgrokTunnelsResponse;
-
-			// Find HTTPS tunnel
-			const httpsTunnel = data.tunnels.find((t) => t.proto === "https");
-			if (httpsTunnel) {
-				return httpsTunnel.public_url;
-			}
-
-			// Fall back to any tunnel
-			if (data.tunnels.length > 0) {
-				return data.tunnels[0]?.public_url ?? null;
-			}
-
-			return null;
-		} catch {
-			return null;
-		}
+		return this.provider.getUrl();
 	}
 
 	/**
-	 * Stop ngrok tunnel by PID
+	 * Stop the tunnel process by PID
 	 */
 	async stop(pid: number): Promise<void> {
-		this.logger.info(`Stopping ngrok process (PID: ${pid})...`);
+		const name = this.provider.displayName;
+		this.logger.info(`Stopping ${name} process (PID: ${pid})...`);
 
 		try {
 			process.kill(pid, "SIGTERM");
-			this.logger.success("ngrok process stopped");
+			this.logger.success(`${name} process stopped`);
 		} catch (error) {
 			if ((error as NodeJS.ErrnoException).code === "ESRCH") {
-				this.logger.warn("ngrok process was already stopped");
+				this.logger.warn(`${name} process was already stopped`);
 			} else {
 				throw error;
 			}
@@ -139,11 +134,12 @@ export class TunnelService {
 		return {
 			isRunning: url !== null,
 			url: url ?? undefined,
+			provider: this.provider.name,
 		};
 	}
 
 	/**
-	 * Check if ngrok is running by checking its API
+	 * Check if the tunnel is running
 	 */
 	async isRunning(): Promise<boolean> {
 		const status = await this.getStatus();
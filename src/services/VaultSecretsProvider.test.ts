@@ -0,0 +1,90 @@
+import { readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import {
+	VaultSecretsProvider,
+	createVaultKeyFile,
+} from "./VaultSecretsProvider.js";
+
+describe("VaultSecretsProvider", () => {
+	it("encrypts secrets with a passphrase and reads them back", async () => {
+		await withTempDir(async (dir) => {
+			const path = join(dir, "secrets.vault");
+			const options = { path, getPassphrase: async () => "correct horse" };
+			await new VaultSecretsProvider(createMockLogger(), options).write({
+				GITHUB_TOKEN: "ghp_secret",
+			});
+
+			expect(readFileSync(path, "utf-8")).not.toContain("ghp_secret");
+			expect(statSync(path).mode & 0o777).toBe(0o600);
+
+			const vault = new VaultSecretsProvider(createMockLogger(), options);
+			expect(await vault.read()).toEqual({ GITHUB_TOKEN: "ghp_secret" });
+		});
+	});
+
+	it("rejects a wrong passphrase", async () => {
+		await withTempDir(async (dir) => {
+			const path = join(dir, "secrets.vault");
+			await new VaultSecretsProvider(createMockLogger(), {
+				path,
+				getPassphrase: async () => "correct horse",
+			}).write({ GITHUB_TOKEN: "ghp_secret" });
+
+			const vault = new VaultSecretsProvider(createMockLogger(), {
+				path,
+				getPassphrase: async () => "wrong horse",
+			});
+			await expect(vault.read()).rejects.toThrow(
+				`Cannot unlock ${path}: wrong passphrase`,
+			);
+		});
+	});
+
+	it("unlocks with a key file without asking for a passphrase", async () => {
+		await withTempDir(async (dir) => {
+			const path = join(dir, "secrets.vault");
+			const keyFile = join(dir, "secrets.key");
+			createVaultKeyFile(keyFile);
+			const getPassphrase = async (): Promise<string> => {
+				throw new Error("no passphrase expected");
+			};
+
+			await new VaultSecretsProvider(createMockLogger(), {
+				path,
+				keyFile,
+				getPassphrase,
+			}).write({ NGROK_AUTHTOKEN: "token" });
+
+			const vault = new VaultSecretsProvider(createMockLogger(), {
+				path,
+				keyFile,
+				getPassphrase,
+			});
+			expect(await vault.read()).toEqual({ NGROK_AUTHTOKEN: "token" });
+			expect(statSync(keyFile).mode & 0o777).toBe(0o600);
+		});
+	});
+
+	it("lists secret names without unlocking", async () => {
+		await withTempDir(async (dir) => {
+			const path = join(dir, "secrets.vault");
+			await new VaultSecretsProvider(createMockLogger(), {
+				path,
+				getPassphrase: async () => "correct horse",
+			}).write({ LINEAR_CLIENT_SECRET: "b", ANTHROPIC_API_KEY: "a" });
+
+			const vault = new VaultSecretsProvider(createMockLogger(), {
+				path,
+				getPassphrase: async () => {
+					throw new Error("locked");
+				},
+			});
+			expect(await vault.list()).toEqual([
+				"ANTHROPIC_API_KEY",
+				"LINEAR_CLIENT_SECRET",
+			]);
+		});
+	});
+});
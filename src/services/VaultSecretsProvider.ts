@@ -0,0 +1,214 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	scrypt,
+} from "node:crypto";
+import {
+	chmodSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	renameSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import type { EnvConfig, VaultFile } from "../config/types.js";
+import type { Logger } from "./Logger.js";
+import type { SecretsProvider } from "./SecretsProvider.js";
+
+/** AES-256 key length (bytes) */
+const KEY_LENGTH = 32;
+
+/** scrypt cost parameters (N=2^15 takes ~100ms and 32 MiB) */
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+/**
+ * Options for VaultSecretsProvider
+ */
+export interface VaultSecretsProviderOptions {
+	/** Path to the vault file */
+	path: string;
+	/** Key file holding a base64 AES-256 key (instead of a passphrase) */
+	keyFile?: string;
+	/** Ask for the passphrase when there is no key file */
+	getPassphrase: () => Promise<string>;
+}
+
+/**
+ * Create a key file with a random AES-256 key, readable only by the user
+ */
+export function createVaultKeyFile(path: string): void {
+	mkdirSync(dirname(path), { recursive: true });
+	writeFileSync(path, `${randomBytes(KEY_LENGTH).toString("base64")}\n`, {
+		mode: 0o600,
+		flag: "wx",
+	});
+}
+
+/**
+ * Secrets encrypted with AES-256-GCM in a vault file, unlocked by a
+ * passphrase (scrypt) or a key file. Secret names are stored in the
+ * clear so they can be listed without unlocking the vault
+ */
+export class VaultSecretsProvider implements SecretsProvider {
+	readonly name = "vault" as const;
+	readonly displayName = "encrypted vault";
+
+	/** Decrypted secrets, once unlocked */
+	private secrets?: EnvConfig;
+	/** Passphrase, once asked for */
+	private passphrase?: string;
+
+	constructor(
+		private logger: Logger,
+		private options: VaultSecretsProviderOptions,
+	) {}
+
+	/**
+	 * Get the path to the vault file
+	 */
+	getPath(): string {
+		return this.options.path;
+	}
+
+	/**
+	 * Check if the vault file exists
+	 */
+	exists(): boolean {
+		return existsSync(this.options.path);
+	}
+
+	/**
+	 * List the names of the stored secrets without unlocking the vault
+	 */
+	async list(): Promise<string[]> {
+		return this.exists() ? this.readFile().keys : [];
+	}
+
+	/**
+	 * Decrypt the stored secrets
+	 */
+	async read(): Promise<EnvConfig> {
+		if (this.secrets) {
+			return { ...this.secrets };
+		}
+		if (!this.exists()) {
+			throw new Error(
+				`Secrets vault ${this.options.path} not found. Create it with 'cyrus-docker secrets init'`,
+			);
+		}
+
+		const vault = this.readFile();
+		const key = await this.getKey(vault.kdf, Buffer.from(vault.salt, "base64"));
+		let plaintext: string;
+		try {
+			const decipher = createDecipheriv(
+				"aes-256-gcm",
+				key,
+				Buffer.from(vault.iv, "base64"),
+			);
+			decipher.setAuthTag(Buffer.from(vault.tag, "base64"));
+			plaintext = Buffer.concat([
+				decipher.update(Buffer.from(vault.data, "base64")),
+				decipher.final(),
+			]).toString("utf-8");
+		} catch {
+			throw new Error(
+				`Cannot unlock ${this.options.path}: wrong ${vault.kdf === "keyfile" ? "key file" : "passphrase"}`,
+			);
+		}
+
+		this.secrets = JSON.parse(plaintext) as EnvConfig;
+		this.logger.debug(`Unlocked ${this.options.path}`);
+		return { ...this.secrets };
+	}
+
+	/**
+	 * Encrypt and save secrets, replacing the vault's contents
+	 * A new vault uses the key file if configured, else the passphrase
+	 */
+	async write(secrets: EnvConfig): Promise<void> {
+		const kdf = this.options.keyFile ? "keyfile" : "scrypt";
+		const salt = randomBytes(16);
+		const iv = randomBytes(12);
+		const key = await this.getKey(kdf, salt);
+
+		const cipher = createCipheriv("aes-256-gcm", key, iv);
+		const data = Buffer.concat([
+			cipher.update(JSON.stringify(secrets), "utf-8"),
+			cipher.final(),
+		]);
+		const vault: VaultFile = {
+			version: 1,
+			kdf,
+			salt: salt.toString("base64"),
+			iv: iv.toString("base64"),
+			tag: cipher.getAuthTag().toString("base64"),
+			data: data.toString("base64"),
+			keys: Object.keys(secrets).sort(),
+		};
+
+		// Write atomically so a failed write never loses the vault
+		const path = this.options.path;
+		mkdirSync(dirname(path), { recursive: true });
+		const tempPath = `${path}.tmp`;
+		writeFileSync(tempPath, `${JSON.stringify(vault, null, 2)}\n`, {
+			mode: 0o600,
+		});
+		chmodSync(tempPath, 0o600);
+		renameSync(tempPath, path);
+		this.secrets = { ...secrets };
+	}
+
+	/**
+	 * Read and check the vault file
+	 */
+	private readFile(): VaultFile {
+		let vault: VaultFile;
+		try {
+			vault = JSON.parse(readFileSync(this.options.path, "utf-8")) as VaultFile;
+		} catch (error) {
+			throw new Error(`Failed to read ${this.options.path}: ${error}`);
+		}
+		if (vault.version !== 1 || !vault.data || !Array.isArray(vault.keys)) {
+			throw new Error(`${this.options.path} is not a cyrus-docker vault`);
+		}
+		return vault;
+	}
+
+	/**
+	 * Get the encryption key from the key file or passphrase
+	 */
+	private async getKey(kdf: VaultFile["kdf"], salt: Buffer): Promise<Buffer> {
+		if (kdf === "keyfile") {
+			const keyFile = this.options.keyFile;
+			if (!keyFile) {
+				throw new Error(
+					`${this.options.path} is unlocked by a key file; set SECRETS_KEY_FILE in .env.docker`,
+				);
+			}
+			if (!existsSync(keyFile)) {
+				throw new Error(`Key file ${keyFile} not found`);
+			}
+			const key = Buffer.from(readFileSync(keyFile, "utf-8").trim(), "base64");
+			if (key.length !== KEY_LENGTH) {
+				throw new Error(
+					`Key file ${keyFile} must hold a base64 ${KEY_LENGTH}-byte key`,
+				);
+			}
+			return key;
+		}
+
+		this.passphrase ??= await this.options.getPassphrase();
+		if (!this.passphrase) {
+			throw new Error("The vault passphrase must not be empty");
+		}
+		const passphrase = this.passphrase;
+		return new Promise((resolve, reject) => {
+			scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS, (error, key) =>
+				error ? reject(error) : resolve(key),
+			);
+		});
+	}
+}
@@ -0,0 +1,237 @@
+import { join } from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLogger, withTempDir } from "../test-utils.js";
+import type { BackupService } from "./BackupService.js";
+import type { DockerService } from "./DockerService.js";
+import { EventLogService } from "./EventLogService.js";
+import { StateService } from "./StateService.js";
+import type { TunnelService } from "./TunnelService.js";
+import {
+	type WatchdogBackupSchedule,
+	WatchdogService,
+} from "./WatchdogService.js";
+
+/**
+ * Create a tunnel mock with a live process and fixed URL
+ */
+function createMockTunnel(url: string | null, processRunning = true) {
+	return {
+		isProcessRunning: vi.fn(() => processRunning),
+		start: vi.fn(async () => 2222),
+		waitForUrl: vi.fn(async () => url),
+		getUrl: vi.fn(async () => url),
+		stop: vi.fn(async () => {}),
+	};
+}
+
+/**
+ * Create a docker mock with a running container
+ */
+function createMockDocker(running = true) {
+	return {
+		getStatus: vi.fn(async () => ({ running, health: "healthy" })),
+		updateEnvValue: vi.fn(),
+		down: vi.fn(async () => {}),
+		up: vi.fn(async () => {}),
+	};
+}
+
+/**
+ * Build a watchdog over real state and event log files in dir
+ */
+function createWatchdog(
+	dir: string,
+	tunnel: ReturnType<typeof createMockTunnel>,
+	docker: ReturnType<typeof createMockDocker>,
+	backup: WatchdogBackupSchedule | null = null,
+) {
+	const logger = createMockLogger();
+	const state = new StateService(logger, {
+		configDir: dir,
+		stateFile: join(dir, "state.json"),
+	});
+	const events = new EventLogService(logger, {
+		eventsFile: join(dir, "events.log"),
+	});
+	const watchdog = new WatchdogService(
+		logger,
+		tunnel as unknown as TunnelService,
+		docker as unknown as DockerService,
+		state,
+		events,
+		null,
+		backup,
+	);
+	return { state, events, watchdog };
+}
+
+describe("WatchdogService", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("does nothing when Cyrus is not running", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel("https://a.ngrok.io");
+			const docker = createMockDocker();
+			const { watchdog } = createWatchdog(dir, tunnel, docker);
+
+			const recorded = await watchdog.check();
+
+			expect(recorded).toEqual([]);
+			expect(tunnel.getUrl).not.toHaveBeenCalled();
+		});
+	});
+
+	it("records nothing when tunnel and container are healthy", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel("https://a.ngrok.io");
+			const docker = createMockDocker();
+			const { state, events, watchdog } = createWatchdog(dir, tunnel, docker);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const recorded = await watchdog.check();
+
+			expect(recorded).toEqual([]);
+			expect(events.readRecent()).toEqual([]);
+			expect(docker.down).not.toHaveBeenCalled();
+		});
+	});
+
+	it("restarts a dead tunnel and propagates the new URL", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel("https://b.ngrok.io", false);
+			const docker = createMockDocker();
+			const { state, events, watchdog } = createWatchdog(dir, tunnel, docker);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const recorded = await watchdog.check(3456);
+
+			expect(recorded.map((e) => e.type)).toEqual([
+				"tunnel_died",
+				"tunnel_restarted",
+				"url_changed",
+				"container_restarted",
+			]);
+			expect(tunnel.start).toHaveBeenCalledWith(3456);
+			expect(state.getNgrokPid()).toBe(2222);
+			expect(state.getTunnelUrl()).toBe("https://b.ngrok.io");
+			expect(docker.updateEnvValue).toHaveBeenCalledWith(
+				"CYRUS_BASE_URL",
+				"https://b.ngrok.io",
+			);
+			expect(docker.down).toHaveBeenCalled();
+			expect(docker.up).toHaveBeenCalled();
+			expect(events.readRecent()).toHaveLength(4);
+		});
+	});
+
+	it("records a failed tunnel restart and skips the rest", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel(null, false);
+			tunnel.start.mockRejectedValueOnce(new Error("ngrok is not installed"));
+			const docker = createMockDocker();
+			const { state, watchdog } = createWatchdog(dir, tunnel, docker);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const recorded = await watchdog.check();
+
+			expect(recorded.map((e) => e.type)).toEqual([
+				"tunnel_died",
+				"tunnel_restart_failed",
+			]);
+			expect(docker.up).not.toHaveBeenCalled();
+		});
+	});
+
+	it("stops a restarted tunnel that never reports a URL", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel(null, false);
+			tunnel.waitForUrl.mockRejectedValueOnce(
+				new Error("Timeout waiting for ngrok tunnel"),
+			);
+			const docker = createMockDocker();
+			const { state, watchdog } = createWatchdog(dir, tunnel, docker);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const recorded = await watchdog.check();
+
+			expect(recorded.map((e) => e.type)).toEqual([
+				"tunnel_died",
+				"tunnel_restart_failed",
+			]);
+			expect(tunnel.stop).toHaveBeenCalledWith(2222);
+			expect(state.getNgrokPid()).toBe(1111);
+		});
+	});
+
+	it("stops supervising once Cyrus is stopped from another process", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel("https://a.ngrok.io", false);
+			const docker = createMockDocker(false);
+			const { state, watchdog } = createWatchdog(dir, tunnel, docker);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			// `cyrus-docker stop` in another shell writes its own state
+			new StateService(createMockLogger(), {
+				configDir: dir,
+				stateFile: join(dir, "state.json"),
+			}).setStopped();
+			const recorded = await watchdog.check();
+
+			expect(recorded).toEqual([]);
+			expect(tunnel.start).not.toHaveBeenCalled();
+			expect(docker.down).not.toHaveBeenCalled();
+			expect(state.isRunning()).toBe(false);
+		});
+	});
+
+	it("restarts a stopped container", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel("https://a.ngrok.io");
+			const docker = createMockDocker(false);
+			const { state, watchdog } = createWatchdog(dir, tunnel, docker);
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const recorded = await watchdog.check();
+
+			expect(recorded.map((e) => e.type)).toEqual([
+				"container_down",
+				"container_restarted",
+			]);
+			expect(docker.updateEnvValue).not.toHaveBeenCalled();
+		});
+	});
+
+	it("takes a scheduled backup when one is due and prunes old ones", async () => {
+		await withTempDir(async (dir) => {
+			const tunnel = createMockTunnel("https://a.ngrok.io");
+			const docker = createMockDocker();
+			const service = {
+				isDue: vi.fn(() => true),
+				create: vi.fn(async () => ({
+					name: "cyrus-default-20260101-000000.tgz",
+					size: 1024,
+				})),
+				prune: vi.fn(() => []),
+			};
+			const { state, watchdog } = createWatchdog(dir, tunnel, docker, {
+				service: service as unknown as BackupService,
+				intervalHours: 24,
+				keep: 3,
+				exclude: ["repos"],
+			});
+			state.setRunning(1111, "https://a.ngrok.io", "/docker");
+
+			const recorded = await watchdog.check();
+
+			expect(recorded.map((e) => e.type)).toEqual(["backup_created"]);
+			expect(service.isDue).toHaveBeenCalledWith(24);
+			expect(service.create).toHaveBeenCalledWith({
+				exclude: ["repos"],
+				pause: true,
+			});
+			expect(service.prune).toHaveBeenCalledWith(3);
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import { DEFAULT_PORT } from "../config/constants.js";
+import type { WatchdogEvent } from "../config/types.js";
+import type { BackupService } from "./BackupService.js";
+import type { DockerService } from "./DockerService.js";
+import type { EventLogService } from "./EventLogService.js";
+import type { LinearService } from "./LinearService.js";
+import type { Logger } from "./Logger.js";
+import type { StateService } from "./StateService.js";
+import type { TunnelService } from "./TunnelService.js";
+
+/**
+ * Scheduled backups run by the watchdog
+ */
+export interface WatchdogBackupSchedule {
+	service: BackupService;
+	/** Hours between backups */
+	intervalHours: number;
+	/** Number of newest backups to keep */
+	keep: number;
+	/** Top-level data directories to leave out */
+	exclude: string[];
+}
+
+/**
+ * Supervises a running Cyrus instance: restarts a dead tunnel process,
+ * propagates tunnel URL changes to CYRUS_BASE_URL and restarts the
+ * container so it picks them up (and the Linear OAuth app, if URL sync is
+ * enabled), and takes scheduled backups. Every change is recorded in the
+ * event log.
+ */
+export class WatchdogService {
+	constructor(
+		private logger: Logger,
+		private tunnel: TunnelService,
+		private docker: DockerService,
+		private state: StateService,
+		private events: EventLogService,
+		private linear: LinearService | null = null,
+		private backup: WatchdogBackupSchedule | null = null,
+	) {}
+
+	/**
+	 * Run a single supervision pass
+	 * Returns the events recorded during this pass
+	 */
+	async check(port: number = DEFAULT_PORT): Promise<WatchdogEvent[]> {
+		const recorded: WatchdogEvent[] = [];
+		const record = (...args: Parameters<EventLogService["record"]>) => {
+			const event = this.events.record(...args);
+			recorded.push(event);
+			this.logger.info(event.message);
+		};
+
+		// Nothing to supervise if Cyrus was not started (or was stopped)
+		// State is re-read since stop runs in another process
+		this.state.reload();
+		if (!this.state.isRunning()) {
+			this.logger.debug("Cyrus is not running, nothing to watch");
+			return recorded;
+		}
+
+		// Step 1: Restart the tunnel process if it died
+		const pid = this.state.getNgrokPid();
+		if (pid && !this.tunnel.isProcessRunning(pid)) {
+			record("tunnel_died", `Tunnel process ${pid} is gone`, { pid });
+
+			let newPid: number | undefined;
+			try {
+				newPid = await this.tunnel.start(port);
+				await this.tunnel.waitForUrl();
+				this.state.update({ ngrokPid: newPid });
+				record("tunnel_restarted", `Tunnel restarted with PID ${newPid}`, {
+					pid: newPid,
+				});
+			} catch (error) {
+				// A process that never came up is not in the state, so the next
+				// pass would start another one next to it
+				if (newPid) {
+					try {
+						await this.tunnel.stop(newPid);
+					} catch (stopError) {
+						this.logger.warn(
+							`Failed to stop tunnel process ${newPid}: ${stopError}`,
+						);
+					}
+				}
+				record("tunnel_restart_failed", `Failed to restart tunnel: ${error}`, {
+					error: String(error),
+				});
+				return recorded;
+			}
+		}
+
+		// Step 2: Propagate URL changes to the container
+		const url = await this.tunnel.getUrl();
+		const previousUrl = this.state.getTunnelUrl();
+		let restartContainer = false;
+
+		if (url && url !== previousUrl) {
+			record("url_changed", `Tunnel URL changed to ${url}`, {
+				from: previousUrl,
+				to: url,
+			});
+			this.docker.updateEnvValue("CYRUS_BASE_URL", url);
+			this.state.update({ tunnelUrl: url, lastTunnelUrl: url });
+			restartContainer = true;
+
+			if (this.linear) {
+				const result = await this.linear.syncUrls(url);
+				this.state.update({ linearSync: result });
+				if (result.ok) {
+					record("linear_synced", "Linear OAuth app URLs updated", { url });
+				} else {
+					record(
+						"linear_sync_failed",
+						`Linear OAuth app update failed: ${result.error}`,
+						{ url, error: result.error },
+					);
+				}
+			}
+		}
+
+		// Step 3: Bring back a container that stopped
+		const containerStatus = await this.docker.getStatus();
+		if (!containerStatus.running) {
+			record("container_down", "Container is not running");
+			restartContainer = true;
+		}
+
+		if (restartContainer) {
+			try {
+				await this.docker.down();
+				await this.docker.up();
+				record("container_restarted", "Container restarted", {
+					url: url ?? undefined,
+				});
+			} catch (error) {
+				record(
+					"container_restart_failed",
+					`Failed to restart container: ${error}`,
+					{ error: String(error) },
+				);
+			}
+		}
+
+		// Step 4: Take a scheduled backup if one is due
+		if (this.backup?.service.isDue(this.backup.intervalHours)) {
+			const { service, keep, exclude } = this.backup;
+			try {
+				const backup = await service.create({ exclude, pause: true });
+				record("backup_created", `Backup ${backup.name} created`, {
+					name: backup.name,
+					size: backup.size,
+				});
+				for (const old of service.prune(keep)) {
+					this.logger.info(`Removed old backup ${old.name}`);
+				}
+			} catch (error) {
+				record("backup_failed", `Backup failed: ${error}`, {
+					error: String(error),
+				});
+			}
+		}
+
+		return recorded;
+	}
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatDotenvValue,
+	parseDotenv,
+	parseDotenvLines,
+	updateDotenv,
+} from "./dotenv.js";
+
+describe("dotenv", () => {
+	describe("parseDotenv", () => {
+		it("reads quotes, export prefixes and inline comments like Compose", () => {
+			const values = parseDotenv(
+				[
+					"export GIT_USER_NAME=Jane Doe  # shown in commits",
+					"URL=https://example.com/#anchor",
+					"SINGLE='literal $HOME \\n'",
+					'DOUBLE="tab\\there \\"quoted\\" # not a comment" # comment',
+					"PRICE=$$5",
+					"EMPTY=",
+					"FROM_ENV",
+				].join("\n"),
+			);
+
+			expect(values).toEqual({
+				GIT_USER_NAME: "Jane Doe",
+				URL: "https://example.com/#anchor",
+				SINGLE: "literal $HOME \\n",
+				DOUBLE: 'tab\there "quoted" # not a comment',
+				PRICE: "$5",
+				EMPTY: "",
+			});
+		});
+
+		it("reads quoted values spanning several lines", () => {
+			const content = 'KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nNEXT=1\n';
+
+			expect(parseDotenv(content)).toEqual({
+				KEY: "-----BEGIN KEY-----\nabc\n-----END KEY-----",
+				NEXT: "1",
+			});
+			expect(parseDotenvLines(content)).toHaveLength(2);
+		});
+
+		it("reports malformed lines with their line number", () => {
+			expect(() => parseDotenv("A=1\nB='open\n")).toThrow(
+				"Line 2: unterminated quoted value for B",
+			);
+			expect(() => parseDotenv("A=1\n\nnot a variable\n")).toThrow(
+				"Line 3: expected KEY=value",
+			);
+			expect(() => parseDotenv('A="x" y\n')).toThrow(
+				"Line 1: unexpected text after the quoted value for A",
+			);
+		});
+	});
+
+	describe("updateDotenv", () => {
+		const CONTENT = [
+			"# Credentials",
+			"ANTHROPIC_API_KEY=old # rotated monthly",
+			"# CLAUDE_CODE_OAUTH_TOKEN=",
+			"",
+			"MY_EXTRA=keep me",
+			"GITHUB_TOKEN=ghp_1",
+			"",
+		].join("\n");
+
+		it("leaves content unchanged without changes", () => {
+			expect(updateDotenv(CONTENT, {})).toBe(CONTENT);
+			expect(updateDotenv(CONTENT, { GITHUB_TOKEN: undefined })).toBe(CONTENT);
+		});
+
+		it("rewrites changed keys in place and keeps everything else", () => {
+			const updated = updateDotenv(CONTENT, {
+				ANTHROPIC_API_KEY: "sk-ant-new",
+				CLAUDE_CODE_OAUTH_TOKEN: "token",
+				CYRUS_BASE_URL: "https://abc.ngrok.app",
+			});
+
+			expect(updated).toBe(
+				[
+					"# Credentials",
+					"ANTHROPIC_API_KEY=sk-ant-new",
+					"CLAUDE_CODE_OAUTH_TOKEN=token",
+					"",
+					"MY_EXTRA=keep me",
+					"GITHUB_TOKEN=ghp_1",
+					"CYRUS_BASE_URL=https://abc.ngrok.app",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("clears a value with an empty string and removes it with null", () => {
+			const updated = updateDotenv(CONTENT, {
+				GITHUB_TOKEN: "",
+				ANTHROPIC_API_KEY: null,
+				CLAUDE_CODE_OAUTH_TOKEN: null,
+			});
+
+			expect(parseDotenv(updated)).toEqual({
+				MY_EXTRA: "keep me",
+				GITHUB_TOKEN: "",
+			});
+			expect(updated).toContain("# CLAUDE_CODE_OAUTH_TOKEN=\n");
+		});
+
+		it("drops later duplicates of a changed key", () => {
+			expect(updateDotenv("A=1\nB=2\nA=3\n", { A: "4" })).toBe("A=4\nB=2\n");
+		});
+
+		it("round-trips values that need quoting", () => {
+			const values = {
+				PLAIN: "abc-123",
+				SPACES: "Jane Doe",
+				HASH: "a #b",
+				DOLLAR: "pa$$word",
+				QUOTES: `it's "quoted"`,
+				BACKSLASH: "C:\\path\\",
+				MULTILINE: "line 1\nline 2\r\n",
+				EMPTY: "",
+			};
+
+			expect(parseDotenv(updateDotenv("", values))).toEqual(values);
+			expect(formatDotenvValue("abc-123")).toBe("abc-123");
+			expect(formatDotenvValue("Jane Doe")).toBe("'Jane Doe'");
+			expect(formatDotenvValue('say "$1"\n')).toBe('"say \\"$$1\\"\\n"');
+		});
+	});
+});
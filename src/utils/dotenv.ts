@@ -0,0 +1,242 @@
+/**
+ * Reading and editing .env files the way Docker Compose reads env_file:
+ *
+ * - KEY=value, optionally prefixed with "export "
+ * - unquoted values are trimmed, and " #" starts an inline comment
+ * - 'single quoted' values are literal
+ * - "double quoted" values expand \n, \r, \t, \" and \\
+ * - quoted values may span several lines
+ * - $$ stands for a literal $ outside single quotes
+ *
+ * Variable references such as ${HOME} are kept as written; Compose
+ * expands them when it reads the file.
+ */
+
+/**
+ * One logical line of a dotenv file
+ * A quoted value with newlines makes an assignment span several
+ * physical lines
+ */
+export interface DotenvLine {
+	/** Source text, without the final newline */
+	raw: string;
+	/** Variable name, for assignments and bare KEY lines */
+	key?: string;
+	/** Parsed value (undefined for a bare KEY line, which Compose takes from the environment) */
+	value?: string;
+}
+
+/**
+ * Changes to dotenv content: a string sets a value (an empty string
+ * clears it), null removes the key and undefined leaves it alone
+ */
+export type DotenvChanges = Record<string, string | null | undefined>;
+
+const ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*(=?)(.*)$/;
+const PLACEHOLDER_PATTERN = /^\s*#\s*([A-Za-z_][A-Za-z0-9_.-]*)=/;
+const UNQUOTED_SAFE_PATTERN = /^[A-Za-z0-9_@%+,./:=-]*$/;
+
+/**
+ * Split dotenv content into logical lines
+ * Throws on a line that is not an assignment, comment or blank
+ */
+export function parseDotenvLines(content: string): DotenvLine[] {
+	const physical = content.split(/\r?\n/);
+	if (physical[physical.length - 1] === "") {
+		physical.pop();
+	}
+
+	const lines: DotenvLine[] = [];
+	for (let index = 0; index < physical.length; index++) {
+		const lineNumber = index + 1;
+		let raw = physical[index] ?? "";
+		const trimmed = raw.trim();
+		if (!trimmed || trimmed.startsWith("#")) {
+			lines.push({ raw });
+			continue;
+		}
+
+		const match = ASSIGNMENT_PATTERN.exec(raw);
+		if (!match) {
+			throw new Error(`Line ${lineNumber}: expected KEY=value`);
+		}
+		const [, key = "", equals, rest = ""] = match;
+		if (!equals) {
+			if (rest.trim() && !rest.trim().startsWith("#")) {
+				throw new Error(`Line ${lineNumber}: expected KEY=value`);
+			}
+			lines.push({ raw, key });
+			continue;
+		}
+
+		let valueSource = rest.trimStart();
+		const quote = valueSource[0];
+		if (quote !== '"' && quote !== "'") {
+			lines.push({ raw, key, value: parseUnquoted(rest) });
+			continue;
+		}
+
+		// Read on until the closing quote
+		let end = findClosingQuote(valueSource, quote);
+		while (end < 0) {
+			index++;
+			if (index >= physical.length) {
+				throw new Error(
+					`Line ${lineNumber}: unterminated quoted value for ${key}`,
+				);
+			}
+			raw += `\n${physical[index]}`;
+			valueSource += `\n${physical[index]}`;
+			end = findClosingQuote(valueSource, quote);
+		}
+
+		const trailing = valueSource.slice(end + 1).trim();
+		if (trailing && !trailing.startsWith("#")) {
+			throw new Error(
+				`Line ${lineNumber}: unexpected text after the quoted value for ${key}`,
+			);
+		}
+		const quoted = valueSource.slice(1, end);
+		lines.push({
+			raw,
+			key,
+			value: quote === "'" ? quoted : unescapeDoubleQuoted(quoted),
+		});
+	}
+	return lines;
+}
+
+/**
+ * Parse dotenv content into its variables
+ * A key assigned twice takes the last value, as in Compose
+ */
+export function parseDotenv(content: string): Record<string, string> {
+	const values: Record<string, string> = {};
+	for (const line of parseDotenvLines(content)) {
+		if (line.key && line.value !== undefined) {
+			values[line.key] = line.value;
+		}
+	}
+	return values;
+}
+
+/**
+ * Apply changes to dotenv content, keeping comments, order, other keys
+ * and unchanged lines as written
+ * A changed key is rewritten in place (its later duplicates dropped).
+ * A new key replaces a commented-out "# KEY=" placeholder, as in
+ * .env.docker.example, or is appended
+ */
+export function updateDotenv(content: string, changes: DotenvChanges): string {
+	const lines = parseDotenvLines(content);
+	const assigned = new Set(lines.flatMap((line) => (line.key ? [line.key] : [])));
+	const written = new Set<string>();
+	const output: string[] = [];
+
+	for (const line of lines) {
+		const key = line.key ?? PLACEHOLDER_PATTERN.exec(line.raw)?.[1];
+		const value = key === undefined ? undefined : changes[key];
+		if (key === undefined || value === undefined) {
+			output.push(line.raw);
+			continue;
+		}
+
+		if (line.key) {
+			if (value !== null && !written.has(key)) {
+				output.push(formatDotenvLine(key, value));
+				written.add(key);
+			}
+		} else if (value !== null && !assigned.has(key) && !written.has(key)) {
+			output.push(formatDotenvLine(key, value));
+			written.add(key);
+		} else {
+			output.push(line.raw);
+		}
+	}
+
+	for (const [key, value] of Object.entries(changes)) {
+		if (typeof value === "string" && !written.has(key)) {
+			output.push(formatDotenvLine(key, value));
+		}
+	}
+
+	return output.length > 0 ? `${output.join("\n")}\n` : "";
+}
+
+/**
+ * Format a KEY=value line that Compose reads back as the same value
+ */
+export function formatDotenvLine(key: string, value: string): string {
+	return `${key}=${formatDotenvValue(value)}`;
+}
+
+/**
+ * Quote a value only as much as it needs: plain values stay unquoted,
+ * others are single quoted (literal), and values with quotes, newlines
+ * or backslashes are double quoted with escapes
+ */
+export function formatDotenvValue(value: string): string {
+	if (UNQUOTED_SAFE_PATTERN.test(value)) {
+		return value;
+	}
+	if (!/['\\\r\n]/.test(value)) {
+		return `'${value}'`;
+	}
+	const escaped = value
+		.replace(/[\\"]/g, "\\$&")
+		.replace(/\n/g, "\\n")
+		.replace(/\r/g, "\\r")
+		.replace(/\$/g, "$$$$");
+	return `"${escaped}"`;
+}
+
+/**
+ * Find the closing quote of a value starting with one, skipping
+ * backslash-escaped quotes; -1 if the value continues on the next line
+ */
+function findClosingQuote(source: string, quote: string): number {
+	for (let index = 1; index < source.length; index++) {
+		if (quote === '"' && source[index] === "\\") {
+			index++;
+		} else if (
+			source[index] === quote &&
+			(quote === '"' || source[index - 1] !== "\\")
+		) {
+			return index;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Parse an unquoted value: drop an inline comment and surrounding space
+ */
+function parseUnquoted(source: string): string {
+	return source
+		.replace(/\s#.*$/, "")
+		.trim()
+		.replace(/\$\$/g, "$");
+}
+
+/**
+ * Expand the escapes of a double-quoted value
+ */
+function unescapeDoubleQuoted(source: string): string {
+	return source.replace(/\\([\s\S])|\$\$/g, (match, escaped?: string) => {
+		switch (escaped) {
+			case undefined:
+				return "$";
+			case "n":
+				return "\n";
+			case "r":
+				return "\r";
+			case "t":
+				return "\t";
+			case '"':
+			case "\\":
+				return escaped;
+			default:
+				return match;
+		}
+	});
+}
@@ -0,0 +1,27 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal values
+ * always produce the same string
+ */
+export function canonicalJson(value: unknown): string {
+	return JSON.stringify(value, (_key, item: unknown) => {
+		if (item && typeof item === "object" && !Array.isArray(item)) {
+			return Object.fromEntries(
+				Object.entries(item).sort(([a], [b]) => a.localeCompare(b)),
+			);
+		}
+		return item;
+	});
+}
+
+/**
+ * Short SHA256 hex digest over one or more parts
+ */
+export function shortHash(...parts: Array<string | Buffer>): string {
+	const hash = createHash("sha256");
+	for (const part of parts) {
+		hash.update(part);
+	}
+	return hash.digest("hex").slice(0, 16);
+}
@@ -0,0 +1,19 @@
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+
+/**
+ * Expand a leading ~ to the user's home directory
+ * Relative paths are resolved against baseDir (defaults to the cwd)
+ */
+export function expandHomePath(path: string, baseDir?: string): string {
+	if (path === "~") {
+		return homedir();
+	}
+	if (path.startsWith("~/")) {
+		return join(homedir(), path.slice(2));
+	}
+	if (isAbsolute(path)) {
+		return path;
+	}
+	return baseDir ? resolve(baseDir, path) : resolve(path);
+}
@@ -0,0 +1,17 @@
+/**
+ * Compare two dotted version numbers (prerelease suffixes are ignored)
+ * Returns a negative number, zero or a positive number like a sort compare
+ */
+export function compareVersions(a: string, b: string): number {
+	const parts = (version: string) =>
+		version.split("-")[0]?.split(".").map((part) => Number(part) || 0) ?? [];
+	const left = parts(a);
+	const right = parts(b);
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		const diff = (left[i] ?? 0) - (right[i] ?? 0);
+		if (diff !== 0) {
+			return diff;
+		}
+	}
+	return 0;
+}
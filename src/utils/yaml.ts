@@ -0,0 +1,23 @@
+import { parseDocument, visit } from "yaml";
+
+/**
+ * Parse YAML, keeping numbers as written
+ * Versions like 1.20 would otherwise be read as the number 1.2
+ */
+export function parseYamlKeepingNumbers(content: string): unknown {
+	const doc = parseDocument(content);
+	const [error] = doc.errors;
+	if (error) {
+		throw error;
+	}
+
+	visit(doc, {
+		Scalar(_key, node) {
+			if (typeof node.value === "number" && node.source) {
+				node.value = node.source;
+			}
+		},
+	});
+
+	return doc.toJS();
+}